@@ -98,5 +98,26 @@ describe('CLI', () => {
       expect(values.schedule).toBe('0 2 * * *');
       expect(positionals[0]).toBe('/source');
     });
+
+    it('should parse restore command options', () => {
+      const args = [
+        'restore',
+        '--target=/Backups/Photos',
+        '--to=/mnt/restore'
+      ];
+
+      const { values, positionals } = parseArgs({
+        args: args,
+        options: {
+          target: { type: 'string' },
+          to: { type: 'string' }
+        },
+        allowPositionals: true
+      });
+
+      expect(positionals[0]).toBe('restore');
+      expect(values.target).toBe('/Backups/Photos');
+      expect(values.to).toBe('/mnt/restore');
+    });
   });
 });
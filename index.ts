@@ -9,37 +9,93 @@ import { parseArgs } from "node:util";
 import chalk from "chalk";
 
 // Import the syncFiles function
-import { syncFiles, SyncOptions } from "./src/file-sync";
+import { syncFiles, SyncOptions, OutputFormat, OUTPUT_FORMATS, getVerbosity, cancelOnSignals, BackupCancelledError, EXIT_CANCELLED } from "./src/file-sync";
+import { restoreFiles } from "./src/file-restore";
+import { watchFiles, DEFAULT_STABLE_SECONDS } from "./src/file-watch";
+import { RunLockError } from "./src/core/state/run-lock";
+import { pruneSnapshots } from "./src/file-prune";
+import { RetentionPolicy, hasRetentionRules, parseKeepCount } from "./src/core/snapshot/retention";
 import { BackupScheduler } from "./src/core/scheduler/scheduler";
+import { STORAGE_BACKEND_TYPES, isStorageBackendType } from "./src/core/storage/create-backend";
+import {
+  CompressionMode,
+  CompressionRule,
+  COMPRESSION_MODES,
+  isCompressionMode,
+  parseCompressionRule
+} from "./src/core/compression/compression-service";
+import { loadConfig, getJob, toBackupConfig, findConfigFile } from "./src/core/config/config-file";
+import { ControlServer, parseListenAddress } from "./src/core/api/control-server";
+import { setOutputStream } from "./src/utils/logger";
 
 // Get version from package.json using Bun's built-in functionality
 const packageJson = await Bun.file("package.json").json();
 const VERSION = packageJson.version || "unknown";
 
+// Environment variable holding the encryption passphrase (kept off the command line)
+const PASSPHRASE_ENV = "INTERNXT_BACKUP_PASSPHRASE";
+
+// Subcommands accepted as the first positional argument
+const COMMANDS = new Set(["restore", "prune", "run", "daemon"]);
+
 // Parse command line arguments
 function parse() {
   const { values, positionals } = parseArgs({
-    args: Bun.argv.slice(2),
+    // A bare --compress keeps meaning gzip
+    args: Bun.argv.slice(2).map(arg => (arg === "--compress" ? "--compress=gzip" : arg)),
     options: {
       // Core options
       "source": { type: "string" },
       "target": { type: "string" },
+      "backend": { type: "string" },
       "cores": { type: "string" },
-      "compress": { type: "boolean" },
+      "compress": { type: "string" },
       "compression-level": { type: "string" },
+      "compress-rule": { type: "string", multiple: true },
+      "compress-min-saving": { type: "string" },
+      "compress-min-saving-bytes": { type: "string" },
+      "encrypt": { type: "boolean" },
+      "encryption-key-file": { type: "string" },
 
       // Scheduling
       "schedule": { type: "string" },
       "daemon": { type: "boolean" },
+      "api": { type: "string" },
+      "watch": { type: "boolean" },
+      "watch-stable": { type: "string" },
+      "wait-lock": { type: "boolean" },
 
       // Behavior
       "force": { type: "boolean" },
+      "checksum": { type: "boolean" },
       "resume": { type: "boolean" },
       "chunk-size": { type: "string" },
+      "mirror": { type: "boolean" },
+      "snapshots": { type: "boolean" },
+      "max-deletions": { type: "string" },
+      "dry-run": { type: "boolean" },
+      "state-dir": { type: "string" },
+      "temp-dir": { type: "string" },
+      "config": { type: "string" },
+
+      // Filtering
+      "include": { type: "string", multiple: true },
+      "exclude": { type: "string", multiple: true },
+
+      // Restore
+      "to": { type: "string" },
+      "snapshot": { type: "string" },
+
+      // Retention
+      "keep-daily": { type: "string" },
+      "keep-weekly": { type: "string" },
+      "keep-monthly": { type: "string" },
 
       // Output
       "quiet": { type: "boolean" },
       "verbose": { type: "boolean" },
+      "report": { type: "string" },
+      "output": { type: "string" },
 
       // Help
       "help": { type: "boolean", short: "h" },
@@ -48,32 +104,108 @@ function parse() {
     allowPositionals: true
   });
 
+  const command = COMMANDS.has(positionals[0]) ? positionals.shift() : undefined;
+
   return {
     ...values,
+    command,
+    jobNames: positionals,
     sourceDir: positionals[0] || values.source
   };
 }
 
+// Build the retention policy from the --keep-* options
+function parseRetention(args: ReturnType<typeof parse>): RetentionPolicy {
+  return {
+    keepDaily: parseKeepCount("--keep-daily", args["keep-daily"]),
+    keepWeekly: parseKeepCount("--keep-weekly", args["keep-weekly"]),
+    keepMonthly: parseKeepCount("--keep-monthly", args["keep-monthly"])
+  };
+}
+
+// Split a --compress-rule value at its last "=", e.g. "logs/*.txt=zstd:19"
+function parseCompressRuleOption(option: string): CompressionRule {
+  const separator = option.lastIndexOf("=");
+  if (separator <= 0) {
+    throw new Error(`--compress-rule must look like <pattern>=<codec[:level]|never>, got "${option}"`);
+  }
+  return parseCompressionRule(option.slice(0, separator), option.slice(separator + 1));
+}
+
+// Serve the control API of a daemon when an address is given
+async function startControlServer(scheduler: BackupScheduler, address?: string) {
+  if (address) {
+    await new ControlServer(scheduler).start(parseListenAddress(address));
+  }
+}
+
 // Display help information
 function showHelp() {
   console.log(`
 ${chalk.bold(`Internxt Backup v${VERSION} - A simple CLI for backing up files to Internxt Drive`)}
 
 ${chalk.bold(`Usage: internxt-backup <source-dir> [options]`)})
+${chalk.bold(`       internxt-backup restore --target=<path> --to=<dir> [options]`)}
+${chalk.bold(`       internxt-backup prune --target=<path> --keep-daily=<n> [options]`)}
+${chalk.bold(`       internxt-backup run <job> [--config=<path>] [options]`)}
+${chalk.bold(`       internxt-backup daemon [job...] [--config=<path>] [options]`)}
+
+${chalk.bold("Commands:")}
+  restore                 Download a backup from Internxt Drive to a local directory
+  prune                   Delete snapshots outside the retention policy
+  run <job>               Run a backup job from the config file once
+  daemon [job...]         Run the scheduled jobs from the config file (default: all)
 
 ${chalk.bold("Options:")}
   --source=<path>         Source directory to backup (can also be positional)
-  --target=<path>         Target folder in Internxt Drive (default: root)
+  --target=<path>         Target folder in Internxt Drive (default: root),
+                          or a directory on disk with --backend=local
+  --backend=<name>        Storage backend: internxt or local (default: internxt)
   --cores=<number>        Number of concurrent uploads (default: 2/3 of CPU cores)
-  --compress              Enable gzip compression before upload
-  --compression-level=<1-9> Compression level 1-9 (default: 6)
+  --compress[=<codec>]    Compress files before upload: gzip, zstd, brotli or auto
+                          (default: gzip; auto samples each file and picks zstd or nothing)
+  --compression-level=<n> Compression level, clamped to the codec's range
+                          (gzip 1-9, default 6; zstd 1-19, default 3; brotli 1-11, default 5)
+  --compress-rule=<pattern>=<codec[:level]|never>
+                          Codec for files matching a pattern, e.g. "*.log=zstd:19" or ".iso=never" (repeatable)
+  --compress-min-saving=<percent> Upload files as they are unless compression saves this much (default: 5)
+  --compress-min-saving-bytes=<n> Upload files as they are unless compression saves this many bytes
+  --encrypt               Encrypt files before upload (AES-256-GCM)
+  --encryption-key-file=<path> Key file used for encryption and restore
+                          (or set ${PASSPHRASE_ENV})
   --schedule=<cron>       Cron expression for scheduled backups (e.g., "0 2 * * *")
   --daemon                Run as a daemon with scheduled backups
+  --api=<address>         Serve the daemon's control API on a localhost port
+                          (e.g. 8080 or localhost:8080) or a unix socket path
+  --watch                 After the backup, keep uploading files as they change
+  --watch-stable=<s>      Seconds a changed file must stay unchanged before upload (default: ${DEFAULT_STABLE_SECONDS})
+  --exclude=<pattern>     Skip files matching a gitignore-style pattern (repeatable)
+  --include=<pattern>     Back up matching files even if excluded, e.g. ".ssh/config" (repeatable)
   --force                 Force upload all files regardless of hash cache
+  --checksum              Compare file contents even when size and modification time are unchanged
   --resume                Enable resume capability for large files
   --chunk-size=<mb>       Chunk size in MB for large files (default: 50)
+  --mirror                Move remote files to the trash when they are deleted locally
+  --max-deletions=<n>     Maximum remote deletions per run in mirror mode (default: 100)
+  --snapshots             Keep every run as a snapshot instead of overwriting remote files
+  --to=<path>             Local directory to restore into (restore only)
+  --snapshot=<id|date>    Restore a snapshot by id, date or "latest" (restore only)
+  --keep-daily=<n>        Keep the last snapshot of each of the last n days (prune, daemon)
+  --keep-weekly=<n>       Keep the last snapshot of each of the last n weeks (prune, daemon)
+  --keep-monthly=<n>      Keep the last snapshot of each of the last n months (prune, daemon)
+  --dry-run               Show what a backup or prune would do without changing anything
+  --state-dir=<path>      Folder for upload state and hash caches
+                          (default: $XDG_STATE_HOME/internxt-backup or ~/.local/state/internxt-backup)
+  --temp-dir=<path>       Folder for compressed, encrypted and chunked temp files
+                          (default: the system temp folder, often a small tmpfs)
+  --wait-lock             Wait for another backup of the same source and target to finish instead of failing
+  --config=<path>         Config file with backup jobs (run, daemon)
+                          (default: $XDG_CONFIG_HOME/internxt-backup/config.toml, .yaml or .json)
   --quiet                 Show minimal output (only errors and progress)
   --verbose               Show detailed output including per-file operations
+  --report=<path>         Write a JSON report of the run to a file
+  --output=<format>       text or json; json prints the report on stdout
+                          and sends everything else to stderr (default: text)
   --help, -h              Show this help message
   --version, -v           Show version information
 
@@ -81,11 +213,28 @@ ${chalk.bold("Examples:")}
   internxt-backup /mnt/disk/Photos --target=/Backups/Photos
   internxt-backup /mnt/disk/Documents --target=/Backups/Docs --compress
   internxt-backup /mnt/disk/Important --target=/Backups --schedule="0 2 * * *" --daemon
+  internxt-backup /mnt/disk/Docs --target=/Backups/Docs --snapshots --schedule="0 2 * * *" --daemon --keep-daily=7
   internxt-backup /mnt/disk/Photos --target=/Backups/Photos --force
+  internxt-backup /mnt/share/Documents --target=/Backups/Documents --watch
   internxt-backup /mnt/disk/Photos --target=/Backups/Photos --cores=2 --resume
+  internxt-backup /mnt/disk/Datasets --target=/Backups/Datasets --mirror
+  internxt-backup /mnt/disk/Datasets --target=/Backups/Datasets --mirror --dry-run
+  internxt-backup /mnt/disk/Docs --target=/Backups/Docs --snapshots
+  internxt-backup /home/me --target=/Backups/Home --exclude=node_modules/ --exclude="*.tmp" --include=.ssh/config
+  internxt-backup /mnt/disk/Clients --target=/Backups/Clients --compress --encrypt --encryption-key-file=~/backup.key
+  internxt-backup /mnt/disk/Photos --target=/mnt/nas/Backups/Photos --backend=local
+  internxt-backup restore --target=/Backups/Photos --to=/mnt/restore
+  internxt-backup restore --target=/Backups/Docs --to=/mnt/restore --snapshot=2026-01-31
+  internxt-backup prune --target=/Backups/Docs --keep-daily=7 --keep-weekly=4 --keep-monthly=12 --dry-run
+  internxt-backup run photos --dry-run
+  internxt-backup run photos --output=json > report.json
+  internxt-backup daemon --config=/etc/internxt-backup/config.toml
 `);
 }
 
+// Help after an error would end up in the JSON on stdout
+let jsonOutput = false;
+
 // Show version information
 function showVersion() {
   console.log(`internxt-backup v${VERSION}`);
@@ -118,6 +267,152 @@ async function main() {
     // Parse CLI arguments
     const args = parse();
 
+    if (args.backend && !isStorageBackendType(args.backend)) {
+      console.error(chalk.red(`Error: Unknown backend "${args.backend}". Use one of: ${STORAGE_BACKEND_TYPES.join(", ")}`));
+      process.exit(1);
+    }
+
+    if (args.output && !OUTPUT_FORMATS.includes(args.output as OutputFormat)) {
+      console.error(chalk.red(`Error: Unknown output format "${args.output}". Use one of: ${OUTPUT_FORMATS.join(", ")}`));
+      process.exit(1);
+    }
+    const output = args.output as OutputFormat | undefined;
+
+    if (args.compress && !isCompressionMode(args.compress)) {
+      console.error(chalk.red(`Error: Unknown compression "${args.compress}". Use one of: ${COMPRESSION_MODES.join(", ")}`));
+      process.exit(1);
+    }
+    const compress = args.compress as CompressionMode | undefined;
+
+    let compressionRules: CompressionRule[] | undefined;
+    try {
+      compressionRules = args["compress-rule"]?.map(parseCompressRuleOption);
+    } catch (error) {
+      console.error(chalk.red(`Error: ${error instanceof Error ? error.message : String(error)}`));
+      process.exit(1);
+    }
+
+    const minCompressionSaving = args["compress-min-saving"] ? parseFloat(args["compress-min-saving"]) : undefined;
+    if (minCompressionSaving !== undefined && !(minCompressionSaving >= 0 && minCompressionSaving < 100)) {
+      console.error(chalk.red(`Error: --compress-min-saving must be a percentage from 0 to 99, got "${args["compress-min-saving"]}"`));
+      process.exit(1);
+    }
+
+    const stableSeconds = args["watch-stable"] ? parseFloat(args["watch-stable"]) : undefined;
+    if (stableSeconds !== undefined && !(stableSeconds >= 0)) {
+      console.error(chalk.red(`Error: --watch-stable must be a number of seconds, got "${args["watch-stable"]}"`));
+      process.exit(1);
+    }
+    if (args.watch && (args.daemon || args.command === "daemon")) {
+      console.error(chalk.red("Error: --watch can't be combined with the daemon; it keeps running by itself"));
+      process.exit(1);
+    }
+
+    // Keep stdout for the report
+    if (output === "json") {
+      jsonOutput = true;
+      setOutputStream(process.stderr);
+    }
+
+    // Handle the restore command
+    if (args.command === "restore") {
+      if (!args.target || !args.to) {
+        console.error(chalk.red("Error: restore requires --target and --to"));
+        console.log();
+        showHelp();
+        process.exit(1);
+      }
+
+      await restoreFiles(args.target, args.to, {
+        cores: args.cores ? parseInt(args.cores) : undefined,
+        quiet: args.quiet,
+        verbose: args.verbose,
+        passphrase: process.env[PASSPHRASE_ENV],
+        encryptionKeyFile: args["encryption-key-file"],
+        backend: args.backend,
+        snapshot: args.snapshot
+      });
+      return;
+    }
+
+    // Handle the prune command
+    if (args.command === "prune") {
+      if (!args.target) {
+        console.error(chalk.red("Error: prune requires --target"));
+        console.log();
+        showHelp();
+        process.exit(1);
+      }
+
+      await pruneSnapshots(args.target, {
+        ...parseRetention(args),
+        dryRun: args["dry-run"],
+        quiet: args.quiet,
+        verbose: args.verbose,
+        backend: args.backend
+      });
+      return;
+    }
+
+    // Handle jobs from the config file
+    if (args.command === "run" || args.command === "daemon") {
+      const config = await loadConfig(args.config ?? findConfigFile());
+      const overrides: SyncOptions = {
+        quiet: args.quiet,
+        verbose: args.verbose,
+        force: args.force,
+        dryRun: args["dry-run"],
+        passphrase: process.env[PASSPHRASE_ENV],
+        reportPath: args.report,
+        output,
+        waitLock: args["wait-lock"],
+        tempDir: args["temp-dir"]
+      };
+
+      if (args.command === "run") {
+        if (args.jobNames.length !== 1) {
+          console.error(chalk.red(`Error: run requires exactly one job name. Jobs in ${config.path}: ${config.jobs.map(job => job.name).join(", ")}`));
+          process.exit(1);
+        }
+
+        const backup = toBackupConfig(getJob(config, args.jobNames[0]), overrides);
+        if (args.watch) {
+          await watchFiles(backup.sourceDir, { ...backup.syncOptions, job: backup.name, stableSeconds });
+          return;
+        }
+
+        // Ctrl+C cancels the run, keeping what was uploaded
+        const scheduler = new BackupScheduler();
+        const cancellation = cancelOnSignals(getVerbosity(backup.syncOptions));
+        try {
+          await scheduler.runOnce(backup, undefined, cancellation.signal);
+        } finally {
+          cancellation.dispose();
+        }
+        return;
+      }
+
+      // Named jobs must have a schedule; without names every scheduled job runs
+      const selectJobs = (jobsConfig: typeof config) => (args.jobNames.length > 0
+        ? args.jobNames.map(name => getJob(jobsConfig, name))
+        : jobsConfig.jobs.filter(job => job.schedule)
+      ).map(job => toBackupConfig(job, overrides));
+
+      const jobs = selectJobs(config);
+      if (jobs.length === 0) {
+        console.error(chalk.red(`Error: No job in ${config.path} has a schedule`));
+        process.exit(1);
+      }
+
+      console.log(chalk.blue(`Starting daemon mode with jobs: ${jobs.map(job => job.name).join(", ")}`));
+      const scheduler = new BackupScheduler({ maxConcurrentJobs: config.daemon.maxConcurrentJobs });
+      await startControlServer(scheduler, args.api ?? config.daemon.api);
+      await scheduler.startDaemon(jobs, {
+        reload: async () => selectJobs(await loadConfig(config.path))
+      });
+      return;
+    }
+
     // Check for required source directory
     if (!args.sourceDir) {
       console.error(chalk.red("Error: Source directory is required"));
@@ -133,31 +428,72 @@ async function main() {
       quiet: args.quiet,
       verbose: args.verbose,
       force: args.force,
-      compress: args.compress,
+      compress,
       compressionLevel: args["compression-level"] ? parseInt(args["compression-level"]) : undefined,
+      compressionRules,
+      minCompressionSaving,
+      minCompressionSavingBytes: args["compress-min-saving-bytes"] ? parseInt(args["compress-min-saving-bytes"]) : undefined,
       resume: args.resume,
-      chunkSize: args["chunk-size"] ? parseInt(args["chunk-size"]) : undefined
+      chunkSize: args["chunk-size"] ? parseInt(args["chunk-size"]) : undefined,
+      mirror: args.mirror,
+      maxDeletions: args["max-deletions"] ? parseInt(args["max-deletions"]) : undefined,
+      include: args.include,
+      exclude: args.exclude,
+      checksum: args.checksum,
+      encrypt: args.encrypt,
+      passphrase: process.env[PASSPHRASE_ENV],
+      encryptionKeyFile: args["encryption-key-file"],
+      backend: args.backend,
+      snapshots: args.snapshots,
+      dryRun: args["dry-run"],
+      stateDir: args["state-dir"],
+      tempDir: args["temp-dir"],
+      reportPath: args.report,
+      output,
+      waitLock: args["wait-lock"]
     };
 
     // Handle daemon mode with scheduling
     if (args.daemon && args.schedule) {
       console.log(chalk.blue(`Starting daemon mode with schedule: ${args.schedule}`));
       const scheduler = new BackupScheduler();
+      await startControlServer(scheduler, args.api);
+      const retention = parseRetention(args);
       await scheduler.startDaemon({
         sourceDir: args.sourceDir,
         schedule: args.schedule,
-        syncOptions
+        syncOptions,
+        retention: hasRetentionRules(retention) ? retention : undefined
       });
       return;
     }
 
-    // Run the main sync function with the parsed arguments
-    await syncFiles(args.sourceDir, syncOptions);
+    // Keep backing up changes until stopped
+    if (args.watch) {
+      await watchFiles(args.sourceDir, { ...syncOptions, stableSeconds });
+      return;
+    }
+
+    // Run the main sync function with the parsed arguments; Ctrl+C cancels it, keeping what was uploaded
+    const cancellation = cancelOnSignals(getVerbosity(syncOptions));
+    try {
+      await syncFiles(args.sourceDir, { ...syncOptions, signal: cancellation.signal });
+    } finally {
+      cancellation.dispose();
+    }
 
   } catch (error: any) {
+    // The run already said what it kept
+    if (error instanceof BackupCancelledError) {
+      process.exit(EXIT_CANCELLED);
+    }
+
     console.error(chalk.red(`Error: ${error.message}`));
-    console.log();
-    showHelp();
+    // Help after a held lock or in JSON output would only get in the way
+    if (!jsonOutput && !(error instanceof RunLockError)) {
+      console.log();
+      showHelp();
+    }
     process.exit(1);
   }
 }
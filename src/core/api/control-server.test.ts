@@ -0,0 +1,178 @@
+/**
+ * Tests for the control API
+ */
+
+import { expect, describe, beforeEach, afterEach, it, spyOn } from 'bun:test';
+import { ControlServer, parseListenAddress } from './control-server';
+import { BackupScheduler, BackupConfig } from '../scheduler/scheduler';
+import { Verbosity } from '../../interfaces/logger';
+import { createMockLoggers } from '../../../test-config/mocks/test-helpers';
+import { writeFile, readFile, rm } from 'node:fs/promises';
+import { existsSync } from 'node:fs';
+import { join } from 'node:path';
+import { tmpdir } from 'node:os';
+
+describe('ControlServer', () => {
+  let scheduler: BackupScheduler;
+  let server: ControlServer;
+  let finishRun: () => void;
+
+  const job = (name: string): BackupConfig => ({ name, sourceDir: `/${name}`, schedule: '0 2 * * *', syncOptions: {} });
+
+  const request = async (method: string, path: string) => {
+    const response = server.handle(new Request(`http://localhost${path}`, { method }));
+    return { status: response.status, body: await response.json() };
+  };
+
+  beforeEach(async () => {
+    createMockLoggers();
+    scheduler = new BackupScheduler({ verbosity: Verbosity.Quiet });
+    spyOn(scheduler, 'runOnce').mockImplementation(() => new Promise<void>(resolve => { finishRun = resolve; }));
+    scheduler.reload([job('photos'), job('docs')]);
+
+    // Let the initial backups of both jobs finish
+    await Bun.sleep(0);
+    finishRun();
+    await Bun.sleep(0);
+    finishRun();
+    await Bun.sleep(0);
+
+    server = new ControlServer(scheduler, { verbosity: Verbosity.Quiet });
+  });
+
+  afterEach(() => {
+    server.stop();
+    scheduler.stopAll();
+  });
+
+  it('should list the scheduled jobs', async () => {
+    const { status, body } = await request('GET', '/jobs');
+
+    expect(status).toBe(200);
+    expect(body.jobs.map((info: { id: string }) => info.id)).toEqual(['photos', 'docs']);
+    expect(body.jobs[0]).toMatchObject({ paused: false, running: true, lastRunId: 1 });
+  });
+
+  it('should start a backup and report its run', async () => {
+    const started = await request('POST', '/jobs/photos/run');
+    await Bun.sleep(0);
+
+    expect(started.status).toBe(202);
+    expect(started.body).toMatchObject({ jobId: 'photos', status: 'queued' });
+
+    const running = await request('GET', `/runs/${started.body.id}`);
+    expect(running.body).toMatchObject({ status: 'running', progress: { totalFiles: 0, completedFiles: 0 } });
+
+    const again = await request('POST', '/jobs/photos/run');
+    expect(again.status).toBe(409);
+
+    finishRun();
+    await Bun.sleep(0);
+    expect((await request('GET', `/runs/${started.body.id}`)).body.status).toBe('success');
+  });
+
+  it('should serve metrics in the Prometheus format', async () => {
+    const response = server.handle(new Request('http://localhost/metrics'));
+    const text = await response.text();
+
+    expect(response.headers.get('Content-Type')).toContain('text/plain; version=0.0.4');
+    expect(text).toContain('internxt_backup_runs_total{job="photos",status="success"} 1');
+    expect(text).toContain('internxt_backup_running{job="docs"} 0');
+  });
+
+  it('should pause and resume the schedule of a job', async () => {
+    expect((await request('POST', '/jobs/docs/pause')).body).toMatchObject({ id: 'docs', paused: true, running: false });
+    expect((await request('POST', '/jobs/docs/resume')).body).toMatchObject({ id: 'docs', paused: false, running: true });
+  });
+
+  it('should answer unknown jobs, runs and routes with errors', async () => {
+    expect((await request('POST', '/jobs/music/run')).status).toBe(404);
+    expect((await request('GET', '/runs/99')).status).toBe(404);
+    expect((await request('GET', '/status')).status).toBe(404);
+    expect((await request('DELETE', '/jobs')).status).toBe(405);
+  });
+
+  it('should answer a path with a bad escape with an error', async () => {
+    expect((await request('POST', '/jobs/%E0/run')).status).toBe(400);
+  });
+
+  it('should refuse requests from web pages and for other host names', async () => {
+    const fromPage = server.handle(new Request('http://localhost/jobs/photos/pause', {
+      method: 'POST',
+      headers: { Origin: 'https://example.com' }
+    }));
+    const rebound = server.handle(new Request('http://attacker.example:8080/jobs'));
+
+    expect(fromPage.status).toBe(403);
+    expect(rebound.status).toBe(403);
+    expect(scheduler.getJobInfo().find(info => info.id === 'photos')?.paused).toBe(false);
+    expect(server.handle(new Request('http://127.0.0.1:8080/jobs')).status).toBe(200);
+    expect(server.handle(new Request('http://[::1]:8080/jobs')).status).toBe(200);
+  });
+
+  describe('unix socket', () => {
+    let socketPath: string;
+
+    beforeEach(() => {
+      socketPath = join(tmpdir(), `control-server-test-${Date.now()}.sock`);
+    });
+
+    afterEach(async () => {
+      await rm(socketPath, { force: true });
+    });
+
+    it('should serve requests on a unix socket', async () => {
+      await server.start({ unix: socketPath });
+
+      const response = await fetch('http://localhost/jobs', { unix: socketPath });
+
+      expect(response.status).toBe(200);
+      expect((await response.json()).jobs).toHaveLength(2);
+    });
+
+    it('should replace a socket no daemon listens on any more', async () => {
+      // The child exits without closing its server, leaving the socket file behind
+      const script = `require("node:net").createServer().listen(${JSON.stringify(socketPath)}, () => process.exit(0))`;
+      Bun.spawnSync([process.execPath, '-e', script]);
+      expect(existsSync(socketPath)).toBe(true);
+
+      await server.start({ unix: socketPath });
+
+      expect((await fetch('http://localhost/jobs', { unix: socketPath })).status).toBe(200);
+    });
+
+    it('should not remove a file that is not a socket', async () => {
+      await writeFile(socketPath, 'config');
+
+      await expect(server.start({ unix: socketPath })).rejects.toThrow('is not a socket');
+      expect(await readFile(socketPath, 'utf8')).toBe('config');
+    });
+
+    it('should not take over the socket of a running daemon', async () => {
+      await server.start({ unix: socketPath });
+      const second = new ControlServer(scheduler, { verbosity: Verbosity.Quiet });
+
+      await expect(second.start({ unix: socketPath })).rejects.toThrow('another process is listening');
+      expect((await fetch('http://localhost/jobs', { unix: socketPath })).status).toBe(200);
+    });
+  });
+});
+
+describe('parseListenAddress', () => {
+  it('should listen on localhost by default', () => {
+    expect(parseListenAddress('8080')).toEqual({ hostname: '127.0.0.1', port: 8080 });
+    expect(parseListenAddress('localhost:9000')).toEqual({ hostname: 'localhost', port: 9000 });
+    expect(parseListenAddress('[::1]:9000')).toEqual({ hostname: '::1', port: 9000 });
+  });
+
+  it('should accept unix sockets', () => {
+    expect(parseListenAddress('/run/internxt-backup.sock')).toEqual({ unix: '/run/internxt-backup.sock' });
+    expect(parseListenAddress('unix:/tmp/backup.sock')).toEqual({ unix: '/tmp/backup.sock' });
+  });
+
+  it('should refuse other hosts and invalid ports', () => {
+    expect(() => parseListenAddress('0.0.0.0:8080')).toThrow('only listens on localhost');
+    expect(() => parseListenAddress('70000')).toThrow('Invalid API address');
+    expect(() => parseListenAddress('backup')).toThrow('Invalid API address');
+  });
+});
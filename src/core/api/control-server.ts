@@ -0,0 +1,274 @@
+/**
+ * Control Server
+ * Local HTTP API to watch and drive the backup daemon
+ *
+ * Routes:
+ *   GET  /metrics          Prometheus metrics
+ *   GET  /jobs             Scheduled jobs
+ *   GET  /runs/:id         A run, with live progress while it uploads
+ *   POST /jobs/:id/run     Start a backup right away
+ *   POST /jobs/:id/pause   Pause the schedule of a job
+ *   POST /jobs/:id/resume  Resume the schedule of a job
+ */
+
+import { lstat, unlink } from "node:fs/promises";
+import { connect } from "node:net";
+import type { Server } from "bun";
+import * as logger from "../../utils/logger";
+import { BackupScheduler } from "../scheduler/scheduler";
+import { METRICS_CONTENT_TYPE } from "../metrics/backup-metrics";
+
+// The API has no authentication, so it never listens beyond this machine and only answers
+// requests addressed to it by a loopback name, which keeps DNS rebinding out
+const LOOPBACK_HOSTS = ["localhost", "127.0.0.1", "::1"];
+
+const DEFAULT_HOST = "127.0.0.1";
+
+/**
+ * Where the server listens: a loopback port or a unix socket
+ */
+export type ListenAddress = { hostname: string; port: number } | { unix: string };
+
+export interface ControlServerOptions {
+  verbosity?: number;
+}
+
+/**
+ * Parse a listen address: a port, host:port on a loopback host, or the path of a unix socket
+ * @param {string} value - e.g. "8080", "localhost:8080" or "/run/internxt-backup.sock"
+ * @returns {ListenAddress} The address to listen on
+ */
+export function parseListenAddress(value: string): ListenAddress {
+  const address = value.trim();
+  if (address.startsWith("/") || address.startsWith("unix:")) {
+    return { unix: address.replace(/^unix:/, "") };
+  }
+
+  const match = address.match(/^(?:\[?([^\]]*?)\]?:)?(\d+)$/);
+  const port = match ? parseInt(match[2]) : NaN;
+  if (!match || port < 1 || port > 65535) {
+    throw new Error(`Invalid API address "${value}". Use a port, host:port or the path of a unix socket`);
+  }
+
+  const hostname = match[1] || DEFAULT_HOST;
+  if (!LOOPBACK_HOSTS.includes(hostname)) {
+    throw new Error(`The API only listens on localhost or a unix socket, not on ${hostname}`);
+  }
+
+  return { hostname, port };
+}
+
+/**
+ * Reply with a JSON body
+ */
+function json(body: unknown, status: number = 200): Response {
+  return Response.json(body, { status });
+}
+
+/**
+ * Check whether a unix socket has a server accepting connections
+ */
+function isSocketInUse(socketPath: string): Promise<boolean> {
+  return new Promise(resolve => {
+    const socket = connect(socketPath);
+    socket.once("connect", () => {
+      socket.destroy();
+      resolve(true);
+    });
+    socket.once("error", () => resolve(false));
+  });
+}
+
+/**
+ * Get the host name of a Host header, without its port or IPv6 brackets
+ */
+function getHostName(host: string): string {
+  const bracketed = host.match(/^\[([^\]]*)\]/);
+  if (bracketed) {
+    return bracketed[1];
+  }
+  return host.includes(":") && host.indexOf(":") === host.lastIndexOf(":") ? host.slice(0, host.indexOf(":")) : host;
+}
+
+export class ControlServer {
+  private scheduler: BackupScheduler;
+  private verbosity: number;
+  private server: Server | null = null;
+  private socketPath?: string;
+
+  /**
+   * Create a control server for a scheduler
+   * @param {BackupScheduler} scheduler - The scheduler of the daemon
+   * @param {ControlServerOptions} options - Verbosity
+   */
+  constructor(scheduler: BackupScheduler, options: ControlServerOptions = {}) {
+    this.scheduler = scheduler;
+    this.verbosity = options.verbosity ?? logger.Verbosity.Normal;
+  }
+
+  /**
+   * Start listening
+   * @param {ListenAddress} address - A loopback port or a unix socket
+   * @returns {Promise<string>} Where the server listens, for the log
+   * @throws {Error} If the socket path is taken by another file or a running daemon
+   */
+  async start(address: ListenAddress): Promise<string> {
+    const fetch = (request: Request) => this.handle(request);
+
+    if ("unix" in address) {
+      await this.removeStaleSocket(address.unix);
+      this.socketPath = address.unix;
+      this.server = Bun.serve({ unix: address.unix, fetch });
+      logger.info(`Control API listening on ${address.unix}`, this.verbosity);
+      return address.unix;
+    }
+
+    this.server = Bun.serve({ hostname: address.hostname, port: address.port, fetch });
+    const url = this.server.url.toString();
+    logger.info(`Control API listening on ${url}`, this.verbosity);
+    return url;
+  }
+
+  /**
+   * Remove a socket left behind by an earlier daemon, which would make listening fail
+   * Anything else at the path, or a socket another daemon still listens on, is left alone
+   * @param {string} socketPath - Path of the unix socket
+   */
+  private async removeStaleSocket(socketPath: string): Promise<void> {
+    let stats;
+    try {
+      stats = await lstat(socketPath);
+    } catch {
+      return;
+    }
+
+    if (!stats.isSocket()) {
+      throw new Error(`Cannot listen on ${socketPath}: the path exists and is not a socket`);
+    }
+    if (await isSocketInUse(socketPath)) {
+      throw new Error(`Cannot listen on ${socketPath}: another process is listening on it`);
+    }
+
+    await unlink(socketPath);
+    logger.verbose(`Removed the stale socket ${socketPath}`, this.verbosity);
+  }
+
+  /**
+   * Check that a request comes from a local client rather than a web page
+   * Browsers send an Origin header with cross-site requests, and a page that rebinds its DNS
+   * name to 127.0.0.1 still sends its own name as the Host
+   * @param {Request} request - The HTTP request
+   * @returns {string | null} Why the request is refused, or null if it is allowed
+   */
+  private checkClient(request: Request): string | null {
+    if (request.headers.has("origin")) {
+      return "Requests from web pages are not allowed";
+    }
+
+    const host = request.headers.get("host") ?? new URL(request.url).host;
+    if (this.socketPath && (host === "" || host === this.socketPath)) {
+      return null;
+    }
+    if (!LOOPBACK_HOSTS.includes(getHostName(host).toLowerCase())) {
+      return `Host ${host} is not allowed`;
+    }
+    return null;
+  }
+
+  /**
+   * Stop listening
+   */
+  stop(): void {
+    this.server?.stop(true);
+    this.server = null;
+  }
+
+  /**
+   * Answer an API request
+   * @param {Request} request - The HTTP request
+   * @returns {Response} The response, JSON except for the metrics
+   */
+  handle(request: Request): Response {
+    const url = new URL(request.url);
+    logger.verbose(`${request.method} ${url.pathname}`, this.verbosity);
+
+    const refusal = this.checkClient(request);
+    if (refusal) {
+      return json({ error: refusal }, 403);
+    }
+
+    try {
+      let segments: string[];
+      try {
+        segments = url.pathname.split("/").filter(Boolean).map(decodeURIComponent);
+      } catch {
+        return json({ error: `Invalid path: ${url.pathname}` }, 400);
+      }
+
+      if (segments.length === 1 && segments[0] === "metrics") {
+        return request.method === "GET"
+          ? new Response(this.scheduler.getMetrics(), { headers: { "Content-Type": METRICS_CONTENT_TYPE } })
+          : json({ error: "Method not allowed" }, 405);
+      }
+
+      if (segments.length === 1 && segments[0] === "jobs") {
+        return request.method === "GET"
+          ? json({ jobs: this.scheduler.getJobInfo() })
+          : json({ error: "Method not allowed" }, 405);
+      }
+
+      if (segments.length === 2 && segments[0] === "runs") {
+        if (request.method !== "GET") {
+          return json({ error: "Method not allowed" }, 405);
+        }
+        const run = this.scheduler.getRun(Number(segments[1]));
+        return run ? json(run) : json({ error: `Unknown run: ${segments[1]}` }, 404);
+      }
+
+      if (segments.length === 3 && segments[0] === "jobs") {
+        if (request.method !== "POST") {
+          return json({ error: "Method not allowed" }, 405);
+        }
+        return this.handleJobAction(segments[1], segments[2]);
+      }
+
+      return json({ error: "Not found" }, 404);
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : String(error);
+      logger.error(`Control API request failed: ${errorMessage}`);
+      return json({ error: errorMessage }, 500);
+    }
+  }
+
+  /**
+   * Run, pause or resume a job
+   */
+  private handleJobAction(jobId: string, action: string): Response {
+    const job = this.scheduler.getJobInfo().find(info => info.id === jobId);
+    if (!job) {
+      return json({ error: `Unknown job: ${jobId}` }, 404);
+    }
+
+    switch (action) {
+      case "run": {
+        const activeRun = this.scheduler.getActiveRun(jobId);
+        if (activeRun) {
+          return json({ error: `Job ${jobId} is already ${activeRun.status}`, run: activeRun }, 409);
+        }
+        return json(this.scheduler.triggerJob(jobId), 202);
+      }
+      case "pause":
+        this.scheduler.pauseJob(jobId);
+        break;
+      case "resume":
+        this.scheduler.resumeJob(jobId);
+        break;
+      default:
+        return json({ error: "Not found" }, 404);
+    }
+
+    return json(this.scheduler.getJobInfo().find(info => info.id === jobId));
+  }
+}
+
+export default ControlServer;
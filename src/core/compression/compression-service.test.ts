@@ -3,9 +3,10 @@
  */
 
 import { expect, describe, beforeEach, afterEach, it } from 'bun:test';
-import { CompressionService } from './compression-service';
+import { CompressionService, parseCompressionRule, isCompressionMode } from './compression-service';
 import { Verbosity } from '../../interfaces/logger';
 import { writeFile, unlink, mkdir, rmdir } from 'node:fs/promises';
+import { randomBytes } from 'node:crypto';
 import { existsSync } from 'node:fs';
 import { join } from 'node:path';
 import { tmpdir } from 'node:os';
@@ -130,6 +131,23 @@ describe('CompressionService', () => {
       expect(existsSync(result.compressedPath)).toBe(true);
     });
 
+    it('should give files of the same name their own temp files', async () => {
+      await mkdir(join(tempDir, 'a'));
+      await mkdir(join(tempDir, 'b'));
+      await writeFile(join(tempDir, 'a', 'report.txt'), 'A'.repeat(5000));
+      await writeFile(join(tempDir, 'b', 'report.txt'), 'B'.repeat(5000));
+
+      const [first, second] = await Promise.all([
+        service.compressFile(join(tempDir, 'a', 'report.txt')),
+        service.compressFile(join(tempDir, 'b', 'report.txt'))
+      ]);
+      const restored = join(tempDir, 'restored.txt');
+      await service.decompressFile(second.compressedPath, restored);
+
+      expect(first.compressedPath).not.toBe(second.compressedPath);
+      expect(await Bun.file(restored).text()).toBe('B'.repeat(5000));
+    });
+
     it('should handle empty file', async () => {
       const testFile = join(tempDir, 'empty.txt');
       await writeFile(testFile, '');
@@ -162,19 +180,66 @@ describe('CompressionService', () => {
     });
   });
 
+  describe('decompressFile', () => {
+    it('should restore the original content of a compressed file', async () => {
+      const testFile = join(tempDir, 'test.txt');
+      const content = 'ABCDEFGHIJ'.repeat(1000);
+      await writeFile(testFile, content);
+
+      const compressResult = await service.compressFile(testFile);
+      const outputPath = join(tempDir, 'restored.txt');
+      const result = await service.decompressFile(compressResult.compressedPath, outputPath);
+
+      expect(result.success).toBe(true);
+      expect(await Bun.file(outputPath).text()).toBe(content);
+    });
+
+    it('should write standard gzip that other tools can read', async () => {
+      const testFile = join(tempDir, 'test.txt');
+      await writeFile(testFile, 'ABCDEFGHIJ'.repeat(1000));
+
+      const compressResult = await service.compressFile(testFile);
+      const compressed = await Bun.file(compressResult.compressedPath).bytes();
+
+      expect(Buffer.from(Bun.gunzipSync(compressed)).toString()).toBe('ABCDEFGHIJ'.repeat(1000));
+    });
+
+    it('should decompress plain gzip files', async () => {
+      const testFile = join(tempDir, 'legacy.txt.gz');
+      await writeFile(testFile, Bun.gzipSync(Buffer.from('legacy content')));
+      const outputPath = join(tempDir, 'legacy.txt');
+
+      const result = await service.decompressFile(testFile, outputPath);
+
+      expect(result.success).toBe(true);
+      expect(await Bun.file(outputPath).text()).toBe('legacy content');
+    });
+
+    it('should fail for files that are not gzip compressed', async () => {
+      const testFile = join(tempDir, 'plain.txt.gz');
+      await writeFile(testFile, 'not gzip data');
+
+      const result = await service.decompressFile(testFile, join(tempDir, 'plain.txt'));
+
+      expect(result.success).toBe(false);
+      expect(result.error).toBeDefined();
+      expect(existsSync(join(tempDir, 'plain.txt'))).toBe(false);
+    });
+  });
+
   describe('compressForUpload', () => {
-    it('should return compressed path when compression reduces size', async () => {
+    it('should return the compressed copy when compression reduces size', async () => {
       const testFile = join(tempDir, 'test.txt');
       const content = 'A'.repeat(10000);
       await writeFile(testFile, content);
 
       const result = await service.compressForUpload(testFile);
 
-      expect(result).not.toBe(testFile);
-      expect(result.endsWith('.gz')).toBe(true);
+      expect(result).not.toBeNull();
+      expect(result!.compressedPath.endsWith('.gz')).toBe(true);
     });
 
-    it('should return original path when compression increases size', async () => {
+    it('should return null when compression increases size', async () => {
       const testFile = join(tempDir, 'test.txt');
       // Create already compressed-like content
       const content = Buffer.from(Array.from({ length: 1000 }, () => Math.floor(Math.random() * 256)));
@@ -182,13 +247,31 @@ describe('CompressionService', () => {
 
       const result = await service.compressForUpload(testFile);
 
-      expect(result).toBe(testFile);
+      expect(result).toBeNull();
     });
 
-    it('should return original path when compression fails', async () => {
+    it('should return null when compression fails', async () => {
       const result = await service.compressForUpload('/nonexistent/file.txt');
 
-      expect(result).toBe('/nonexistent/file.txt');
+      expect(result).toBeNull();
+    });
+
+    it('should return null and remove the copy when it saves less than the minimum', async () => {
+      const testFile = join(tempDir, 'test.txt');
+      // Half random, half compressible: saves roughly half of the file
+      await writeFile(testFile, Buffer.concat([randomBytes(5000), Buffer.alloc(5000)]));
+
+      const percentService = new CompressionService({ minSaving: 80, verbosity: Verbosity.Quiet });
+      const bytesService = new CompressionService({ minSavingBytes: 8000, verbosity: Verbosity.Quiet });
+      const lenientService = new CompressionService({ minSaving: 10, minSavingBytes: 1000, verbosity: Verbosity.Quiet });
+
+      expect(await percentService.compressForUpload(testFile)).toBeNull();
+      expect(await bytesService.compressForUpload(testFile)).toBeNull();
+      expect((percentService as any).tempFiles.size).toBe(0);
+
+      const result = await lenientService.compressForUpload(testFile);
+      await lenientService.cleanupAll();
+      expect(result?.success).toBe(true);
     });
   });
 
@@ -252,6 +335,119 @@ describe('CompressionService', () => {
     });
   });
 
+  describe('codecs', () => {
+    for (const [codec, suffix] of [['zstd', '.zst'], ['brotli', '.br']] as const) {
+      it(`should round-trip a file with ${codec}`, async () => {
+        const codecService = new CompressionService({ mode: codec, verbosity: Verbosity.Quiet });
+        const testFile = join(tempDir, 'test.txt');
+        const content = 'ABCDEFGHIJ'.repeat(1000);
+        await writeFile(testFile, content);
+
+        const choice = codecService.planCompression(testFile, content.length)!;
+        const compressResult = await codecService.compressFile(testFile, choice);
+        const outputPath = join(tempDir, 'restored.txt');
+        const result = await codecService.decompressFile(compressResult.compressedPath, outputPath);
+        await codecService.cleanupAll();
+
+        expect(compressResult.codec).toBe(codec);
+        expect(compressResult.compressedSize).toBeLessThan(compressResult.originalSize);
+        expect(codecService.getCompressedRemotePath('/remote/file.txt', codec)).toBe(`/remote/file.txt${suffix}`);
+        expect(result.success).toBe(true);
+        expect(await Bun.file(outputPath).text()).toBe(content);
+      });
+    }
+
+    it('should pick the decompressor from the suffix', async () => {
+      const zstdService = new CompressionService({ mode: 'zstd', verbosity: Verbosity.Quiet });
+      const testFile = join(tempDir, 'test.txt');
+      await writeFile(testFile, 'A'.repeat(5000));
+
+      const compressResult = await zstdService.compressFile(testFile, { codec: 'zstd', level: 3 });
+      const outputPath = join(tempDir, 'restored.txt');
+      // The default service compresses with gzip but reads any codec
+      const result = await service.decompressFile(compressResult.compressedPath, outputPath);
+      await zstdService.cleanupAll();
+
+      expect(result.success).toBe(true);
+      expect(await Bun.file(outputPath).text()).toBe('A'.repeat(5000));
+    });
+  });
+
+  describe('rules', () => {
+    it('should parse codecs, levels and never', () => {
+      expect(parseCompressionRule('*.log', 'zstd:19')).toEqual({ pattern: '*.log', codec: 'zstd', level: 19 });
+      expect(parseCompressionRule('.iso', 'never')).toEqual({ pattern: '.iso', codec: 'never' });
+      expect(parseCompressionRule('*.txt', 'gzip').level).toBeUndefined();
+    });
+
+    it('should reject unknown codecs and levels', () => {
+      expect(() => parseCompressionRule('*.log', 'lzma')).toThrow();
+      expect(() => parseCompressionRule('*.log', 'zstd:fast')).toThrow();
+      expect(() => parseCompressionRule('*.log', 'never:3')).toThrow();
+      expect(() => parseCompressionRule('', 'gzip')).toThrow();
+    });
+
+    it('should know the compression modes', () => {
+      expect(isCompressionMode('auto')).toBe(true);
+      expect(isCompressionMode('brotli')).toBe(true);
+      expect(isCompressionMode('lz4')).toBe(false);
+    });
+
+    it('should let the first matching rule decide', () => {
+      const ruleService = new CompressionService({
+        rules: [
+          parseCompressionRule('logs/archive/*', 'never'),
+          parseCompressionRule('*.log', 'zstd:19'),
+          parseCompressionRule('.TXT', 'brotli')
+        ],
+        verbosity: Verbosity.Quiet
+      });
+
+      expect(ruleService.planCompression('logs/app.log', 5000)).toEqual({ codec: 'zstd', level: 19 });
+      expect(ruleService.planCompression('logs/archive/old.log', 5000)).toBeNull();
+      expect(ruleService.planCompression('notes/readme.txt', 5000)).toEqual({ codec: 'brotli', level: 5 });
+      expect(ruleService.planCompression('data.csv', 5000)).toEqual({ codec: 'gzip', level: 6 });
+    });
+
+    it('should let rules compress files on the built-in skip list', () => {
+      const ruleService = new CompressionService({
+        rules: [parseCompressionRule('*.zip', 'zstd:1'), parseCompressionRule('*.txt', 'never')],
+        verbosity: Verbosity.Quiet
+      });
+
+      expect(ruleService.planCompression('bundle.zip', 5000)).toEqual({ codec: 'zstd', level: 1 });
+      expect(ruleService.planCompression('notes.txt', 5000)).toBeNull();
+    });
+
+    it('should clamp the global level to the range of a rule codec', () => {
+      const ruleService = new CompressionService({
+        level: 19,
+        rules: [parseCompressionRule('*.log', 'gzip')],
+        verbosity: Verbosity.Quiet
+      });
+
+      expect(ruleService.planCompression('app.log', 5000)).toEqual({ codec: 'gzip', level: 9 });
+    });
+  });
+
+  describe('selectCompression', () => {
+    it('should skip files whose sample barely shrinks in auto mode', async () => {
+      const autoService = new CompressionService({ mode: 'auto', verbosity: Verbosity.Quiet });
+      const testFile = join(tempDir, 'random.bin');
+      await writeFile(testFile, randomBytes(64 * 1024));
+
+      expect(await autoService.selectCompression(testFile, 'random.bin', 64 * 1024)).toBeNull();
+    });
+
+    it('should pick zstd for compressible files in auto mode', async () => {
+      const autoService = new CompressionService({ mode: 'auto', verbosity: Verbosity.Quiet });
+      const testFile = join(tempDir, 'text.txt');
+      await writeFile(testFile, 'ABCDEFGHIJ'.repeat(1000));
+
+      expect(await autoService.selectCompression(testFile, 'text.txt', 10000)).toEqual({ codec: 'zstd', level: 3 });
+    });
+  });
+
   describe('getCompressedRemotePath', () => {
     it('should append .gz to remote path', () => {
       const result = service.getCompressedRemotePath('/remote/file.txt');
@@ -277,4 +473,43 @@ describe('CompressionService', () => {
       expect(service.isCompressedPath('/remote.gz/file.txt')).toBe(false);
     });
   });
+
+  describe('getOriginalRemotePath', () => {
+    it('should strip the .gz suffix', () => {
+      expect(service.getOriginalRemotePath('/remote/file.txt.gz')).toBe('/remote/file.txt');
+    });
+
+    it('should leave uncompressed paths unchanged', () => {
+      expect(service.getOriginalRemotePath('/remote/file.txt')).toBe('/remote/file.txt');
+    });
+  });
+
+  describe('isCompressedFile', () => {
+    it('should return true for files compressed before upload', async () => {
+      const testFile = join(tempDir, 'file.txt');
+      await writeFile(testFile, 'ABCDEFGHIJ'.repeat(1000));
+
+      const compressResult = await service.compressFile(testFile);
+
+      expect(await service.isCompressedFile(compressResult.compressedPath)).toBe(true);
+    });
+
+    it('should return false for files whose data doesn\'t match their suffix', async () => {
+      const testFile = join(tempDir, 'notes.gz');
+      await writeFile(testFile, 'not gzip data');
+
+      expect(await service.isCompressedFile(testFile)).toBe(false);
+    });
+
+    it('should return false for files without a codec suffix', async () => {
+      const testFile = join(tempDir, 'archive.tar');
+      await writeFile(testFile, Bun.gzipSync(Buffer.from('ABCDEFGHIJ'.repeat(1000))));
+
+      expect(await service.isCompressedFile(testFile)).toBe(false);
+    });
+
+    it('should return false for missing files', async () => {
+      expect(await service.isCompressedFile(join(tempDir, 'missing.gz'))).toBe(false);
+    });
+  });
 });
@@ -1,13 +1,17 @@
 /**
  * Compression Service
- * Handles file compression using Bun's native gzip support
+ * Handles file compression with gzip, zstd or brotli, streamed so memory use doesn't grow with the file size
  */
 
-import { existsSync } from "node:fs";
-import { unlink, writeFile, readFile } from "node:fs/promises";
-import { extname, basename, join } from "node:path";
-import { tmpdir } from "node:os";
+import { createReadStream, createWriteStream, existsSync } from "node:fs";
+import { rm, stat, unlink } from "node:fs/promises";
+import { pipeline } from "node:stream/promises";
+import type { Transform } from "node:stream";
+import * as zlib from "node:zlib";
+import { extname, basename } from "node:path";
 import * as logger from "../../utils/logger";
+import { globToRegExpSource } from "../filters/path-filter";
+import { TempWorkspace, getTempPath } from "../workspace/temp-workspace";
 
 // File extensions that are already compressed and shouldn't be re-compressed
 const ALREADY_COMPRESSED_EXTENSIONS = new Set([
@@ -25,8 +29,113 @@ const ALREADY_COMPRESSED_EXTENSIONS = new Set([
   ".br", ".lz", ".lzma", ".zst"
 ]);
 
+/**
+ * The zstd part of node:zlib, which the installed Node types don't describe yet
+ */
+interface ZstdApi {
+  createZstdCompress(options: { params: Record<number, number> }): Transform;
+  createZstdDecompress(): Transform;
+  zstdCompressSync(data: Uint8Array, options: { params: Record<number, number> }): Buffer;
+  constants: { ZSTD_c_compressionLevel: number };
+}
+
+/**
+ * Get the zstd functions of node:zlib
+ * @throws {Error} If this Bun version doesn't provide zstd
+ */
+function getZstd(): ZstdApi {
+  const zstd = zlib as unknown as Partial<ZstdApi>;
+  if (!zstd.createZstdCompress || !zstd.zstdCompressSync) {
+    throw new Error("zstd compression needs a newer Bun version, use gzip or brotli instead");
+  }
+  return zstd as ZstdApi;
+}
+
+export type CompressionCodec = "gzip" | "zstd" | "brotli";
+
+// "auto" compresses with zstd, but only files whose beginning turns out to be compressible
+export type CompressionMode = CompressionCodec | "auto";
+
+export const COMPRESSION_MODES: CompressionMode[] = ["gzip", "zstd", "brotli", "auto"];
+
+interface CodecInfo {
+  extension: string; // Suffix of the remote file
+  magic?: Buffer; // Bytes the codec's data starts with; brotli has none
+  maxLevel: number;
+  defaultLevel: number;
+  compress(level: number): Transform;
+  decompress(): Transform;
+}
+
+const CODECS: Record<CompressionCodec, CodecInfo> = {
+  gzip: {
+    extension: ".gz",
+    magic: Buffer.from([0x1f, 0x8b]),
+    maxLevel: 9,
+    defaultLevel: 6,
+    compress: level => zlib.createGzip({ level }),
+    decompress: () => zlib.createGunzip()
+  },
+  zstd: {
+    extension: ".zst",
+    magic: Buffer.from([0x28, 0xb5, 0x2f, 0xfd]),
+    maxLevel: 19,
+    defaultLevel: 3,
+    compress: level => {
+      const zstd = getZstd();
+      return zstd.createZstdCompress({ params: { [zstd.constants.ZSTD_c_compressionLevel]: level } });
+    },
+    decompress: () => getZstd().createZstdDecompress()
+  },
+  brotli: {
+    extension: ".br",
+    maxLevel: 11,
+    defaultLevel: 5,
+    compress: level => zlib.createBrotliCompress({ params: { [zlib.constants.BROTLI_PARAM_QUALITY]: level } }),
+    decompress: () => zlib.createBrotliDecompress()
+  }
+};
+
+// Suffixes of remote files compressed with any codec
+export const COMPRESSED_EXTENSIONS = Object.values(CODECS).map(codec => codec.extension);
+
+// How much of a file "auto" compresses to estimate how well the whole file compresses
+const SAMPLE_BYTES = 256 * 1024;
+
+// "auto" leaves files alone whose sample shrinks by less than this percentage
+const AUTO_MIN_SAMPLE_SAVING = 10;
+
+// A compressed copy that saves less than this percentage isn't worth a suffix and a decompression on restore
+export const DEFAULT_MIN_SAVING = 5;
+
+/**
+ * Decides how files matching a pattern are compressed, before the built-in list of compressed formats
+ */
+export interface CompressionRule {
+  pattern: string; // Extension such as ".log", or a glob such as "*.sqlite" or "logs/**"
+  codec: CompressionCodec | "never";
+  level?: number; // Level of the codec, default --compression-level or the codec's default
+}
+
+/**
+ * How a single file gets compressed
+ */
+export interface CompressionChoice {
+  codec: CompressionCodec;
+  level: number;
+}
+
+interface CompiledRule extends CompressionRule {
+  matches(relativePath: string): boolean;
+}
+
 export interface CompressionOptions {
-  level?: number; // 1-9, default 6
+  mode?: CompressionMode; // Default gzip
+  level?: number; // Level for every codec unless a rule sets one, default depends on the codec
+  rules?: CompressionRule[]; // The first matching rule wins
+  minSaving?: number; // Percentage a compressed copy must save to be uploaded, default DEFAULT_MIN_SAVING
+  minSavingBytes?: number; // Bytes a compressed copy must save to be uploaded, default 0
+  workspace?: TempWorkspace; // Holds the compressed copies, default the system temp folder
   verbosity?: number;
 }
 
@@ -34,60 +143,216 @@ export interface CompressionResult {
   success: boolean;
   originalPath: string;
   compressedPath: string;
+  codec: CompressionCodec;
   originalSize: number;
   compressedSize: number;
   ratio: number;
   error?: string;
 }
 
+export interface DecompressionResult {
+  success: boolean;
+  compressedPath: string;
+  outputPath: string;
+  error?: string;
+}
+
+/**
+ * Check whether a string names a compression mode
+ */
+export function isCompressionMode(value: string): value is CompressionMode {
+  return (COMPRESSION_MODES as string[]).includes(value);
+}
+
+function isCodec(value: string): value is CompressionCodec {
+  return Object.hasOwn(CODECS, value);
+}
+
+/**
+ * Parse the value of a rule: a codec, a codec with a level such as "zstd:19", or "never"
+ * @param {string} pattern - Extension or glob the rule applies to
+ * @param {string} value - What to do with matching files
+ * @throws {Error} If the value names no codec or the level is out of range
+ */
+export function parseCompressionRule(pattern: string, value: string): CompressionRule {
+  const [codec, level, ...rest] = value.trim().toLowerCase().split(":");
+
+  if (!pattern.trim()) {
+    throw new Error(`Compression rule "${value}" needs a pattern`);
+  }
+  if (codec === "never" && level === undefined) {
+    return { pattern, codec };
+  }
+  if (!isCodec(codec) || rest.length > 0) {
+    throw new Error(`Unknown compression "${value}" for ${pattern}, use gzip, zstd or brotli with an optional :level, or never`);
+  }
+  if (level === undefined) {
+    return { pattern, codec };
+  }
+
+  const parsedLevel = Number(level);
+  const { maxLevel } = CODECS[codec];
+  if (!Number.isInteger(parsedLevel) || parsedLevel < 1 || parsedLevel > maxLevel) {
+    throw new Error(`Compression level for ${pattern} must be a whole number from 1 to ${maxLevel} with ${codec}`);
+  }
+  return { pattern, codec, level: parsedLevel };
+}
+
+/**
+ * Compile a rule into a matcher
+ * A pattern such as ".log" matches the extension; a glob without a slash matches the file
+ * name, a glob with a slash the path relative to the source directory
+ */
+function compileRule(rule: CompressionRule): CompiledRule {
+  const pattern = rule.pattern.trim();
+
+  if (/^\.[^*?[/]+$/.test(pattern)) {
+    const extension = pattern.toLowerCase();
+    return { ...rule, matches: relativePath => extname(relativePath).toLowerCase() === extension };
+  }
+
+  const regex = new RegExp(`^${globToRegExpSource(pattern.replace(/^\//, ""))}$`, "i");
+  return pattern.includes("/")
+    ? { ...rule, matches: relativePath => regex.test(relativePath.replace(/\\/g, "/")) }
+    : { ...rule, matches: relativePath => regex.test(basename(relativePath)) };
+}
+
 export class CompressionService {
-  private level: 0 | 1 | 2 | 3 | 4 | 5 | 6 | 7 | 8 | 9;
+  private mode: CompressionMode;
+  private level?: number;
+  private rules: CompiledRule[];
+  private minSaving: number;
+  private minSavingBytes: number;
+  private workspace?: TempWorkspace;
   private verbosity: number;
   private tempFiles: Set<string> = new Set();
 
   constructor(options: CompressionOptions = {}) {
-    this.level = this.validateLevel(options.level ?? 6);
+    this.mode = options.mode ?? "gzip";
+    this.level = options.level;
+    this.rules = (options.rules ?? []).map(compileRule);
+    this.minSaving = Math.max(options.minSaving ?? DEFAULT_MIN_SAVING, 0);
+    this.minSavingBytes = Math.max(options.minSavingBytes ?? 0, 0);
+    this.workspace = options.workspace;
     this.verbosity = options.verbosity ?? logger.Verbosity.Normal;
   }
 
   /**
-   * Validate compression level (1-9)
-   * Returns a valid zlib compression level
+   * Get the level to compress with, clamped to the range of the codec
+   * @param {CompressionCodec} codec - The codec
+   * @param {number} level - Level asked for by a rule, if any
    */
-  private validateLevel(level: number): 0 | 1 | 2 | 3 | 4 | 5 | 6 | 7 | 8 | 9 {
-    if (level < 1) return 1;
-    if (level > 9) return 9;
-    return level as 0 | 1 | 2 | 3 | 4 | 5 | 6 | 7 | 8 | 9;
+  private getLevel(codec: CompressionCodec, level: number | undefined = this.level): number {
+    const { maxLevel, defaultLevel } = CODECS[codec];
+    return Math.min(Math.max(level ?? defaultLevel, 1), maxLevel);
   }
 
   /**
-   * Check if a file should be compressed based on extension and size
+   * Get the codec files are compressed with when no rule says otherwise
    */
-  shouldCompress(filePath: string, size: number): boolean {
+  private getDefaultChoice(): CompressionChoice {
+    const codec = this.mode === "auto" ? "zstd" : this.mode;
+    return { codec, level: this.getLevel(codec) };
+  }
+
+  /**
+   * Find the first rule that applies to a file
+   */
+  private findRule(relativePath: string): CompiledRule | undefined {
+    return this.rules.find(rule => rule.matches(relativePath));
+  }
+
+  /**
+   * Decide from the name and size of a file whether and how it is compressed
+   * Doesn't read the file, so "auto" may still leave the file uncompressed, see selectCompression
+   * @param {string} filePath - Path of the file, relative to the source directory for rules with a slash
+   * @param {number} size - Size of the file in bytes
+   * @returns {CompressionChoice | null} How to compress the file, or null to upload it as it is
+   */
+  planCompression(filePath: string, size: number): CompressionChoice | null {
     // Don't compress files smaller than 1KB
     if (size < 1024) {
       logger.verbose(`Skipping compression for small file: ${filePath}`, this.verbosity);
-      return false;
+      return null;
+    }
+
+    const rule = this.findRule(filePath);
+    if (rule) {
+      if (rule.codec === "never") {
+        logger.verbose(`Skipping compression for ${filePath} (rule ${rule.pattern})`, this.verbosity);
+        return null;
+      }
+      return { codec: rule.codec, level: this.getLevel(rule.codec, rule.level ?? this.level) };
     }
 
     const ext = extname(filePath).toLowerCase();
 
     if (ALREADY_COMPRESSED_EXTENSIONS.has(ext)) {
       logger.verbose(`Skipping compression for already-compressed file: ${filePath}`, this.verbosity);
-      return false;
+      return null;
     }
 
-    return true;
+    return this.getDefaultChoice();
   }
 
   /**
-   * Compress a file using Bun's native gzip
+   * Check if a file should be compressed based on rules, extension and size
    */
-  async compressFile(filePath: string): Promise<CompressionResult> {
+  shouldCompress(filePath: string, size: number): boolean {
+    return this.planCompression(filePath, size) !== null;
+  }
+
+  /**
+   * Decide whether and how a file is compressed
+   * In "auto" mode, files without a rule are only compressed if a sample from their start compresses well
+   * @param {string} filePath - Absolute path of the file
+   * @param {string} relativePath - Path of the file relative to the source directory
+   * @param {number} size - Size of the file in bytes
+   * @returns {Promise<CompressionChoice | null>} How to compress the file, or null to upload it as it is
+   */
+  async selectCompression(filePath: string, relativePath: string, size: number): Promise<CompressionChoice | null> {
+    const choice = this.planCompression(relativePath, size);
+    if (!choice || this.mode !== "auto" || this.findRule(relativePath)) {
+      return choice;
+    }
+
+    let saving: number;
+    try {
+      const sample = new Uint8Array(await Bun.file(filePath).slice(0, SAMPLE_BYTES).arrayBuffer());
+      const zstd = getZstd();
+      const compressedSample = zstd.zstdCompressSync(sample, {
+        params: { [zstd.constants.ZSTD_c_compressionLevel]: choice.level }
+      });
+      saving = ((sample.byteLength - compressedSample.byteLength) / sample.byteLength) * 100;
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : String(error);
+      logger.verbose(`Skipping compression for ${relativePath}: ${errorMessage}`, this.verbosity);
+      return null;
+    }
+
+    if (saving < AUTO_MIN_SAMPLE_SAVING) {
+      logger.verbose(
+        `Skipping compression for ${relativePath}: a sample only shrank by ${saving.toFixed(1)}%`,
+        this.verbosity
+      );
+      return null;
+    }
+
+    return choice;
+  }
+
+  /**
+   * Compress a file into a temp file
+   * @param {string} filePath - The file to compress
+   * @param {CompressionChoice} choice - Codec and level, default the codec of the mode
+   */
+  async compressFile(filePath: string, choice: CompressionChoice = this.getDefaultChoice()): Promise<CompressionResult> {
+    const { codec, level } = choice;
+    let compressedPath = "";
+
     try {
       logger.verbose(`Compressing file: ${filePath}`, this.verbosity);
 
-      // Read the file
       const file = Bun.file(filePath);
       const originalSize = file.size;
 
@@ -96,6 +361,7 @@ export class CompressionService {
           success: false,
           originalPath: filePath,
           compressedPath: "",
+          codec,
           originalSize: 0,
           compressedSize: 0,
           ratio: 0,
@@ -103,30 +369,25 @@ export class CompressionService {
         };
       }
 
-      // Read file content
-      const content = await file.arrayBuffer();
-
-      // Compress using Bun's native gzip
-      const compressed = Bun.gzipSync(new Uint8Array(content), {
-        level: this.level
-      });
-
-      // Create temp file path
-      const tempDir = tmpdir();
-      const fileName = basename(filePath);
-      const compressedPath = join(tempDir, `${fileName}.gz`);
-
-      // Write compressed content
-      await writeFile(compressedPath, compressed);
+      // A compressed copy is at most about as large as the file
+      await this.workspace?.ensureFreeSpace(originalSize);
+      compressedPath = getTempPath(this.workspace, `${basename(filePath)}${CODECS[codec].extension}`);
 
       // Track temp file for cleanup
       this.tempFiles.add(compressedPath);
 
-      const compressedSize = compressed.byteLength;
+      // Stream through the codec, so files larger than memory can be compressed
+      await pipeline(
+        createReadStream(filePath),
+        CODECS[codec].compress(level),
+        createWriteStream(compressedPath)
+      );
+
+      const { size: compressedSize } = await stat(compressedPath);
       const ratio = ((originalSize - compressedSize) / originalSize) * 100;
 
       logger.verbose(
-        `Compressed ${filePath}: ${originalSize} -> ${compressedSize} bytes (${ratio.toFixed(1)}% reduction)`,
+        `Compressed ${filePath} with ${codec}: ${originalSize} -> ${compressedSize} bytes (${ratio.toFixed(1)}% reduction)`,
         this.verbosity
       );
 
@@ -134,16 +395,19 @@ export class CompressionService {
         success: true,
         originalPath: filePath,
         compressedPath,
+        codec,
         originalSize,
         compressedSize,
         ratio
       };
     } catch (error) {
+      await this.cleanup(compressedPath);
       const errorMessage = error instanceof Error ? error.message : String(error);
       return {
         success: false,
         originalPath: filePath,
         compressedPath: "",
+        codec,
         originalSize: 0,
         compressedSize: 0,
         ratio: 0,
@@ -153,25 +417,65 @@ export class CompressionService {
   }
 
   /**
-   * Compress a file and return the path to use for upload
-   * Returns original path if compression fails or isn't beneficial
+   * Decompress a file into the given output path, with the codec its suffix names (gzip if it names none)
+   */
+  async decompressFile(compressedPath: string, outputPath: string): Promise<DecompressionResult> {
+    try {
+      logger.verbose(`Decompressing file: ${compressedPath}`, this.verbosity);
+
+      await pipeline(
+        createReadStream(compressedPath),
+        CODECS[this.getCodec(compressedPath) ?? "gzip"].decompress(),
+        createWriteStream(outputPath)
+      );
+
+      return {
+        success: true,
+        compressedPath,
+        outputPath
+      };
+    } catch (error) {
+      // Don't leave a partly decompressed file behind
+      await rm(outputPath, { force: true });
+      const errorMessage = error instanceof Error ? error.message : String(error);
+      return {
+        success: false,
+        compressedPath,
+        outputPath,
+        error: errorMessage
+      };
+    }
+  }
+
+  /**
+   * Compress a file for upload, keeping the compressed copy only if it saves enough
+   * A copy that saves less than the minimum percentage or bytes is removed again
+   * @param {string} filePath - The file to compress
+   * @param {CompressionChoice} choice - Codec and level, default the codec of the mode
+   * @returns {Promise<CompressionResult | null>} The compressed copy, or null to upload the original
    */
-  async compressForUpload(filePath: string): Promise<string> {
-    const result = await this.compressFile(filePath);
+  async compressForUpload(
+    filePath: string,
+    choice: CompressionChoice = this.getDefaultChoice()
+  ): Promise<CompressionResult | null> {
+    const result = await this.compressFile(filePath, choice);
 
     if (!result.success) {
       logger.verbose(`Compression failed, using original: ${result.error}`, this.verbosity);
-      return filePath;
+      return null;
     }
 
-    // Only use compressed file if it actually reduced size
-    if (result.compressedSize >= result.originalSize) {
-      logger.verbose(`Compression didn't reduce size, using original`, this.verbosity);
+    const savedBytes = result.originalSize - result.compressedSize;
+    if (result.ratio < this.minSaving || savedBytes < this.minSavingBytes || savedBytes <= 0) {
+      logger.verbose(
+        `Compression only saved ${result.ratio.toFixed(1)}% (${savedBytes} bytes) of ${filePath}, using original`,
+        this.verbosity
+      );
       await this.cleanup(result.compressedPath);
-      return filePath;
+      return null;
     }
 
-    return result.compressedPath;
+    return result;
   }
 
   /**
@@ -200,16 +504,67 @@ export class CompressionService {
 
   /**
    * Get the compressed filename for a remote path
+   * @param {string} remotePath - Remote path of the uncompressed file
+   * @param {CompressionCodec} codec - Codec the file is compressed with, default the codec of the mode
    */
-  getCompressedRemotePath(remotePath: string): string {
-    return `${remotePath}.gz`;
+  getCompressedRemotePath(remotePath: string, codec: CompressionCodec = this.getDefaultChoice().codec): string {
+    return `${remotePath}${CODECS[codec].extension}`;
+  }
+
+  /**
+   * Get the names a compressed copy of a file may have, one per codec, the codec of the mode first
+   */
+  getCompressedRemotePaths(remotePath: string): string[] {
+    const defaultCodec = this.getDefaultChoice().codec;
+    const codecs = (Object.keys(CODECS) as CompressionCodec[]).filter(codec => codec !== defaultCodec);
+    return [defaultCodec, ...codecs].map(codec => this.getCompressedRemotePath(remotePath, codec));
+  }
+
+  /**
+   * Get the codec whose suffix a path ends with
+   * @returns {CompressionCodec | null} The codec, or null if the path has no codec suffix
+   */
+  getCodec(remotePath: string): CompressionCodec | null {
+    const ext = extname(remotePath).toLowerCase();
+    return (Object.keys(CODECS) as CompressionCodec[]).find(codec => CODECS[codec].extension === ext) ?? null;
   }
 
   /**
    * Check if a remote path indicates a compressed file
    */
   isCompressedPath(remotePath: string): boolean {
-    return remotePath.endsWith(".gz");
+    return this.getCodec(remotePath) !== null;
+  }
+
+  /**
+   * Get the original path for a remote path created by getCompressedRemotePath
+   */
+  getOriginalRemotePath(remotePath: string): string {
+    return this.isCompressedPath(remotePath) ? remotePath.slice(0, -extname(remotePath).length) : remotePath;
+  }
+
+  /**
+   * Check if a local file holds data of the codec its suffix names
+   * A file named "notes.gz" that isn't gzip data is left alone on restore; brotli data has
+   * no magic bytes, so a ".br" suffix alone counts
+   */
+  async isCompressedFile(filePath: string): Promise<boolean> {
+    const codec = this.getCodec(filePath);
+    if (!codec) {
+      return false;
+    }
+
+    const { magic } = CODECS[codec];
+    if (!magic) {
+      return true;
+    }
+
+    try {
+      const header = Buffer.from(await Bun.file(filePath).slice(0, magic.length).arrayBuffer());
+      return header.equals(magic);
+    } catch {
+      return false;
+    }
   }
 }
 
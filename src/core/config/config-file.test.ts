@@ -0,0 +1,213 @@
+/**
+ * Tests for the configuration file
+ */
+
+import { expect, describe, beforeEach, afterEach, it } from 'bun:test';
+import { loadConfig, validateConfig, findConfigFile, getJob, toBackupConfig, ConfigError } from './config-file';
+import { mkdir, writeFile, rm } from 'node:fs/promises';
+import { join } from 'node:path';
+import { tmpdir, homedir } from 'node:os';
+
+describe('config file', () => {
+  let tempDir: string;
+
+  beforeEach(async () => {
+    tempDir = join(tmpdir(), `config-file-test-${Date.now()}`);
+    await mkdir(tempDir, { recursive: true });
+  });
+
+  afterEach(async () => {
+    await rm(tempDir, { recursive: true, force: true });
+  });
+
+  // Validate a config and return the key of the error it throws
+  const errorKey = (raw: unknown): string | undefined => {
+    try {
+      validateConfig(raw, '/etc/internxt-backup/config.toml');
+    } catch (error) {
+      expect(error).toBeInstanceOf(ConfigError);
+      return (error as ConfigError).key;
+    }
+    throw new Error('Expected the config to be rejected');
+  };
+
+  describe('loadConfig', () => {
+    it('should load jobs from TOML and apply the defaults', async () => {
+      const file = join(tempDir, 'config.toml');
+      await writeFile(file, [
+        '[defaults]',
+        'compress = true',
+        'concurrency = 2',
+        'retention = { keep-daily = 7 }',
+        '',
+        '[jobs.photos]',
+        'source = "/mnt/disk/Photos"',
+        'target = "/Backups/Photos"',
+        'schedule = "0 2 * * *"',
+        'exclude = ["*.tmp"]',
+        '',
+        '[jobs.docs]',
+        'source = "docs"',
+        'concurrency = 4',
+        'retention = { keep-weekly = 4 }'
+      ].join('\n'));
+
+      const config = await loadConfig(file);
+
+      expect(config.jobs.map(job => job.name)).toEqual(['photos', 'docs']);
+      expect(getJob(config, 'photos')).toMatchObject({
+        source: '/mnt/disk/Photos',
+        target: '/Backups/Photos',
+        schedule: '0 2 * * *',
+        exclude: ['*.tmp'],
+        compress: true,
+        concurrency: 2,
+        retention: { keepDaily: 7 }
+      });
+      expect(getJob(config, 'docs')).toMatchObject({
+        source: join(tempDir, 'docs'),
+        concurrency: 4,
+        retention: { keepWeekly: 4 }
+      });
+    });
+
+    it('should load JSON and YAML files', async () => {
+      await writeFile(join(tempDir, 'config.json'), JSON.stringify({ jobs: { docs: { source: '/docs', 'compression-level': 9 } } }));
+      await writeFile(join(tempDir, 'config.yaml'), 'jobs:\n  docs:\n    source: /docs\n    mirror: true\n');
+
+      expect(getJob(await loadConfig(join(tempDir, 'config.json')), 'docs').compressionLevel).toBe(9);
+      expect(getJob(await loadConfig(join(tempDir, 'config.yaml')), 'docs').mirror).toBe(true);
+    });
+
+    it('should report files that are not valid', async () => {
+      const file = join(tempDir, 'config.toml');
+      await writeFile(file, '[jobs.photos\nsource = 1');
+
+      await expect(loadConfig(file)).rejects.toThrow(`${file}: Failed to parse`);
+      await expect(loadConfig(join(tempDir, 'missing.toml'))).rejects.toThrow('Failed to read config file');
+    });
+  });
+
+  describe('validateConfig', () => {
+    it('should point at unknown keys', () => {
+      expect(errorKey({ jobs: { photos: { source: '/p', compresion: true } } })).toBe('jobs.photos.compresion');
+      expect(errorKey({ job: {} })).toBe('job');
+      expect(errorKey({ defaults: { retention: { 'keep-yearly': 1 } }, jobs: { a: { source: '/a' } } }))
+        .toBe('defaults.retention.keep-yearly');
+    });
+
+    it('should point at values of the wrong type', () => {
+      expect(errorKey({ jobs: { photos: { source: '/p', concurrency: 'four' } } })).toBe('jobs.photos.concurrency');
+      expect(errorKey({ jobs: { photos: { source: '/p', 'compression-level': 20 } } })).toBe('jobs.photos.compression-level');
+      expect(errorKey({ jobs: { photos: { source: '/p', exclude: '*.tmp' } } })).toBe('jobs.photos.exclude');
+      expect(errorKey({ defaults: { schedule: 'every night' }, jobs: { a: { source: '/a' } } })).toBe('defaults.schedule');
+      expect(errorKey({ jobs: { photos: { source: '/p', backend: 's3' } } })).toBe('jobs.photos.backend');
+    });
+
+    it('should read the daemon settings', () => {
+      const config = validateConfig({ daemon: { 'max-concurrent-jobs': 2 }, jobs: { a: { source: '/a' } } }, '/etc/config.toml');
+
+      expect(config.daemon).toEqual({ maxConcurrentJobs: 2 });
+      expect(errorKey({ daemon: { 'max-concurrent-jobs': 0 }, jobs: { a: { source: '/a' } } })).toBe('daemon.max-concurrent-jobs');
+      expect(errorKey({ daemon: { workers: 2 }, jobs: { a: { source: '/a' } } })).toBe('daemon.workers');
+    });
+
+    it('should merge the notify settings of a job over the defaults', () => {
+      const config = validateConfig({
+        defaults: { notify: { healthcheck: 'https://hc-ping.com/abc', 'on-failure-only': true } },
+        jobs: { a: { source: '/a', notify: { command: 'mail -s backup root' } }, b: { source: '/b' } }
+      }, '/etc/config.toml');
+
+      expect(config.jobs[0].notify).toEqual({ healthcheck: 'https://hc-ping.com/abc', onFailureOnly: true, command: 'mail -s backup root' });
+      expect(toBackupConfig(config.jobs[1]).notify).toEqual({ healthcheck: 'https://hc-ping.com/abc', onFailureOnly: true });
+      expect(errorKey({ jobs: { a: { source: '/a', notify: { webhook: 'ftp://example.com' } } } })).toBe('jobs.a.notify.webhook');
+      expect(errorKey({ jobs: { a: { source: '/a', notify: { email: 'root@localhost' } } } })).toBe('jobs.a.notify.email');
+    });
+
+    it('should read the compression codec and rules', () => {
+      const config = validateConfig({
+        defaults: { compress: 'zstd', 'compression-rules': { '.iso': 'never' } },
+        jobs: { a: { source: '/a', 'compression-rules': { '*.log': 'zstd:19' } }, b: { source: '/b', compress: true } }
+      }, '/etc/config.toml');
+
+      expect(config.jobs[0].compress).toBe('zstd');
+      expect(config.jobs[0].compressionRules).toEqual([
+        { pattern: '*.log', codec: 'zstd', level: 19 },
+        { pattern: '.iso', codec: 'never' }
+      ]);
+      expect(toBackupConfig(config.jobs[1]).syncOptions.compress).toBe(true);
+      expect(errorKey({ jobs: { a: { source: '/a', compress: 'lzma' } } })).toBe('jobs.a.compress');
+      expect(errorKey({ jobs: { a: { source: '/a', 'compression-rules': { '*.log': 'zstd:99' } } } }))
+        .toBe('jobs.a.compression-rules.*.log');
+      expect(errorKey({ jobs: { a: { source: '/a', 'compression-rules': ['*.log'] } } })).toBe('jobs.a.compression-rules');
+      expect(errorKey({ jobs: { a: { source: '/a', 'compression-min-saving': 100 } } })).toBe('jobs.a.compression-min-saving');
+    });
+
+    it('should read the minimum compression saving', () => {
+      const config = validateConfig({
+        defaults: { 'compression-min-saving': 12.5 },
+        jobs: { a: { source: '/a', 'compression-min-saving-bytes': 4096 } }
+      }, '/etc/config.toml');
+
+      expect(toBackupConfig(config.jobs[0]).syncOptions).toMatchObject({
+        minCompressionSaving: 12.5,
+        minCompressionSavingBytes: 4096
+      });
+    });
+
+    it('should require jobs with a source and a plain name', () => {
+      expect(errorKey({ defaults: {} })).toBe('jobs');
+      expect(errorKey({ jobs: { photos: { target: '/Backups' } } })).toBe('jobs.photos.source');
+      expect(errorKey({ jobs: { 'my photos': { source: '/p' } } })).toBe('jobs.my photos');
+    });
+
+    it('should include the file and key in the message', () => {
+      expect(() => validateConfig({ jobs: { photos: { source: '/p', resume: 'yes' } } }, '/etc/config.toml'))
+        .toThrow('/etc/config.toml: jobs.photos.resume: Expected true or false, got "yes"');
+    });
+
+    it('should expand ~ in paths', () => {
+      const config = validateConfig({ jobs: { home: { source: '~/Documents', 'encryption-key-file': '~/backup.key', 'temp-dir': '~/tmp' } } }, '/etc/config.toml');
+
+      expect(config.jobs[0].source).toBe(join(homedir(), 'Documents'));
+      expect(config.jobs[0].encryptionKeyFile).toBe(join(homedir(), 'backup.key'));
+      expect(toBackupConfig(config.jobs[0]).syncOptions.tempDir).toBe(join(homedir(), 'tmp'));
+    });
+  });
+
+  describe('findConfigFile', () => {
+    it('should prefer TOML and fall back to it when no file exists', async () => {
+      expect(findConfigFile(tempDir)).toBe(join(tempDir, 'config.toml'));
+
+      await writeFile(join(tempDir, 'config.json'), '{}');
+      expect(findConfigFile(tempDir)).toBe(join(tempDir, 'config.json'));
+    });
+  });
+
+  describe('jobs', () => {
+    const config = validateConfig({
+      jobs: {
+        photos: { source: '/p', target: '/Backups/Photos', concurrency: 3, retention: { 'keep-daily': 7 }, schedule: '0 2 * * *' },
+        docs: { source: '/d' }
+      }
+    }, '/etc/config.toml');
+
+    it('should name the available jobs when a job is unknown', () => {
+      expect(() => getJob(config, 'music')).toThrow('Available jobs: photos, docs');
+    });
+
+    it('should turn a job into a backup configuration', () => {
+      const backup = toBackupConfig(getJob(config, 'photos'), { dryRun: true, verbose: undefined });
+
+      expect(backup).toMatchObject({
+        name: 'photos',
+        sourceDir: '/p',
+        schedule: '0 2 * * *',
+        syncOptions: { target: '/Backups/Photos', cores: 3, dryRun: true },
+        retention: { keepDaily: 7 }
+      });
+      expect('verbose' in backup.syncOptions).toBe(false);
+      expect(toBackupConfig(getJob(config, 'docs')).retention).toBeUndefined();
+    });
+  });
+});
@@ -0,0 +1,551 @@
+/**
+ * Configuration file
+ * Describes named backup jobs and the defaults they share, in TOML, YAML or JSON
+ *
+ * Example (config.toml):
+ *   [defaults]
+ *   compress = true
+ *   retention = { keep-daily = 7 }
+ *
+ *   [daemon]
+ *   max-concurrent-jobs = 2
+ *   api = "127.0.0.1:8080"
+ *
+ *   [jobs.photos]
+ *   source = "/mnt/disk/Photos"
+ *   target = "/Backups/Photos"
+ *   schedule = "0 2 * * *"
+ *   notify = { healthcheck = "https://hc-ping.com/<uuid>", on-failure-only = true }
+ */
+
+import { existsSync } from "node:fs";
+import { readFile } from "node:fs/promises";
+import path from "node:path";
+import os from "node:os";
+import { Cron } from "croner";
+import { SyncOptions } from "../../file-sync";
+import { BackupConfig } from "../scheduler/scheduler";
+import { RetentionPolicy, hasRetentionRules } from "../snapshot/retention";
+import { STORAGE_BACKEND_TYPES, isStorageBackendType } from "../storage/create-backend";
+import { parseListenAddress } from "../api/control-server";
+import { NotificationSettings } from "../notify/notifier";
+import {
+  CompressionMode,
+  CompressionRule,
+  COMPRESSION_MODES,
+  isCompressionMode,
+  parseCompressionRule
+} from "../compression/compression-service";
+
+// Looked up in this order in the config folder
+export const CONFIG_FILE_NAMES = ["config.toml", "config.yaml", "config.yml", "config.json"];
+
+/**
+ * Settings a job can set itself or inherit from the defaults
+ */
+export interface JobSettings {
+  target?: string;
+  backend?: string;
+  schedule?: string; // Cron expression, needed to run the job as a daemon
+  include?: string[];
+  exclude?: string[];
+  compress?: boolean | CompressionMode; // true compresses with gzip
+  compressionLevel?: number;
+  compressionRules?: CompressionRule[]; // A job's rules come before those of the defaults
+  minCompressionSaving?: number;
+  minCompressionSavingBytes?: number;
+  encrypt?: boolean;
+  encryptionKeyFile?: string;
+  concurrency?: number; // Number of concurrent uploads
+  resume?: boolean;
+  chunkSize?: number;
+  checksum?: boolean;
+  mirror?: boolean;
+  maxDeletions?: number;
+  snapshots?: boolean;
+  stateDir?: string;
+  tempDir?: string;
+  waitLock?: boolean; // Wait for another backup with the same state instead of failing
+  retention?: RetentionPolicy;
+  notify?: NotificationSettings;
+}
+
+/**
+ * A backup job with the defaults applied
+ */
+export interface JobConfig extends JobSettings {
+  name: string;
+  source: string;
+}
+
+/**
+ * Settings of the daemon that runs the jobs
+ */
+export interface DaemonSettings {
+  maxConcurrentJobs?: number; // Backups that may run at the same time
+  api?: string; // Address of the control API, a loopback port or a unix socket
+}
+
+/**
+ * A loaded configuration file
+ */
+export interface BackupJobsConfig {
+  path: string;
+  daemon: DaemonSettings;
+  defaults: JobSettings;
+  jobs: JobConfig[];
+}
+
+/**
+ * A configuration file that can't be used, naming the key that is wrong
+ */
+export class ConfigError extends Error {
+  readonly file: string;
+  readonly key?: string;
+
+  constructor(file: string, key: string | undefined, message: string) {
+    super(key ? `${file}: ${key}: ${message}` : `${file}: ${message}`);
+    this.name = "ConfigError";
+    this.file = file;
+    this.key = key;
+  }
+}
+
+type ValueKind = "string" | "boolean" | "count" | "level" | "strings" | "cron" | "backend" | "path" | "address" | "url" | "compress" | "percent";
+
+// Keys of a job (or of the defaults) as written in the file, with the setting they fill
+const SETTING_KEYS: Record<string, { setting: keyof JobSettings; kind: ValueKind }> = {
+  "target": { setting: "target", kind: "string" },
+  "backend": { setting: "backend", kind: "backend" },
+  "schedule": { setting: "schedule", kind: "cron" },
+  "include": { setting: "include", kind: "strings" },
+  "exclude": { setting: "exclude", kind: "strings" },
+  "compress": { setting: "compress", kind: "compress" },
+  "compression-level": { setting: "compressionLevel", kind: "level" },
+  "compression-min-saving": { setting: "minCompressionSaving", kind: "percent" },
+  "compression-min-saving-bytes": { setting: "minCompressionSavingBytes", kind: "count" },
+  "encrypt": { setting: "encrypt", kind: "boolean" },
+  "encryption-key-file": { setting: "encryptionKeyFile", kind: "path" },
+  "concurrency": { setting: "concurrency", kind: "count" },
+  "resume": { setting: "resume", kind: "boolean" },
+  "chunk-size": { setting: "chunkSize", kind: "count" },
+  "checksum": { setting: "checksum", kind: "boolean" },
+  "mirror": { setting: "mirror", kind: "boolean" },
+  "max-deletions": { setting: "maxDeletions", kind: "count" },
+  "snapshots": { setting: "snapshots", kind: "boolean" },
+  "state-dir": { setting: "stateDir", kind: "path" },
+  "temp-dir": { setting: "tempDir", kind: "path" },
+  "wait-lock": { setting: "waitLock", kind: "boolean" }
+};
+
+const RETENTION_KEYS: Record<string, keyof RetentionPolicy> = {
+  "keep-daily": "keepDaily",
+  "keep-weekly": "keepWeekly",
+  "keep-monthly": "keepMonthly"
+};
+
+// Keys of a notify table; a job's keys are merged over the defaults' one by one
+const NOTIFY_KEYS: Record<string, { setting: keyof NotificationSettings; kind: ValueKind }> = {
+  "webhook": { setting: "webhook", kind: "url" },
+  "push": { setting: "push", kind: "url" },
+  "healthcheck": { setting: "healthcheck", kind: "url" },
+  "command": { setting: "command", kind: "string" },
+  "on-failure-only": { setting: "onFailureOnly", kind: "boolean" }
+};
+
+const DAEMON_KEYS: Record<string, { setting: keyof DaemonSettings; kind: ValueKind }> = {
+  "max-concurrent-jobs": { setting: "maxConcurrentJobs", kind: "count" },
+  "api": { setting: "api", kind: "address" }
+};
+
+const JOB_NAME_PATTERN = /^[A-Za-z0-9._-]+$/;
+
+/**
+ * Get the folder that holds the configuration file
+ * Follows the XDG base directory spec: $XDG_CONFIG_HOME or ~/.config
+ */
+export function getConfigHome(): string {
+  const xdgConfigHome = process.env.XDG_CONFIG_HOME;
+  const base = xdgConfigHome && path.isAbsolute(xdgConfigHome)
+    ? xdgConfigHome
+    : path.join(os.homedir(), ".config");
+  return path.join(base, "internxt-backup");
+}
+
+/**
+ * Find the configuration file in the config folder
+ * @param {string} configHome - Folder to look in (default: XDG config home)
+ * @returns {string} The first existing config file, or config.toml if there is none
+ */
+export function findConfigFile(configHome: string = getConfigHome()): string {
+  const existing = CONFIG_FILE_NAMES
+    .map(name => path.join(configHome, name))
+    .find(filePath => existsSync(filePath));
+  return existing ?? path.join(configHome, CONFIG_FILE_NAMES[0]);
+}
+
+/**
+ * Parse the text of a config file by its extension
+ */
+function parseConfigText(filePath: string, text: string): unknown {
+  const extension = path.extname(filePath).toLowerCase();
+
+  try {
+    if (extension === ".toml") {
+      return Bun.TOML.parse(text);
+    }
+    if (extension === ".yaml" || extension === ".yml") {
+      // Bun.YAML is only available from Bun 1.2.21
+      const yaml = (Bun as unknown as { YAML?: { parse(input: string): unknown } }).YAML;
+      if (!yaml) {
+        throw new Error("YAML config files need Bun 1.2.21 or newer, use TOML or JSON instead");
+      }
+      return yaml.parse(text);
+    }
+    if (extension === ".json") {
+      return JSON.parse(text);
+    }
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : String(error);
+    throw new ConfigError(filePath, undefined, `Failed to parse: ${errorMessage}`);
+  }
+
+  throw new ConfigError(filePath, undefined, "Unsupported file type, use .toml, .yaml, .yml or .json");
+}
+
+function isTable(value: unknown): value is Record<string, unknown> {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+/**
+ * Check a single value and convert it to its setting
+ */
+function parseValue(file: string, key: string, kind: ValueKind, value: unknown): unknown {
+  const fail = (expected: string): never => {
+    throw new ConfigError(file, key, `Expected ${expected}, got ${JSON.stringify(value)}`);
+  };
+
+  switch (kind) {
+    case "string":
+    case "path":
+    case "cron":
+    case "backend":
+    case "address":
+    case "url": {
+      if (typeof value !== "string" || (kind !== "string" && value.trim() === "")) {
+        return fail(kind === "string" ? "a string" : "a non-empty string");
+      }
+      if (kind === "path") {
+        return resolvePath(value, path.dirname(file));
+      }
+      if (kind === "cron") {
+        try {
+          new Cron(value, { maxRuns: 1 });
+        } catch {
+          return fail("a cron expression such as \"0 2 * * *\"");
+        }
+      }
+      if (kind === "backend" && !isStorageBackendType(value)) {
+        return fail(`one of ${STORAGE_BACKEND_TYPES.join(", ")}`);
+      }
+      if (kind === "address") {
+        try {
+          parseListenAddress(value);
+        } catch (error) {
+          throw new ConfigError(file, key, error instanceof Error ? error.message : String(error));
+        }
+      }
+      if (kind === "url" && !/^https?:$/.test(URL.parse(value)?.protocol ?? "")) {
+        return fail("an http:// or https:// URL");
+      }
+      return value;
+    }
+    case "boolean":
+      return typeof value === "boolean" ? value : fail("true or false");
+    case "compress":
+      return typeof value === "boolean" || (typeof value === "string" && isCompressionMode(value))
+        ? value
+        : fail(`true, false or one of ${COMPRESSION_MODES.join(", ")}`);
+    case "count":
+      return Number.isInteger(value) && (value as number) > 0 ? value : fail("a positive whole number");
+    case "percent":
+      return typeof value === "number" && value >= 0 && value < 100 ? value : fail("a percentage from 0 to 99");
+    case "level":
+      // zstd goes highest; other codecs clamp the level to their own range
+      return Number.isInteger(value) && (value as number) >= 1 && (value as number) <= 19
+        ? value
+        : fail("a whole number from 1 to 19");
+    case "strings":
+      return Array.isArray(value) && value.every(item => typeof item === "string")
+        ? value
+        : fail("a list of strings");
+  }
+}
+
+/**
+ * Expand ~ and resolve relative paths against the folder of the config file
+ */
+function resolvePath(value: string, baseDir: string): string {
+  if (value === "~" || value.startsWith("~/")) {
+    return path.join(os.homedir(), value.slice(1));
+  }
+  return path.resolve(baseDir, value);
+}
+
+/**
+ * Check the retention table of a job or of the defaults
+ */
+function parseRetention(file: string, key: string, value: unknown): RetentionPolicy {
+  if (!isTable(value)) {
+    throw new ConfigError(file, key, `Expected a table with ${Object.keys(RETENTION_KEYS).join(", ")}`);
+  }
+
+  const policy: RetentionPolicy = {};
+  for (const [name, count] of Object.entries(value)) {
+    const rule = RETENTION_KEYS[name];
+    if (!rule) {
+      throw new ConfigError(file, `${key}.${name}`, `Unknown key, use one of ${Object.keys(RETENTION_KEYS).join(", ")}`);
+    }
+    if (!Number.isInteger(count) || (count as number) < 0) {
+      throw new ConfigError(file, `${key}.${name}`, `Expected a whole number, got ${JSON.stringify(count)}`);
+    }
+    policy[rule] = count as number;
+  }
+  return policy;
+}
+
+/**
+ * Check the compression rules of a job or of the defaults, e.g. { "*.log" = "zstd:19", ".iso" = "never" }
+ */
+function parseCompressionRules(file: string, key: string, value: unknown): CompressionRule[] {
+  if (!isTable(value)) {
+    throw new ConfigError(file, key, "Expected a table of patterns and codecs, e.g. { \"*.log\" = \"zstd:19\" }");
+  }
+
+  return Object.entries(value).map(([pattern, codec]) => {
+    if (typeof codec !== "string") {
+      throw new ConfigError(file, `${key}.${pattern}`, `Expected a codec such as "zstd:19" or "never", got ${JSON.stringify(codec)}`);
+    }
+    try {
+      return parseCompressionRule(pattern, codec);
+    } catch (error) {
+      throw new ConfigError(file, `${key}.${pattern}`, error instanceof Error ? error.message : String(error));
+    }
+  });
+}
+
+/**
+ * Check the notify table of a job or of the defaults
+ */
+function parseNotify(file: string, key: string, value: unknown): NotificationSettings {
+  if (!isTable(value)) {
+    throw new ConfigError(file, key, `Expected a table with ${Object.keys(NOTIFY_KEYS).join(", ")}`);
+  }
+
+  const settings: NotificationSettings = {};
+  for (const [name, setting] of Object.entries(value)) {
+    const known = NOTIFY_KEYS[name];
+    if (!known) {
+      throw new ConfigError(file, `${key}.${name}`, `Unknown key, use one of ${Object.keys(NOTIFY_KEYS).join(", ")}`);
+    }
+    (settings as Record<string, unknown>)[known.setting] = parseValue(file, `${key}.${name}`, known.kind, setting);
+  }
+  return settings;
+}
+
+/**
+ * Check the daemon table
+ */
+function parseDaemonSettings(file: string, value: unknown): DaemonSettings {
+  if (!isTable(value)) {
+    throw new ConfigError(file, "daemon", "Expected a table");
+  }
+
+  const settings: DaemonSettings = {};
+  for (const [name, setting] of Object.entries(value)) {
+    const known = DAEMON_KEYS[name];
+    if (!known) {
+      throw new ConfigError(file, `daemon.${name}`, `Unknown key, use one of ${Object.keys(DAEMON_KEYS).join(", ")}`);
+    }
+    (settings as Record<string, unknown>)[known.setting] = parseValue(file, `daemon.${name}`, known.kind, setting);
+  }
+  return settings;
+}
+
+/**
+ * Check the settings of a job or of the defaults
+ * @param {string} file - The config file, for error messages
+ * @param {string} prefix - Key of the table, e.g. "jobs.photos"
+ * @param {Record<string, unknown>} table - The table as parsed
+ * @param {string[]} extraKeys - Keys the caller handles itself
+ */
+function parseSettings(
+  file: string,
+  prefix: string,
+  table: Record<string, unknown>,
+  extraKeys: string[] = []
+): JobSettings {
+  const settings: JobSettings = {};
+
+  for (const [name, value] of Object.entries(table)) {
+    const key = `${prefix}.${name}`;
+    if (extraKeys.includes(name)) {
+      continue;
+    }
+    if (name === "retention") {
+      settings.retention = parseRetention(file, key, value);
+      continue;
+    }
+    if (name === "notify") {
+      settings.notify = parseNotify(file, key, value);
+      continue;
+    }
+    if (name === "compression-rules") {
+      settings.compressionRules = parseCompressionRules(file, key, value);
+      continue;
+    }
+
+    const known = SETTING_KEYS[name];
+    if (!known) {
+      throw new ConfigError(file, key, "Unknown key");
+    }
+    (settings as Record<string, unknown>)[known.setting] = parseValue(file, key, known.kind, value);
+  }
+
+  return settings;
+}
+
+/**
+ * Check a parsed config file and apply the defaults to every job
+ * @param {unknown} raw - The parsed file
+ * @param {string} file - The config file, for error messages and relative paths
+ * @returns {BackupJobsConfig} The validated configuration
+ */
+export function validateConfig(raw: unknown, file: string): BackupJobsConfig {
+  if (!isTable(raw)) {
+    throw new ConfigError(file, undefined, "Expected a table with [defaults] and [jobs.<name>] sections");
+  }
+
+  for (const name of Object.keys(raw)) {
+    if (name !== "daemon" && name !== "defaults" && name !== "jobs") {
+      throw new ConfigError(file, name, "Unknown key, expected daemon, defaults or jobs");
+    }
+  }
+
+  const daemon = raw.daemon === undefined ? {} : parseDaemonSettings(file, raw.daemon);
+
+  if (raw.defaults !== undefined && !isTable(raw.defaults)) {
+    throw new ConfigError(file, "defaults", "Expected a table");
+  }
+  const defaults = parseSettings(file, "defaults", raw.defaults ?? {});
+
+  if (!isTable(raw.jobs) || Object.keys(raw.jobs).length === 0) {
+    throw new ConfigError(file, "jobs", "Expected at least one job, e.g. [jobs.photos]");
+  }
+
+  const jobs = Object.entries(raw.jobs).map(([name, table]): JobConfig => {
+    const prefix = `jobs.${name}`;
+    if (!JOB_NAME_PATTERN.test(name)) {
+      throw new ConfigError(file, prefix, "Job names may only contain letters, digits, '.', '_' and '-'");
+    }
+    if (!isTable(table)) {
+      throw new ConfigError(file, prefix, "Expected a table");
+    }
+    if (typeof table.source !== "string" || table.source.trim() === "") {
+      throw new ConfigError(file, `${prefix}.source`, "Expected the folder to back up");
+    }
+
+    const settings = parseSettings(file, prefix, table, ["source"]);
+    return {
+      ...defaults,
+      ...settings,
+      retention: settings.retention ?? defaults.retention,
+      compressionRules: defaults.compressionRules || settings.compressionRules
+        ? [...settings.compressionRules ?? [], ...defaults.compressionRules ?? []]
+        : undefined,
+      notify: defaults.notify || settings.notify ? { ...defaults.notify, ...settings.notify } : undefined,
+      name,
+      source: resolvePath(table.source, path.dirname(file))
+    };
+  });
+
+  return { path: file, daemon, defaults, jobs };
+}
+
+/**
+ * Load and validate a config file
+ * @param {string} filePath - The config file (default: the one in the XDG config home)
+ * @returns {Promise<BackupJobsConfig>} The validated configuration
+ */
+export async function loadConfig(filePath: string = findConfigFile()): Promise<BackupJobsConfig> {
+  const file = path.resolve(filePath);
+
+  let text: string;
+  try {
+    text = await readFile(file, "utf8");
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : String(error);
+    throw new ConfigError(file, undefined, `Failed to read config file: ${errorMessage}`);
+  }
+
+  return validateConfig(parseConfigText(file, text), file);
+}
+
+/**
+ * Find a job by name
+ */
+export function getJob(config: BackupJobsConfig, name: string): JobConfig {
+  const job = config.jobs.find(candidate => candidate.name === name);
+  if (!job) {
+    const available = config.jobs.map(candidate => candidate.name).join(", ");
+    throw new Error(`Unknown job "${name}" in ${config.path}. Available jobs: ${available}`);
+  }
+  return job;
+}
+
+/**
+ * Turn a job into what the scheduler runs
+ * @param {JobConfig} job - The job
+ * @param {SyncOptions} overrides - Options given on the command line, e.g. dryRun or verbose
+ * @returns {BackupConfig} The backup configuration
+ */
+export function toBackupConfig(job: JobConfig, overrides: SyncOptions = {}): BackupConfig {
+  const syncOptions: SyncOptions = {
+    target: job.target,
+    backend: job.backend,
+    include: job.include,
+    exclude: job.exclude,
+    compress: job.compress,
+    compressionLevel: job.compressionLevel,
+    compressionRules: job.compressionRules,
+    minCompressionSaving: job.minCompressionSaving,
+    minCompressionSavingBytes: job.minCompressionSavingBytes,
+    encrypt: job.encrypt,
+    encryptionKeyFile: job.encryptionKeyFile,
+    cores: job.concurrency,
+    resume: job.resume,
+    chunkSize: job.chunkSize,
+    checksum: job.checksum,
+    mirror: job.mirror,
+    maxDeletions: job.maxDeletions,
+    snapshots: job.snapshots,
+    stateDir: job.stateDir,
+    tempDir: job.tempDir,
+    waitLock: job.waitLock
+  };
+
+  for (const [option, value] of Object.entries(overrides)) {
+    if (value !== undefined) {
+      (syncOptions as Record<string, unknown>)[option] = value;
+    }
+  }
+
+  return {
+    name: job.name,
+    sourceDir: job.source,
+    schedule: job.schedule,
+    syncOptions,
+    retention: job.retention && hasRetentionRules(job.retention) ? job.retention : undefined,
+    notify: job.notify
+  };
+}
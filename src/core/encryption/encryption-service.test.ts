@@ -0,0 +1,155 @@
+/**
+ * Tests for EncryptionService
+ */
+
+import { expect, describe, beforeEach, afterEach, it } from 'bun:test';
+import { EncryptionService } from './encryption-service';
+import { Verbosity } from '../../interfaces/logger';
+import { writeFile, readFile, mkdir, rm } from 'node:fs/promises';
+import { existsSync } from 'node:fs';
+import { join } from 'node:path';
+import { tmpdir } from 'node:os';
+
+describe('EncryptionService', () => {
+  let service: EncryptionService;
+  let tempDir: string;
+
+  beforeEach(async () => {
+    service = new EncryptionService({ passphrase: 'test-passphrase', verbosity: Verbosity.Normal });
+    tempDir = join(tmpdir(), `encryption-test-${Date.now()}`);
+    await mkdir(tempDir, { recursive: true });
+  });
+
+  afterEach(async () => {
+    await service.cleanupAll();
+    await rm(tempDir, { recursive: true, force: true });
+  });
+
+  describe('constructor', () => {
+    it('should require a passphrase or key file', () => {
+      expect(() => new EncryptionService({})).toThrow('passphrase or a key file');
+    });
+
+    it('should reject an empty key file', async () => {
+      const keyFile = join(tempDir, 'empty.key');
+      await writeFile(keyFile, '');
+
+      expect(() => new EncryptionService({ keyFile })).toThrow('empty');
+    });
+  });
+
+  describe('encryptFile / decryptFile', () => {
+    it('should round-trip file contents', async () => {
+      const inputPath = join(tempDir, 'secret.txt');
+      const outputPath = join(tempDir, 'restored.txt');
+      await writeFile(inputPath, 'top secret content '.repeat(1000));
+
+      const encrypted = await service.encryptFile(inputPath);
+      expect(encrypted.success).toBe(true);
+      expect(encrypted.encryptedPath.endsWith('.enc')).toBe(true);
+
+      const ciphertext = await readFile(encrypted.encryptedPath);
+      expect(ciphertext.includes('top secret content')).toBe(false);
+
+      const decrypted = await service.decryptFile(encrypted.encryptedPath, outputPath);
+      expect(decrypted.success).toBe(true);
+      expect(await readFile(outputPath, 'utf8')).toBe('top secret content '.repeat(1000));
+    });
+
+    it('should round-trip empty files', async () => {
+      const inputPath = join(tempDir, 'empty.txt');
+      const outputPath = join(tempDir, 'empty-restored.txt');
+      await writeFile(inputPath, '');
+
+      const encrypted = await service.encryptFile(inputPath);
+      const decrypted = await service.decryptFile(encrypted.encryptedPath, outputPath);
+
+      expect(decrypted.success).toBe(true);
+      expect(await readFile(outputPath, 'utf8')).toBe('');
+    });
+
+    it('should decrypt with a separate instance using the same key file', async () => {
+      const keyFile = join(tempDir, 'backup.key');
+      await writeFile(keyFile, 'key-file-secret');
+      const inputPath = join(tempDir, 'data.bin');
+      const outputPath = join(tempDir, 'data-restored.bin');
+      await writeFile(inputPath, 'binary data');
+
+      const encryptor = new EncryptionService({ keyFile });
+      const encrypted = await encryptor.encryptFile(inputPath);
+      const decrypted = await new EncryptionService({ keyFile }).decryptFile(encrypted.encryptedPath, outputPath);
+      await encryptor.cleanupAll();
+
+      expect(decrypted.success).toBe(true);
+      expect(await readFile(outputPath, 'utf8')).toBe('binary data');
+    });
+
+    it('should fail with the wrong passphrase and leave no output', async () => {
+      const inputPath = join(tempDir, 'secret.txt');
+      const outputPath = join(tempDir, 'restored.txt');
+      await writeFile(inputPath, 'top secret content');
+
+      const encrypted = await service.encryptFile(inputPath);
+      const wrongKey = new EncryptionService({ passphrase: 'wrong-passphrase' });
+      const decrypted = await wrongKey.decryptFile(encrypted.encryptedPath, outputPath);
+
+      expect(decrypted.success).toBe(false);
+      expect(existsSync(outputPath)).toBe(false);
+    });
+
+    it('should detect tampered ciphertext', async () => {
+      const inputPath = join(tempDir, 'secret.txt');
+      const outputPath = join(tempDir, 'restored.txt');
+      await writeFile(inputPath, 'top secret content');
+
+      const encrypted = await service.encryptFile(inputPath);
+      const data = await readFile(encrypted.encryptedPath);
+      data[data.length - 20] ^= 0xff;
+      await writeFile(encrypted.encryptedPath, data);
+
+      const decrypted = await service.decryptFile(encrypted.encryptedPath, outputPath);
+
+      expect(decrypted.success).toBe(false);
+      expect(existsSync(outputPath)).toBe(false);
+    });
+
+    it('should return error for non-existent file', async () => {
+      const result = await service.encryptFile('/non/existent/file.txt');
+
+      expect(result.success).toBe(false);
+      expect(result.error).toBeDefined();
+    });
+  });
+
+  describe('isEncryptedFile', () => {
+    it('should recognize encrypted files by their header', async () => {
+      const inputPath = join(tempDir, 'plain.txt');
+      await writeFile(inputPath, 'plain text');
+
+      const encrypted = await service.encryptFile(inputPath);
+
+      expect(await EncryptionService.isEncryptedFile(encrypted.encryptedPath)).toBe(true);
+      expect(await EncryptionService.isEncryptedFile(inputPath)).toBe(false);
+    });
+  });
+
+  describe('remote paths', () => {
+    it('should add and remove the .enc suffix', () => {
+      expect(service.getEncryptedRemotePath('/Backups/file.txt.gz')).toBe('/Backups/file.txt.gz.enc');
+      expect(service.isEncryptedPath('/Backups/file.txt.gz.enc')).toBe(true);
+      expect(service.getDecryptedRemotePath('/Backups/file.txt.gz.enc')).toBe('/Backups/file.txt.gz');
+    });
+  });
+
+  describe('cleanup', () => {
+    it('should remove temporary encrypted files', async () => {
+      const inputPath = join(tempDir, 'cleanup.txt');
+      await writeFile(inputPath, 'cleanup');
+
+      const encrypted = await service.encryptFile(inputPath);
+      await service.cleanup(encrypted.encryptedPath);
+
+      expect(existsSync(encrypted.encryptedPath)).toBe(false);
+    });
+  });
+});
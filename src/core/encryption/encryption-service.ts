@@ -0,0 +1,273 @@
+/**
+ * Encryption Service
+ * Handles client-side file encryption using AES-256-GCM
+ */
+
+import { createReadStream, createWriteStream, readFileSync } from "node:fs";
+import { open, stat, unlink } from "node:fs/promises";
+import { Readable } from "node:stream";
+import { pipeline } from "node:stream/promises";
+import { basename } from "node:path";
+import { createCipheriv, createDecipheriv, createHash, randomBytes, scryptSync } from "node:crypto";
+import * as logger from "../../utils/logger";
+import { TempWorkspace, getTempPath } from "../workspace/temp-workspace";
+
+export const ENCRYPTED_EXTENSION = ".enc";
+
+// File layout: MAGIC | salt | iv | ciphertext | auth tag
+const MAGIC = Buffer.from("IXBKENC1");
+const SALT_LENGTH = 16;
+const IV_LENGTH = 12;
+const TAG_LENGTH = 16;
+const HEADER_LENGTH = MAGIC.length + SALT_LENGTH + IV_LENGTH;
+
+// Bytes an encrypted file is larger than its plaintext
+export const ENCRYPTION_OVERHEAD = HEADER_LENGTH + TAG_LENGTH;
+const KEY_LENGTH = 32;
+const CIPHER = "aes-256-gcm";
+
+export interface EncryptionOptions {
+  passphrase?: string;
+  keyFile?: string; // Path to a file whose contents are used as the secret
+  workspace?: TempWorkspace; // Holds the encrypted copies, default the system temp folder
+  verbosity?: number;
+}
+
+export interface EncryptionResult {
+  success: boolean;
+  originalPath: string;
+  encryptedPath: string;
+  error?: string;
+}
+
+export interface DecryptionResult {
+  success: boolean;
+  encryptedPath: string;
+  outputPath: string;
+  error?: string;
+}
+
+export class EncryptionService {
+  private secret: Buffer;
+  private salt: Buffer;
+  private keys: Map<string, Buffer> = new Map();
+  private verbosity: number;
+  private workspace?: TempWorkspace;
+  private tempFiles: Set<string> = new Set();
+
+  constructor(options: EncryptionOptions) {
+    if (options.keyFile) {
+      this.secret = readFileSync(options.keyFile);
+    } else if (options.passphrase) {
+      this.secret = Buffer.from(options.passphrase, "utf8");
+    } else {
+      throw new Error("Encryption requires a passphrase or a key file");
+    }
+
+    if (this.secret.length === 0) {
+      throw new Error("Encryption secret is empty");
+    }
+
+    this.verbosity = options.verbosity ?? logger.Verbosity.Normal;
+    this.workspace = options.workspace;
+
+    // One salt per run, so the key is only derived once for all files
+    this.salt = randomBytes(SALT_LENGTH);
+  }
+
+  /**
+   * Derive the key for a salt, caching the result
+   */
+  private getKey(salt: Buffer): Buffer {
+    const cacheKey = salt.toString("hex");
+    let key = this.keys.get(cacheKey);
+
+    if (!key) {
+      key = scryptSync(this.secret, salt, KEY_LENGTH);
+      this.keys.set(cacheKey, key);
+    }
+
+    return key;
+  }
+
+  /**
+   * Encrypt a file into a temp file
+   */
+  async encryptFile(filePath: string): Promise<EncryptionResult> {
+    const encryptedPath = getTempPath(this.workspace, `${basename(filePath)}${ENCRYPTED_EXTENSION}`);
+
+    try {
+      logger.verbose(`Encrypting file: ${filePath}`, this.verbosity);
+
+      if (this.workspace) {
+        await this.workspace.ensureFreeSpace((await stat(filePath)).size + ENCRYPTION_OVERHEAD);
+      }
+
+      const iv = randomBytes(IV_LENGTH);
+      const cipher = createCipheriv(CIPHER, this.getKey(this.salt), iv);
+      const header = Buffer.concat([MAGIC, this.salt, iv]);
+
+      this.tempFiles.add(encryptedPath);
+
+      await pipeline(
+        createReadStream(filePath),
+        cipher,
+        async function* (ciphertext) {
+          yield header;
+          for await (const chunk of ciphertext) {
+            yield chunk;
+          }
+          // The tag is available once the cipher has been finalized
+          yield cipher.getAuthTag();
+        },
+        createWriteStream(encryptedPath)
+      );
+
+      return {
+        success: true,
+        originalPath: filePath,
+        encryptedPath
+      };
+    } catch (error) {
+      await this.cleanup(encryptedPath);
+      const errorMessage = error instanceof Error ? error.message : String(error);
+      return {
+        success: false,
+        originalPath: filePath,
+        encryptedPath: "",
+        error: errorMessage
+      };
+    }
+  }
+
+  /**
+   * Decrypt a file encrypted by encryptFile into the given output path
+   * Fails without writing output if the file was tampered with or the key is wrong
+   */
+  async decryptFile(encryptedPath: string, outputPath: string): Promise<DecryptionResult> {
+    try {
+      logger.verbose(`Decrypting file: ${encryptedPath}`, this.verbosity);
+
+      const { size } = await stat(encryptedPath);
+      if (size < HEADER_LENGTH + TAG_LENGTH) {
+        throw new Error("File is too short to be encrypted");
+      }
+
+      const header = Buffer.alloc(HEADER_LENGTH);
+      const tag = Buffer.alloc(TAG_LENGTH);
+      const handle = await open(encryptedPath, "r");
+      try {
+        await handle.read(header, 0, HEADER_LENGTH, 0);
+        await handle.read(tag, 0, TAG_LENGTH, size - TAG_LENGTH);
+      } finally {
+        await handle.close();
+      }
+
+      if (!header.subarray(0, MAGIC.length).equals(MAGIC)) {
+        throw new Error("File was not encrypted by internxt-backup");
+      }
+
+      const salt = header.subarray(MAGIC.length, MAGIC.length + SALT_LENGTH);
+      const iv = header.subarray(MAGIC.length + SALT_LENGTH);
+      const decipher = createDecipheriv(CIPHER, this.getKey(salt), iv);
+      decipher.setAuthTag(tag);
+
+      const ciphertextEnd = size - TAG_LENGTH - 1;
+      const ciphertext = ciphertextEnd >= HEADER_LENGTH
+        ? createReadStream(encryptedPath, { start: HEADER_LENGTH, end: ciphertextEnd })
+        : Readable.from([]);
+
+      await pipeline(ciphertext, decipher, createWriteStream(outputPath));
+
+      return {
+        success: true,
+        encryptedPath,
+        outputPath
+      };
+    } catch (error) {
+      await unlink(outputPath).catch(() => {});
+      const errorMessage = error instanceof Error ? error.message : String(error);
+      return {
+        success: false,
+        encryptedPath,
+        outputPath,
+        error: errorMessage
+      };
+    }
+  }
+
+  /**
+   * Get a check value of the key a file would be decrypted with, derived from its salt
+   * Files whose check value was taken with the same secret decrypt with this service
+   * @param {string} encryptedPath - File encrypted by encryptFile
+   * @returns {Promise<string | undefined>} SHA-256 of the key, or undefined if the file isn't encrypted
+   */
+  async getKeyCheck(encryptedPath: string): Promise<string | undefined> {
+    const header = Buffer.from(await Bun.file(encryptedPath).slice(0, HEADER_LENGTH).arrayBuffer());
+    if (header.length < HEADER_LENGTH || !header.subarray(0, MAGIC.length).equals(MAGIC)) {
+      return undefined;
+    }
+
+    const salt = header.subarray(MAGIC.length, MAGIC.length + SALT_LENGTH);
+    return createHash("sha256").update(this.getKey(salt)).digest("hex");
+  }
+
+  /**
+   * Check if a local file starts with the encryption header
+   */
+  static async isEncryptedFile(filePath: string): Promise<boolean> {
+    try {
+      const header = Buffer.from(await Bun.file(filePath).slice(0, MAGIC.length).arrayBuffer());
+      return header.equals(MAGIC);
+    } catch {
+      return false;
+    }
+  }
+
+  /**
+   * Clean up a specific temp file
+   */
+  async cleanup(filePath: string): Promise<void> {
+    try {
+      if (this.tempFiles.has(filePath)) {
+        this.tempFiles.delete(filePath);
+        await unlink(filePath);
+        logger.verbose(`Cleaned up temp file: ${filePath}`, this.verbosity);
+      }
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : String(error);
+      logger.verbose(`Failed to cleanup temp file: ${errorMessage}`, this.verbosity);
+    }
+  }
+
+  /**
+   * Clean up all tracked temp files
+   */
+  async cleanupAll(): Promise<void> {
+    const promises = Array.from(this.tempFiles).map(path => this.cleanup(path));
+    await Promise.all(promises);
+  }
+
+  /**
+   * Get the encrypted filename for a remote path
+   */
+  getEncryptedRemotePath(remotePath: string): string {
+    return `${remotePath}${ENCRYPTED_EXTENSION}`;
+  }
+
+  /**
+   * Check if a remote path indicates an encrypted file
+   */
+  isEncryptedPath(remotePath: string): boolean {
+    return remotePath.endsWith(ENCRYPTED_EXTENSION);
+  }
+
+  /**
+   * Get the original path for a remote path created by getEncryptedRemotePath
+   */
+  getDecryptedRemotePath(remotePath: string): string {
+    return this.isEncryptedPath(remotePath) ? remotePath.slice(0, -ENCRYPTED_EXTENSION.length) : remotePath;
+  }
+}
+
+export default EncryptionService;
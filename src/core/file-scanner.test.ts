@@ -12,6 +12,7 @@ import fs from 'fs';
 import path from 'path';
 import crypto from 'crypto';
 import { HashCache } from './upload/hash-cache';
+import { StateStore } from './state/state-store';
 import * as fsUtils from '../utils/fs-utils';
 
 describe('FileScanner', () => {
@@ -29,6 +30,7 @@ describe('FileScanner', () => {
   let loadJsonFromFileSpy: ReturnType<typeof spyOn>;
   let saveJsonToFileSpy: ReturnType<typeof spyOn>;
   let hashCacheCalculateHashSpy: ReturnType<typeof spyOn>;
+  let store: StateStore;
 
   beforeEach(() => {
     // Mock fs functions at the lowest level
@@ -76,8 +78,9 @@ describe('FileScanner', () => {
 
     // Mock HashCache methods to avoid actual file operations
     hashCacheCalculateHashSpy = spyOn(HashCache.prototype, 'calculateHash').mockImplementation(() => Promise.resolve('cached-checksum'));
-    spyOn(HashCache.prototype, 'load').mockImplementation(() => Promise.resolve(true));
-    spyOn(HashCache.prototype, 'save').mockImplementation(() => Promise.resolve(true));
+
+    // Keep state in memory
+    store = new StateStore(':memory:', { verbosity: 0 });
 
     // Mock logger functions
     loggerVerboseSpy = spyOn(logger, 'verbose').mockImplementation(() => {});
@@ -98,6 +101,7 @@ describe('FileScanner', () => {
     loadJsonFromFileSpy?.mockRestore?.();
     saveJsonToFileSpy?.mockRestore?.();
     hashCacheCalculateHashSpy?.mockRestore?.();
+    store.close();
     loggerVerboseSpy?.mockRestore?.();
     loggerInfoSpy?.mockRestore?.();
     loggerErrorSpy?.mockRestore?.();
@@ -120,54 +124,61 @@ describe('FileScanner', () => {
     });
   });
 
-  describe('loadState', () => {
-    it('should load state from file', async () => {
-      loadJsonFromFileSpy.mockImplementation(() => 
-        Promise.resolve({ files: { 'test.txt': 'abc123' }, lastRun: '2021-01-01' })
-      );
-
-      const scanner = new FileScanner('/test/dir');
-      await scanner.loadState();
-
-      expect(loadJsonFromFileSpy).toHaveBeenCalled();
-    });
-
-    it('should handle empty state file', async () => {
-      loadJsonFromFileSpy.mockImplementation(() => 
-        Promise.resolve({ files: {}, lastRun: '' })
-      );
-
-      const scanner = new FileScanner('/test/dir');
-      await scanner.loadState();
+  describe('saveState', () => {
+    it('should write recorded uploads to the state store', async () => {
+      const scanner = new FileScanner('/test/dir', 1, false, { stateStore: store });
+      const flushSpy = spyOn(store, 'flush');
+      scanner.updateFileState('file1.txt', 'checksum1');
+      await scanner.saveState();
 
-      expect(loadJsonFromFileSpy).toHaveBeenCalled();
+      expect(flushSpy).toHaveBeenCalled();
     });
-  });
 
-  describe('saveState', () => {
-    it('should save state to file', async () => {
-      const scanner = new FileScanner('/test/dir');
-      scanner.updateFileState('file1.txt', 'checksum1');
+    it('should not write anything in dry-run mode', async () => {
+      const scanner = new FileScanner('/test/dir', 1, false, { dryRun: true, stateStore: store });
+      const flushSpy = spyOn(store, 'flush');
       await scanner.saveState();
 
-      expect(saveJsonToFileSpy).toHaveBeenCalled();
+      expect(flushSpy).not.toHaveBeenCalled();
     });
   });
 
   describe('updateFileState', () => {
     it('should update file state with new checksum', () => {
-      const scanner = new FileScanner('/test/dir');
+      const scanner = new FileScanner('/test/dir', 1, false, { stateStore: store });
       scanner.updateFileState('file1.txt', 'new-checksum');
 
-      expect(scanner).toBeDefined();
+      expect(store.getFile('/test/dir/file1.txt')?.hash).toBe('new-checksum');
     });
 
     it('should update multiple files', () => {
-      const scanner = new FileScanner('/test/dir');
+      const scanner = new FileScanner('/test/dir', 1, false, { stateStore: store });
       scanner.updateFileState('file1.txt', 'checksum1');
       scanner.updateFileState('file2.txt', 'checksum2');
 
-      expect(scanner).toBeDefined();
+      expect(store.countFiles()).toBe(2);
+    });
+
+    it('should record where and how the file was uploaded', () => {
+      const scanner = new FileScanner('/test/dir', 1, false, { stateStore: store });
+      scanner.updateFileState('file1.txt', 'checksum1', { remotePath: 'backup/file1.txt.gz', compressed: true, encrypted: false });
+
+      expect(store.getFile('/test/dir/file1.txt')).toMatchObject({
+        hash: 'checksum1',
+        remotePath: 'backup/file1.txt.gz',
+        compressed: true,
+        encrypted: false,
+        uploadedAt: expect.any(String)
+      });
+    });
+
+    it('should read back where an earlier run uploaded the file', () => {
+      const scanner = new FileScanner('/test/dir', 1, false, { stateStore: store });
+      scanner.updateFileState('file1.txt', 'checksum1', { remotePath: 'backup/file1.txt.gz', compressed: true, encrypted: false });
+      scanner.updateFileState('file2.txt', 'checksum2');
+
+      expect(scanner.getUploadDetails('file1.txt')).toEqual({ remotePath: 'backup/file1.txt.gz', compressed: true, encrypted: false });
+      expect(scanner.getUploadDetails('file2.txt')).toBeUndefined();
     });
   });
 
@@ -201,6 +212,32 @@ describe('FileScanner', () => {
       expect(files[0].relativePath).toBe('file1.txt');
     });
 
+    it('should reuse cached hashes for files with unchanged metadata', async () => {
+      fsStatSyncSpy.mockImplementation(() => ({ size: 1024, mtimeMs: 1700000000000, ino: 42 }));
+
+      const scanner = new FileScanner('/test/dir');
+      scanner['hashCache'].updateHash('/test/dir/file1.txt', 'cached-checksum', { size: 1024, mtime: 1700000000000, inode: 42 });
+
+      const files = await scanner.scanDirectory('/test/dir');
+
+      expect(calculateChecksumSpy).not.toHaveBeenCalled();
+      expect(files[0].checksum).toBe('cached-checksum');
+      expect(files[0].hasChanged).toBe(false);
+    });
+
+    it('should always hash files in checksum mode', async () => {
+      fsStatSyncSpy.mockImplementation(() => ({ size: 1024, mtimeMs: 1700000000000, ino: 42 }));
+
+      const scanner = new FileScanner('/test/dir', 1, false, { checksum: true });
+      scanner['hashCache'].updateHash('/test/dir/file1.txt', 'cached-checksum', { size: 1024, mtime: 1700000000000, inode: 42 });
+
+      const files = await scanner.scanDirectory('/test/dir');
+
+      expect(calculateChecksumSpy).toHaveBeenCalled();
+      expect(files[0].checksum).toBe('mock-checksum');
+      expect(files[0].hasChanged).toBeNull();
+    });
+
     it('should handle empty directory', async () => {
       fsReaddirSyncSpy.mockImplementation(() => []);
 
@@ -224,6 +261,44 @@ describe('FileScanner', () => {
       expect(files[0].relativePath).toBe('visible.txt');
     });
 
+    it('should prune excluded directories without reading them', async () => {
+      const readDirs: string[] = [];
+      fsReaddirSyncSpy.mockImplementation((dirPath: string) => {
+        readDirs.push(dirPath);
+        if (dirPath === '/test/dir') {
+          return [
+            { name: 'node_modules', isDirectory: () => true, isFile: () => false },
+            { name: 'src', isDirectory: () => true, isFile: () => false },
+            { name: 'notes.tmp', isDirectory: () => false, isFile: () => true }
+          ];
+        }
+        return [{ name: 'index.ts', isDirectory: () => false, isFile: () => true }];
+      });
+
+      const scanner = new FileScanner('/test/dir', 1, false, { exclude: ['node_modules/', '*.tmp'] });
+      const files = await scanner.scanDirectory('/test/dir');
+
+      expect(readDirs).toEqual(['/test/dir', '/test/dir/src']);
+      expect(files.map(file => file.relativePath)).toEqual(['src/index.ts']);
+    });
+
+    it('should include selected files from hidden directories', async () => {
+      fsReaddirSyncSpy.mockImplementation((dirPath: string) => {
+        if (dirPath === '/test/dir') {
+          return [{ name: '.ssh', isDirectory: () => true, isFile: () => false }];
+        }
+        return [
+          { name: 'config', isDirectory: () => false, isFile: () => true },
+          { name: 'id_rsa', isDirectory: () => false, isFile: () => true }
+        ];
+      });
+
+      const scanner = new FileScanner('/test/dir', 1, false, { include: ['.ssh/config'] });
+      const files = await scanner.scanDirectory('/test/dir');
+
+      expect(files.map(file => file.relativePath)).toEqual(['.ssh/config']);
+    });
+
     it('should handle directory scan errors gracefully', async () => {
       fsReaddirSyncSpy.mockImplementation(() => {
         throw new Error('Permission denied');
@@ -292,11 +367,11 @@ describe('FileScanner', () => {
     });
 
     it('should return empty array when no files changed', async () => {
-      const scanner = new FileScanner('/test/dir');
+      const scanner = new FileScanner('/test/dir', 1, false, { stateStore: store });
 
-      // Pre-populate the hash cache with matching checksums
-      scanner['hashCache']['cache'].set(path.normalize('/test/dir/file1.txt'), 'cached-checksum');
-      scanner['hashCache']['cache'].set(path.normalize('/test/dir/file2.txt'), 'cached-checksum');
+      // Pre-populate the state store with matching checksums
+      store.putFile({ path: '/test/dir/file1.txt', hash: 'cached-checksum' });
+      store.putFile({ path: '/test/dir/file2.txt', hash: 'cached-checksum' });
 
       const allFiles = [
         {
@@ -319,6 +394,43 @@ describe('FileScanner', () => {
 
       expect(filesToUpload.length).toBe(0);
     });
+
+    it('should not cache the hash of a changed file before it is uploaded', async () => {
+      const scanner = new FileScanner('/test/dir', 1, false, { stateStore: store });
+      store.putFile({ path: '/test/dir/file1.txt', hash: 'old-checksum' });
+
+      const filesToUpload = await scanner.determineFilesToUpload([
+        {
+          relativePath: 'file1.txt',
+          absolutePath: '/test/dir/file1.txt',
+          size: 1024,
+          checksum: 'new-checksum',
+          hasChanged: null
+        }
+      ]);
+
+      expect(filesToUpload.length).toBe(1);
+      expect(store.getFile('/test/dir/file1.txt')?.hash).toBe('old-checksum');
+    });
+
+    it('should not refresh cached metadata in dry-run mode', async () => {
+      const scanner = new FileScanner('/test/dir', 1, false, { dryRun: true, stateStore: store });
+      store.putFile({ path: '/test/dir/file1.txt', hash: 'cached-checksum' });
+
+      await scanner.determineFilesToUpload([
+        {
+          relativePath: 'file1.txt',
+          absolutePath: '/test/dir/file1.txt',
+          size: 1024,
+          checksum: 'cached-checksum',
+          hasChanged: null,
+          mtime: 1000,
+          inode: 42
+        }
+      ]);
+
+      expect(store.getFile('/test/dir/file1.txt')?.inode).toBeUndefined();
+    });
   });
 
   describe('scan', () => {
@@ -381,12 +493,50 @@ describe('FileScanner', () => {
     });
   });
 
-  describe('recordCompletion', () => {
-    it('should record upload completion time', () => {
-      const scanner = new FileScanner('/test/dir');
-      scanner.recordCompletion();
+  describe('determineFilesToDelete', () => {
+    it('should return previously uploaded files missing from the scan', async () => {
+      const scanner = new FileScanner('/test/dir', 1, false, { stateStore: store });
+      scanner.updateFileState('kept.txt', 'checksum1');
+      scanner.updateFileState('deleted.txt', 'checksum2');
 
-      expect(scanner).toBeDefined();
+      // Hashes that were never uploaded don't count
+      store.putFile({ path: '/test/dir/hashed-only.txt', hash: 'checksum3' });
+
+      const filesToDelete = scanner.determineFilesToDelete([
+        {
+          relativePath: 'kept.txt',
+          absolutePath: '/test/dir/kept.txt',
+          size: 1024,
+          checksum: 'checksum1',
+          hasChanged: null
+        }
+      ]);
+
+      expect(filesToDelete).toEqual(['deleted.txt']);
+    });
+
+    it('should not report deletions when the scan had errors', async () => {
+      fsReaddirSyncSpy.mockImplementation(() => {
+        throw new Error('Permission denied');
+      });
+
+      const scanner = new FileScanner('/test/dir', 1, false, { stateStore: store });
+      scanner.updateFileState('file1.txt', 'checksum1');
+      const result = await scanner.scan();
+
+      expect(result.filesToDelete).toEqual([]);
+    });
+  });
+
+  describe('removeFileState', () => {
+    it('should forget the file and its cached hash', async () => {
+      const scanner = new FileScanner('/test/dir', 1, false, { stateStore: store });
+      scanner.updateFileState('deleted.txt', 'checksum1');
+
+      scanner.removeFileState('deleted.txt');
+
+      expect(scanner.determineFilesToDelete([])).toEqual([]);
+      expect(store.countFiles()).toBe(0);
     });
   });
 });
@@ -5,111 +5,183 @@
 
 import fs from 'fs';
 import path from 'path';
-import os from 'os';
 import * as logger from '../utils/logger';
-import { calculateChecksum, loadJsonFromFile, saveJsonToFile } from '../utils/fs-utils';
-import { HashCache } from './upload/hash-cache';
-import { FileInfo, ScanResult, UploadState } from '../interfaces/file-scanner';
+import { calculateChecksum } from '../utils/fs-utils';
+import { HashCache, FileMetadata } from './upload/hash-cache';
+import { PathFilter, PathFilterOptions, IGNORE_FILE_NAME } from './filters/path-filter';
+import { StateStore } from './state/state-store';
+import { RUN_LOCK_FILE } from './state/run-lock';
+import { FileInfo, ScanResult, UploadDetails } from '../interfaces/file-scanner';
+
+/**
+ * Additional options for the file scanner
+ */
+export interface FileScannerOptions extends PathFilterOptions {
+  checksum?: boolean; // Always compare file contents instead of trusting size and modification time
+  dryRun?: boolean; // Never change the saved state or hash cache
+  stateStore?: StateStore; // Where uploads and hashes are recorded (default: in memory, nothing is kept)
+}
 
 /**
  * File Scanner class to handle directory scanning and file selection
  */
 export default class FileScanner {
   private sourceDir: string;
-  private statePath: string;
-  private uploadState: UploadState;
+  private stateStore: StateStore;
   private verbosity: number;
   private hashCache: HashCache;
   private forceUpload: boolean;
+  private checksumMode: boolean;
+  private dryRun: boolean;
+  private scanErrors: number;
+  private scannedFiles: Map<string, FileInfo>;
+  private pathFilter: PathFilter;
 
   /**
    * Create a new FileScanner
    * @param {string} sourceDir - The source directory to scan
    * @param {number} verbosity - Verbosity level
    * @param {boolean} forceUpload - Whether to force upload all files regardless of change
+   * @param {FileScannerOptions} options - Include/exclude patterns and change detection options
    */
-  constructor(sourceDir: string, verbosity: number = logger.Verbosity.Normal, forceUpload: boolean = false) {
+  constructor(
+    sourceDir: string,
+    verbosity: number = logger.Verbosity.Normal,
+    forceUpload: boolean = false,
+    options: FileScannerOptions = {}
+  ) {
     this.sourceDir = path.resolve(sourceDir);
-    this.statePath = path.join(os.tmpdir(), "internxt-backup-state.json");
-    this.uploadState = { files: {}, lastRun: "" };
+    this.stateStore = options.stateStore ?? new StateStore(":memory:", { verbosity });
     this.verbosity = verbosity;
     this.forceUpload = forceUpload;
+    this.checksumMode = options.checksum ?? false;
+    this.dryRun = options.dryRun ?? false;
+    this.scanErrors = 0;
+    this.scannedFiles = new Map();
+    this.pathFilter = new PathFilter(options);
     
-    // Use the same hash cache that the uploader will use
-    this.hashCache = new HashCache(
-      path.join(os.tmpdir(), "internxt-backup-hash-cache.json"),
-      verbosity
-    );
-    this.hashCache.load();
+    // Use the same state store that the uploader will use
+    this.hashCache = new HashCache(this.stateStore, verbosity);
   }
 
   /**
-   * Load the saved state from the state file
+   * Write the recorded uploads and hashes to the state store
    */
-  async loadState(): Promise<void> {
-    this.uploadState = await loadJsonFromFile(this.statePath, { files: {}, lastRun: "" }) as UploadState;
-    logger.verbose(`Loaded state with ${Object.keys(this.uploadState.files).length} saved file checksums`, this.verbosity);
+  async saveState(): Promise<void> {
+    if (this.dryRun) {
+      logger.verbose("Dry run: not saving state", this.verbosity);
+      return;
+    }
+
+    this.hashCache.save();
   }
 
   /**
-   * Save the current state to the state file
+   * Update the state with a successfully uploaded file
+   * Only an uploaded file's hash is recorded, so a failed upload is retried next run
+   * @param {string} relativePath - Relative path of the file
+   * @param {string} checksum - Checksum of the file
+   * @param {UploadDetails} upload - Where and how the file was uploaded
    */
-  async saveState(): Promise<void> {
-    await saveJsonToFile(this.statePath, this.uploadState);
-    logger.verbose(`Saved state with ${Object.keys(this.uploadState.files).length} file checksums`, this.verbosity);
+  updateFileState(relativePath: string, checksum: string, upload?: UploadDetails): void {
+    const file = this.scannedFiles.get(relativePath);
+
+    this.stateStore.putFile({
+      path: file?.absolutePath ?? path.join(this.sourceDir, relativePath),
+      hash: checksum,
+      ...(file && this.getMetadata(file)),
+      remotePath: upload?.remotePath,
+      compressed: upload?.compressed,
+      encrypted: upload?.encrypted,
+      uploadedAt: new Date().toISOString()
+    });
   }
 
   /**
-   * Update the state with a successfully uploaded file
+   * Get where and how an earlier run uploaded a file
    * @param {string} relativePath - Relative path of the file
-   * @param {string} checksum - Checksum of the file
+   * @returns {UploadDetails | undefined} The upload recorded in the state, if any
    */
-  updateFileState(relativePath: string, checksum: string): void {
-    this.uploadState.files[relativePath] = checksum;
+  getUploadDetails(relativePath: string): UploadDetails | undefined {
+    const file = this.scannedFiles.get(relativePath);
+    const record = this.stateStore.getFile(file?.absolutePath ?? path.join(this.sourceDir, relativePath));
+    if (!record?.remotePath) {
+      return undefined;
+    }
+
+    return {
+      remotePath: record.remotePath,
+      compressed: record.compressed ?? false,
+      encrypted: record.encrypted ?? false
+    };
   }
 
   /**
-   * Record the upload completion time
+   * Get the metadata used for fast change detection of a scanned file
+   * @param {FileInfo} file - The scanned file
+   * @returns {FileMetadata | undefined} Size, modification time and inode, if known
+   */
+  private getMetadata(file: FileInfo): FileMetadata | undefined {
+    return file.mtime !== undefined && file.inode !== undefined
+      ? { size: file.size, mtime: file.mtime, inode: file.inode }
+      : undefined;
+  }
+
+  /**
+   * Remove a file that no longer exists locally from the state
+   * The file is uploaded again if it reappears
+   * @param {string} relativePath - Relative path of the file
    */
-  recordCompletion(): void {
-    this.uploadState.lastRun = new Date().toISOString();
+  removeFileState(relativePath: string): void {
+    this.hashCache.remove(path.join(this.sourceDir, relativePath));
   }
 
   /**
    * Scan a directory recursively to find all files
+   * Excluded directories are pruned without being read, unless an include
+   * rule may match an entry inside them
    * @param {string} dir - Directory to scan
    * @param {string} baseDir - Base directory for calculating relative paths
+   * @param {PathFilter} filter - Filter rules that apply to the directory's parent
+   * @param {boolean} dirExcluded - Whether the directory itself is excluded
    * @returns {Promise<Array<FileInfo>>} Array of file information objects
    */
-  async scanDirectory(dir: string, baseDir: string = this.sourceDir): Promise<FileInfo[]> {
+  async scanDirectory(
+    dir: string,
+    baseDir: string = this.sourceDir,
+    filter: PathFilter = this.pathFilter,
+    dirExcluded: boolean = false
+  ): Promise<FileInfo[]> {
     try {
       const entries = fs.readdirSync(dir, { withFileTypes: true });
       const files: FileInfo[] = [];
+      const dirFilter = filter.forDirectory(dir, path.relative(baseDir, dir));
 
       for (const entry of entries) {
         const fullPath = path.join(dir, entry.name);
         const relativePath = path.relative(baseDir, fullPath);
 
-        // Skip hidden files and the state file
-        if (entry.name.startsWith(".") || fullPath === this.statePath) {
+        // Skip the state database, its journal files and the run lock
+        if (this.isStateFile(fullPath)) {
           continue;
         }
 
         if (entry.isDirectory()) {
-          const subDirFiles = await this.scanDirectory(fullPath, baseDir);
+          const excluded = dirFilter.isExcluded(relativePath, true, dirExcluded);
+          if (excluded && !dirFilter.mayContainIncluded(relativePath)) {
+            logger.verbose(`Skipping excluded directory ${relativePath}`, this.verbosity);
+            continue;
+          }
+
+          const subDirFiles = await this.scanDirectory(fullPath, baseDir, dirFilter, excluded);
           files.push(...subDirFiles);
         } else if (entry.isFile()) {
-          const stats = fs.statSync(fullPath);
-          logger.verbose(`Calculating checksum for ${relativePath}`, this.verbosity);
-          const checksum = await calculateChecksum(fullPath);
-
-          files.push({
-            relativePath,
-            absolutePath: fullPath,
-            size: stats.size,
-            checksum,
-            hasChanged: null // Will be determined later
-          });
+          if (dirFilter.isExcluded(relativePath, false, dirExcluded)) {
+            logger.verbose(`Skipping excluded file ${relativePath}`, this.verbosity);
+            continue;
+          }
+
+          files.push(await this.readFileInfo(fullPath, relativePath));
         }
       }
 
@@ -117,10 +189,146 @@ export default class FileScanner {
     } catch (error) {
       const errorMessage = error instanceof Error ? error.message : String(error);
       logger.error(`Error scanning directory ${dir}: ${errorMessage}`);
+      this.scanErrors++;
       return [];
     }
   }
 
+  /**
+   * Check whether a path belongs to the backup's own state, for state directories inside the source
+   */
+  private isStateFile(fullPath: string): boolean {
+    const lockPath = path.join(path.dirname(this.stateStore.path), RUN_LOCK_FILE);
+    return fullPath.startsWith(this.stateStore.path) || fullPath.startsWith(lockPath);
+  }
+
+  /**
+   * Stat a file and get its checksum, reusing the cached hash when the file is unchanged
+   * @param {string} fullPath - Absolute path of the file
+   * @param {string} relativePath - Path relative to the source directory
+   * @returns {Promise<FileInfo>} File information
+   */
+  private async readFileInfo(fullPath: string, relativePath: string): Promise<FileInfo> {
+    const stats = fs.statSync(fullPath);
+    const metadata = { size: stats.size, mtime: stats.mtimeMs, inode: stats.ino };
+
+    // Skip reading files whose size, modification time and inode are unchanged
+    const cachedHash = this.checksumMode ? undefined : this.hashCache.getUnchangedHash(fullPath, metadata);
+    if (cachedHash) {
+      logger.verbose(`Skipping checksum for unchanged ${relativePath}`, this.verbosity);
+    } else {
+      logger.verbose(`Calculating checksum for ${relativePath}`, this.verbosity);
+    }
+    const checksum = cachedHash ?? await calculateChecksum(fullPath);
+
+    return {
+      relativePath,
+      absolutePath: fullPath,
+      size: stats.size,
+      mtime: stats.mtimeMs,
+      inode: stats.ino,
+      checksum,
+      hasChanged: cachedHash ? false : null // Will be determined later if unknown
+    };
+  }
+
+  /**
+   * Get the filter that decides about an entry, as the directory scan would reach it
+   * @param {string} relativePath - Path of the entry relative to the source directory
+   * @returns The filter of the entry's directory and whether that directory is excluded,
+   *   or null if an excluded directory above the entry is skipped entirely
+   */
+  private getEntryFilter(relativePath: string): { filter: PathFilter; parentExcluded: boolean } | null {
+    const parentDir = path.dirname(relativePath) === "." ? "" : path.dirname(relativePath);
+    let filter = this.pathFilter.forDirectory(this.sourceDir, "");
+    let excluded = false;
+    let current = "";
+
+    for (const segment of parentDir ? parentDir.split(path.sep) : []) {
+      current = current ? path.join(current, segment) : segment;
+      excluded = filter.isExcluded(current, true, excluded);
+      if (excluded && !filter.mayContainIncluded(current)) {
+        return null;
+      }
+      filter = filter.forDirectory(path.join(this.sourceDir, current), current);
+    }
+
+    return { filter, parentExcluded: excluded };
+  }
+
+  /**
+   * Look at some paths instead of the whole source, e.g. the paths watch mode saw change
+   * Changed directories are scanned completely and uploaded paths that no longer exist are
+   * reported as deleted; a changed ignore file needs a full scan, since its rules may cover anything
+   * @param {string[]} relativePaths - Paths relative to the source directory
+   * @returns {Promise<ScanResult>} Results covering only those paths
+   */
+  async scanPaths(relativePaths: string[]): Promise<ScanResult> {
+    if (relativePaths.some(relativePath => path.basename(relativePath) === IGNORE_FILE_NAME)) {
+      logger.verbose(`${IGNORE_FILE_NAME} changed, scanning the whole source`, this.verbosity);
+      return this.scan();
+    }
+
+    this.scanErrors = 0;
+    const allFiles: FileInfo[] = [];
+    const missing: string[] = [];
+
+    for (const relativePath of new Set(relativePaths.map(candidate => path.normalize(candidate)))) {
+      const fullPath = path.join(this.sourceDir, relativePath);
+      if (this.isStateFile(fullPath)) {
+        continue;
+      }
+
+      let stats: fs.Stats;
+      try {
+        stats = fs.statSync(fullPath);
+      } catch {
+        missing.push(relativePath);
+        continue;
+      }
+
+      const entry = this.getEntryFilter(relativePath);
+      if (!entry) {
+        continue;
+      }
+
+      if (stats.isDirectory()) {
+        const excluded = entry.filter.isExcluded(relativePath, true, entry.parentExcluded);
+        if (!excluded || entry.filter.mayContainIncluded(relativePath)) {
+          allFiles.push(...await this.scanDirectory(fullPath, this.sourceDir, entry.filter, excluded));
+        }
+      } else if (stats.isFile() && !entry.filter.isExcluded(relativePath, false, entry.parentExcluded)) {
+        try {
+          allFiles.push(await this.readFileInfo(fullPath, relativePath));
+        } catch {
+          // Removed again since the stat
+          missing.push(relativePath);
+        }
+      }
+    }
+
+    // Directories may hold the same file twice, e.g. "docs" and "docs/a.txt"
+    const files = [...new Map(allFiles.map(file => [file.relativePath, file])).values()];
+    for (const file of files) {
+      this.scannedFiles.set(file.relativePath, file);
+    }
+    logger.info(`Found ${files.length} changed files.`, this.verbosity);
+
+    const filesToUpload = await this.determineFilesToUpload(files);
+    const filesToDelete = missing.length === 0 ? [] : this.stateStore.listUploadedFiles(this.sourceDir)
+      .map(absolutePath => path.relative(this.sourceDir, absolutePath))
+      .filter(uploaded => missing.some(gone => uploaded === gone || uploaded.startsWith(`${gone}${path.sep}`)));
+
+    const totalSizeBytes = filesToUpload.reduce((sum, file) => sum + file.size, 0);
+    return {
+      allFiles: files,
+      filesToUpload,
+      filesToDelete,
+      totalSizeBytes,
+      totalSizeMB: (totalSizeBytes / (1024 * 1024)).toFixed(2)
+    };
+  }
+
   /**
    * Determine which files need to be uploaded based on checksum changes
    * @param {Array<FileInfo>} files - Array of file information objects
@@ -137,30 +345,55 @@ export default class FileScanner {
         continue;
       }
       
-      // Otherwise, check the hash cache as usual
-      const hasChanged = await this.hashCache.hasChanged(file.absolutePath);
+      // Files already known to be unchanged from their metadata need no further check
+      if (file.hasChanged === false) {
+        continue;
+      }
+
+      // Otherwise, compare the checksum calculated during the scan with the hash cache
+      const hasChanged = await this.hashCache.hasChanged(file.absolutePath, file.checksum);
       file.hasChanged = hasChanged;
       
       if (hasChanged) {
         filesToUpload.push(file);
+      } else if (!this.dryRun) {
+        // Refresh the metadata so the next run can skip hashing (e.g. after a touch)
+        this.hashCache.updateHash(file.absolutePath, file.checksum, this.getMetadata(file));
       }
     }
     
     return filesToUpload;
   }
 
+  /**
+   * Determine which previously uploaded files no longer exist locally
+   * @param {Array<FileInfo>} files - Array of file information objects from the current scan
+   * @returns {Array<string>} Relative paths of the deleted files
+   */
+  determineFilesToDelete(files: FileInfo[]): string[] {
+    // A partial scan would make unreadable files look deleted
+    if (this.scanErrors > 0) {
+      logger.warning("Skipping deletion detection because some directories could not be scanned.", this.verbosity);
+      return [];
+    }
+
+    const currentFiles = new Set(files.map(file => file.relativePath));
+    return this.stateStore.listUploadedFiles(this.sourceDir)
+      .map(absolutePath => path.relative(this.sourceDir, absolutePath))
+      .filter(relativePath => !currentFiles.has(relativePath));
+  }
+
   /**
    * Scan the source directory and determine which files need to be uploaded
    * @returns {Promise<ScanResult>} Object containing scan results
    */
   async scan(): Promise<ScanResult> {
     logger.info("Scanning directory...", this.verbosity);
-    
-    // Load previous state
-    await this.loadState();
 
     // Scan for files
+    this.scanErrors = 0;
     const allFiles = await this.scanDirectory(this.sourceDir);
+    this.scannedFiles = new Map(allFiles.map(file => [file.relativePath, file]));
     logger.info(`Found ${allFiles.length} files.`, this.verbosity);
 
     // Determine which files need uploading
@@ -172,6 +405,9 @@ export default class FileScanner {
       logger.info(`${filesToUpload.length} files need to be uploaded.`, this.verbosity);
     }
 
+    // Determine which previously uploaded files were deleted locally
+    const filesToDelete = this.determineFilesToDelete(allFiles);
+
     // Calculate total size
     const totalSizeBytes = filesToUpload.reduce((sum, file) => sum + file.size, 0);
     const totalSizeMB = (totalSizeBytes / (1024 * 1024)).toFixed(2);
@@ -183,6 +419,7 @@ export default class FileScanner {
     return {
       allFiles,
       filesToUpload,
+      filesToDelete,
       totalSizeBytes,
       totalSizeMB
     };
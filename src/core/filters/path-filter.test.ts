@@ -0,0 +1,145 @@
+/**
+ * Tests for PathFilter
+ */
+
+import { expect, describe, it, beforeEach, afterEach } from 'bun:test';
+import { PathFilter, IGNORE_FILE_NAME } from './path-filter';
+import { mkdir, writeFile, rm } from 'node:fs/promises';
+import { join } from 'node:path';
+import { tmpdir } from 'node:os';
+
+describe('PathFilter', () => {
+  describe('defaults', () => {
+    it('should exclude hidden files and directories', () => {
+      const filter = new PathFilter();
+
+      expect(filter.isExcluded('.hidden', false)).toBe(true);
+      expect(filter.isExcluded('.git', true)).toBe(true);
+      expect(filter.isExcluded('visible.txt', false)).toBe(false);
+    });
+
+    it('should inherit the decision of the parent directory', () => {
+      const filter = new PathFilter();
+
+      expect(filter.isExcluded('docs/readme.md', false, true)).toBe(true);
+      expect(filter.isExcluded('docs/readme.md', false, false)).toBe(false);
+    });
+  });
+
+  describe('exclude patterns', () => {
+    it('should match unanchored patterns at any depth', () => {
+      const filter = new PathFilter({ exclude: ['*.tmp', 'node_modules/'] });
+
+      expect(filter.isExcluded('a/b/file.tmp', false)).toBe(true);
+      expect(filter.isExcluded('file.txt', false)).toBe(false);
+      expect(filter.isExcluded('app/node_modules', true)).toBe(true);
+    });
+
+    it('should only match directories for patterns with a trailing slash', () => {
+      const filter = new PathFilter({ exclude: ['cache/'] });
+
+      expect(filter.isExcluded('cache', true)).toBe(true);
+      expect(filter.isExcluded('cache', false)).toBe(false);
+    });
+
+    it('should anchor patterns containing a slash', () => {
+      const filter = new PathFilter({ exclude: ['/build', 'docs/*.pdf'] });
+
+      expect(filter.isExcluded('build', true)).toBe(true);
+      expect(filter.isExcluded('src/build', true)).toBe(false);
+      expect(filter.isExcluded('docs/manual.pdf', false)).toBe(true);
+      expect(filter.isExcluded('other/docs/manual.pdf', false)).toBe(false);
+    });
+
+    it('should support ** wildcards', () => {
+      const filter = new PathFilter({ exclude: ['logs/**/*.log'] });
+
+      expect(filter.isExcluded('logs/app.log', false)).toBe(true);
+      expect(filter.isExcluded('logs/2024/01/app.log', false)).toBe(true);
+      expect(filter.isExcluded('app.log', false)).toBe(false);
+    });
+
+    it('should support ? and character classes', () => {
+      const filter = new PathFilter({ exclude: ['file?.txt', 'img[0-9].png'] });
+
+      expect(filter.isExcluded('file1.txt', false)).toBe(true);
+      expect(filter.isExcluded('file10.txt', false)).toBe(false);
+      expect(filter.isExcluded('img7.png', false)).toBe(true);
+      expect(filter.isExcluded('imgA.png', false)).toBe(false);
+    });
+  });
+
+  describe('include patterns', () => {
+    it('should take precedence over excludes', () => {
+      const filter = new PathFilter({ exclude: ['*.log'], include: ['important.log'] });
+
+      expect(filter.isExcluded('debug.log', false)).toBe(true);
+      expect(filter.isExcluded('important.log', false)).toBe(false);
+    });
+
+    it('should bring back selected dotfiles', () => {
+      const filter = new PathFilter({ include: ['.ssh/config'] });
+
+      expect(filter.isExcluded('.ssh', true)).toBe(true);
+      expect(filter.mayContainIncluded('.ssh')).toBe(true);
+      expect(filter.isExcluded('.ssh/config', false, true)).toBe(false);
+      expect(filter.isExcluded('.ssh/id_rsa', false, true)).toBe(true);
+    });
+
+    it('should prune excluded directories no include can reach', () => {
+      const filter = new PathFilter({ exclude: ['node_modules/'], include: ['.ssh/config', '*.keep'] });
+
+      expect(filter.mayContainIncluded('node_modules')).toBe(false);
+      expect(filter.mayContainIncluded('.git')).toBe(false);
+      expect(filter.mayContainIncluded('.ssh/keys')).toBe(false);
+    });
+  });
+
+  describe('ignore files', () => {
+    let tempDir: string;
+
+    beforeEach(async () => {
+      tempDir = join(tmpdir(), `path-filter-test-${Date.now()}`);
+      await mkdir(join(tempDir, 'sub'), { recursive: true });
+    });
+
+    afterEach(async () => {
+      await rm(tempDir, { recursive: true, force: true });
+    });
+
+    it('should return the same filter when there is no ignore file', () => {
+      const filter = new PathFilter();
+
+      expect(filter.forDirectory(tempDir, '')).toBe(filter);
+    });
+
+    it('should apply rules with comments and negations', async () => {
+      await writeFile(join(tempDir, IGNORE_FILE_NAME), '# build output\n*.tmp\n!keep.tmp\n\n');
+
+      const filter = new PathFilter().forDirectory(tempDir, '');
+
+      expect(filter.isExcluded('file.tmp', false)).toBe(true);
+      expect(filter.isExcluded('keep.tmp', false)).toBe(false);
+      expect(filter.isExcluded('file.txt', false)).toBe(false);
+    });
+
+    it('should scope subdirectory rules to that directory', async () => {
+      await writeFile(join(tempDir, 'sub', IGNORE_FILE_NAME), '/data\n');
+
+      const filter = new PathFilter().forDirectory(join(tempDir, 'sub'), 'sub');
+
+      expect(filter.isExcluded('sub/data', true)).toBe(true);
+      expect(filter.isExcluded('data', true)).toBe(false);
+      expect(filter.isExcluded('other/data', true)).toBe(false);
+    });
+
+    it('should let CLI includes override ignore file rules', async () => {
+      await writeFile(join(tempDir, IGNORE_FILE_NAME), '*.log\n');
+
+      const filter = new PathFilter({ include: ['audit.log'] }).forDirectory(tempDir, '');
+
+      expect(filter.isExcluded('audit.log', false)).toBe(false);
+      expect(filter.isExcluded('debug.log', false)).toBe(true);
+    });
+  });
+});
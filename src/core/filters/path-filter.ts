@@ -0,0 +1,247 @@
+/**
+ * Path Filter
+ * Gitignore-style include/exclude rules for the file scanner
+ */
+
+import fs from "node:fs";
+import path from "node:path";
+
+export const IGNORE_FILE_NAME = ".backupignore";
+
+// Hidden entries are skipped unless an include rule brings them back
+const DEFAULT_EXCLUDES = [".*"];
+
+export interface PathFilterOptions {
+  include?: string[];
+  exclude?: string[];
+}
+
+/**
+ * A single compiled pattern
+ */
+interface FilterRule {
+  pattern: string;
+  negated: boolean;
+  directoryOnly: boolean;
+  base: string; // Directory the rule is relative to ("" for the source root)
+  regex: RegExp;
+  segments: Array<RegExp | null> | null; // Per-segment matchers for anchored patterns, null for "**"
+}
+
+/**
+ * Convert a glob to a regular expression source
+ * Supports *, ?, ** and [...] character classes
+ */
+export function globToRegExpSource(glob: string): string {
+  let source = "";
+
+  for (let i = 0; i < glob.length; i++) {
+    const char = glob[i];
+
+    if (char === "*") {
+      if (glob[i + 1] === "*") {
+        // "**/" matches zero or more directories, a trailing "**" matches everything
+        if (glob[i + 2] === "/") {
+          source += "(?:.*/)?";
+          i += 2;
+        } else {
+          source += ".*";
+          i += 1;
+        }
+      } else {
+        source += "[^/]*";
+      }
+    } else if (char === "?") {
+      source += "[^/]";
+    } else if (char === "[") {
+      const end = glob.indexOf("]", i + 1);
+      if (end === -1) {
+        source += "\\[";
+      } else {
+        const body = glob.slice(i + 1, end).replace(/^!/, "^").replace(/\\/g, "\\\\");
+        source += `[${body}]`;
+        i = end;
+      }
+    } else if (char === "\\" && i + 1 < glob.length) {
+      source += glob[++i].replace(/[.*+?^${}()|[\]\\/]/g, "\\$&");
+    } else {
+      source += char.replace(/[.*+?^${}()|[\]\\/]/g, "\\$&");
+    }
+  }
+
+  return source;
+}
+
+/**
+ * Compile a gitignore-style pattern into a rule
+ * @param {string} line - The pattern
+ * @param {string} base - Directory the pattern is relative to
+ * @returns {FilterRule | null} The rule, or null for blank lines and comments
+ */
+function compileRule(line: string, base: string): FilterRule | null {
+  let pattern = line.trim();
+  if (!pattern || pattern.startsWith("#")) {
+    return null;
+  }
+
+  const negated = pattern.startsWith("!");
+  if (negated) {
+    pattern = pattern.slice(1);
+  }
+
+  const directoryOnly = pattern.endsWith("/");
+  pattern = pattern.replace(/\/+$/, "");
+
+  // Patterns containing a slash are anchored to their base directory,
+  // the others match an entry with that name at any depth
+  const anchored = pattern.includes("/");
+  pattern = pattern.replace(/^\/+/, "");
+  if (!pattern) {
+    return null;
+  }
+
+  const source = globToRegExpSource(pattern);
+
+  return {
+    pattern: line.trim(),
+    negated,
+    directoryOnly,
+    base,
+    regex: new RegExp(anchored ? `^${source}$` : `^(?:.*/)?${source}$`),
+    segments: anchored
+      ? pattern.split("/").map(segment => segment === "**" ? null : new RegExp(`^${globToRegExpSource(segment)}$`))
+      : null
+  };
+}
+
+/**
+ * PathFilter class deciding which entries the scanner should skip
+ */
+export class PathFilter {
+  private rules: FilterRule[];
+  private includeRules: FilterRule[];
+
+  /**
+   * Create a new PathFilter
+   * @param {PathFilterOptions} options - Include and exclude patterns from the CLI
+   */
+  constructor(options: PathFilterOptions = {}) {
+    this.rules = [...DEFAULT_EXCLUDES, ...(options.exclude ?? [])]
+      .map(pattern => compileRule(pattern, ""))
+      .filter((rule): rule is FilterRule => rule !== null);
+
+    // Includes are negations that always take precedence over every exclude
+    this.includeRules = (options.include ?? [])
+      .map(pattern => compileRule(`!${pattern.replace(/^!/, "")}`, ""))
+      .filter((rule): rule is FilterRule => rule !== null);
+  }
+
+  /**
+   * Get a filter that also applies the ignore file found in a directory
+   * @param {string} absoluteDir - Absolute path of the directory
+   * @param {string} relativeDir - Path of the directory relative to the source root
+   * @returns {PathFilter} This filter if the directory has no ignore file
+   */
+  forDirectory(absoluteDir: string, relativeDir: string): PathFilter {
+    let content: string;
+    try {
+      content = fs.readFileSync(path.join(absoluteDir, IGNORE_FILE_NAME), "utf8");
+    } catch {
+      return this;
+    }
+
+    const base = relativeDir.replace(/\\/g, "/");
+    const rules = content
+      .split(/\r?\n/)
+      .map(line => compileRule(line, base))
+      .filter((rule): rule is FilterRule => rule !== null);
+
+    if (rules.length === 0) {
+      return this;
+    }
+
+    const filter = new PathFilter();
+    filter.rules = [...this.rules, ...rules];
+    filter.includeRules = this.includeRules;
+    return filter;
+  }
+
+  /**
+   * Check if an entry should be skipped
+   * The last matching rule wins; entries without a matching rule inherit
+   * the decision made for their parent directory
+   * @param {string} relativePath - Path relative to the source root
+   * @param {boolean} isDirectory - Whether the entry is a directory
+   * @param {boolean} parentExcluded - Whether the parent directory is excluded
+   * @returns {boolean} True if the entry is excluded
+   */
+  isExcluded(relativePath: string, isDirectory: boolean, parentExcluded: boolean = false): boolean {
+    const normalizedPath = relativePath.replace(/\\/g, "/");
+    let excluded = parentExcluded;
+
+    for (const rule of [...this.rules, ...this.includeRules]) {
+      if (rule.directoryOnly && !isDirectory) {
+        continue;
+      }
+
+      const rulePath = this.relativeToBase(normalizedPath, rule.base);
+      if (rulePath !== null && rule.regex.test(rulePath)) {
+        excluded = !rule.negated;
+      }
+    }
+
+    return excluded;
+  }
+
+  /**
+   * Check if an excluded directory may still contain included entries
+   * Only anchored negations (e.g. "!.ssh/config") can reach into an
+   * excluded directory, so everything else is pruned without being read
+   * @param {string} relativeDir - Directory path relative to the source root
+   * @returns {boolean} True if the directory should still be walked
+   */
+  mayContainIncluded(relativeDir: string): boolean {
+    const normalizedDir = relativeDir.replace(/\\/g, "/");
+
+    return [...this.rules, ...this.includeRules].some(rule => {
+      if (!rule.negated || !rule.segments) {
+        return false;
+      }
+
+      const rulePath = this.relativeToBase(normalizedDir, rule.base);
+      if (rulePath === null) {
+        return false;
+      }
+
+      const dirSegments = rulePath.split("/");
+      for (let i = 0; i < dirSegments.length; i++) {
+        const segment = rule.segments[i];
+        if (segment === undefined) {
+          return false; // The pattern ends above this directory
+        }
+        if (segment === null) {
+          return true; // "**" can match anything below
+        }
+        if (!segment.test(dirSegments[i])) {
+          return false;
+        }
+      }
+
+      // The pattern continues below this directory
+      return rule.segments.length > dirSegments.length;
+    });
+  }
+
+  /**
+   * Get a path relative to a rule's base directory
+   * @returns {string | null} The relative path, or null if the path is outside the base
+   */
+  private relativeToBase(relativePath: string, base: string): string | null {
+    if (!base) {
+      return relativePath;
+    }
+    return relativePath.startsWith(`${base}/`) ? relativePath.slice(base.length + 1) : null;
+  }
+}
+
+export default PathFilter;
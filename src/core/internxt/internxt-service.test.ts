@@ -6,7 +6,7 @@
  * Bun's mock.module behavior.
  */
 
-import { expect, describe, it } from 'bun:test';
+import { expect, describe, it, spyOn } from 'bun:test';
 import { InternxtService } from './internxt-service';
 import { Verbosity } from '../../interfaces/logger';
 
@@ -44,6 +44,11 @@ describe('InternxtService', () => {
       expect(typeof service.uploadFileWithProgress).toBe('function');
     });
 
+    it('should have downloadFile method', () => {
+      const service = new InternxtService();
+      expect(typeof service.downloadFile).toBe('function');
+    });
+
     it('should have createFolder method', () => {
       const service = new InternxtService();
       expect(typeof service.createFolder).toBe('function');
@@ -63,5 +68,54 @@ describe('InternxtService', () => {
       const service = new InternxtService();
       expect(typeof service.deleteFile).toBe('function');
     });
+
+    it('should have stat method', () => {
+      const service = new InternxtService();
+      expect(typeof service.stat).toBe('function');
+    });
+  });
+
+  describe('checkReady', () => {
+    it('should explain how to log in when not authenticated', async () => {
+      const service = new InternxtService();
+      spyOn(service, 'checkCLI').mockResolvedValue({
+        installed: true,
+        authenticated: false,
+        version: '1.5.0',
+        error: 'Not authenticated'
+      });
+
+      const status = await service.checkReady();
+
+      expect(status.ready).toBe(false);
+      expect(status.error).toContain('internxt login');
+    });
+
+    it('should describe the CLI version when ready', async () => {
+      const service = new InternxtService();
+      spyOn(service, 'checkCLI').mockResolvedValue({
+        installed: true,
+        authenticated: true,
+        version: '1.5.0'
+      });
+
+      const status = await service.checkReady();
+
+      expect(status).toEqual({ ready: true, description: 'Internxt CLI v1.5.0' });
+    });
+  });
+
+  describe('stat', () => {
+    it('should find a file in its parent folder listing', async () => {
+      const service = new InternxtService();
+      const listSpy = spyOn(service, 'listFiles').mockResolvedValue({
+        success: true,
+        files: [{ name: 'notes.txt', path: '/Backups/notes.txt', size: 5, isFolder: false }]
+      });
+
+      expect((await service.stat('/Backups/notes.txt'))?.size).toBe(5);
+      expect(await service.stat('/Backups/missing.txt')).toBeNull();
+      expect(listSpy).toHaveBeenCalledWith('/Backups');
+    });
   });
 });
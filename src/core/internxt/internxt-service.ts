@@ -3,25 +3,33 @@
  * Wraps the Internxt CLI for backup operations
  */
 
-import { spawn, exec } from "node:child_process";
+import { spawn, execFile } from "node:child_process";
 import { promisify } from "node:util";
+import { mkdir } from "node:fs/promises";
+import { dirname } from "node:path";
 import * as logger from "../../utils/logger";
 import {
   InternxtCLICheckResult,
   InternxtUploadResult,
+  InternxtDownloadResult,
   InternxtFolderResult,
   InternxtListResult,
   InternxtFileInfo,
   InternxtServiceOptions
 } from "../../interfaces/internxt";
+import { StorageBackend, StorageCheckResult } from "../../interfaces/storage";
 
-const execAsync = promisify(exec);
+// execFile runs the CLI without a shell, so cancelling a run stops the CLI itself
+const execFileAsync = promisify(execFile);
 
-export class InternxtService {
+export class InternxtService implements StorageBackend {
+  readonly name = "Internxt CLI";
   private verbosity: number;
+  private signal?: AbortSignal;
 
   constructor(options: InternxtServiceOptions = {}) {
     this.verbosity = options.verbosity ?? logger.Verbosity.Normal;
+    this.signal = options.signal;
   }
 
   /**
@@ -30,7 +38,7 @@ export class InternxtService {
   async checkCLI(): Promise<InternxtCLICheckResult> {
     try {
       // Check if internxt command exists
-      const { stdout: versionOutput } = await execAsync("internxt --version").catch(() => ({ stdout: "" }));
+      const { stdout: versionOutput } = await execFileAsync("internxt", ["--version"]).catch(() => ({ stdout: "" }));
       const version = versionOutput.trim();
 
       if (!version) {
@@ -43,7 +51,7 @@ export class InternxtService {
 
       // Check if authenticated by trying to list files
       try {
-        await execAsync("internxt list-files /");
+        await execFileAsync("internxt", ["list-files", "/"]);
         return {
           installed: true,
           authenticated: true,
@@ -67,6 +75,34 @@ export class InternxtService {
     }
   }
 
+  /**
+   * Check the CLI and turn its status into instructions for the user
+   */
+  async checkReady(): Promise<StorageCheckResult> {
+    const cliStatus = await this.checkCLI();
+
+    if (!cliStatus.installed) {
+      return {
+        ready: false,
+        error: `Internxt CLI not found. Please install it with: npm install -g @internxt/cli\n` +
+          `Error: ${cliStatus.error}`
+      };
+    }
+
+    if (!cliStatus.authenticated) {
+      return {
+        ready: false,
+        error: `Not authenticated with Internxt. Please run: internxt login\n` +
+          `Error: ${cliStatus.error}`
+      };
+    }
+
+    return {
+      ready: true,
+      description: `Internxt CLI v${cliStatus.version}`
+    };
+  }
+
   /**
    * Upload a file to Internxt Drive
    */
@@ -82,8 +118,10 @@ export class InternxtService {
       }
 
       // Upload the file using Internxt CLI
-      const { stdout, stderr } = await execAsync(
-        `internxt upload-file "${localPath}" "${remotePath}"`
+      const { stdout, stderr } = await execFileAsync(
+        "internxt",
+        ["upload-file", localPath, remotePath],
+        { signal: this.signal }
       );
 
       const output = stdout || stderr;
@@ -137,7 +175,8 @@ export class InternxtService {
 
         // Use spawn for streaming output
         const child = spawn("internxt", ["upload-file", localPath, remotePath], {
-          stdio: ["ignore", "pipe", "pipe"]
+          stdio: ["ignore", "pipe", "pipe"],
+          signal: this.signal
         });
 
         let output = "";
@@ -201,6 +240,52 @@ export class InternxtService {
     });
   }
 
+  /**
+   * Download a file from Internxt Drive to a local path
+   */
+  async downloadFile(remotePath: string, localPath: string): Promise<InternxtDownloadResult> {
+    try {
+      logger.verbose(`Downloading ${remotePath} to ${localPath}`, this.verbosity);
+
+      // Ensure the local parent folder exists
+      await mkdir(dirname(localPath), { recursive: true });
+
+      // Download the file using Internxt CLI
+      const { stdout, stderr } = await execFileAsync(
+        "internxt",
+        ["download-file", remotePath, localPath],
+        { signal: this.signal }
+      );
+
+      const output = stdout || stderr;
+
+      if (output.toLowerCase().includes("error") || output.toLowerCase().includes("failed")) {
+        return {
+          success: false,
+          remotePath,
+          localPath,
+          output,
+          error: output
+        };
+      }
+
+      return {
+        success: true,
+        remotePath,
+        localPath,
+        output
+      };
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : String(error);
+      return {
+        success: false,
+        remotePath,
+        localPath,
+        error: errorMessage
+      };
+    }
+  }
+
   /**
    * Create a folder in Internxt Drive
    */
@@ -208,8 +293,10 @@ export class InternxtService {
     try {
       logger.verbose(`Creating folder: ${remotePath}`, this.verbosity);
 
-      const { stdout, stderr } = await execAsync(
-        `internxt create-folder "${remotePath}"`
+      const { stdout, stderr } = await execFileAsync(
+        "internxt",
+        ["create-folder", remotePath],
+        { signal: this.signal }
       );
 
       const output = stdout || stderr;
@@ -256,8 +343,10 @@ export class InternxtService {
     try {
       logger.verbose(`Listing files in: ${remotePath}`, this.verbosity);
 
-      const { stdout } = await execAsync(
-        `internxt list-files "${remotePath}" --format=json`
+      const { stdout } = await execFileAsync(
+        "internxt",
+        ["list-files", remotePath, "--format=json"],
+        { signal: this.signal }
       );
 
       // Try to parse JSON output
@@ -318,28 +407,39 @@ export class InternxtService {
   }
 
   /**
-   * Check if a file exists in Internxt Drive
+   * Look up a single file or folder by listing its parent folder
+   * Returns null if it doesn't exist or the parent can't be listed
    */
-  async fileExists(remotePath: string): Promise<boolean> {
+  async stat(remotePath: string): Promise<InternxtFileInfo | null> {
     const parentPath = remotePath.substring(0, remotePath.lastIndexOf("/")) || "/";
     const fileName = remotePath.substring(remotePath.lastIndexOf("/") + 1);
 
     const listResult = await this.listFiles(parentPath);
     if (!listResult.success) {
-      return false;
+      return null;
     }
 
-    return listResult.files.some(f => f.name === fileName);
+    return listResult.files.find(f => f.name === fileName) ?? null;
+  }
+
+  /**
+   * Check if a file exists in Internxt Drive
+   */
+  async fileExists(remotePath: string): Promise<boolean> {
+    return (await this.stat(remotePath)) !== null;
   }
 
   /**
    * Delete a file from Internxt Drive
+   * @param {string} remotePath - Path of the remote file
+   * @param {boolean} permanent - Delete permanently instead of moving to the trash
    */
-  async deleteFile(remotePath: string): Promise<boolean> {
+  async deleteFile(remotePath: string, permanent: boolean = true): Promise<boolean> {
     try {
       logger.verbose(`Deleting file: ${remotePath}`, this.verbosity);
 
-      await execAsync(`internxt delete "${remotePath}" --permanent`);
+      const args = ["delete", remotePath, ...(permanent ? ["--permanent"] : [])];
+      await execFileAsync("internxt", args, { signal: this.signal });
       return true;
     } catch (error) {
       const errorMessage = error instanceof Error ? error.message : String(error);
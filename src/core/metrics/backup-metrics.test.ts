@@ -0,0 +1,96 @@
+/**
+ * Tests for BackupMetrics
+ */
+
+import { expect, describe, it } from 'bun:test';
+import { BackupMetrics } from './backup-metrics';
+import { ProgressSnapshot } from '../upload/progress-tracker';
+
+describe('BackupMetrics', () => {
+  const progress = (overrides: Partial<ProgressSnapshot> = {}): ProgressSnapshot => ({
+    totalFiles: 10,
+    completedFiles: 9,
+    skippedFiles: 0,
+    failedFiles: 1,
+    percentage: 100,
+    uploadedBytes: 4096,
+    savedBytes: 1024,
+    pendingUploads: 0,
+    activeUploads: 0,
+    scanDurationMs: 2500,
+    ...overrides
+  });
+
+  // Get the value of a sample from the rendered text
+  const sample = (text: string, series: string): number | undefined => {
+    const line = text.split('\n').find(candidate => candidate.startsWith(`${series} `));
+    return line ? Number(line.slice(series.length + 1)) : undefined;
+  };
+
+  it('should add up finished runs per job', () => {
+    const metrics = new BackupMetrics();
+    metrics.recordRun('photos', { status: 'success', finishedAt: new Date('2026-01-01T02:00:00Z'), durationMs: 60000, progress: progress() });
+    metrics.recordRun('photos', { status: 'failed', finishedAt: new Date('2026-01-02T02:00:00Z'), durationMs: 5000, progress: progress({ scanDurationMs: undefined }) });
+
+    const text = metrics.render(['photos']);
+
+    expect(sample(text, 'internxt_backup_files_uploaded_total{job="photos"}')).toBe(18);
+    expect(sample(text, 'internxt_backup_files_failed_total{job="photos"}')).toBe(2);
+    expect(sample(text, 'internxt_backup_uploaded_bytes_total{job="photos"}')).toBe(8192);
+    expect(sample(text, 'internxt_backup_compression_saved_bytes_total{job="photos"}')).toBe(2048);
+    expect(sample(text, 'internxt_backup_runs_total{job="photos",status="success"}')).toBe(1);
+    expect(sample(text, 'internxt_backup_runs_total{job="photos",status="failed"}')).toBe(1);
+    expect(sample(text, 'internxt_backup_last_run_duration_seconds{job="photos"}')).toBe(5);
+    expect(sample(text, 'internxt_backup_last_scan_duration_seconds{job="photos"}')).toBe(2.5);
+    expect(sample(text, 'internxt_backup_last_success_timestamp_seconds{job="photos"}')).toBe(Date.parse('2026-01-01T02:00:00Z') / 1000);
+  });
+
+  it('should count unchanged files as skipped instead of uploaded', () => {
+    const metrics = new BackupMetrics();
+    metrics.recordRun('photos', { status: 'success', finishedAt: new Date('2026-01-01T02:00:00Z'), durationMs: 1000, progress: progress({ completedFiles: 9, skippedFiles: 7 }) });
+    const live = [{ jobId: 'photos', progress: progress({ completedFiles: 4, skippedFiles: 3 }) }];
+
+    const text = metrics.render(['photos'], live);
+
+    expect(sample(text, 'internxt_backup_files_uploaded_total{job="photos"}')).toBe(3);
+    expect(sample(text, 'internxt_backup_files_skipped_total{job="photos"}')).toBe(10);
+  });
+
+  it('should include running backups and their queue', () => {
+    const metrics = new BackupMetrics();
+    const live = [{ jobId: 'docs', progress: progress({ completedFiles: 3, failedFiles: 0, pendingUploads: 5, activeUploads: 2 }) }];
+
+    const text = metrics.render(['docs'], live);
+
+    expect(sample(text, 'internxt_backup_files_uploaded_total{job="docs"}')).toBe(3);
+    expect(sample(text, 'internxt_backup_running{job="docs"}')).toBe(1);
+    expect(sample(text, 'internxt_backup_upload_queue_pending{job="docs"}')).toBe(5);
+    expect(sample(text, 'internxt_backup_uploads_active{job="docs"}')).toBe(2);
+  });
+
+  it('should leave out the last success of jobs that never succeeded, and of dry runs', () => {
+    const metrics = new BackupMetrics();
+    metrics.recordRun('docs', { status: 'success', finishedAt: new Date(), durationMs: 1000, progress: progress(), dryRun: true });
+
+    const text = metrics.render(['docs', 'music']);
+
+    expect(sample(text, 'internxt_backup_last_success_timestamp_seconds{job="docs"}')).toBeUndefined();
+    expect(sample(text, 'internxt_backup_runs_total{job="music",status="success"}')).toBe(0);
+    expect(text).toContain('# TYPE internxt_backup_last_success_timestamp_seconds gauge');
+  });
+
+  it('should never move the last success back', () => {
+    const metrics = new BackupMetrics();
+    metrics.setLastSuccess('photos', new Date('2026-01-02T00:00:00Z'));
+    metrics.setLastSuccess('photos', new Date('2026-01-01T00:00:00Z'));
+
+    expect(sample(metrics.render([]), 'internxt_backup_last_success_timestamp_seconds{job="photos"}'))
+      .toBe(Date.parse('2026-01-02T00:00:00Z') / 1000);
+  });
+
+  it('should escape job names in labels', () => {
+    const metrics = new BackupMetrics();
+
+    expect(metrics.render(['/mnt/"disk"'])).toContain('internxt_backup_running{job="/mnt/\\"disk\\""} 0');
+  });
+});
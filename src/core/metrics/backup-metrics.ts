@@ -0,0 +1,182 @@
+/**
+ * Backup Metrics
+ * Keeps per-job totals of the daemon's backup runs and renders them, together with
+ * the progress of running backups, in the Prometheus text exposition format
+ */
+
+import { ProgressSnapshot } from "../upload/progress-tracker";
+
+const PREFIX = "internxt_backup";
+
+// Content type of the Prometheus text format
+export const METRICS_CONTENT_TYPE = "text/plain; version=0.0.4; charset=utf-8";
+
+/**
+ * How a finished run went
+ */
+export interface RunOutcome {
+  status: "success" | "failed";
+  finishedAt: Date;
+  durationMs: number;
+  progress: ProgressSnapshot;
+  dryRun?: boolean; // Dry runs are counted but never count as a successful backup
+}
+
+/**
+ * A backup that is running right now
+ */
+export interface LiveRun {
+  jobId: string;
+  progress: ProgressSnapshot;
+}
+
+interface JobTotals {
+  filesUploaded: number;
+  filesSkipped: number;
+  filesFailed: number;
+  bytesUploaded: number;
+  bytesSaved: number;
+  runs: { success: number; failed: number };
+  lastRunDurationSeconds?: number;
+  lastScanDurationSeconds?: number;
+  lastRunTimestamp?: number;
+  lastSuccessTimestamp?: number;
+}
+
+type MetricType = "counter" | "gauge";
+
+export class BackupMetrics {
+  private totals: Map<string, JobTotals> = new Map();
+
+  /**
+   * Add a finished run to the totals of its job
+   * @param {string} jobId - The job
+   * @param {RunOutcome} outcome - How the run went
+   */
+  recordRun(jobId: string, outcome: RunOutcome): void {
+    const totals = this.getTotals(jobId);
+    const finishedAt = outcome.finishedAt.getTime() / 1000;
+
+    totals.filesUploaded += outcome.progress.completedFiles - outcome.progress.skippedFiles;
+    totals.filesSkipped += outcome.progress.skippedFiles;
+    totals.filesFailed += outcome.progress.failedFiles;
+    totals.bytesUploaded += outcome.progress.uploadedBytes;
+    totals.bytesSaved += outcome.progress.savedBytes;
+    totals.runs[outcome.status]++;
+    totals.lastRunDurationSeconds = outcome.durationMs / 1000;
+    totals.lastRunTimestamp = finishedAt;
+    if (outcome.progress.scanDurationMs !== undefined) {
+      totals.lastScanDurationSeconds = outcome.progress.scanDurationMs / 1000;
+    }
+    if (outcome.status === "success" && !outcome.dryRun) {
+      totals.lastSuccessTimestamp = finishedAt;
+    }
+  }
+
+  /**
+   * Set when a job last backed up successfully, e.g. from its state after a restart
+   * Never moves the timestamp back
+   */
+  setLastSuccess(jobId: string, finishedAt: Date): void {
+    const totals = this.getTotals(jobId);
+    const timestamp = finishedAt.getTime() / 1000;
+    if (!totals.lastSuccessTimestamp || totals.lastSuccessTimestamp < timestamp) {
+      totals.lastSuccessTimestamp = timestamp;
+    }
+  }
+
+  /**
+   * Check whether the last successful run of a job is known
+   */
+  hasLastSuccess(jobId: string): boolean {
+    return this.totals.get(jobId)?.lastSuccessTimestamp !== undefined;
+  }
+
+  /**
+   * Render all metrics
+   * Counters include the files and bytes of running backups, so they rise while a run uploads
+   * @param {string[]} jobIds - Scheduled jobs; each gets a series even before its first run
+   * @param {LiveRun[]} liveRuns - Backups that are running right now
+   * @returns {string} The metrics in the Prometheus text format
+   */
+  render(jobIds: string[], liveRuns: LiveRun[] = []): string {
+    const ids = [...new Set([...jobIds, ...this.totals.keys(), ...liveRuns.map(run => run.jobId)])];
+    const live = new Map(liveRuns.map(run => [run.jobId, run.progress]));
+    const lines: string[] = [];
+
+    const metric = (
+      name: string,
+      type: MetricType,
+      help: string,
+      value: (totals: JobTotals, progress?: ProgressSnapshot) => number | undefined
+    ) => {
+      lines.push(`# HELP ${PREFIX}_${name} ${help}`, `# TYPE ${PREFIX}_${name} ${type}`);
+      for (const jobId of ids) {
+        const sample = value(this.totals.get(jobId) ?? this.emptyTotals(), live.get(jobId));
+        if (sample !== undefined) {
+          lines.push(`${PREFIX}_${name}{job="${escapeLabel(jobId)}"} ${sample}`);
+        }
+      }
+    };
+
+    metric("files_uploaded_total", "counter", "Files uploaded.",
+      (totals, progress) => totals.filesUploaded + (progress ? progress.completedFiles - progress.skippedFiles : 0));
+    metric("files_skipped_total", "counter", "Files that were unchanged and not uploaded.",
+      (totals, progress) => totals.filesSkipped + (progress?.skippedFiles ?? 0));
+    metric("files_failed_total", "counter", "Files that failed to upload.",
+      (totals, progress) => totals.filesFailed + (progress?.failedFiles ?? 0));
+    metric("uploaded_bytes_total", "counter", "Bytes uploaded, after compression and encryption.",
+      (totals, progress) => totals.bytesUploaded + (progress?.uploadedBytes ?? 0));
+    metric("compression_saved_bytes_total", "counter", "Bytes compression kept from being uploaded.",
+      (totals, progress) => totals.bytesSaved + (progress?.savedBytes ?? 0));
+
+    lines.push(`# HELP ${PREFIX}_runs_total Finished backup runs by status.`, `# TYPE ${PREFIX}_runs_total counter`);
+    for (const jobId of ids) {
+      const runs = this.totals.get(jobId)?.runs ?? { success: 0, failed: 0 };
+      for (const status of ["success", "failed"] as const) {
+        lines.push(`${PREFIX}_runs_total{job="${escapeLabel(jobId)}",status="${status}"} ${runs[status]}`);
+      }
+    }
+
+    metric("last_run_duration_seconds", "gauge", "Duration of the last finished run.",
+      totals => totals.lastRunDurationSeconds);
+    metric("last_scan_duration_seconds", "gauge", "Duration of the last scan of the source.",
+      (totals, progress) => progress?.scanDurationMs !== undefined
+        ? progress.scanDurationMs / 1000
+        : totals.lastScanDurationSeconds);
+    metric("last_run_timestamp_seconds", "gauge", "Unix time the last run finished.",
+      totals => totals.lastRunTimestamp);
+    metric("last_success_timestamp_seconds", "gauge", "Unix time the last successful backup finished.",
+      totals => totals.lastSuccessTimestamp);
+    metric("running", "gauge", "Whether a backup of the job is running.",
+      (_totals, progress) => progress ? 1 : 0);
+    metric("upload_queue_pending", "gauge", "Files waiting in the upload queue of the running backup.",
+      (_totals, progress) => progress?.pendingUploads ?? 0);
+    metric("uploads_active", "gauge", "Files being uploaded by the running backup.",
+      (_totals, progress) => progress?.activeUploads ?? 0);
+
+    return `${lines.join("\n")}\n`;
+  }
+
+  private getTotals(jobId: string): JobTotals {
+    let totals = this.totals.get(jobId);
+    if (!totals) {
+      totals = this.emptyTotals();
+      this.totals.set(jobId, totals);
+    }
+    return totals;
+  }
+
+  private emptyTotals(): JobTotals {
+    return { filesUploaded: 0, filesSkipped: 0, filesFailed: 0, bytesUploaded: 0, bytesSaved: 0, runs: { success: 0, failed: 0 } };
+  }
+}
+
+/**
+ * Escape a label value for the text format
+ */
+function escapeLabel(value: string): string {
+  return value.replace(/\\/g, "\\\\").replace(/"/g, "\\\"").replace(/\n/g, "\\n");
+}
+
+export default BackupMetrics;
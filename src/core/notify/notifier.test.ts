@@ -0,0 +1,162 @@
+/**
+ * Tests for the Notifier
+ */
+
+import { expect, describe, beforeEach, afterEach, it } from 'bun:test';
+import type { Server } from 'bun';
+import { Notifier, BackupNotification, createNotification, formatNotification } from './notifier';
+import { Verbosity } from '../../interfaces/logger';
+import { createMockLoggers } from '../../../test-config/mocks/test-helpers';
+import { mkdir, readFile, rm } from 'node:fs/promises';
+import { join } from 'node:path';
+import { tmpdir } from 'node:os';
+
+describe('Notifier', () => {
+  let server: Server;
+  let received: Array<{ path: string; headers: Headers; body: string }>;
+  let baseUrl: string;
+  let tempDir: string;
+
+  const notification = (overrides: Partial<BackupNotification> = {}): BackupNotification => ({
+    event: 'success',
+    job: 'photos',
+    hostname: 'nas',
+    sourceDir: '/mnt/photos',
+    target: '/Backups/Photos',
+    startedAt: '2026-01-01T02:00:00.000Z',
+    finishedAt: '2026-01-01T02:01:00.000Z',
+    durationSeconds: 60,
+    files: { total: 3, uploaded: 3, failed: 0 },
+    uploadedBytes: 4096,
+    failedFiles: [],
+    ...overrides
+  });
+
+  const failure = () => notification({
+    event: 'failure',
+    files: { total: 3, uploaded: 2, failed: 1 },
+    failedFiles: [{ path: 'a/b.jpg', error: 'quota exceeded' }]
+  });
+
+  beforeEach(async () => {
+    createMockLoggers();
+    received = [];
+    server = Bun.serve({
+      hostname: '127.0.0.1',
+      port: 0,
+      fetch: async request => {
+        const path = new URL(request.url).pathname;
+        received.push({ path, headers: request.headers, body: await request.text() });
+        return new Response('ok', { status: path.startsWith('/broken') ? 500 : 200 });
+      }
+    });
+    baseUrl = `http://127.0.0.1:${server.port}`;
+    tempDir = join(tmpdir(), `notifier-test-${Date.now()}`);
+    await mkdir(tempDir, { recursive: true });
+  });
+
+  afterEach(async () => {
+    server.stop(true);
+    await rm(tempDir, { recursive: true, force: true });
+  });
+
+  it('should post the notification to a webhook', async () => {
+    const notifier = new Notifier({ webhook: `${baseUrl}/hook` }, { verbosity: Verbosity.Quiet });
+
+    await notifier.notifyFinish(failure());
+
+    expect(received).toHaveLength(1);
+    expect(received[0].headers.get('Content-Type')).toBe('application/json');
+    expect(JSON.parse(received[0].body)).toMatchObject({ event: 'failure', job: 'photos', failedFiles: [{ path: 'a/b.jpg' }] });
+  });
+
+  it('should ping the healthcheck on start, success and failure', async () => {
+    const notifier = new Notifier({ healthcheck: `${baseUrl}/ping/abc/` }, { verbosity: Verbosity.Quiet });
+
+    await notifier.notifyStart();
+    await notifier.notifyFinish(notification());
+    await notifier.notifyFinish(failure());
+
+    expect(received.map(request => request.path)).toEqual(['/ping/abc/start', '/ping/abc', '/ping/abc/fail']);
+    expect(received[2].body).toContain('a/b.jpg: quota exceeded');
+  });
+
+  it('should send ntfy and Gotify push notifications', async () => {
+    await new Notifier({ push: `${baseUrl}/backups` }, { verbosity: Verbosity.Quiet }).notifyFinish(failure());
+    await new Notifier({ push: `${baseUrl}/message?token=t` }, { verbosity: Verbosity.Quiet }).notifyFinish(notification());
+
+    expect(received[0].headers.get('Title')).toBe('Backup photos failed on nas');
+    expect(received[0].headers.get('Priority')).toBe('high');
+    expect(received[0].body).toContain('1 of 3 files failed to upload');
+    expect(JSON.parse(received[1].body)).toEqual({ title: 'Backup photos succeeded', message: '3 of 3 files uploaded in 60.0s', priority: 4 });
+  });
+
+  it('should only ping the healthcheck of successful runs when notifying on failure only', async () => {
+    const notifier = new Notifier({
+      webhook: `${baseUrl}/hook`,
+      healthcheck: `${baseUrl}/ping`,
+      onFailureOnly: true
+    }, { verbosity: Verbosity.Quiet });
+
+    await notifier.notifyFinish(notification());
+    expect(received.map(request => request.path)).toEqual(['/ping']);
+
+    await notifier.notifyFinish(failure());
+    expect(received.map(request => request.path).sort()).toEqual(['/hook', '/ping', '/ping/fail']);
+  });
+
+  it('should pass the notification to a command on stdin', async () => {
+    const output = join(tempDir, 'notification.json');
+    const notifier = new Notifier({ command: `cat > "${output}"; echo "$INTERNXT_BACKUP_EVENT" >> "${output}.event"` });
+
+    await notifier.notifyFinish(failure());
+
+    expect(JSON.parse(await readFile(output, 'utf8'))).toMatchObject({ event: 'failure', files: { failed: 1 } });
+    expect((await readFile(`${output}.event`, 'utf8')).trim()).toBe('failure');
+  });
+
+  it('should not throw when a target fails', async () => {
+    const notifier = new Notifier({
+      webhook: `${baseUrl}/broken`,
+      command: 'exit 3'
+    }, { verbosity: Verbosity.Quiet });
+
+    await notifier.notifyFinish(failure());
+
+    expect(received).toHaveLength(1);
+  });
+});
+
+describe('createNotification', () => {
+  const progress = { totalFiles: 4, completedFiles: 4, failedFiles: 0, uploadedBytes: 100 };
+
+  it('should count a run with failed files as a failure', () => {
+    const success = createNotification({ job: 'docs', sourceDir: '/docs', target: '/', startedAt: new Date(), progress, failures: [] });
+    const failed = createNotification({
+      job: 'docs',
+      sourceDir: '/docs',
+      target: '/',
+      startedAt: new Date(),
+      progress: { ...progress, completedFiles: 3, failedFiles: 1 },
+      failures: [{ path: 'x.txt', error: 'timeout' }]
+    });
+
+    expect(success.event).toBe('success');
+    expect(failed.event).toBe('failure');
+    expect(formatNotification(failed).message).toBe('1 of 4 files failed to upload\nx.txt: timeout');
+  });
+
+  it('should use the error of a run that threw', () => {
+    const notification = createNotification({
+      job: 'docs',
+      sourceDir: '/docs',
+      target: '/',
+      startedAt: new Date(),
+      progress,
+      failures: [],
+      error: new Error('Source directory not found')
+    });
+
+    expect(notification).toMatchObject({ event: 'failure', error: 'Source directory not found' });
+  });
+});
@@ -0,0 +1,272 @@
+/**
+ * Notifier
+ * Reports the outcome of backup runs to webhooks, push services, healthcheck pings and shell commands
+ * A notification that can't be delivered is logged and never fails the backup
+ */
+
+import { spawn } from "node:child_process";
+import os from "node:os";
+import * as logger from "../../utils/logger";
+import { FileFailure } from "../upload/progress-tracker";
+
+// Failed files listed in a notification; the counts always cover all of them
+const MAX_LISTED_FAILURES = 100;
+
+const DEFAULT_TIMEOUT_MS = 10000;
+
+/**
+ * Where a job reports its runs
+ */
+export interface NotificationSettings {
+  webhook?: string; // Receives the notification as JSON
+  push?: string; // ntfy topic URL, or a Gotify .../message?token=... URL
+  healthcheck?: string; // Ping URL; /start and /fail are appended for those events
+  command?: string; // Shell command receiving the notification as JSON on stdin
+  onFailureOnly?: boolean; // Only report failed runs (healthcheck pings are always sent)
+}
+
+export type NotificationEvent = "success" | "failure";
+
+/**
+ * What a notification says about a finished run
+ */
+export interface BackupNotification {
+  event: NotificationEvent;
+  job: string;
+  hostname: string;
+  sourceDir: string;
+  target: string;
+  startedAt: string;
+  finishedAt: string;
+  durationSeconds: number;
+  files: {
+    total: number;
+    uploaded: number;
+    failed: number;
+  };
+  uploadedBytes: number;
+  failedFiles: FileFailure[];
+  error?: string;
+}
+
+export interface NotifierOptions {
+  verbosity?: number;
+  timeoutMs?: number;
+}
+
+/**
+ * Build the notification of a finished run
+ * A run counts as failed when it threw or when any file failed to upload
+ * @param {object} run - The job, its folders, when it started, its progress and its error
+ * @returns {BackupNotification} The notification
+ */
+export function createNotification(run: {
+  job: string;
+  sourceDir: string;
+  target: string;
+  startedAt: Date;
+  progress: { totalFiles: number; completedFiles: number; failedFiles: number; uploadedBytes: number };
+  failures: FileFailure[];
+  error?: unknown;
+}): BackupNotification {
+  const finishedAt = new Date();
+  const error = run.error === undefined
+    ? undefined
+    : run.error instanceof Error ? run.error.message : String(run.error);
+
+  return {
+    event: error !== undefined || run.progress.failedFiles > 0 ? "failure" : "success",
+    job: run.job,
+    hostname: os.hostname(),
+    sourceDir: run.sourceDir,
+    target: run.target,
+    startedAt: run.startedAt.toISOString(),
+    finishedAt: finishedAt.toISOString(),
+    durationSeconds: (finishedAt.getTime() - run.startedAt.getTime()) / 1000,
+    files: {
+      total: run.progress.totalFiles,
+      uploaded: run.progress.completedFiles,
+      failed: run.progress.failedFiles
+    },
+    uploadedBytes: run.progress.uploadedBytes,
+    failedFiles: run.failures.slice(0, MAX_LISTED_FAILURES),
+    error
+  };
+}
+
+/**
+ * Turn a notification into a short title and message for humans
+ */
+export function formatNotification(notification: BackupNotification): { title: string; message: string } {
+  const { job, files, durationSeconds } = notification;
+
+  if (notification.event === "success") {
+    return {
+      title: `Backup ${job} succeeded`,
+      message: `${files.uploaded} of ${files.total} files uploaded in ${durationSeconds.toFixed(1)}s`
+    };
+  }
+
+  const lines = [
+    notification.error ?? `${files.failed} of ${files.total} files failed to upload`,
+    ...notification.failedFiles.slice(0, 10).map(failure => `${failure.path}: ${failure.error ?? "failed"}`)
+  ];
+  if (notification.failedFiles.length > 10) {
+    lines.push(`...and ${files.failed - 10} more`);
+  }
+  return { title: `Backup ${job} failed on ${notification.hostname}`, message: lines.join("\n") };
+}
+
+export class Notifier {
+  private settings: NotificationSettings;
+  private verbosity: number;
+  private timeoutMs: number;
+
+  /**
+   * Create a notifier for a job
+   * @param {NotificationSettings} settings - Where to send notifications
+   * @param {NotifierOptions} options - Verbosity and the timeout of every delivery
+   */
+  constructor(settings: NotificationSettings, options: NotifierOptions = {}) {
+    this.settings = settings;
+    this.verbosity = options.verbosity ?? logger.Verbosity.Normal;
+    this.timeoutMs = options.timeoutMs ?? DEFAULT_TIMEOUT_MS;
+  }
+
+  /**
+   * Report that a run started; only healthchecks hear about it
+   */
+  async notifyStart(): Promise<void> {
+    if (this.settings.healthcheck) {
+      await this.deliver("healthcheck", () => this.ping(this.healthcheckUrl("start"), ""));
+    }
+  }
+
+  /**
+   * Report a finished run to every target
+   * @param {BackupNotification} notification - The outcome of the run
+   */
+  async notifyFinish(notification: BackupNotification): Promise<void> {
+    const failed = notification.event === "failure";
+    const deliveries: Promise<void>[] = [];
+
+    if (this.settings.healthcheck) {
+      const text = formatNotification(notification).message;
+      deliveries.push(this.deliver("healthcheck", () => this.ping(this.healthcheckUrl(failed ? "fail" : "success"), text)));
+    }
+
+    if (!failed && this.settings.onFailureOnly) {
+      await Promise.all(deliveries);
+      return;
+    }
+
+    if (this.settings.webhook) {
+      deliveries.push(this.deliver("webhook", () => this.post(this.settings.webhook!, JSON.stringify(notification), {
+        "Content-Type": "application/json"
+      })));
+    }
+    if (this.settings.push) {
+      deliveries.push(this.deliver("push notification", () => this.push(this.settings.push!, notification)));
+    }
+    if (this.settings.command) {
+      deliveries.push(this.deliver("notification command", () => this.runCommand(this.settings.command!, notification)));
+    }
+
+    await Promise.all(deliveries);
+  }
+
+  /**
+   * Run a delivery and log instead of throwing when it fails
+   */
+  private async deliver(target: string, send: () => Promise<void>): Promise<void> {
+    try {
+      await send();
+      logger.verbose(`Sent ${target}`, this.verbosity);
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : String(error);
+      logger.warning(`Failed to send ${target}: ${errorMessage}`, this.verbosity);
+    }
+  }
+
+  /**
+   * Get the healthcheck URL of an event, in the style of healthchecks.io
+   */
+  private healthcheckUrl(event: "start" | "success" | "fail"): string {
+    const base = this.settings.healthcheck!.replace(/\/+$/, "");
+    return event === "success" ? base : `${base}/${event}`;
+  }
+
+  private async ping(url: string, body: string): Promise<void> {
+    await this.post(url, body, { "Content-Type": "text/plain" });
+  }
+
+  /**
+   * Send a push notification: Gotify takes JSON, ntfy a plain body with headers
+   */
+  private async push(url: string, notification: BackupNotification): Promise<void> {
+    const { title, message } = formatNotification(notification);
+    const failed = notification.event === "failure";
+
+    if (new URL(url).pathname.endsWith("/message")) {
+      await this.post(url, JSON.stringify({ title, message, priority: failed ? 8 : 4 }), {
+        "Content-Type": "application/json"
+      });
+      return;
+    }
+
+    await this.post(url, message, {
+      "Title": title,
+      "Priority": failed ? "high" : "default",
+      "Tags": failed ? "warning" : "white_check_mark"
+    });
+  }
+
+  private async post(url: string, body: string, headers: Record<string, string>): Promise<void> {
+    const response = await fetch(url, {
+      method: "POST",
+      body,
+      headers,
+      signal: AbortSignal.timeout(this.timeoutMs)
+    });
+
+    if (!response.ok) {
+      throw new Error(`${url} answered ${response.status} ${response.statusText}`);
+    }
+  }
+
+  /**
+   * Run a shell command with the notification as JSON on stdin
+   */
+  private runCommand(command: string, notification: BackupNotification): Promise<void> {
+    return new Promise((resolve, reject) => {
+      const child = spawn("sh", ["-c", command], {
+        stdio: ["pipe", "ignore", "pipe"],
+        timeout: this.timeoutMs,
+        env: {
+          ...process.env,
+          INTERNXT_BACKUP_EVENT: notification.event,
+          INTERNXT_BACKUP_JOB: notification.job
+        }
+      });
+
+      let stderr = "";
+      child.stderr.on("data", (data: Buffer) => {
+        stderr += data.toString();
+      });
+      child.on("error", reject);
+      child.on("close", (code, signal) => {
+        if (code === 0) {
+          resolve();
+        } else {
+          reject(new Error(`${command} exited with ${signal ?? code}${stderr.trim() ? `: ${stderr.trim()}` : ""}`));
+        }
+      });
+
+      // A command that doesn't read its input must not fail the notification
+      child.stdin.on("error", () => {});
+      child.stdin.end(JSON.stringify(notification));
+    });
+  }
+}
+
+export default Notifier;
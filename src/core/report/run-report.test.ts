@@ -0,0 +1,54 @@
+/**
+ * Tests for RunReporter
+ */
+
+import { expect, describe, it } from 'bun:test';
+import { RunReporter } from './run-report';
+import { FileInfo } from '../../interfaces/file-scanner';
+
+describe('RunReporter', () => {
+  const file = (relativePath: string, size = 10): FileInfo => ({
+    relativePath,
+    absolutePath: `/photos/${relativePath}`,
+    size,
+    checksum: 'abc',
+    hasChanged: true
+  });
+
+  const reporter = () => new RunReporter({ job: 'photos', sourceDir: '/photos', target: '/Backups/Photos' });
+
+  it('should report unchanged files of the scan as skipped', () => {
+    const run = reporter();
+    const allFiles = [file('a.jpg'), file('b.jpg', 20), file('c.jpg')];
+
+    run.recordScan({ allFiles, filesToUpload: [allFiles[0]], filesToDelete: ['old.jpg'], totalSizeBytes: 40, totalSizeMB: '0.00' }, [allFiles[0]], 12);
+
+    const report = run.getReport();
+    expect(report.scan).toEqual({ totalFiles: 3, totalSizeBytes: 40, filesToUpload: 1, filesToDelete: 1, durationMs: 12 });
+    expect(report.files.map(outcome => [outcome.path, outcome.status])).toEqual([['b.jpg', 'skipped'], ['c.jpg', 'skipped']]);
+  });
+
+  it('should add up the outcomes when the run finishes', () => {
+    const run = reporter();
+    run.setRunId(7);
+    run.recordFile({ path: 'b.jpg', status: 'uploaded', size: 100, uploadedBytes: 60 });
+    run.recordFile({ path: 'a.jpg', status: 'failed', size: 10, error: 'quota exceeded' });
+    run.recordFolder('Backups/Photos');
+    run.recordDeletion('old.jpg', 'deleted');
+    run.recordDeletion('older.jpg', 'failed');
+
+    const report = run.finish(false);
+
+    expect(report).toMatchObject({ runId: 7, job: 'photos', status: 'failed', folders: ['Backups/Photos'] });
+    expect(report.summary).toEqual({ uploaded: 1, skipped: 0, failed: 1, deleted: 1, uploadedBytes: 60 });
+    expect(report.files[0]).toMatchObject({ path: 'a.jpg', error: 'quota exceeded' });
+    expect(report.finishedAt).toBeDefined();
+  });
+
+  it('should keep the error of a run that failed outright', () => {
+    const report = reporter().finish(false, new Error('Local target is not writable'));
+
+    expect(report.error).toBe('Local target is not writable');
+    expect(report.files).toEqual([]);
+  });
+});
@@ -0,0 +1,225 @@
+/**
+ * Run Report
+ * Collects what a backup run did, file by file, into a report that tools can read as JSON
+ */
+
+import { writeFile } from "node:fs/promises";
+import os from "node:os";
+import { FileInfo, ScanResult } from "../../interfaces/file-scanner";
+import { UploadPlan } from "../upload/uploader";
+
+export type FileStatus = "uploaded" | "skipped" | "failed" | "planned";
+
+export type DeletionStatus = "deleted" | "failed" | "skipped" | "planned";
+
+/**
+ * What happened to a single file
+ */
+export interface FileOutcome {
+  path: string;
+  status: FileStatus;
+  size: number; // Size on disk
+  remotePath?: string;
+  uploadedBytes?: number; // Bytes sent, after compression and encryption
+  compressedSize?: number;
+  compressionRatio?: number; // Compressed size divided by size, only for compressed files
+  durationMs?: number;
+  reason?: string; // Why a file was skipped
+  error?: string;
+}
+
+/**
+ * A remote copy of a locally deleted file
+ */
+export interface DeletionOutcome {
+  path: string;
+  status: DeletionStatus;
+}
+
+/**
+ * The report of a backup run
+ */
+export interface RunReport {
+  runId?: number; // Run id in the state database; dry runs have none
+  job?: string;
+  hostname: string;
+  sourceDir: string;
+  target: string;
+  backend: string;
+  dryRun: boolean;
+  status: "success" | "failed";
+  error?: string;
+  startedAt: string;
+  finishedAt?: string;
+  durationMs?: number;
+  snapshotId?: string;
+  scan?: {
+    totalFiles: number;
+    totalSizeBytes: number;
+    filesToUpload: number;
+    filesToDelete: number;
+    durationMs: number;
+  };
+  summary: {
+    uploaded: number;
+    skipped: number;
+    failed: number;
+    deleted: number;
+    uploadedBytes: number;
+  };
+  files: FileOutcome[];
+  folders: string[]; // Folders created, or that would be created by a dry run
+  deletions: DeletionOutcome[];
+}
+
+export class RunReporter {
+  private report: RunReport;
+  private files: Map<string, FileOutcome> = new Map();
+  private folders: Set<string> = new Set();
+
+  /**
+   * Start the report of a run
+   * @param {object} run - The job, source, target and backend of the run
+   */
+  constructor(run: { job?: string; sourceDir: string; target: string; backend?: string; dryRun?: boolean }) {
+    // Unset keys are listed anyway so the JSON keeps this order
+    this.report = {
+      runId: undefined,
+      job: run.job,
+      hostname: os.hostname(),
+      sourceDir: run.sourceDir,
+      target: run.target,
+      backend: run.backend ?? "internxt",
+      dryRun: run.dryRun ?? false,
+      status: "failed",
+      error: undefined,
+      startedAt: new Date().toISOString(),
+      finishedAt: undefined,
+      durationMs: undefined,
+      snapshotId: undefined,
+      scan: undefined,
+      summary: { uploaded: 0, skipped: 0, failed: 0, deleted: 0, uploadedBytes: 0 },
+      files: [],
+      folders: [],
+      deletions: []
+    };
+  }
+
+  /**
+   * Record the id of the run in the state database
+   */
+  setRunId(runId: number | undefined): void {
+    this.report.runId = runId;
+  }
+
+  /**
+   * Record the snapshot the run writes to
+   */
+  setSnapshotId(snapshotId: string | undefined): void {
+    this.report.snapshotId = snapshotId;
+  }
+
+  /**
+   * Record the scan; files the scanner found unchanged are reported as skipped
+   * @param {ScanResult} scanResult - What the scanner found
+   * @param {FileInfo[]} filesToUpload - Files the run uploads, which may differ from the scan in snapshot mode
+   * @param {number} durationMs - How long the scan took
+   */
+  recordScan(scanResult: ScanResult, filesToUpload: FileInfo[], durationMs: number): void {
+    this.report.scan = {
+      totalFiles: scanResult.allFiles.length,
+      totalSizeBytes: scanResult.totalSizeBytes,
+      filesToUpload: filesToUpload.length,
+      filesToDelete: scanResult.filesToDelete.length,
+      durationMs
+    };
+
+    const uploading = new Set(filesToUpload.map(file => file.relativePath));
+    for (const file of scanResult.allFiles) {
+      if (!uploading.has(file.relativePath)) {
+        this.recordFile({ path: file.relativePath, status: "skipped", size: file.size, reason: "unchanged" });
+      }
+    }
+  }
+
+  /**
+   * Record what a dry run would upload, create and delete
+   */
+  recordPlan(plan: UploadPlan, deletions: string[]): void {
+    for (const file of plan.files) {
+      this.recordFile({ path: file.relativePath, status: "planned", size: file.size, remotePath: file.remotePath });
+    }
+    plan.folders.forEach(folder => this.recordFolder(folder));
+    deletions.forEach(path => this.recordDeletion(path, "planned"));
+  }
+
+  /**
+   * Record the outcome of a file; a later outcome of the same file replaces the earlier one
+   */
+  recordFile(outcome: FileOutcome): void {
+    this.files.set(outcome.path, outcome);
+  }
+
+  /**
+   * Record a remote folder
+   */
+  recordFolder(folder: string): void {
+    this.folders.add(folder);
+  }
+
+  /**
+   * Record a remote deletion
+   */
+  recordDeletion(path: string, status: DeletionStatus): void {
+    this.report.deletions.push({ path, status });
+  }
+
+  /**
+   * Finish the report
+   * @param {boolean} succeeded - Whether the run succeeded
+   * @param {unknown} error - The error of a run that failed outright
+   * @returns {RunReport} The finished report
+   */
+  finish(succeeded: boolean, error?: unknown): RunReport {
+    const finishedAt = new Date();
+    this.report.status = succeeded ? "success" : "failed";
+    this.report.finishedAt = finishedAt.toISOString();
+    this.report.durationMs = finishedAt.getTime() - new Date(this.report.startedAt).getTime();
+    if (error !== undefined) {
+      this.report.error = error instanceof Error ? error.message : String(error);
+    }
+    return this.getReport();
+  }
+
+  /**
+   * Get the report so far, with the files sorted by path
+   */
+  getReport(): RunReport {
+    const files = [...this.files.values()].sort((a, b) => a.path.localeCompare(b.path));
+
+    return {
+      ...this.report,
+      summary: {
+        uploaded: files.filter(file => file.status === "uploaded").length,
+        skipped: files.filter(file => file.status === "skipped").length,
+        failed: files.filter(file => file.status === "failed").length,
+        deleted: this.report.deletions.filter(deletion => deletion.status === "deleted").length,
+        uploadedBytes: files.reduce((sum, file) => sum + (file.uploadedBytes ?? 0), 0)
+      },
+      files,
+      folders: [...this.folders].sort(),
+      deletions: [...this.report.deletions]
+    };
+  }
+}
+
+/**
+ * Write a report to a file as JSON
+ * @param {RunReport} report - The report
+ * @param {string} filePath - Where to write it
+ */
+export async function writeReport(report: RunReport, filePath: string): Promise<void> {
+  await writeFile(filePath, `${JSON.stringify(report, null, 2)}\n`);
+}
+
+export default RunReporter;
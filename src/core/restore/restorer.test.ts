@@ -0,0 +1,291 @@
+/**
+ * Tests for Restorer
+ */
+
+import { expect, describe, beforeEach, afterEach, it, mock } from 'bun:test';
+import Restorer from './restorer';
+import { EncryptionService } from '../encryption/encryption-service';
+import { CompressionService } from '../compression/compression-service';
+import { LocalFsBackend } from '../storage/local-fs-backend';
+import { ResumableUploader } from '../upload/resumable-uploader';
+import { Verbosity } from '../../interfaces/logger';
+import { createMockInternxtService, createMockLoggers } from '../../../test-config/mocks/test-helpers';
+import { mkdir, writeFile, readFile, rm } from 'node:fs/promises';
+import { existsSync } from 'node:fs';
+import { join, dirname } from 'node:path';
+import { tmpdir } from 'node:os';
+
+describe('Restorer', () => {
+  let localDir: string;
+  let mockInternxtService: ReturnType<typeof createMockInternxtService>;
+  let compressedContent: Uint8Array;
+
+  // Compress content the way a backup with --compress does
+  const compressForBackup = async (name: string, content: string) => {
+    const sourcePath = join(localDir, name);
+    await writeFile(sourcePath, content);
+    const compression = new CompressionService({ verbosity: Verbosity.Quiet });
+    const result = await compression.compressFile(sourcePath);
+    const compressed = await Bun.file(result.compressedPath).bytes();
+    await compression.cleanupAll();
+    await rm(sourcePath);
+    return compressed;
+  };
+
+  // Remote tree served by the mocked listFiles
+  const remoteTree: Record<string, Array<{ name: string; path: string; size: number; isFolder: boolean }>> = {
+    '/Backups/Photos': [
+      { name: 'notes.txt', path: '/Backups/Photos/notes.txt', size: 5, isFolder: false },
+      { name: 'album', path: '/Backups/Photos/album', size: 0, isFolder: true },
+      { name: 'empty', path: '/Backups/Photos/empty', size: 0, isFolder: true }
+    ],
+    '/Backups/Photos/album': [
+      { name: 'log.txt.gz', path: '/Backups/Photos/album/log.txt.gz', size: 20, isFolder: false }
+    ],
+    '/Backups/Photos/empty': []
+  };
+
+  beforeEach(async () => {
+    createMockLoggers();
+    localDir = join(tmpdir(), `restorer-test-${Date.now()}`);
+    await mkdir(localDir, { recursive: true });
+    compressedContent = await compressForBackup('log.txt', 'compressed content');
+
+    mockInternxtService = createMockInternxtService();
+    mockInternxtService.listFiles = mock((remotePath: string = '/') => Promise.resolve({
+      success: true,
+      files: remoteTree[remotePath] ?? []
+    }));
+    mockInternxtService.downloadFile = mock(async (remotePath: string, localPath: string) => {
+      await mkdir(dirname(localPath), { recursive: true });
+      const content = remotePath.endsWith('.gz') ? compressedContent : 'plain';
+      await writeFile(localPath, content);
+      return { success: true, remotePath, localPath };
+    });
+  });
+
+  afterEach(async () => {
+    await rm(localDir, { recursive: true, force: true });
+  });
+
+  const createRestorer = () => {
+    const restorer = new Restorer(2, '/Backups/Photos/', localDir, Verbosity.Quiet);
+    (restorer as any).backend = mockInternxtService;
+    return restorer;
+  };
+
+  describe('collectRemoteFiles', () => {
+    it('should walk the remote tree recursively', async () => {
+      const entries = await createRestorer().collectRemoteFiles();
+
+      expect(entries.map(entry => entry.relativePath)).toEqual(['notes.txt', 'album/log.txt.gz']);
+      expect(entries[1].remotePath).toBe('/Backups/Photos/album/log.txt.gz');
+    });
+
+    it('should skip snapshot folders at the backup root', async () => {
+      mockInternxtService.listFiles = mock((remotePath: string = '/') => Promise.resolve({
+        success: true,
+        files: remotePath === '/Backups/Photos'
+          ? [
+            { name: '.snapshots', path: '/Backups/Photos/.snapshots', size: 0, isFolder: true },
+            { name: '.versions', path: '/Backups/Photos/.versions', size: 0, isFolder: true },
+            { name: 'notes.txt', path: '/Backups/Photos/notes.txt', size: 5, isFolder: false }
+          ]
+          : [{ name: 'manifest.json', path: `${remotePath}/manifest.json`, size: 5, isFolder: false }]
+      }));
+
+      const entries = await createRestorer().collectRemoteFiles();
+
+      expect(entries.map(entry => entry.relativePath)).toEqual(['notes.txt']);
+    });
+
+    it('should throw when a folder cannot be listed', async () => {
+      mockInternxtService.listFiles = mock(() => Promise.resolve({ success: false, files: [], error: 'Not found' }));
+
+      await expect(createRestorer().collectRemoteFiles()).rejects.toThrow('Not found');
+    });
+  });
+
+  describe('restoreFile', () => {
+    it('should download plain files to the local directory', async () => {
+      const result = await createRestorer().restoreFile({
+        remotePath: '/Backups/Photos/notes.txt',
+        relativePath: 'notes.txt',
+        size: 5
+      });
+
+      expect(result.success).toBe(true);
+      expect(await Bun.file(join(localDir, 'notes.txt')).text()).toBe('plain');
+    });
+
+    it('should decompress files uploaded with compression', async () => {
+      const result = await createRestorer().restoreFile({
+        remotePath: '/Backups/Photos/album/log.txt.gz',
+        relativePath: 'album/log.txt.gz',
+        size: 20
+      });
+
+      expect(result.success).toBe(true);
+      expect(await Bun.file(join(localDir, 'album/log.txt')).text()).toBe('compressed content');
+      expect(existsSync(join(localDir, 'album/log.txt.gz'))).toBe(false);
+    });
+
+    it('should decompress plain gzip uploaded by earlier versions', async () => {
+      const legacy = Bun.gzipSync(Buffer.from('CREATE TABLE notes (id INTEGER);'));
+      mockInternxtService.downloadFile = mock(async (remotePath: string, localPath: string) => {
+        await writeFile(localPath, legacy);
+        return { success: true, remotePath, localPath };
+      });
+
+      const result = await createRestorer().restoreFile({
+        remotePath: '/Backups/Photos/x.sql.gz',
+        relativePath: 'x.sql.gz',
+        size: legacy.length
+      });
+
+      expect(result.success).toBe(true);
+      expect(await Bun.file(join(localDir, 'x.sql')).text()).toBe('CREATE TABLE notes (id INTEGER);');
+      expect(existsSync(join(localDir, 'x.sql.gz'))).toBe(false);
+    });
+
+    it('should restore files whose data doesn\'t match their codec suffix as they are', async () => {
+      mockInternxtService.downloadFile = mock(async (remotePath: string, localPath: string) => {
+        await writeFile(localPath, 'plain notes');
+        return { success: true, remotePath, localPath };
+      });
+
+      const result = await createRestorer().restoreFile({
+        remotePath: '/Backups/Photos/notes.gz',
+        relativePath: 'notes.gz',
+        size: 11
+      });
+
+      expect(result.success).toBe(true);
+      expect(await Bun.file(join(localDir, 'notes.gz')).text()).toBe('plain notes');
+    });
+
+    it('should decrypt and decompress encrypted uploads', async () => {
+      const sourcePath = join(localDir, 'source.gz');
+      await writeFile(sourcePath, await compressForBackup('report.txt', 'secret content'));
+      const encryption = new EncryptionService({ passphrase: 'test-passphrase' });
+      const encrypted = await encryption.encryptFile(sourcePath);
+      mockInternxtService.downloadFile = mock(async (remotePath: string, localPath: string) => {
+        await writeFile(localPath, await Bun.file(encrypted.encryptedPath).bytes());
+        return { success: true, remotePath, localPath };
+      });
+
+      const restorer = new Restorer(2, '/Backups/Photos', localDir, Verbosity.Quiet, { passphrase: 'test-passphrase' });
+      (restorer as any).backend = mockInternxtService;
+      const result = await restorer.restoreFile({
+        remotePath: '/Backups/Photos/report.txt.gz.enc',
+        relativePath: 'report.txt.gz.enc',
+        size: 64
+      });
+      await encryption.cleanupAll();
+
+      expect(result.success).toBe(true);
+      expect(await Bun.file(join(localDir, 'report.txt')).text()).toBe('secret content');
+      expect(existsSync(join(localDir, 'report.txt.gz.enc'))).toBe(false);
+    });
+
+    it('should fail encrypted files when no key is given', async () => {
+      const sourcePath = join(localDir, 'source.txt');
+      await writeFile(sourcePath, 'secret content');
+      const encryption = new EncryptionService({ passphrase: 'test-passphrase' });
+      const encrypted = await encryption.encryptFile(sourcePath);
+      mockInternxtService.downloadFile = mock(async (remotePath: string, localPath: string) => {
+        await writeFile(localPath, await Bun.file(encrypted.encryptedPath).bytes());
+        return { success: true, remotePath, localPath };
+      });
+
+      const result = await createRestorer().restoreFile({
+        remotePath: '/Backups/Photos/report.txt.enc',
+        relativePath: 'report.txt.enc',
+        size: 64
+      });
+      await encryption.cleanupAll();
+
+      expect(result.success).toBe(false);
+    });
+
+    it('should report failed downloads', async () => {
+      mockInternxtService.downloadFile = mock((remotePath: string, localPath: string) => Promise.resolve({
+        success: false,
+        remotePath,
+        localPath,
+        error: 'Download failed'
+      }));
+
+      const result = await createRestorer().restoreFile({
+        remotePath: '/Backups/Photos/notes.txt',
+        relativePath: 'notes.txt',
+        size: 5
+      });
+
+      expect(result.success).toBe(false);
+    });
+  });
+
+  describe('chunked files', () => {
+    let remoteDir: string;
+    let backend: LocalFsBackend;
+    const content = Buffer.from(Array.from({ length: 2500 }, (_, i) => i % 251));
+
+    beforeEach(async () => {
+      remoteDir = join(localDir, 'remote');
+      backend = new LocalFsBackend({ rootDir: remoteDir, verbosity: Verbosity.Quiet });
+      const sourcePath = join(localDir, 'vm.img');
+      await writeFile(sourcePath, content);
+
+      const uploader = new ResumableUploader(backend, {
+        chunkSize: 1024,
+        verbosity: Verbosity.Quiet,
+        resumeDir: join(localDir, 'resume')
+      });
+      uploader.shouldUseResumable = () => true;
+      await uploader.uploadLargeFile(sourcePath, '/Backups/VMs/vm.img');
+    });
+
+    const createChunkedRestorer = () =>
+      new Restorer(1, '/Backups/VMs', join(localDir, 'restored'), Verbosity.Quiet, { backend });
+
+    it('should reassemble files uploaded in chunks', async () => {
+      const restorer = createChunkedRestorer();
+
+      const entries = await restorer.collectRemoteFiles();
+      expect(entries.map(entry => entry.relativePath)).toEqual(['vm.img.parts']);
+
+      const result = await restorer.restoreFile(entries[0]);
+
+      expect(result.success).toBe(true);
+      expect(Buffer.from(await Bun.file(join(localDir, 'restored', 'vm.img')).arrayBuffer())).toEqual(content);
+    });
+
+    it('should not restore a chunked file whose part doesn\'t match the manifest', async () => {
+      const partsDir = join(remoteDir, 'Backups/VMs/vm.img.parts');
+      const manifest = JSON.parse(await readFile(join(partsDir, 'manifest.json'), 'utf8'));
+      await writeFile(join(partsDir, manifest.parts[1].name), Buffer.alloc(1024));
+
+      const result = await createChunkedRestorer().restoreFile({
+        remotePath: '/Backups/VMs/vm.img.parts',
+        relativePath: 'vm.img.parts',
+        size: 0
+      });
+
+      expect(result.success).toBe(false);
+      expect(existsSync(join(localDir, 'restored', 'vm.img'))).toBe(false);
+      expect(existsSync(join(localDir, 'restored', 'vm.img.part'))).toBe(false);
+    });
+  });
+
+  describe('startRestore', () => {
+    it('should restore the whole tree including empty folders', async () => {
+      await createRestorer().startRestore();
+
+      expect(mockInternxtService.downloadFile).toHaveBeenCalledTimes(2);
+      expect(existsSync(join(localDir, 'notes.txt'))).toBe(true);
+      expect(existsSync(join(localDir, 'album/log.txt'))).toBe(true);
+      expect(existsSync(join(localDir, 'empty'))).toBe(true);
+    });
+  });
+});
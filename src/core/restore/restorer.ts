@@ -0,0 +1,273 @@
+/**
+ * Internxt Restorer
+ * Handles downloading a backup from Internxt Drive (or another storage backend) back to local disk
+ */
+
+import path from "path";
+import { mkdir, unlink } from "node:fs/promises";
+import { Verbosity } from "../../interfaces/logger";
+import * as logger from "../../utils/logger";
+import { InternxtService } from "../internxt/internxt-service";
+import { StorageBackend } from "../../interfaces/storage";
+import { CompressionService } from "../compression/compression-service";
+import { EncryptionService, ENCRYPTED_EXTENSION } from "../encryption/encryption-service";
+import { ProgressTracker } from "../upload/progress-tracker";
+import { PART_MANIFEST_FILE, downloadParts, getChunkedOriginalPath, isPartsPath } from "../upload/part-manifest";
+import { SnapshotManager, SNAPSHOTS_DIR, VERSIONS_DIR } from "../snapshot/snapshot-manager";
+
+/**
+ * A remote file that should be restored
+ */
+export interface RestoreEntry {
+  remotePath: string;
+  relativePath: string;
+  size: number;
+}
+
+export interface RestorerOptions {
+  passphrase?: string;
+  encryptionKeyFile?: string;
+  backend?: StorageBackend; // Defaults to Internxt Drive
+  snapshot?: string; // Snapshot id, date or "latest" to restore from
+}
+
+/**
+ * Internxt Restorer class
+ */
+export default class Restorer {
+  private remoteDir: string;
+  private localDir: string;
+  private verbosity: number;
+  private concurrentDownloads: number;
+  private backend: StorageBackend;
+  private compressionService: CompressionService;
+  private encryptionService?: EncryptionService;
+  private progressTracker: ProgressTracker;
+  private remoteFolders: string[];
+  private snapshot?: string;
+
+  /**
+   * Create a new Internxt Restorer
+   * @param {number} concurrentDownloads - Number of concurrent downloads
+   * @param {string} remoteDir - The backup folder in Internxt Drive
+   * @param {string} localDir - The local directory to restore into
+   * @param {number} verbosity - Verbosity level
+   * @param {RestorerOptions} options - Storage backend, snapshot and secret used to decrypt encrypted backups
+   */
+  constructor(
+    concurrentDownloads: number,
+    remoteDir: string,
+    localDir: string,
+    verbosity: number = Verbosity.Normal,
+    options: RestorerOptions = {}
+  ) {
+    this.remoteDir = `/${remoteDir.trim().replace(/^\/+|\/+$/g, "")}`;
+    this.localDir = path.resolve(localDir);
+    this.verbosity = verbosity;
+    this.concurrentDownloads = Math.max(1, concurrentDownloads);
+    this.backend = options.backend ?? new InternxtService({ verbosity });
+    this.compressionService = new CompressionService({ verbosity });
+    if (options.passphrase || options.encryptionKeyFile) {
+      this.encryptionService = new EncryptionService({
+        passphrase: options.passphrase,
+        keyFile: options.encryptionKeyFile,
+        verbosity
+      });
+    }
+    this.progressTracker = new ProgressTracker(verbosity);
+    this.remoteFolders = [];
+    this.snapshot = options.snapshot;
+  }
+
+  /**
+   * Walk the remote tree and collect every file below a folder
+   * @param {string} remoteDir - Remote folder to walk
+   * @param {string} relativeDir - Path of the folder relative to the backup root
+   * @returns {Promise<RestoreEntry[]>} Files to restore
+   */
+  async collectRemoteFiles(remoteDir: string = this.remoteDir, relativeDir: string = ""): Promise<RestoreEntry[]> {
+    const listResult = await this.backend.listFiles(remoteDir);
+    if (!listResult.success) {
+      throw new Error(`Failed to list ${remoteDir}: ${listResult.error}`);
+    }
+
+    const entries: RestoreEntry[] = [];
+
+    for (const file of listResult.files) {
+      // Snapshot data is only restored through its manifest
+      if (!relativeDir && file.isFolder && (file.name === SNAPSHOTS_DIR || file.name === VERSIONS_DIR)) {
+        continue;
+      }
+
+      const remotePath = remoteDir === "/" ? `/${file.name}` : `${remoteDir}/${file.name}`;
+      const relativePath = relativeDir ? `${relativeDir}/${file.name}` : file.name;
+
+      // Large files uploaded in chunks are restored from their parts
+      if (file.isFolder && isPartsPath(file.name) && await this.hasPartManifest(remotePath)) {
+        entries.push({ remotePath, relativePath, size: file.size });
+        continue;
+      }
+
+      if (file.isFolder) {
+        this.remoteFolders.push(relativePath);
+        entries.push(...await this.collectRemoteFiles(remotePath, relativePath));
+      } else {
+        entries.push({ remotePath, relativePath, size: file.size });
+      }
+    }
+
+    return entries;
+  }
+
+  /**
+   * Check whether a remote folder holds the parts of a chunked file, not a source folder that happens to be named like one
+   * @param {string} remotePath - Remote path of the folder
+   */
+  private async hasPartManifest(remotePath: string): Promise<boolean> {
+    const listResult = await this.backend.listFiles(remotePath);
+    return listResult.success && listResult.files.some(file => !file.isFolder && file.name === PART_MANIFEST_FILE);
+  }
+
+  /**
+   * Collect the files of a snapshot from its manifest
+   * Files keep the compression/encryption suffix of their remote copy, so they are decoded like any other download
+   * @param {string} selector - Snapshot id, date or "latest"
+   * @returns {Promise<RestoreEntry[]>} Files to restore
+   */
+  async collectSnapshotFiles(selector: string): Promise<RestoreEntry[]> {
+    const snapshotManager = new SnapshotManager(this.backend, this.remoteDir, this.verbosity);
+    const snapshotId = await snapshotManager.resolveSnapshot(selector);
+    const manifest = await snapshotManager.loadManifest(snapshotId);
+
+    logger.info(`Using snapshot ${manifest.id} taken at ${manifest.timestamp}`, this.verbosity);
+
+    return manifest.files.map(file => ({
+      remotePath: file.remotePath,
+      relativePath: path.posix.join(path.posix.dirname(file.path), path.posix.basename(file.remotePath)),
+      size: file.size
+    }));
+  }
+
+  /**
+   * Decrypt a downloaded file in place of its encrypted copy
+   * Files with the encrypted suffix but without the encryption header are left as they are
+   * @param {string} downloadPath - Local path of the downloaded file
+   * @returns {Promise<string>} Path of the decrypted file
+   */
+  private async decryptDownload(downloadPath: string): Promise<string> {
+    if (!downloadPath.endsWith(ENCRYPTED_EXTENSION) || !await EncryptionService.isEncryptedFile(downloadPath)) {
+      return downloadPath;
+    }
+
+    if (!this.encryptionService) {
+      await unlink(downloadPath);
+      throw new Error("File is encrypted. Provide the passphrase or key file used for the backup");
+    }
+
+    const outputPath = this.encryptionService.getDecryptedRemotePath(downloadPath);
+    const decryptResult = await this.encryptionService.decryptFile(downloadPath, outputPath);
+    await unlink(downloadPath);
+
+    if (!decryptResult.success) {
+      throw new Error(`Decryption failed: ${decryptResult.error}`);
+    }
+
+    return outputPath;
+  }
+
+  /**
+   * Download a single file, reassembling, decrypting and decompressing it as needed
+   * @param {RestoreEntry} entry - The file to restore
+   * @returns {Promise<{success: boolean, filePath: string}>} Restore result
+   */
+  async restoreFile(entry: RestoreEntry): Promise<{ success: boolean; filePath: string }> {
+    const chunked = isPartsPath(entry.remotePath);
+    const downloadPath = path.join(
+      this.localDir,
+      chunked ? getChunkedOriginalPath(entry.relativePath) : entry.relativePath
+    );
+
+    try {
+      const result = chunked
+        ? await downloadParts(this.backend, entry.remotePath, downloadPath)
+        : await this.backend.downloadFile(entry.remotePath, downloadPath);
+
+      if (!result.success) {
+        logger.error(`Failed to download ${entry.remotePath}: ${result.error}`);
+        this.progressTracker.recordFailure();
+        return { success: false, filePath: entry.relativePath };
+      }
+
+      const localPath = await this.decryptDownload(downloadPath);
+
+      // Files with a codec suffix are decompressed, as long as they hold that codec's data
+      if (await this.compressionService.isCompressedFile(localPath)) {
+        const outputPath = this.compressionService.getOriginalRemotePath(localPath);
+        const decompressResult = await this.compressionService.decompressFile(localPath, outputPath);
+        await unlink(localPath);
+
+        if (!decompressResult.success) {
+          logger.error(`Failed to decompress ${entry.relativePath}: ${decompressResult.error}`);
+          this.progressTracker.recordFailure();
+          return { success: false, filePath: entry.relativePath };
+        }
+      }
+
+      logger.success(`Successfully restored ${entry.relativePath}`, this.verbosity);
+      this.progressTracker.recordSuccess();
+      return { success: true, filePath: entry.relativePath };
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : String(error);
+      logger.error(`Error restoring file ${entry.relativePath}: ${errorMessage}`);
+      this.progressTracker.recordFailure();
+      return { success: false, filePath: entry.relativePath };
+    }
+  }
+
+  /**
+   * Start the restore process
+   * @returns {Promise<void>}
+   */
+  async startRestore(): Promise<void> {
+    logger.info(`Listing files in ${this.remoteDir}...`, this.verbosity);
+    this.remoteFolders = [];
+    const entries = this.snapshot
+      ? await this.collectSnapshotFiles(this.snapshot)
+      : await this.collectRemoteFiles();
+
+    // Recreate the directory layout, including empty folders
+    await mkdir(this.localDir, { recursive: true });
+    for (const folder of this.remoteFolders) {
+      await mkdir(path.join(this.localDir, folder), { recursive: true });
+    }
+
+    if (entries.length === 0) {
+      logger.success("No files found to restore.", this.verbosity);
+      return;
+    }
+
+    const totalSizeMB = (entries.reduce((sum, entry) => sum + entry.size, 0) / (1024 * 1024)).toFixed(2);
+    logger.info(`Restoring ${entries.length} files (${totalSizeMB} MB) to ${this.localDir}...`, this.verbosity);
+
+    this.progressTracker.initialize(entries.length);
+    this.progressTracker.startProgressUpdates();
+
+    try {
+      // Each worker pulls the next file from the shared queue until it is empty
+      const queue = [...entries];
+      const workers = Array.from(
+        { length: Math.min(this.concurrentDownloads, queue.length) },
+        async () => {
+          while (queue.length > 0) {
+            await this.restoreFile(queue.shift()!);
+          }
+        }
+      );
+      await Promise.all(workers);
+
+      this.progressTracker.displaySummary("Restore", "restored");
+    } finally {
+      this.progressTracker.stopProgressUpdates();
+    }
+  }
+}
@@ -2,9 +2,11 @@
  * Tests for BackupScheduler
  */
 
-import { expect, describe, it } from 'bun:test';
+import { expect, describe, it, afterEach, spyOn } from 'bun:test';
 import { BackupScheduler, BackupConfig } from './scheduler';
 import { Verbosity } from '../../interfaces/logger';
+import { createMockLoggers } from '../../../test-config/mocks/test-helpers';
+import { BackupCancelledError } from '../../file-sync';
 
 describe('BackupScheduler', () => {
   describe('constructor', () => {
@@ -67,5 +69,162 @@ describe('BackupScheduler', () => {
       expect(config.schedule).toBe('0 2 * * *');
       expect(config.syncOptions.target).toBe('/backup');
     });
+
+    it('should support a retention policy', () => {
+      const config: BackupConfig = {
+        sourceDir: '/test',
+        schedule: '0 2 * * *',
+        syncOptions: { target: '/backup', snapshots: true },
+        retention: { keepDaily: 7, keepWeekly: 4 }
+      };
+
+      expect(config.retention?.keepDaily).toBe(7);
+      expect(config.retention?.keepWeekly).toBe(4);
+    });
+  });
+
+  describe('startDaemon', () => {
+    it('should reject a job without a valid schedule before running anything', async () => {
+      const scheduler = new BackupScheduler({ verbosity: Verbosity.Quiet });
+
+      await expect(scheduler.startDaemon([
+        { name: 'photos', sourceDir: '/photos', schedule: '0 2 * * *', syncOptions: {} },
+        { name: 'docs', sourceDir: '/docs', syncOptions: {} }
+      ])).rejects.toThrow('Invalid cron expression for job "docs"');
+      expect(scheduler.getJobInfo()).toEqual([]);
+    });
+  });
+
+  describe('concurrency budget', () => {
+    // A backup that only finishes when the test says so
+    const deferredRuns = (scheduler: BackupScheduler) => {
+      const started: string[] = [];
+      const finishers: Array<() => void> = [];
+      spyOn(scheduler, 'runOnce').mockImplementation(async (config: BackupConfig) => {
+        started.push(config.name!);
+        await new Promise<void>(resolve => finishers.push(resolve));
+      });
+      return { started, finishNext: async () => { finishers.shift()!(); await Bun.sleep(0); } };
+    };
+
+    const job = (name: string): BackupConfig => ({ name, sourceDir: `/${name}`, schedule: '0 2 * * *', syncOptions: {} });
+
+    it('should run one backup at a time by default', async () => {
+      const scheduler = new BackupScheduler({ verbosity: Verbosity.Quiet });
+      const { started, finishNext } = deferredRuns(scheduler);
+
+      const runs = Promise.all([scheduler.runJob(job('a')), scheduler.runJob(job('b')), scheduler.runJob(job('c'))]);
+      await Bun.sleep(0);
+      expect(started).toEqual(['a']);
+
+      await finishNext();
+      expect(started).toEqual(['a', 'b']);
+
+      await finishNext();
+      await finishNext();
+      await runs;
+      expect(started).toEqual(['a', 'b', 'c']);
+    });
+
+    it('should run up to the budget at the same time', async () => {
+      createMockLoggers();
+      const scheduler = new BackupScheduler({ verbosity: Verbosity.Quiet, maxConcurrentJobs: 2 });
+      const { started, finishNext } = deferredRuns(scheduler);
+
+      const runs = Promise.all([scheduler.runJob(job('a')), scheduler.runJob(job('b')), scheduler.runJob(job('c'))]);
+      await Bun.sleep(0);
+      expect(started).toEqual(['a', 'b']);
+
+      await finishNext();
+      expect(started).toEqual(['a', 'b', 'c']);
+
+      await finishNext();
+      await finishNext();
+      await runs;
+    });
+  });
+
+  describe('runJob', () => {
+    it('should count a backup with failed files as failed', async () => {
+      createMockLoggers();
+      const scheduler = new BackupScheduler({ verbosity: Verbosity.Quiet });
+      spyOn(scheduler, 'runOnce').mockImplementation(async (_config, tracker) => {
+        tracker!.totalFiles = 2;
+        tracker!.recordSuccess(10);
+        tracker!.recordFailure('b.txt', 'timeout');
+      });
+
+      await scheduler.runJob({ name: 'docs', sourceDir: '/docs', syncOptions: {} });
+
+      expect(scheduler.getRun(1)).toMatchObject({ status: 'failed', error: '1 of 2 files failed to upload' });
+    });
+  });
+
+  describe('cancelRuns', () => {
+    it('should cancel running and queued backups and wait for them to stop', async () => {
+      createMockLoggers();
+      const scheduler = new BackupScheduler({ verbosity: Verbosity.Quiet });
+      const started: string[] = [];
+      spyOn(scheduler, 'runOnce').mockImplementation(async (config, _tracker, signal) => {
+        started.push(config.name!);
+        await new Promise<void>(resolve => signal!.addEventListener('abort', () => resolve()));
+        await Bun.sleep(10);
+        signal!.throwIfAborted();
+      });
+
+      const job = (name: string): BackupConfig => ({ name, sourceDir: `/${name}`, syncOptions: {} });
+      const runs = Promise.allSettled([scheduler.runJob(job('a')), scheduler.runJob(job('b'))]);
+      await Bun.sleep(0);
+
+      const cancelled = await scheduler.cancelRuns(new BackupCancelledError('Backup cancelled by SIGTERM'));
+
+      expect(cancelled).toBe(2);
+      expect(started).toEqual(['a']);
+      expect(scheduler.getRun(1)).toMatchObject({ status: 'cancelled', error: 'Backup cancelled by SIGTERM' });
+      expect(scheduler.getRun(2)).toMatchObject({ status: 'cancelled' });
+      expect((await runs).map(run => run.status)).toEqual(['rejected', 'rejected']);
+    });
+
+    it('should return right away when nothing runs', async () => {
+      expect(await new BackupScheduler().cancelRuns()).toBe(0);
+    });
+  });
+
+  describe('reload', () => {
+    let scheduler: BackupScheduler;
+
+    afterEach(() => {
+      scheduler.stopAll();
+    });
+
+    const job = (name: string, schedule = '0 2 * * *'): BackupConfig => ({ name, sourceDir: `/${name}`, schedule, syncOptions: {} });
+
+    it('should add, remove and update jobs', async () => {
+      createMockLoggers();
+      scheduler = new BackupScheduler({ verbosity: Verbosity.Quiet });
+      const runOnce = spyOn(scheduler, 'runOnce').mockResolvedValue(undefined);
+      scheduler.reload([job('photos'), job('docs'), job('music')]);
+      await Bun.sleep(0);
+      runOnce.mockClear();
+
+      const result = scheduler.reload([job('photos'), job('docs', '0 3 * * *'), job('videos')]);
+      await Bun.sleep(0);
+
+      expect(result).toEqual({ added: ['videos'], removed: ['music'], updated: ['docs'] });
+      expect(scheduler.getJobInfo().map(info => info.id).sort()).toEqual(['docs', 'photos', 'videos']);
+      expect(runOnce).toHaveBeenCalledTimes(1);
+      expect(runOnce.mock.calls[0][0].name).toBe('videos');
+    });
+
+    it('should keep the current jobs when the new list is invalid', () => {
+      createMockLoggers();
+      scheduler = new BackupScheduler({ verbosity: Verbosity.Quiet });
+      spyOn(scheduler, 'runOnce').mockResolvedValue(undefined);
+      scheduler.reload([job('photos')]);
+
+      expect(() => scheduler.reload([job('docs', 'not a schedule')])).toThrow('Invalid cron expression for job "docs"');
+      expect(() => scheduler.reload([job('docs'), job('docs')])).toThrow('Duplicate backup job: docs');
+      expect(scheduler.getJobInfo().map(info => info.id)).toEqual(['photos']);
+    });
   });
 });
@@ -5,24 +5,88 @@
 
 import { Cron } from "croner";
 import * as logger from "../../utils/logger";
-import { syncFiles, SyncOptions } from "../../file-sync";
+import { syncFiles, SyncOptions, getBackupStateDir, BackupCancelledError, EXIT_CANCELLED } from "../../file-sync";
+import { pruneSnapshots } from "../../file-prune";
+import { RetentionPolicy } from "../snapshot/retention";
+import { ProgressTracker, ProgressSnapshot } from "../upload/progress-tracker";
+import { BackupMetrics } from "../metrics/backup-metrics";
+import { readLastRun } from "../state/state-dir";
+import { Notifier, NotificationSettings, createNotification } from "../notify/notifier";
 
 export interface BackupConfig {
+  name?: string; // Job name from the config file
   sourceDir: string;
-  schedule: string;
+  schedule?: string; // Cron expression, required by the daemon
   syncOptions: SyncOptions;
+  retention?: RetentionPolicy; // Prune snapshots after every successful backup
+  notify?: NotificationSettings; // Report every run, or only failed ones
 }
 
 export interface SchedulerOptions {
   verbosity?: number;
+  maxConcurrentJobs?: number; // Backups that may run at the same time (default: 1, one after another)
 }
 
+export interface DaemonOptions {
+  reload?: () => Promise<BackupConfig[]>; // Called on SIGHUP to get the new list of jobs
+}
+
+/**
+ * Jobs changed by a reload, by id
+ */
+export interface ReloadResult {
+  added: string[];
+  removed: string[];
+  updated: string[];
+}
+
+export type RunState = "queued" | "running" | "success" | "failed" | "cancelled";
+
+/**
+ * A backup run started by the daemon, on schedule or on request
+ */
+export interface RunInfo {
+  id: number;
+  jobId: string;
+  status: RunState;
+  queuedAt: string;
+  startedAt?: string;
+  finishedAt?: string;
+  error?: string;
+  progress?: ProgressSnapshot; // Live while the files are uploaded
+}
+
+/**
+ * A scheduled job and its latest run
+ */
+export interface JobInfo {
+  id: string;
+  nextRun: Date | null;
+  previousRun: Date | null;
+  running: boolean; // Scheduled, i.e. neither paused nor stopped
+  paused: boolean;
+  lastRunId?: number;
+}
+
+// Finished runs kept for the status API
+const MAX_FINISHED_RUNS = 100;
+
 export class BackupScheduler {
   private verbosity: number;
+  private maxConcurrentJobs: number;
   private jobs: Map<string, Cron> = new Map();
+  private configs: Map<string, BackupConfig> = new Map();
+  private pausedJobs: Set<string> = new Set();
+  private activeRuns = 0;
+  private waitingRuns: Array<() => void> = [];
+  private runs: Map<number, { info: RunInfo; tracker?: ProgressTracker; controller?: AbortController }> = new Map();
+  private runFinishedWaiters: Array<() => void> = [];
+  private nextRunId = 1;
+  private metrics: BackupMetrics = new BackupMetrics();
 
   constructor(options: SchedulerOptions = {}) {
     this.verbosity = options.verbosity ?? logger.Verbosity.Normal;
+    this.maxConcurrentJobs = Math.max(1, options.maxConcurrentJobs ?? 1);
   }
 
   /**
@@ -39,69 +103,393 @@ export class BackupScheduler {
   }
 
   /**
-   * Start a daemon that runs backups on a schedule
+   * Check that every job has a valid schedule and its own id
+   */
+  private validateConfigs(configs: BackupConfig[]): void {
+    const ids = new Set<string>();
+
+    for (const config of configs) {
+      if (!config.schedule || !this.validateCronExpression(config.schedule)) {
+        const job = config.name ? ` for job "${config.name}"` : "";
+        throw new Error(`Invalid cron expression${job}: ${config.schedule ?? "(none)"}`);
+      }
+
+      const jobId = this.getJobId(config);
+      if (ids.has(jobId)) {
+        throw new Error(`Duplicate backup job: ${jobId}`);
+      }
+      ids.add(jobId);
+    }
+  }
+
+  /**
+   * Start a daemon that runs one or more backups on their schedules
+   * Every job gets its own cron; runs of all jobs share the concurrency budget
    */
-  async startDaemon(config: BackupConfig): Promise<void> {
-    // Validate the cron expression
-    if (!this.validateCronExpression(config.schedule)) {
-      throw new Error(`Invalid cron expression: ${config.schedule}`);
+  async startDaemon(configs: BackupConfig | BackupConfig[], options: DaemonOptions = {}): Promise<void> {
+    const jobConfigs = Array.isArray(configs) ? configs : [configs];
+
+    // Validate every cron expression before running anything
+    this.validateConfigs(jobConfigs);
+
+    for (const config of jobConfigs) {
+      logger.info(`Starting backup daemon${this.describe(config)} with schedule: ${config.schedule}`, this.verbosity);
+      logger.info(`Source: ${config.sourceDir}`, this.verbosity);
+      logger.info(`Target: ${config.syncOptions.target || "/"}`, this.verbosity);
     }
 
-    logger.info(`Starting backup daemon with schedule: ${config.schedule}`, this.verbosity);
-    logger.info(`Source: ${config.sourceDir}`, this.verbosity);
-    logger.info(`Target: ${config.syncOptions.target || "/"}`, this.verbosity);
+    // Register the jobs first so the initial backups already show up in getJobInfo()
+    const jobs = jobConfigs.map(config => this.scheduleJob(config));
+
+    // Shut down cleanly from here on, also while the initial backups run
+    const removeSignalHandlers = this.handleSignals(options.reload);
 
-    // Run initial backup
+    // Run initial backups; with several jobs one failing must not keep the others from being scheduled
     logger.info("Running initial backup...", this.verbosity);
-    await this.runOnce(config);
+    const initialRuns = await Promise.allSettled(jobConfigs.map(config => this.runJob(config)));
+    if (jobConfigs.length === 1 && initialRuns[0].status === "rejected") {
+      this.stopAll();
+      removeSignalHandlers();
+      throw initialRuns[0].reason;
+    }
+
+    jobConfigs.forEach((config, index) => {
+      logger.success(`Daemon started${this.describe(config)}. Next run: ${jobs[index].nextRun()?.toISOString() || "unknown"}`, this.verbosity);
+    });
+
+    // Keep the process alive
+    await this.keepAlive();
+  }
+
+  /**
+   * Replace the scheduled jobs with a new list, without stopping the daemon
+   * New jobs get an initial backup; a backup that is already running finishes with its old settings
+   * @param {BackupConfig[]} configs - The jobs that should be scheduled
+   * @returns {ReloadResult} The jobs that were added, removed or changed
+   */
+  reload(configs: BackupConfig[]): ReloadResult {
+    // An invalid config leaves the running jobs alone
+    this.validateConfigs(configs);
 
-    // Schedule recurring backups
-    const jobId = `${config.sourceDir}-${Date.now()}`;
+    const result: ReloadResult = { added: [], removed: [], updated: [] };
+    const next = new Map(configs.map(config => [this.getJobId(config), config]));
+
+    for (const jobId of [...this.jobs.keys()]) {
+      if (!next.has(jobId)) {
+        this.stopJob(jobId);
+        this.pausedJobs.delete(jobId);
+        result.removed.push(jobId);
+      }
+    }
+
+    for (const [jobId, config] of next) {
+      const current = this.configs.get(jobId);
+      if (current && JSON.stringify(current) === JSON.stringify(config)) {
+        continue;
+      }
+
+      if (this.jobs.has(jobId)) {
+        this.stopJob(jobId);
+        result.updated.push(jobId);
+      } else {
+        result.added.push(jobId);
+        this.runJob(config).catch(() => {});
+      }
+      this.scheduleJob(config);
+    }
+
+    logger.info(
+      `Reloaded jobs: ${result.added.length} added, ${result.removed.length} removed, ${result.updated.length} updated`,
+      this.verbosity
+    );
+    return result;
+  }
+
+  /**
+   * Schedule recurring backups of a job
+   */
+  private scheduleJob(config: BackupConfig): Cron {
+    const jobId = this.getJobId(config);
 
     const job = new Cron(
-      config.schedule,
+      config.schedule!,
       {
         name: jobId,
-        protect: true // Prevent overlapping executions
+        protect: true, // Prevent overlapping executions
+        paused: this.pausedJobs.has(jobId)
       },
       async () => {
-        logger.info(`Scheduled backup triggered at ${new Date().toISOString()}`, this.verbosity);
+        logger.info(`Scheduled backup${this.describe(config)} triggered at ${new Date().toISOString()}`, this.verbosity);
 
         try {
-          await this.runOnce(config);
-          logger.info("Scheduled backup completed successfully", this.verbosity);
+          await this.runJob(config);
+          logger.info(`Scheduled backup${this.describe(config)} completed successfully`, this.verbosity);
         } catch (error) {
           const errorMessage = error instanceof Error ? error.message : String(error);
-          logger.error(`Scheduled backup failed: ${errorMessage}`);
+          logger.error(`Scheduled backup${this.describe(config)} failed: ${errorMessage}`);
         }
       }
     );
 
     this.jobs.set(jobId, job);
+    this.configs.set(jobId, config);
+    this.loadLastSuccess(jobId, config);
+    return job;
+  }
+
+  /**
+   * Take the last successful backup of a job from its state, so the metric survives a restart
+   */
+  private loadLastSuccess(jobId: string, config: BackupConfig): void {
+    if (this.metrics.hasLastSuccess(jobId)) {
+      return;
+    }
 
-    logger.success(`Daemon started. Next run: ${job.nextRun()?.toISOString() || "unknown"}`, this.verbosity);
+    try {
+      const lastRun = readLastRun(getBackupStateDir(config.sourceDir, config.syncOptions), "success");
+      if (lastRun?.finishedAt) {
+        this.metrics.setLastSuccess(jobId, new Date(lastRun.finishedAt));
+      }
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : String(error);
+      logger.verbose(`Could not read the last run of ${jobId}: ${errorMessage}`, this.verbosity);
+    }
+  }
 
-    // Keep the process alive
-    await this.keepAlive();
+  /**
+   * Run a backup as soon as the concurrency budget has room for it
+   * @param {BackupConfig} config - The job to back up
+   * @param {RunInfo} run - The run to record it as (default: a new run)
+   */
+  async runJob(config: BackupConfig, run: RunInfo = this.createRun(config)): Promise<void> {
+    const controller = new AbortController();
+    this.runs.set(run.id, { info: run, controller });
+    await this.acquireSlot(config);
+
+    const tracker = new ProgressTracker(this.verbosity);
+    this.runs.set(run.id, { info: run, tracker, controller });
+    run.status = "running";
+    run.startedAt = new Date().toISOString();
+
+    try {
+      // Cancelled while waiting for a slot
+      controller.signal.throwIfAborted();
+      await this.runOnce(config, tracker, controller.signal);
+      // Files that failed to upload are logged, not thrown, but the backup is incomplete
+      if (tracker.failedFiles > 0) {
+        run.status = "failed";
+        run.error = `${tracker.failedFiles} of ${tracker.totalFiles} files failed to upload`;
+      } else {
+        run.status = "success";
+      }
+    } catch (error) {
+      run.status = controller.signal.aborted ? "cancelled" : "failed";
+      run.error = error instanceof Error ? error.message : String(error);
+      throw error;
+    } finally {
+      const finishedAt = new Date();
+      run.finishedAt = finishedAt.toISOString();
+      run.progress = tracker.getProgress();
+      this.runs.set(run.id, { info: run });
+      this.metrics.recordRun(run.jobId, {
+        status: run.status === "success" ? "success" : "failed",
+        finishedAt,
+        durationMs: finishedAt.getTime() - new Date(run.startedAt).getTime(),
+        progress: run.progress,
+        dryRun: config.syncOptions.dryRun
+      });
+      this.releaseSlot();
+      this.runFinishedWaiters.splice(0).forEach(resolve => resolve());
+    }
+  }
+
+  /**
+   * Cancel every queued and running backup and wait until they have stopped and saved their state
+   * @param {Error} reason - Why the backups are cancelled, recorded as their error
+   * @returns {Promise<number>} Number of cancelled backups
+   */
+  async cancelRuns(reason: Error = new BackupCancelledError()): Promise<number> {
+    const active = () => [...this.runs.values()].filter(({ controller }) => controller);
+    const cancelled = active();
+    cancelled.forEach(({ controller }) => controller!.abort(reason));
+
+    while (active().length > 0) {
+      await new Promise<void>(resolve => this.runFinishedWaiters.push(resolve));
+    }
+    return cancelled.length;
+  }
+
+  /**
+   * Start a backup of a scheduled job right away, outside its schedule
+   * @param {string} jobId - The job
+   * @returns {RunInfo | undefined} The new run, or undefined if there is no such job
+   */
+  triggerJob(jobId: string): RunInfo | undefined {
+    const config = this.configs.get(jobId);
+    if (!config) {
+      return undefined;
+    }
+
+    const run = this.createRun(config);
+    logger.info(`Backup${this.describe(config)} requested, run ${run.id}`, this.verbosity);
+    // Failures are logged by runOnce and recorded in the run
+    this.runJob(config, run).catch(() => {});
+    return run;
+  }
+
+  /**
+   * Get the queued or running backup of a job, if any
+   */
+  getActiveRun(jobId: string): RunInfo | undefined {
+    return [...this.runs.values()]
+      .map(({ info }) => info)
+      .find(run => run.jobId === jobId && (run.status === "queued" || run.status === "running"));
+  }
+
+  /**
+   * Get a run, with live progress while it is uploading
+   */
+  getRun(runId: number): RunInfo | undefined {
+    const run = this.runs.get(runId);
+    if (!run) {
+      return undefined;
+    }
+    return run.tracker ? { ...run.info, progress: run.tracker.getProgress() } : { ...run.info };
+  }
+
+  /**
+   * Render the metrics of all jobs in the Prometheus text format
+   */
+  getMetrics(): string {
+    const liveRuns = [...this.runs.values()]
+      .filter(({ tracker }) => tracker)
+      .map(({ info, tracker }) => ({ jobId: info.jobId, progress: tracker!.getProgress() }));
+    return this.metrics.render([...this.jobs.keys()], liveRuns);
+  }
+
+  /**
+   * Record a new queued run and forget the oldest finished runs
+   */
+  private createRun(config: BackupConfig): RunInfo {
+    const run: RunInfo = {
+      id: this.nextRunId++,
+      jobId: this.getJobId(config),
+      status: "queued",
+      queuedAt: new Date().toISOString()
+    };
+    this.runs.set(run.id, { info: run });
+
+    const finished = [...this.runs.values()].filter(({ info }) => info.finishedAt);
+    for (const { info } of finished.slice(0, Math.max(0, finished.length - MAX_FINISHED_RUNS))) {
+      this.runs.delete(info.id);
+    }
+
+    return run;
+  }
+
+  /**
+   * Wait for a free slot in the concurrency budget
+   */
+  private async acquireSlot(config: BackupConfig): Promise<void> {
+    if (this.activeRuns < this.maxConcurrentJobs) {
+      this.activeRuns++;
+      return;
+    }
+
+    logger.verbose(`Backup${this.describe(config)} is waiting for another backup to finish`, this.verbosity);
+    await new Promise<void>(resolve => this.waitingRuns.push(resolve));
+  }
+
+  /**
+   * Hand the slot of a finished run to the next waiting run, or free it
+   */
+  private releaseSlot(): void {
+    const next = this.waitingRuns.shift();
+    if (next) {
+      next();
+    } else {
+      this.activeRuns--;
+    }
+  }
+
+  /**
+   * Get the id a job is scheduled under
+   */
+  private getJobId(config: BackupConfig): string {
+    return config.name ?? config.sourceDir;
+  }
+
+  /**
+   * Name a job in log messages, e.g. ' of job "photos"'
+   */
+  private describe(config: BackupConfig): string {
+    return config.name ? ` of job "${config.name}"` : "";
   }
 
   /**
    * Run a single backup operation
+   * Notifies the targets of the job when it starts and finishes; dry runs notify nobody
    */
-  async runOnce(config: BackupConfig): Promise<void> {
-    const startTime = Date.now();
+  async runOnce(config: BackupConfig, progressTracker?: ProgressTracker, signal?: AbortSignal): Promise<void> {
+    const startedAt = new Date();
+    const tracker = progressTracker ?? new ProgressTracker(this.verbosity);
+    const notifier = config.notify && !config.syncOptions.dryRun
+      ? new Notifier(config.notify, { verbosity: this.verbosity })
+      : null;
+    let failure: unknown;
+
+    await notifier?.notifyStart();
 
     try {
-      logger.info(`Starting backup from ${config.sourceDir}`, this.verbosity);
+      logger.info(`Starting backup${this.describe(config)} from ${config.sourceDir}`, this.verbosity);
 
-      await syncFiles(config.sourceDir, config.syncOptions);
+      await syncFiles(config.sourceDir, { ...config.syncOptions, job: config.name, progressTracker: tracker, signal });
 
-      const duration = ((Date.now() - startTime) / 1000).toFixed(1);
-      logger.success(`Backup completed in ${duration}s`, this.verbosity);
+      const duration = ((Date.now() - startedAt.getTime()) / 1000).toFixed(1);
+      logger.success(`Backup${this.describe(config)} completed in ${duration}s`, this.verbosity);
     } catch (error) {
       const errorMessage = error instanceof Error ? error.message : String(error);
-      logger.error(`Backup failed: ${errorMessage}`);
-      throw error;
+      logger.error(`Backup${this.describe(config)} failed: ${errorMessage}`);
+      failure = error;
+    }
+
+    await notifier?.notifyFinish(createNotification({
+      job: this.getJobId(config),
+      sourceDir: config.sourceDir,
+      target: config.syncOptions.target || "/",
+      startedAt,
+      progress: tracker.getProgress(),
+      failures: tracker.failures,
+      error: failure
+    }));
+
+    if (failure !== undefined) {
+      throw failure;
+    }
+
+    if (config.retention) {
+      await this.runPrune(config);
+    }
+  }
+
+  /**
+   * Apply the retention policy after a backup
+   * A failed prune is logged but doesn't fail the backup that just succeeded
+   */
+  private async runPrune(config: BackupConfig): Promise<void> {
+    try {
+      logger.info("Pruning old snapshots...", this.verbosity);
+
+      await pruneSnapshots(config.syncOptions.target || "/", {
+        ...config.retention,
+        dryRun: config.syncOptions.dryRun,
+        quiet: config.syncOptions.quiet,
+        verbose: config.syncOptions.verbose,
+        backend: config.syncOptions.backend
+      });
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : String(error);
+      logger.error(`Prune failed: ${errorMessage}`);
     }
   }
 
@@ -114,6 +502,7 @@ export class BackupScheduler {
     if (job) {
       job.stop();
       this.jobs.delete(jobId);
+      this.configs.delete(jobId);
       logger.info(`Stopped job: ${jobId}`, this.verbosity);
       return true;
     }
@@ -131,42 +520,110 @@ export class BackupScheduler {
     }
 
     this.jobs.clear();
+    this.configs.clear();
+    this.pausedJobs.clear();
+  }
+
+  /**
+   * Pause the schedule of a job; it can still be run on request
+   */
+  pauseJob(jobId: string): boolean {
+    const job = this.jobs.get(jobId);
+    if (!job) {
+      return false;
+    }
+
+    job.pause();
+    this.pausedJobs.add(jobId);
+    logger.info(`Paused job: ${jobId}`, this.verbosity);
+    return true;
+  }
+
+  /**
+   * Resume the schedule of a paused job
+   */
+  resumeJob(jobId: string): boolean {
+    const job = this.jobs.get(jobId);
+    if (!job) {
+      return false;
+    }
+
+    job.resume();
+    this.pausedJobs.delete(jobId);
+    logger.info(`Resumed job: ${jobId}`, this.verbosity);
+    return true;
   }
 
   /**
    * Get information about all scheduled jobs
    */
-  getJobInfo(): Array<{
-    id: string;
-    nextRun: Date | null;
-    previousRun: Date | null;
-    running: boolean;
-  }> {
+  getJobInfo(): JobInfo[] {
+    const lastRuns = new Map<string, number>();
+    for (const { info } of this.runs.values()) {
+      lastRuns.set(info.jobId, info.id);
+    }
+
     return Array.from(this.jobs.entries()).map(([id, job]) => ({
       id,
       nextRun: job.nextRun(),
       previousRun: job.previousRun(),
-      running: job.isRunning()
+      running: job.isRunning(),
+      paused: this.pausedJobs.has(id),
+      lastRunId: lastRuns.get(id)
     }));
   }
 
   /**
-   * Keep the process alive
+   * Shut down on SIGINT and SIGTERM, cancelling running backups so they stop their uploads and save
+   * their state first; a second signal exits right away. Reload the jobs on SIGHUP.
+   * @param {() => Promise<BackupConfig[]>} reload - Loads the jobs again on SIGHUP
+   * @returns {() => void} Removes the handlers again
+   */
+  private handleSignals(reload?: () => Promise<BackupConfig[]>): () => void {
+    let stopping = false;
+
+    const shutdown = async (signal: NodeJS.Signals) => {
+      if (stopping) {
+        logger.error("Exiting without waiting for the running backups");
+        process.exit(EXIT_CANCELLED);
+      }
+      stopping = true;
+
+      logger.info("\nShutting down daemon...", this.verbosity);
+      this.stopAll();
+      const cancelled = await this.cancelRuns(new BackupCancelledError(`Backup cancelled by ${signal}`));
+      process.exit(cancelled > 0 ? EXIT_CANCELLED : 0);
+    };
+
+    // A broken config is reported and the current jobs keep running
+    const onReload = async () => {
+      logger.info("Reloading configuration...", this.verbosity);
+      try {
+        this.reload(await reload!());
+      } catch (error) {
+        const errorMessage = error instanceof Error ? error.message : String(error);
+        logger.error(`Reload failed, keeping the current jobs: ${errorMessage}`);
+      }
+    };
+
+    process.on("SIGINT", shutdown);
+    process.on("SIGTERM", shutdown);
+    if (reload) {
+      process.on("SIGHUP", onReload);
+    }
+
+    return () => {
+      process.removeListener("SIGINT", shutdown);
+      process.removeListener("SIGTERM", shutdown);
+      process.removeListener("SIGHUP", onReload);
+    };
+  }
+
+  /**
+   * Keep the process alive until a signal ends it
    */
   private async keepAlive(): Promise<void> {
-    return new Promise((resolve) => {
-      // Handle graceful shutdown
-      const shutdown = () => {
-        logger.info("\nShutting down daemon...", this.verbosity);
-        this.stopAll();
-        resolve();
-        process.exit(0);
-      };
-
-      process.on("SIGINT", shutdown);
-      process.on("SIGTERM", shutdown);
-
-      // Keep the process running
+    return new Promise(() => {
       setInterval(() => {
         // Heartbeat to keep process alive
       }, 60000);
@@ -0,0 +1,74 @@
+/**
+ * Tests for snapshot retention
+ */
+
+import { expect, describe, it } from 'bun:test';
+import { selectSnapshotsToKeep, hasRetentionRules, parseKeepCount } from './retention';
+
+describe('retention', () => {
+  // One snapshot at 02:00 and 14:00 UTC every day from 2026-01-01 to 2026-03-31
+  const snapshots: string[] = [];
+  for (let day = new Date('2026-01-01T00:00:00Z'); day < new Date('2026-04-01T00:00:00Z'); day.setUTCDate(day.getUTCDate() + 1)) {
+    const date = day.toISOString().slice(0, 10);
+    snapshots.push(`${date}T02-00-00Z`, `${date}T14-00-00Z`);
+  }
+
+  describe('parseKeepCount', () => {
+    it('should parse whole numbers and leave options that were not given unset', () => {
+      expect(parseKeepCount('--keep-daily', '7')).toBe(7);
+      expect(parseKeepCount('--keep-weekly', '0')).toBe(0);
+      expect(parseKeepCount('--keep-monthly', undefined)).toBeUndefined();
+    });
+
+    it('should refuse anything else, naming the option', () => {
+      expect(() => parseKeepCount('--keep-weekly', '4w')).toThrow('--keep-weekly must be a whole number of 0 or more, got "4w"');
+      expect(() => parseKeepCount('--keep-monthly', 'abc')).toThrow('--keep-monthly');
+      expect(() => parseKeepCount('--keep-daily', '-1')).toThrow('--keep-daily');
+      expect(() => parseKeepCount('--keep-daily', '1.5')).toThrow('--keep-daily');
+      expect(() => parseKeepCount('--keep-daily', '')).toThrow('--keep-daily');
+    });
+  });
+
+  describe('hasRetentionRules', () => {
+    it('should require at least one positive keep count', () => {
+      expect(hasRetentionRules({})).toBe(false);
+      expect(hasRetentionRules({ keepDaily: 0 })).toBe(false);
+      expect(hasRetentionRules({ keepWeekly: 2 })).toBe(true);
+    });
+  });
+
+  describe('selectSnapshotsToKeep', () => {
+    it('should keep the newest snapshot of each of the last days', () => {
+      const keep = selectSnapshotsToKeep(snapshots, { keepDaily: 3 });
+
+      expect([...keep].sort()).toEqual(['2026-03-29T14-00-00Z', '2026-03-30T14-00-00Z', '2026-03-31T14-00-00Z']);
+    });
+
+    it('should keep the newest snapshot of each ISO week', () => {
+      const keep = selectSnapshotsToKeep(snapshots, { keepWeekly: 2 });
+
+      // 2026-03-29 is the Sunday ending week 13; 2026-03-30 and 31 are in week 14
+      expect([...keep].sort()).toEqual(['2026-03-29T14-00-00Z', '2026-03-31T14-00-00Z']);
+    });
+
+    it('should keep the newest snapshot of each month', () => {
+      const keep = selectSnapshotsToKeep(snapshots, { keepMonthly: 12 });
+
+      expect([...keep].sort()).toEqual(['2026-01-31T14-00-00Z', '2026-02-28T14-00-00Z', '2026-03-31T14-00-00Z']);
+    });
+
+    it('should combine rules', () => {
+      const keep = selectSnapshotsToKeep(snapshots, { keepDaily: 2, keepMonthly: 2 });
+
+      expect([...keep].sort()).toEqual(['2026-02-28T14-00-00Z', '2026-03-30T14-00-00Z', '2026-03-31T14-00-00Z']);
+    });
+
+    it('should always keep the latest snapshot', () => {
+      expect([...selectSnapshotsToKeep(snapshots, {})]).toEqual(['2026-03-31T14-00-00Z']);
+    });
+
+    it('should ignore names that are not snapshot ids', () => {
+      expect([...selectSnapshotsToKeep(['notes', '2026-01-01T00-00-00Z'], { keepDaily: 5 })]).toEqual(['2026-01-01T00-00-00Z']);
+    });
+  });
+});
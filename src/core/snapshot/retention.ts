@@ -0,0 +1,105 @@
+/**
+ * Snapshot retention
+ * Decides which snapshots a keep-daily/weekly/monthly policy holds on to
+ */
+
+import { SnapshotManager } from "./snapshot-manager";
+
+export interface RetentionPolicy {
+  keepDaily?: number; // Newest snapshot of each of the last N days that have snapshots
+  keepWeekly?: number; // Newest snapshot of each of the last N ISO weeks that have snapshots
+  keepMonthly?: number; // Newest snapshot of each of the last N months that have snapshots
+}
+
+/**
+ * Check that a policy keeps at least something, so a typo can't prune every snapshot
+ */
+export function hasRetentionRules(policy: RetentionPolicy): boolean {
+  return [policy.keepDaily, policy.keepWeekly, policy.keepMonthly].some(count => (count ?? 0) > 0);
+}
+
+/**
+ * Parse the count of a --keep-* option
+ * Anything but a whole number is refused: a count read as 0 would prune the snapshots it should keep
+ * @param {string} flag - Name of the option, e.g. "--keep-daily"
+ * @param {string} value - Value given on the command line, if any
+ * @returns {number | undefined} The count, or undefined if the option wasn't given
+ * @throws {Error} If the value is not a whole number of 0 or more
+ */
+export function parseKeepCount(flag: string, value: string | undefined): number | undefined {
+  if (value === undefined) {
+    return undefined;
+  }
+  if (!/^\d+$/.test(value.trim())) {
+    throw new Error(`${flag} must be a whole number of 0 or more, got "${value}"`);
+  }
+  return parseInt(value.trim(), 10);
+}
+
+/**
+ * Day bucket of a date, in UTC like the snapshot ids
+ */
+function dayKey(date: Date): string {
+  return date.toISOString().slice(0, 10);
+}
+
+/**
+ * ISO week bucket of a date, e.g. 2026-W05
+ */
+function weekKey(date: Date): string {
+  const thursday = new Date(Date.UTC(date.getUTCFullYear(), date.getUTCMonth(), date.getUTCDate()));
+  thursday.setUTCDate(thursday.getUTCDate() + 4 - (thursday.getUTCDay() || 7));
+  const yearStart = Date.UTC(thursday.getUTCFullYear(), 0, 1);
+  const week = Math.ceil(((thursday.getTime() - yearStart) / 86400000 + 1) / 7);
+  return `${thursday.getUTCFullYear()}-W${String(week).padStart(2, "0")}`;
+}
+
+/**
+ * Month bucket of a date, e.g. 2026-01
+ */
+function monthKey(date: Date): string {
+  return date.toISOString().slice(0, 7);
+}
+
+/**
+ * Select the snapshots a policy keeps
+ * For every rule the newest snapshot of each of the last N periods is kept;
+ * the most recent snapshot is always kept
+ * @param {string[]} snapshotIds - Snapshot ids in any order
+ * @param {RetentionPolicy} policy - The retention policy
+ * @returns {Set<string>} Ids of the snapshots to keep
+ */
+export function selectSnapshotsToKeep(snapshotIds: string[], policy: RetentionPolicy): Set<string> {
+  const newestFirst = snapshotIds
+    .map(id => ({ id, date: SnapshotManager.parseSnapshotId(id) }))
+    .filter((snapshot): snapshot is { id: string; date: Date } => snapshot.date !== null)
+    .sort((a, b) => b.date.getTime() - a.date.getTime());
+
+  const keep = new Set<string>();
+  if (newestFirst.length > 0) {
+    keep.add(newestFirst[0].id);
+  }
+
+  const rules: Array<[number | undefined, (date: Date) => string]> = [
+    [policy.keepDaily, dayKey],
+    [policy.keepWeekly, weekKey],
+    [policy.keepMonthly, monthKey]
+  ];
+
+  for (const [count, bucketOf] of rules) {
+    const buckets = new Set<string>();
+    for (const snapshot of newestFirst) {
+      if (buckets.size >= (count ?? 0)) {
+        break;
+      }
+
+      const bucket = bucketOf(snapshot.date);
+      if (!buckets.has(bucket)) {
+        buckets.add(bucket);
+        keep.add(snapshot.id);
+      }
+    }
+  }
+
+  return keep;
+}
@@ -0,0 +1,179 @@
+/**
+ * Tests for SnapshotManager
+ */
+
+import { expect, describe, beforeEach, afterEach, it } from 'bun:test';
+import { SnapshotManager } from './snapshot-manager';
+import { LocalFsBackend } from '../storage/local-fs-backend';
+import Uploader from '../upload/uploader';
+import Restorer from '../restore/restorer';
+import { Verbosity } from '../../interfaces/logger';
+import { FileInfo } from '../../interfaces/file-scanner';
+import { SnapshotManifest } from '../../interfaces/snapshot';
+import { createMockLoggers } from '../../../test-config/mocks/test-helpers';
+import { mkdir, writeFile, readFile, rm } from 'node:fs/promises';
+import { join } from 'node:path';
+import { tmpdir } from 'node:os';
+
+describe('SnapshotManager', () => {
+  let tempDir: string;
+  let backend: LocalFsBackend;
+  let manager: SnapshotManager;
+
+  const createFileInfo = (relativePath: string, checksum: string, hasChanged: boolean): FileInfo => ({
+    relativePath,
+    absolutePath: join(tempDir, 'source', relativePath),
+    size: 10,
+    checksum,
+    hasChanged
+  });
+
+  const createManifest = (id: string, files: SnapshotManifest['files'] = []): SnapshotManifest => ({
+    id,
+    timestamp: SnapshotManager.parseSnapshotId(id)!.toISOString(),
+    sourceDir: '/source',
+    files
+  });
+
+  beforeEach(async () => {
+    createMockLoggers();
+    tempDir = join(tmpdir(), `snapshot-test-${Date.now()}`);
+    await mkdir(join(tempDir, 'source'), { recursive: true });
+    backend = new LocalFsBackend({ rootDir: tempDir, verbosity: Verbosity.Quiet });
+    manager = new SnapshotManager(backend, '/backup', Verbosity.Quiet);
+  });
+
+  afterEach(async () => {
+    await rm(tempDir, { recursive: true, force: true });
+  });
+
+  describe('snapshot ids', () => {
+    it('should create sortable ids that parse back to the run time', () => {
+      const date = new Date('2026-01-31T02:03:04.567Z');
+      const id = SnapshotManager.createSnapshotId(date);
+
+      expect(id).toBe('2026-01-31T02-03-04Z');
+      expect(SnapshotManager.parseSnapshotId(id)?.toISOString()).toBe('2026-01-31T02:03:04.000Z');
+      expect(SnapshotManager.parseSnapshotId('notes')).toBeNull();
+    });
+  });
+
+  describe('manifests', () => {
+    it('should save, list and load manifests', async () => {
+      await manager.saveManifest(createManifest('2026-01-02T00-00-00Z'));
+      await manager.saveManifest(createManifest('2026-01-01T00-00-00Z', [
+        { path: 'a.txt', size: 1, checksum: 'abc', remotePath: 'backup/.versions/2026-01-01T00-00-00Z/a.txt' }
+      ]));
+
+      expect(await manager.listSnapshots()).toEqual(['2026-01-01T00-00-00Z', '2026-01-02T00-00-00Z']);
+      expect((await manager.loadManifest('2026-01-01T00-00-00Z')).files[0].checksum).toBe('abc');
+      expect((await manager.loadLatestManifest())?.id).toBe('2026-01-02T00-00-00Z');
+    });
+
+    it('should have no latest manifest before the first snapshot', async () => {
+      expect(await manager.loadLatestManifest()).toBeNull();
+    });
+  });
+
+  describe('resolveSnapshot', () => {
+    beforeEach(async () => {
+      await manager.saveManifest(createManifest('2026-01-01T10-00-00Z'));
+      await manager.saveManifest(createManifest('2026-01-03T10-00-00Z'));
+    });
+
+    it('should resolve ids and "latest"', async () => {
+      expect(await manager.resolveSnapshot('2026-01-01T10-00-00Z')).toBe('2026-01-01T10-00-00Z');
+      expect(await manager.resolveSnapshot('latest')).toBe('2026-01-03T10-00-00Z');
+    });
+
+    it('should resolve a date to the last snapshot taken at or before it', async () => {
+      expect(await manager.resolveSnapshot('2026-01-02')).toBe('2026-01-01T10-00-00Z');
+      expect(await manager.resolveSnapshot('2026-01-03T09:00:00Z')).toBe('2026-01-01T10-00-00Z');
+      expect(await manager.resolveSnapshot('2026-02-01')).toBe('2026-01-03T10-00-00Z');
+    });
+
+    it('should reject dates before the first snapshot and invalid selectors', async () => {
+      await expect(manager.resolveSnapshot('2025-12-31')).rejects.toThrow('No snapshot found at or before 2025-12-31');
+      await expect(manager.resolveSnapshot('yesterday')).rejects.toThrow('Invalid snapshot');
+    });
+  });
+
+  describe('selectFilesToUpload', () => {
+    it('should add unchanged files that the previous snapshot does not hold', () => {
+      const previous = createManifest('2026-01-01T00-00-00Z', [
+        { path: 'same.txt', size: 10, checksum: 'same', remotePath: 'v1/same.txt' },
+        { path: 'stale.txt', size: 10, checksum: 'old', remotePath: 'v1/stale.txt' }
+      ]);
+      const allFiles = [
+        createFileInfo('same.txt', 'same', false),
+        createFileInfo('stale.txt', 'new', false),
+        createFileInfo('missing.txt', 'missing', false),
+        createFileInfo('changed.txt', 'changed', true)
+      ];
+
+      const selected = manager.selectFilesToUpload(allFiles, [allFiles[3]], previous);
+
+      expect(selected.map(file => file.relativePath).sort()).toEqual(['changed.txt', 'missing.txt', 'stale.txt']);
+      expect(selected.every(file => file.hasChanged)).toBe(true);
+    });
+  });
+
+  describe('createManifest', () => {
+    it('should point unchanged files at their previous versions', () => {
+      const previous = createManifest('2026-01-01T00-00-00Z', [
+        { path: 'same.txt', size: 10, checksum: 'same', remotePath: 'v1/same.txt.gz' }
+      ]);
+      const allFiles = [createFileInfo('same.txt', 'same', false), createFileInfo('new.txt', 'new', true)];
+
+      const manifest = manager.createManifest(
+        '2026-01-02T00-00-00Z',
+        '/source',
+        allFiles,
+        new Map([['new.txt', 'v2/new.txt']]),
+        previous
+      );
+
+      expect(manifest.timestamp).toBe('2026-01-02T00:00:00.000Z');
+      expect(manifest.files.map(file => file.remotePath)).toEqual(['v1/same.txt.gz', 'v2/new.txt']);
+    });
+
+    it('should fail when a file has no remote copy', () => {
+      expect(() => manager.createManifest(
+        '2026-01-02T00-00-00Z',
+        '/source',
+        [createFileInfo('lost.txt', 'lost', false)],
+        new Map(),
+        null
+      )).toThrow('No remote copy of lost.txt');
+    });
+  });
+
+  describe('point-in-time restore', () => {
+    it('should restore the tree as it was at an earlier snapshot', async () => {
+      const sourcePath = join(tempDir, 'source', 'report.txt');
+      const runSnapshot = async (id: string, content: string) => {
+        await writeFile(sourcePath, content);
+        const file = createFileInfo('report.txt', content, true);
+        const previous = await manager.loadLatestManifest();
+        const uploader = new Uploader(1, '/backup', Verbosity.Quiet, {
+          backend,
+          compress: true,
+          versionsDir: manager.getVersionsDir(id)
+        });
+        await uploader.startUpload(manager.selectFilesToUpload([file], [file], previous));
+        await manager.saveManifest(manager.createManifest(id, '/source', [file], uploader.getUploadedRemotePaths(), previous));
+      };
+
+      await runSnapshot('2026-01-01T00-00-00Z', 'good content '.repeat(100));
+      await runSnapshot('2026-01-02T00-00-00Z', 'ransomware garbage');
+
+      const restorer = new Restorer(1, '/backup', join(tempDir, 'restore'), Verbosity.Quiet, {
+        backend,
+        snapshot: '2026-01-01'
+      });
+      await restorer.startRestore();
+
+      expect(await readFile(join(tempDir, 'restore', 'report.txt'), 'utf8')).toBe('good content '.repeat(100));
+    });
+  });
+});
@@ -0,0 +1,244 @@
+/**
+ * Snapshot Manager
+ * Reads and writes the snapshot manifests that make point-in-time restores possible
+ *
+ * Layout below the backup target:
+ *   .snapshots/<id>.json      one manifest per run
+ *   .versions/<id>/<path>     files uploaded by that run
+ */
+
+import { readFile, writeFile, unlink } from "node:fs/promises";
+import { join, posix } from "node:path";
+import { tmpdir } from "node:os";
+import { randomUUID } from "node:crypto";
+import * as logger from "../../utils/logger";
+import { FileInfo } from "../../interfaces/file-scanner";
+import { StorageBackend } from "../../interfaces/storage";
+import { SnapshotManifest, SnapshotFileEntry } from "../../interfaces/snapshot";
+
+export const SNAPSHOTS_DIR = ".snapshots";
+export const VERSIONS_DIR = ".versions";
+
+const MANIFEST_EXTENSION = ".json";
+
+// Snapshot ids are UTC timestamps that sort chronologically, e.g. 2026-10-19T02-00-00Z
+const SNAPSHOT_ID_PATTERN = /^(\d{4}-\d{2}-\d{2})T(\d{2})-(\d{2})-(\d{2})Z$/;
+const DATE_ONLY_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+export class SnapshotManager {
+  private backend: StorageBackend;
+  private targetDir: string;
+  private verbosity: number;
+
+  /**
+   * Create a new Snapshot Manager
+   * @param {StorageBackend} backend - Storage backend holding the backup
+   * @param {string} targetDir - The backup target folder
+   * @param {number} verbosity - Verbosity level
+   */
+  constructor(backend: StorageBackend, targetDir: string = "", verbosity: number = logger.Verbosity.Normal) {
+    this.backend = backend;
+    this.targetDir = targetDir.trim().replace(/^\/+|\/+$/g, "");
+    this.verbosity = verbosity;
+  }
+
+  /**
+   * Create the id for a snapshot taken at the given time
+   */
+  static createSnapshotId(date: Date = new Date()): string {
+    return date.toISOString().replace(/\.\d{3}Z$/, "Z").replace(/:/g, "-");
+  }
+
+  /**
+   * Get the time a snapshot was taken from its id
+   * Returns null for names that are not snapshot ids
+   */
+  static parseSnapshotId(id: string): Date | null {
+    const match = id.match(SNAPSHOT_ID_PATTERN);
+    if (!match) {
+      return null;
+    }
+    return new Date(`${match[1]}T${match[2]}:${match[3]}:${match[4]}Z`);
+  }
+
+  /**
+   * Remote folder the given snapshot uploads its files to
+   */
+  getVersionsDir(id: string): string {
+    return posix.join(this.targetDir, VERSIONS_DIR, id);
+  }
+
+  /**
+   * Remote path of the manifest of a snapshot
+   */
+  getManifestPath(id: string): string {
+    return posix.join(this.targetDir, SNAPSHOTS_DIR, `${id}${MANIFEST_EXTENSION}`);
+  }
+
+  /**
+   * List the ids of all snapshots, oldest first
+   * Returns an empty list if no snapshot was written yet
+   */
+  async listSnapshots(): Promise<string[]> {
+    const listResult = await this.backend.listFiles(posix.join(this.targetDir, SNAPSHOTS_DIR));
+    if (!listResult.success) {
+      return [];
+    }
+
+    return listResult.files
+      .filter(file => !file.isFolder && file.name.endsWith(MANIFEST_EXTENSION))
+      .map(file => file.name.slice(0, -MANIFEST_EXTENSION.length))
+      .filter(id => SnapshotManager.parseSnapshotId(id) !== null)
+      .sort();
+  }
+
+  /**
+   * Find the snapshot matching an id, a date or "latest"
+   * A date selects the last snapshot taken at or before it; a plain day (YYYY-MM-DD) covers the whole day
+   * @param {string} selector - Snapshot id, date or "latest"
+   * @returns {Promise<string>} The snapshot id
+   */
+  async resolveSnapshot(selector: string): Promise<string> {
+    const snapshots = await this.listSnapshots();
+    if (snapshots.length === 0) {
+      throw new Error(`No snapshots found in ${this.targetDir || "/"}`);
+    }
+
+    if (selector === "latest") {
+      return snapshots[snapshots.length - 1];
+    }
+
+    if (snapshots.includes(selector)) {
+      return selector;
+    }
+
+    const cutoff = DATE_ONLY_PATTERN.test(selector)
+      ? new Date(`${selector}T23:59:59.999`)
+      : new Date(selector);
+    if (isNaN(cutoff.getTime())) {
+      throw new Error(`Invalid snapshot "${selector}". Use a snapshot id, a date (e.g. 2026-01-31) or "latest"`);
+    }
+
+    const match = snapshots.filter(id => SnapshotManager.parseSnapshotId(id)!.getTime() <= cutoff.getTime()).pop();
+    if (!match) {
+      throw new Error(`No snapshot found at or before ${selector}. The oldest snapshot is ${snapshots[0]}`);
+    }
+
+    return match;
+  }
+
+  /**
+   * Download and parse the manifest of a snapshot
+   */
+  async loadManifest(id: string): Promise<SnapshotManifest> {
+    const tempPath = join(tmpdir(), `snapshot-${id}.${randomUUID()}${MANIFEST_EXTENSION}`);
+
+    try {
+      const result = await this.backend.downloadFile(this.getManifestPath(id), tempPath);
+      if (!result.success) {
+        throw new Error(`Failed to download snapshot ${id}: ${result.error}`);
+      }
+
+      return JSON.parse(await readFile(tempPath, "utf8")) as SnapshotManifest;
+    } finally {
+      await unlink(tempPath).catch(() => {});
+    }
+  }
+
+  /**
+   * Load the manifest of the most recent snapshot, if there is one
+   */
+  async loadLatestManifest(): Promise<SnapshotManifest | null> {
+    const snapshots = await this.listSnapshots();
+    if (snapshots.length === 0) {
+      return null;
+    }
+    return this.loadManifest(snapshots[snapshots.length - 1]);
+  }
+
+  /**
+   * Upload the manifest of a snapshot
+   */
+  async saveManifest(manifest: SnapshotManifest): Promise<void> {
+    const tempPath = join(tmpdir(), `snapshot-${manifest.id}.${randomUUID()}${MANIFEST_EXTENSION}`);
+
+    try {
+      await writeFile(tempPath, JSON.stringify(manifest, null, 2));
+
+      const result = await this.backend.uploadFile(tempPath, this.getManifestPath(manifest.id));
+      if (!result.success) {
+        throw new Error(`Failed to upload snapshot ${manifest.id}: ${result.error ?? result.output}`);
+      }
+
+      logger.success(`Snapshot ${manifest.id} saved with ${manifest.files.length} files`, this.verbosity);
+    } finally {
+      await unlink(tempPath).catch(() => {});
+    }
+  }
+
+  /**
+   * Pick the files a snapshot run has to upload
+   * Besides the changed files, every file that the previous snapshot doesn't hold
+   * with the same checksum needs a new version
+   * @param {FileInfo[]} allFiles - Every file found by the scan
+   * @param {FileInfo[]} changedFiles - Files the scan marked for upload
+   * @param {SnapshotManifest | null} previous - The previous snapshot, if any
+   * @returns {FileInfo[]} Files to upload
+   */
+  selectFilesToUpload(allFiles: FileInfo[], changedFiles: FileInfo[], previous: SnapshotManifest | null): FileInfo[] {
+    const previousFiles = new Map((previous?.files ?? []).map(entry => [entry.path, entry]));
+    const selected = new Map(changedFiles.map(file => [file.relativePath, file]));
+
+    for (const file of allFiles) {
+      const entry = previousFiles.get(file.relativePath);
+      if (!selected.has(file.relativePath) && (!entry || entry.checksum !== file.checksum)) {
+        selected.set(file.relativePath, { ...file, hasChanged: true });
+      }
+    }
+
+    return [...selected.values()];
+  }
+
+  /**
+   * Build the manifest for a run from the files uploaded now and the previous snapshot
+   * @param {string} id - Snapshot id of the run
+   * @param {string} sourceDir - Source directory that was backed up
+   * @param {FileInfo[]} allFiles - Every file found by the scan
+   * @param {Map<string, string>} uploadedPaths - Remote paths of the files uploaded by this run
+   * @param {SnapshotManifest | null} previous - The previous snapshot, if any
+   * @returns {SnapshotManifest} The new manifest
+   */
+  createManifest(
+    id: string,
+    sourceDir: string,
+    allFiles: FileInfo[],
+    uploadedPaths: Map<string, string>,
+    previous: SnapshotManifest | null
+  ): SnapshotManifest {
+    const previousFiles = new Map((previous?.files ?? []).map(entry => [entry.path, entry]));
+    const files: SnapshotFileEntry[] = [];
+
+    for (const file of allFiles) {
+      const remotePath = uploadedPaths.get(file.relativePath) ?? previousFiles.get(file.relativePath)?.remotePath;
+      if (!remotePath) {
+        throw new Error(`No remote copy of ${file.relativePath} for snapshot ${id}`);
+      }
+
+      files.push({
+        path: file.relativePath,
+        size: file.size,
+        checksum: file.checksum,
+        remotePath
+      });
+    }
+
+    return {
+      id,
+      timestamp: SnapshotManager.parseSnapshotId(id)?.toISOString() ?? new Date().toISOString(),
+      sourceDir,
+      files
+    };
+  }
+}
+
+export default SnapshotManager;
@@ -0,0 +1,126 @@
+/**
+ * Tests for SnapshotPruner
+ */
+
+import { expect, describe, beforeEach, afterEach, it } from 'bun:test';
+import { SnapshotPruner } from './snapshot-pruner';
+import { SnapshotManager } from './snapshot-manager';
+import { LocalFsBackend } from '../storage/local-fs-backend';
+import { Verbosity } from '../../interfaces/logger';
+import { SnapshotFileEntry } from '../../interfaces/snapshot';
+import { createMockLoggers } from '../../../test-config/mocks/test-helpers';
+import { mkdir, writeFile, rm } from 'node:fs/promises';
+import { existsSync } from 'node:fs';
+import { join } from 'node:path';
+import { tmpdir } from 'node:os';
+
+describe('SnapshotPruner', () => {
+  let tempDir: string;
+  let backend: LocalFsBackend;
+  let manager: SnapshotManager;
+  let pruner: SnapshotPruner;
+
+  // Upload a snapshot whose files are either new in its own versions folder or reused from an earlier one
+  const createSnapshot = async (id: string, files: Record<string, string>) => {
+    const entries: SnapshotFileEntry[] = [];
+    for (const [filePath, remotePath] of Object.entries(files)) {
+      const localPath = join(tempDir, 'backup-root', remotePath);
+      if (!existsSync(localPath)) {
+        await mkdir(join(localPath, '..'), { recursive: true });
+        await writeFile(localPath, filePath);
+      }
+      entries.push({ path: filePath, size: filePath.length, checksum: filePath, remotePath });
+    }
+    await manager.saveManifest({ id, timestamp: SnapshotManager.parseSnapshotId(id)!.toISOString(), sourceDir: '/source', files: entries });
+  };
+
+  const exists = (remotePath: string) => existsSync(join(tempDir, 'backup-root', remotePath));
+
+  beforeEach(async () => {
+    createMockLoggers();
+    tempDir = join(tmpdir(), `pruner-test-${Date.now()}`);
+    await mkdir(join(tempDir, 'backup-root'), { recursive: true });
+    backend = new LocalFsBackend({ rootDir: join(tempDir, 'backup-root'), verbosity: Verbosity.Quiet });
+    manager = new SnapshotManager(backend, 'docs', Verbosity.Quiet);
+    pruner = new SnapshotPruner(backend, 'docs', Verbosity.Quiet);
+
+    // Day 1 uploads a.txt and b.txt, day 2 only changes b.txt, day 3 adds c.txt
+    await createSnapshot('2026-01-01T02-00-00Z', {
+      'a.txt': 'docs/.versions/2026-01-01T02-00-00Z/a.txt',
+      'b.txt': 'docs/.versions/2026-01-01T02-00-00Z/b.txt'
+    });
+    await createSnapshot('2026-01-02T02-00-00Z', {
+      'a.txt': 'docs/.versions/2026-01-01T02-00-00Z/a.txt',
+      'b.txt': 'docs/.versions/2026-01-02T02-00-00Z/b.txt'
+    });
+    await createSnapshot('2026-01-03T02-00-00Z', {
+      'a.txt': 'docs/.versions/2026-01-01T02-00-00Z/a.txt',
+      'b.txt': 'docs/.versions/2026-01-02T02-00-00Z/b.txt',
+      'c.txt': 'docs/.versions/2026-01-03T02-00-00Z/c.txt'
+    });
+  });
+
+  afterEach(async () => {
+    await rm(tempDir, { recursive: true, force: true });
+  });
+
+  describe('plan', () => {
+    it('should only delete objects no kept snapshot refers to', async () => {
+      const plan = await pruner.plan({ keepDaily: 2 });
+
+      expect(plan.keep).toEqual(['2026-01-02T02-00-00Z', '2026-01-03T02-00-00Z']);
+      expect(plan.remove).toEqual(['2026-01-01T02-00-00Z']);
+      expect(plan.folders).toEqual([]);
+      expect(plan.objects).toEqual(['docs/.versions/2026-01-01T02-00-00Z/b.txt']);
+    });
+
+    it('should delete whole version folders nothing refers to', async () => {
+      await createSnapshot('2026-01-04T02-00-00Z', {
+        'a.txt': 'docs/.versions/2026-01-04T02-00-00Z/a.txt',
+        'b.txt': 'docs/.versions/2026-01-04T02-00-00Z/b.txt'
+      });
+
+      const plan = await pruner.plan({ keepDaily: 1 });
+
+      expect(plan.remove).toEqual(['2026-01-01T02-00-00Z', '2026-01-02T02-00-00Z', '2026-01-03T02-00-00Z']);
+      expect(plan.folders).toEqual([
+        'docs/.versions/2026-01-01T02-00-00Z',
+        'docs/.versions/2026-01-02T02-00-00Z',
+        'docs/.versions/2026-01-03T02-00-00Z'
+      ]);
+      expect(plan.objects).toEqual([]);
+    });
+
+    it('should refuse a policy that keeps nothing', async () => {
+      await expect(pruner.plan({})).rejects.toThrow('at least one of --keep-daily');
+    });
+  });
+
+  describe('prune', () => {
+    it('should only report deletions in a dry run', async () => {
+      const result = await pruner.prune({ keepDaily: 2 }, true);
+
+      expect(result.dryRun).toBe(true);
+      expect(result.remove).toEqual(['2026-01-01T02-00-00Z']);
+      expect(await manager.listSnapshots()).toHaveLength(3);
+      expect(exists('docs/.versions/2026-01-01T02-00-00Z/b.txt')).toBe(true);
+    });
+
+    it('should delete pruned manifests and unreferenced objects', async () => {
+      const result = await pruner.prune({ keepDaily: 2 });
+
+      expect(result.failed).toEqual([]);
+      expect(await manager.listSnapshots()).toEqual(['2026-01-02T02-00-00Z', '2026-01-03T02-00-00Z']);
+      expect(exists('docs/.versions/2026-01-01T02-00-00Z/b.txt')).toBe(false);
+      expect(exists('docs/.versions/2026-01-01T02-00-00Z/a.txt')).toBe(true);
+      expect((await manager.loadManifest('2026-01-02T02-00-00Z')).files).toHaveLength(2);
+    });
+
+    it('should do nothing when every snapshot is kept', async () => {
+      const result = await pruner.prune({ keepMonthly: 1, keepDaily: 5 });
+
+      expect(result.remove).toEqual([]);
+      expect(await manager.listSnapshots()).toHaveLength(3);
+    });
+  });
+});
@@ -0,0 +1,133 @@
+/**
+ * Snapshot Pruner
+ * Deletes snapshots that fall outside a retention policy, together with the
+ * remote objects no remaining snapshot refers to
+ */
+
+import * as logger from "../../utils/logger";
+import { StorageBackend } from "../../interfaces/storage";
+import { SnapshotManager } from "./snapshot-manager";
+import { RetentionPolicy, hasRetentionRules, selectSnapshotsToKeep } from "./retention";
+
+/**
+ * What a prune run deletes
+ */
+export interface PrunePlan {
+  keep: string[]; // Snapshot ids that stay
+  remove: string[]; // Snapshot ids whose manifests are deleted
+  folders: string[]; // Version folders nothing refers to anymore
+  objects: string[]; // Single unreferenced objects outside those folders
+}
+
+export interface PruneResult extends PrunePlan {
+  dryRun: boolean;
+  failed: string[]; // Remote paths that could not be deleted
+}
+
+export class SnapshotPruner {
+  private backend: StorageBackend;
+  private snapshotManager: SnapshotManager;
+  private verbosity: number;
+
+  /**
+   * Create a new Snapshot Pruner
+   * @param {StorageBackend} backend - Storage backend holding the backup
+   * @param {string} targetDir - The backup target folder
+   * @param {number} verbosity - Verbosity level
+   */
+  constructor(backend: StorageBackend, targetDir: string = "", verbosity: number = logger.Verbosity.Normal) {
+    this.backend = backend;
+    this.snapshotManager = new SnapshotManager(backend, targetDir, verbosity);
+    this.verbosity = verbosity;
+  }
+
+  /**
+   * Work out which snapshots and objects a policy removes, without deleting anything
+   * @param {RetentionPolicy} policy - The retention policy
+   * @returns {Promise<PrunePlan>} The snapshots and objects to delete
+   */
+  async plan(policy: RetentionPolicy): Promise<PrunePlan> {
+    if (!hasRetentionRules(policy)) {
+      throw new Error("Prune needs at least one of --keep-daily, --keep-weekly or --keep-monthly");
+    }
+
+    const snapshots = await this.snapshotManager.listSnapshots();
+    const keepIds = selectSnapshotsToKeep(snapshots, policy);
+    const keep = snapshots.filter(id => keepIds.has(id));
+    const remove = snapshots.filter(id => !keepIds.has(id));
+
+    // Everything a remaining snapshot refers to must survive
+    const referenced = new Set<string>();
+    for (const id of keep) {
+      const manifest = await this.snapshotManager.loadManifest(id);
+      manifest.files.forEach(file => referenced.add(file.remotePath));
+    }
+    const isReferenced = (prefix: string) => [...referenced].some(remotePath => remotePath.startsWith(prefix));
+
+    const folders: string[] = [];
+    const candidates = new Set<string>();
+
+    for (const id of remove) {
+      const manifest = await this.snapshotManager.loadManifest(id);
+      const versionsDir = `${this.snapshotManager.getVersionsDir(id)}/`;
+
+      // A removed snapshot's own folder can go at once when nothing else uses it
+      if (manifest.files.some(file => file.remotePath.startsWith(versionsDir)) && !isReferenced(versionsDir)) {
+        folders.push(versionsDir.slice(0, -1));
+      }
+
+      manifest.files
+        .filter(file => !referenced.has(file.remotePath))
+        .forEach(file => candidates.add(file.remotePath));
+    }
+
+    const objects = [...candidates].filter(remotePath => !folders.some(folder => remotePath.startsWith(`${folder}/`)));
+
+    return { keep, remove, folders, objects };
+  }
+
+  /**
+   * Apply a retention policy
+   * Manifests are deleted before the objects, so an interrupted prune never leaves a snapshot pointing at missing files
+   * @param {RetentionPolicy} policy - The retention policy
+   * @param {boolean} dryRun - Only report what would be deleted
+   * @returns {Promise<PruneResult>} What was (or would be) deleted
+   */
+  async prune(policy: RetentionPolicy, dryRun: boolean = false): Promise<PruneResult> {
+    const plan = await this.plan(policy);
+    const failed: string[] = [];
+    const prefix = dryRun ? "Would delete" : "Deleting";
+
+    if (plan.remove.length === 0) {
+      logger.success(`Nothing to prune. Keeping all ${plan.keep.length} snapshots.`, this.verbosity);
+      return { ...plan, dryRun, failed };
+    }
+
+    const deletions: Array<[string, string]> = [
+      ...plan.remove.map(id => [`snapshot ${id}`, this.snapshotManager.getManifestPath(id)] as [string, string]),
+      ...plan.folders.map(folder => [`folder ${folder}`, folder] as [string, string]),
+      ...plan.objects.map(remotePath => [`file ${remotePath}`, remotePath] as [string, string])
+    ];
+
+    for (const [description, remotePath] of deletions) {
+      logger.info(`${prefix} ${description}`, this.verbosity);
+      if (!dryRun && !await this.backend.deleteFile(remotePath, true)) {
+        logger.error(`Failed to delete ${remotePath}`);
+        failed.push(remotePath);
+      }
+    }
+
+    const summary = `${plan.remove.length} snapshots, ${plan.folders.length} folders and ${plan.objects.length} files`;
+    if (dryRun) {
+      logger.info(`Dry run: would delete ${summary}, keeping ${plan.keep.length} snapshots.`, this.verbosity);
+    } else if (failed.length > 0) {
+      logger.warning(`Pruned with ${failed.length} failed deletions. Keeping ${plan.keep.length} snapshots.`, this.verbosity);
+    } else {
+      logger.success(`Deleted ${summary}, keeping ${plan.keep.length} snapshots.`, this.verbosity);
+    }
+
+    return { ...plan, dryRun, failed };
+  }
+}
+
+export default SnapshotPruner;
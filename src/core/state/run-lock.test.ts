@@ -0,0 +1,167 @@
+/**
+ * Tests for the RunLock
+ */
+
+import { expect, describe, beforeEach, afterEach, it } from 'bun:test';
+import { RunLock, RunLockError, RUN_LOCK_FILE } from './run-lock';
+import { Verbosity } from '../../interfaces/logger';
+import { createMockLoggers } from '../../../test-config/mocks/test-helpers';
+import { mkdir, writeFile, readFile, readdir, rm } from 'node:fs/promises';
+import { existsSync, writeFileSync } from 'node:fs';
+import { join } from 'node:path';
+import { tmpdir, hostname } from 'node:os';
+
+describe('RunLock', () => {
+  let tempDir: string;
+  let locks: RunLock[];
+
+  const createLock = () => {
+    const lock = new RunLock(tempDir, { verbosity: Verbosity.Quiet, pollMs: 10 });
+    locks.push(lock);
+    return lock;
+  };
+
+  const writeLock = (holder: object) => writeFile(join(tempDir, RUN_LOCK_FILE), JSON.stringify(holder));
+
+  beforeEach(async () => {
+    createMockLoggers();
+    tempDir = join(tmpdir(), `run-lock-test-${Date.now()}`);
+    await mkdir(tempDir, { recursive: true });
+    locks = [];
+  });
+
+  afterEach(async () => {
+    locks.forEach(lock => lock.release());
+    await rm(tempDir, { recursive: true, force: true });
+  });
+
+  it('should write the holder to the lock file and remove it on release', async () => {
+    const lock = createLock();
+
+    await lock.acquire();
+
+    const holder = JSON.parse(await readFile(join(tempDir, RUN_LOCK_FILE), 'utf8'));
+    expect(holder).toMatchObject({ pid: process.pid, hostname: hostname() });
+    expect(lock.isHeld()).toBe(true);
+    expect(await readdir(tempDir)).toEqual([RUN_LOCK_FILE]);
+
+    lock.release();
+
+    expect(existsSync(join(tempDir, RUN_LOCK_FILE))).toBe(false);
+    expect(lock.isHeld()).toBe(false);
+  });
+
+  it('should create a missing state directory', async () => {
+    await rm(tempDir, { recursive: true });
+
+    await createLock().acquire();
+
+    expect(existsSync(join(tempDir, RUN_LOCK_FILE))).toBe(true);
+  });
+
+  it('should refuse a lock held by a running process', async () => {
+    await createLock().acquire();
+
+    const error = await createLock().acquire().catch(caught => caught);
+
+    expect(error).toBeInstanceOf(RunLockError);
+    expect(error.holder.pid).toBe(process.pid);
+    expect(error.message).toContain(`by process ${process.pid} on ${hostname()}`);
+    expect(error.message).toContain('--wait-lock');
+  });
+
+  it('should wait for a held lock when asked to', async () => {
+    const first = createLock();
+    await first.acquire();
+    const second = createLock();
+
+    let acquired = false;
+    const waiting = second.acquire(true).then(() => { acquired = true; });
+    await new Promise(resolve => setTimeout(resolve, 50));
+    expect(acquired).toBe(false);
+
+    first.release();
+    await waiting;
+
+    expect(second.isHeld()).toBe(true);
+  });
+
+  it('should take over a lock left by a process that no longer runs', async () => {
+    const exited = Bun.spawnSync(['true']);
+    await writeLock({ pid: exited.pid, hostname: hostname(), startedAt: '2026-01-01T00:00:00.000Z', token: 'old' });
+
+    const lock = createLock();
+    await lock.acquire();
+
+    const holder = JSON.parse(await readFile(join(tempDir, RUN_LOCK_FILE), 'utf8'));
+    expect(holder.pid).toBe(process.pid);
+  });
+
+  it('should not remove a lock another process took over while the stale lock was checked', async () => {
+    const exited = Bun.spawnSync(['true']);
+    await writeLock({ pid: exited.pid, hostname: hostname(), startedAt: '2026-01-01T00:00:00.000Z', token: 'old' });
+    const fresh = { pid: process.pid, hostname: hostname(), startedAt: '2026-01-01T00:00:01.000Z', token: 'fresh' };
+
+    // Another process replaces the stale lock with its own right after this one read it
+    const lock = createLock();
+    const readHolder = (lock as any).readHolder.bind(lock);
+    let raced = false;
+    (lock as any).readHolder = (lockPath?: string) => {
+      const holder = readHolder(lockPath);
+      if (!raced) {
+        raced = true;
+        writeFileSync(join(tempDir, RUN_LOCK_FILE), JSON.stringify(fresh));
+      }
+      return holder;
+    };
+
+    const error = await lock.acquire().catch(caught => caught);
+
+    expect(error).toBeInstanceOf(RunLockError);
+    expect(JSON.parse(await readFile(join(tempDir, RUN_LOCK_FILE), 'utf8')).token).toBe('fresh');
+    expect(await readdir(tempDir)).toEqual([RUN_LOCK_FILE]);
+  });
+
+  it('should take over a lock file that can\'t be read', async () => {
+    await writeFile(join(tempDir, RUN_LOCK_FILE), '');
+
+    const lock = createLock();
+    await lock.acquire();
+
+    expect(lock.isHeld()).toBe(true);
+  });
+
+  it('should never take over a lock of another host', async () => {
+    await writeLock({ pid: 1, hostname: 'other-nas', startedAt: '2026-01-01T00:00:00.000Z', token: 'theirs' });
+
+    const error = await createLock().acquire().catch(caught => caught);
+
+    expect(error).toBeInstanceOf(RunLockError);
+    expect(error.message).toContain('on other-nas');
+  });
+
+  it('should leave a lock alone that another process took over', async () => {
+    const lock = createLock();
+    await lock.acquire();
+    await writeLock({ pid: process.pid + 1, hostname: hostname(), startedAt: '2026-01-01T00:00:00.000Z', token: 'theirs' });
+
+    lock.release();
+
+    expect(existsSync(join(tempDir, RUN_LOCK_FILE))).toBe(true);
+  });
+
+  it('should release the lock when the process exits', async () => {
+    const exitListeners = process.listenerCount('exit');
+    const termListeners = process.listenerCount('SIGTERM');
+    const lock = createLock();
+
+    await lock.acquire();
+    expect(process.listenerCount('exit')).toBe(exitListeners + 1);
+    expect(process.listenerCount('SIGTERM')).toBe(termListeners + 1);
+
+    process.emit('exit', 0);
+    expect(existsSync(join(tempDir, RUN_LOCK_FILE))).toBe(false);
+    expect(process.listenerCount('exit')).toBe(exitListeners);
+    expect(process.listenerCount('SIGTERM')).toBe(termListeners);
+  });
+});
@@ -0,0 +1,253 @@
+/**
+ * Run Lock
+ * Keeps two processes from backing up with the same state directory at the same time,
+ * e.g. a manual run while the daemon runs the same job.
+ * The lock file names the process holding it; a lock left behind by a process that
+ * no longer runs on this host is taken over.
+ */
+
+import fs from "node:fs";
+import path from "node:path";
+import os from "node:os";
+import crypto from "node:crypto";
+import * as logger from "../../utils/logger";
+
+export const RUN_LOCK_FILE = "run.lock";
+
+// How often a waiting run checks the lock again
+const DEFAULT_POLL_MS = 2000;
+
+// Signals that end the process unless something else handles them
+const RELEASE_SIGNALS: NodeJS.Signals[] = ["SIGINT", "SIGTERM", "SIGHUP"];
+
+/**
+ * The process holding a lock, as written to the lock file
+ */
+export interface LockHolder {
+  pid: number;
+  hostname: string;
+  startedAt: string;
+  token: string; // Tells this lock apart from a later lock of a process with the same pid
+}
+
+/**
+ * A backup that can't start because another backup holds the lock
+ */
+export class RunLockError extends Error {
+  readonly lockPath: string;
+  readonly holder?: LockHolder;
+
+  constructor(lockPath: string, holder?: LockHolder) {
+    const by = holder ? ` by process ${holder.pid} on ${holder.hostname} since ${holder.startedAt}` : "";
+    super(
+      `Another backup is running with the state in ${path.dirname(lockPath)} (locked${by}). ` +
+      `Use --wait-lock to wait for it, or remove ${lockPath} if that process no longer runs.`
+    );
+    this.name = "RunLockError";
+    this.lockPath = lockPath;
+    this.holder = holder;
+  }
+}
+
+export interface RunLockOptions {
+  verbosity?: number;
+  pollMs?: number;
+}
+
+export class RunLock {
+  readonly path: string;
+  private verbosity: number;
+  private pollMs: number;
+  private holder: LockHolder | null = null;
+  private onExit = () => this.release();
+  private onSignal = (signal: NodeJS.Signals) => this.releaseOnSignal(signal);
+
+  /**
+   * Create the lock of a state directory
+   * @param {string} stateDir - The state directory to lock
+   * @param {RunLockOptions} options - Verbosity and how often to check a held lock
+   */
+  constructor(stateDir: string, options: RunLockOptions = {}) {
+    this.path = path.join(stateDir, RUN_LOCK_FILE);
+    this.verbosity = options.verbosity ?? logger.Verbosity.Normal;
+    this.pollMs = options.pollMs ?? DEFAULT_POLL_MS;
+  }
+
+  /**
+   * Take the lock
+   * @param {boolean} wait - Wait for a held lock to be released instead of failing
+   * @throws {RunLockError} If another process holds the lock and wait is false
+   */
+  async acquire(wait: boolean = false): Promise<void> {
+    let announced = false;
+
+    while (!this.tryAcquire()) {
+      const holder = this.readHolder();
+      if (!wait) {
+        throw new RunLockError(this.path, holder ?? undefined);
+      }
+      if (!announced) {
+        const by = holder ? ` (process ${holder.pid} on ${holder.hostname})` : "";
+        logger.info(`Waiting for the backup holding ${this.path}${by} to finish...`, this.verbosity);
+        announced = true;
+      }
+      await new Promise(resolve => setTimeout(resolve, this.pollMs));
+    }
+
+    process.on("exit", this.onExit);
+    RELEASE_SIGNALS.forEach(signal => process.on(signal, this.onSignal));
+  }
+
+  /**
+   * Release the lock; does nothing if it isn't held
+   * Synchronous, so it can run while the process exits
+   */
+  release(): void {
+    if (!this.holder) {
+      return;
+    }
+
+    // Leave a lock alone that was taken over in the meantime
+    if (this.readHolder()?.token === this.holder.token) {
+      try {
+        fs.unlinkSync(this.path);
+      } catch (error) {
+        const errorMessage = error instanceof Error ? error.message : String(error);
+        logger.warning(`Could not remove the lock ${this.path}: ${errorMessage}`, this.verbosity);
+      }
+    }
+
+    this.holder = null;
+    process.removeListener("exit", this.onExit);
+    RELEASE_SIGNALS.forEach(signal => process.removeListener(signal, this.onSignal));
+  }
+
+  /**
+   * Check whether this process holds the lock
+   */
+  isHeld(): boolean {
+    return this.holder !== null;
+  }
+
+  /**
+   * Create the lock file, taking over a stale one
+   * The file is written completely before it appears, so a reader never sees half a lock
+   * @returns {boolean} True if the lock is now held by this process
+   */
+  private tryAcquire(): boolean {
+    const holder: LockHolder = {
+      pid: process.pid,
+      hostname: os.hostname(),
+      startedAt: new Date().toISOString(),
+      token: crypto.randomBytes(8).toString("hex")
+    };
+    const tempPath = `${this.path}.${holder.token}`;
+
+    fs.mkdirSync(path.dirname(this.path), { recursive: true });
+    fs.writeFileSync(tempPath, `${JSON.stringify(holder)}\n`);
+    try {
+      for (let attempt = 0; attempt < 2; attempt++) {
+        try {
+          fs.linkSync(tempPath, this.path);
+          this.holder = holder;
+          return true;
+        } catch (error) {
+          if ((error as NodeJS.ErrnoException).code !== "EEXIST") {
+            throw error;
+          }
+          if (!this.removeStaleLock()) {
+            return false;
+          }
+        }
+      }
+      return false;
+    } finally {
+      fs.rmSync(tempPath, { force: true });
+    }
+  }
+
+  /**
+   * Remove the lock file if the process that wrote it no longer runs
+   * Processes on other hosts can't be checked, so their locks are never stale.
+   * Another process may take over the same stale lock between reading and removing it, so
+   * the lock is first moved aside atomically and only removed if it is still the stale one
+   * @returns {boolean} True if the stale lock is gone
+   */
+  private removeStaleLock(): boolean {
+    const holder = this.readHolder();
+    if (holder && (holder.hostname !== os.hostname() || isRunning(holder.pid))) {
+      return false;
+    }
+
+    const stalePath = `${this.path}.stale-${crypto.randomBytes(8).toString("hex")}`;
+    try {
+      fs.renameSync(this.path, stalePath);
+    } catch (error) {
+      // Already removed by another process taking over
+      if ((error as NodeJS.ErrnoException).code === "ENOENT") {
+        return true;
+      }
+      throw error;
+    }
+
+    try {
+      if (this.readHolder(stalePath)?.token !== holder?.token) {
+        // The lock was taken over in the meantime: put it back, unless yet another process locked since
+        try {
+          fs.linkSync(stalePath, this.path);
+        } catch {
+          logger.warning(`Could not put back the lock ${this.path} of another backup`, this.verbosity);
+        }
+        return false;
+      }
+
+      const by = holder ? ` left by process ${holder.pid}` : "";
+      logger.warning(`Removing the stale lock ${this.path}${by}`, this.verbosity);
+      return true;
+    } finally {
+      fs.rmSync(stalePath, { force: true });
+    }
+  }
+
+  /**
+   * Read a lock file
+   * @param {string} lockPath - The lock file, default the lock of this state directory
+   * @returns {LockHolder | null} The holder, or null if there is no readable lock
+   */
+  private readHolder(lockPath: string = this.path): LockHolder | null {
+    try {
+      return JSON.parse(fs.readFileSync(lockPath, "utf8")) as LockHolder;
+    } catch {
+      return null;
+    }
+  }
+
+  /**
+   * Release the lock when a signal would end the process
+   * When the daemon or watch mode handle the signal themselves, they shut down
+   * gracefully and the lock is released by the run or on exit instead
+   */
+  private releaseOnSignal(signal: NodeJS.Signals): void {
+    if (process.listenerCount(signal) > 1) {
+      return;
+    }
+
+    this.release();
+    process.kill(process.pid, signal);
+  }
+}
+
+/**
+ * Check whether a process runs on this host
+ */
+export function isRunning(pid: number): boolean {
+  try {
+    process.kill(pid, 0);
+    return true;
+  } catch (error) {
+    // EPERM: the process runs as another user
+    return (error as NodeJS.ErrnoException).code === "EPERM";
+  }
+}
+
+export default RunLock;
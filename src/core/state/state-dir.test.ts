@@ -0,0 +1,211 @@
+/**
+ * Tests for the state directory helpers
+ */
+
+import { expect, describe, beforeEach, afterEach, it } from 'bun:test';
+import { getStateHome, getStateDir, getStatePaths, migrateLegacyState, openStateStore, readLastRun, StatePaths } from './state-dir';
+import { StateStore } from './state-store';
+import { Verbosity } from '../../interfaces/logger';
+import { createMockLoggers } from '../../../test-config/mocks/test-helpers';
+import { mkdir, writeFile, rm } from 'node:fs/promises';
+import { existsSync } from 'node:fs';
+import { join } from 'node:path';
+import { tmpdir, homedir } from 'node:os';
+
+describe('state directory', () => {
+  describe('getStateHome', () => {
+    const originalStateHome = process.env.XDG_STATE_HOME;
+
+    afterEach(() => {
+      if (originalStateHome === undefined) {
+        delete process.env.XDG_STATE_HOME;
+      } else {
+        process.env.XDG_STATE_HOME = originalStateHome;
+      }
+    });
+
+    it('should use XDG_STATE_HOME when set', () => {
+      process.env.XDG_STATE_HOME = '/var/lib/state';
+      expect(getStateHome()).toBe('/var/lib/state/internxt-backup');
+    });
+
+    it('should fall back to ~/.local/state', () => {
+      delete process.env.XDG_STATE_HOME;
+      expect(getStateHome()).toBe(join(homedir(), '.local', 'state', 'internxt-backup'));
+    });
+
+    it('should ignore a relative XDG_STATE_HOME', () => {
+      process.env.XDG_STATE_HOME = 'relative/state';
+      expect(getStateHome()).toBe(join(homedir(), '.local', 'state', 'internxt-backup'));
+    });
+  });
+
+  describe('getStateDir', () => {
+    it('should name the folder after the source below the state home', () => {
+      const stateDir = getStateDir('/mnt/disk/Photos', '/Backups/Photos', 'internxt', '/state');
+      expect(stateDir).toMatch(/^\/state\/Photos-[0-9a-f]{16}$/);
+    });
+
+    it('should give every source, target and backend its own folder', () => {
+      const dirs = new Set([
+        getStateDir('/mnt/disk/Photos', '/Backups/Photos', 'internxt', '/state'),
+        getStateDir('/mnt/other/Photos', '/Backups/Photos', 'internxt', '/state'),
+        getStateDir('/mnt/disk/Photos', '/Backups/Pictures', 'internxt', '/state'),
+        getStateDir('/mnt/disk/Photos', '/Backups/Photos', 'local', '/state')
+      ]);
+      expect(dirs.size).toBe(4);
+    });
+
+    it('should ignore slashes around the target', () => {
+      expect(getStateDir('/data', '/Backups/Data/', 'internxt', '/state'))
+        .toBe(getStateDir('/data', 'Backups/Data', 'internxt', '/state'));
+    });
+
+    it('should locate the JSON state of older versions inside the folder', () => {
+      expect(getStatePaths('/state/Photos-0123')).toEqual({
+        statePath: '/state/Photos-0123/state.json',
+        hashCachePath: '/state/Photos-0123/hash-cache.json'
+      });
+    });
+  });
+
+  describe('migrateLegacyState', () => {
+    let tempDir: string;
+    let legacyPaths: StatePaths;
+    let stateDir: string;
+    let store: StateStore;
+
+    beforeEach(async () => {
+      createMockLoggers();
+      tempDir = join(tmpdir(), `state-dir-test-${Date.now()}`);
+      await mkdir(tempDir, { recursive: true });
+      legacyPaths = {
+        statePath: join(tempDir, 'internxt-backup-state.json'),
+        hashCachePath: join(tempDir, 'internxt-backup-hash-cache.json')
+      };
+      stateDir = join(tempDir, 'state', 'Photos-0123');
+      store = new StateStore(':memory:', { verbosity: Verbosity.Quiet });
+
+      await writeFile(legacyPaths.hashCachePath, JSON.stringify({
+        '/mnt/Photos/a.jpg': { hash: 'hash-a', size: 1, mtime: 1, inode: 1 },
+        '/mnt/Photos/b.jpg': 'hash-b',
+        '/mnt/Docs/c.txt': 'hash-c'
+      }));
+    });
+
+    afterEach(async () => {
+      store.close();
+      await rm(tempDir, { recursive: true, force: true });
+    });
+
+    it('should import the cached hashes and uploads of the source', async () => {
+      const state = { files: { 'a.jpg': 'hash-a', 'b.jpg': 'hash-b' }, lastRun: '2026-01-01T00:00:00.000Z' };
+      await writeFile(legacyPaths.statePath, JSON.stringify(state));
+
+      const migrated = await migrateLegacyState(store, stateDir, '/mnt/Photos', Verbosity.Quiet, legacyPaths);
+
+      expect(migrated).toBe(true);
+      expect(store.countFiles()).toBe(2);
+      expect(store.getFile('/mnt/Photos/a.jpg')).toMatchObject({ hash: 'hash-a', size: 1, inode: 1, uploadedAt: state.lastRun });
+      expect(store.listUploadedFiles('/mnt/Photos')).toEqual(['/mnt/Photos/a.jpg', '/mnt/Photos/b.jpg']);
+      expect(existsSync(legacyPaths.hashCachePath)).toBe(true);
+    });
+
+    it('should not take over upload state that belongs to another source', async () => {
+      await writeFile(legacyPaths.statePath, JSON.stringify({ files: { 'c.txt': 'hash-c' }, lastRun: '' }));
+
+      const migrated = await migrateLegacyState(store, stateDir, '/mnt/Photos', Verbosity.Quiet, legacyPaths);
+
+      expect(migrated).toBe(true);
+      expect(store.getFile('/mnt/Photos/b.jpg')?.hash).toBe('hash-b');
+      expect(store.listUploadedFiles()).toEqual([]);
+    });
+
+    it('should do nothing when the old cache knows nothing about the source', async () => {
+      const migrated = await migrateLegacyState(store, stateDir, '/mnt/Music', Verbosity.Quiet, legacyPaths);
+
+      expect(migrated).toBe(false);
+      expect(store.countFiles()).toBe(0);
+    });
+
+    it('should never overwrite existing state', async () => {
+      store.putFile({ path: '/mnt/Photos/a.jpg', hash: 'newer-hash' });
+
+      const migrated = await migrateLegacyState(store, stateDir, '/mnt/Photos', Verbosity.Quiet, legacyPaths);
+
+      expect(migrated).toBe(false);
+      expect(store.getFile('/mnt/Photos/a.jpg')?.hash).toBe('newer-hash');
+    });
+
+    it('should import and remove JSON state kept in the state directory', async () => {
+      const { statePath, hashCachePath } = getStatePaths(stateDir);
+      await mkdir(stateDir, { recursive: true });
+      await writeFile(hashCachePath, JSON.stringify({ '/mnt/Photos/d.jpg': 'hash-d' }));
+      await writeFile(statePath, JSON.stringify({ files: { 'd.jpg': 'hash-d' }, lastRun: '' }));
+
+      const migrated = await migrateLegacyState(store, stateDir, '/mnt/Photos', Verbosity.Quiet, legacyPaths);
+
+      expect(migrated).toBe(true);
+      expect(store.listUploadedFiles()).toEqual(['/mnt/Photos/d.jpg']);
+      expect(existsSync(hashCachePath)).toBe(false);
+      expect(existsSync(statePath)).toBe(false);
+    });
+  });
+
+  describe('openStateStore', () => {
+    let tempDir: string;
+
+    beforeEach(() => {
+      createMockLoggers();
+      tempDir = join(tmpdir(), `state-store-open-test-${Date.now()}`);
+    });
+
+    afterEach(async () => {
+      await rm(tempDir, { recursive: true, force: true });
+    });
+
+    it('should keep the database in the state directory across runs', async () => {
+      const stateDir = join(tempDir, 'Photos-0123');
+
+      const first = await openStateStore(stateDir, '/mnt/Photos', Verbosity.Quiet);
+      first.putFile({ path: '/mnt/Photos/a.jpg', hash: 'hash-a', uploadedAt: '2026-01-01T00:00:00.000Z' });
+      first.close();
+
+      const second = await openStateStore(stateDir, '/mnt/Photos', Verbosity.Quiet);
+      expect(existsSync(join(stateDir, 'state.db'))).toBe(true);
+      expect(second.getFile('/mnt/Photos/a.jpg')?.hash).toBe('hash-a');
+      second.close();
+    });
+
+    it('should read JSON state in a dry run without creating the database or removing it', async () => {
+      const stateDir = join(tempDir, 'Photos-0123');
+      const { statePath, hashCachePath } = getStatePaths(stateDir);
+      await mkdir(stateDir, { recursive: true });
+      await writeFile(hashCachePath, JSON.stringify({ '/mnt/Photos/d.jpg': 'hash-d' }));
+      await writeFile(statePath, JSON.stringify({ files: { 'd.jpg': 'hash-d' }, lastRun: '' }));
+
+      const store = await openStateStore(stateDir, '/mnt/Photos', Verbosity.Quiet, true);
+      expect(store.listUploadedFiles()).toEqual(['/mnt/Photos/d.jpg']);
+      store.close();
+
+      expect(existsSync(hashCachePath)).toBe(true);
+      expect(existsSync(statePath)).toBe(true);
+      expect(existsSync(join(stateDir, 'state.db'))).toBe(false);
+    });
+
+    it('should read the last run without creating state', async () => {
+      const stateDir = join(tempDir, 'Photos-0123');
+      expect(readLastRun(stateDir)).toBeUndefined();
+      expect(existsSync(stateDir)).toBe(false);
+
+      const store = await openStateStore(stateDir, '/mnt/Photos', Verbosity.Quiet);
+      const runId = store.startRun();
+      store.finishRun(runId, { status: 'success', filesUploaded: 1, filesFailed: 0, filesDeleted: 0 });
+      store.finishRun(store.startRun(), { status: 'failed', filesUploaded: 0, filesFailed: 1, filesDeleted: 0 });
+      store.close();
+
+      expect(readLastRun(stateDir, 'success')?.id).toBe(runId);
+      expect(readLastRun(stateDir)?.status).toBe('failed');
+    });
+  });
+});
@@ -0,0 +1,238 @@
+/**
+ * State directory
+ * Every source/target/backend combination keeps its upload state and hash cache
+ * in its own folder, by default below the XDG state home
+ *
+ * Layout:
+ *   $XDG_STATE_HOME/internxt-backup/<source name>-<key>/state.db
+ */
+
+import { existsSync } from "node:fs";
+import { readFile, unlink } from "node:fs/promises";
+import path from "node:path";
+import os from "node:os";
+import crypto from "node:crypto";
+import * as logger from "../../utils/logger";
+import { UploadState } from "../../interfaces/file-scanner";
+import { HashCacheEntry } from "../upload/hash-cache";
+import { StateStore, RunRecord, RunStatus } from "./state-store";
+
+export const STATE_DB_FILE = "state.db";
+
+// Keeps chunked uploads a run didn't finish, so the next run resumes them
+export const UPLOADS_DIR = "uploads";
+
+// JSON state files written by older versions
+export const STATE_FILE = "state.json";
+export const HASH_CACHE_FILE = "hash-cache.json";
+
+/**
+ * Paths of the JSON state files of older versions
+ */
+export interface StatePaths {
+  statePath: string;
+  hashCachePath: string;
+}
+
+// Shared files used before state moved out of the OS temp dir
+export const LEGACY_STATE_PATHS: StatePaths = {
+  statePath: path.join(os.tmpdir(), "internxt-backup-state.json"),
+  hashCachePath: path.join(os.tmpdir(), "internxt-backup-hash-cache.json")
+};
+
+/**
+ * Get the folder that holds the state directories of all backups
+ * Follows the XDG base directory spec: $XDG_STATE_HOME or ~/.local/state
+ */
+export function getStateHome(): string {
+  const xdgStateHome = process.env.XDG_STATE_HOME;
+  const base = xdgStateHome && path.isAbsolute(xdgStateHome)
+    ? xdgStateHome
+    : path.join(os.homedir(), ".local", "state");
+  return path.join(base, "internxt-backup");
+}
+
+/**
+ * Get the state directory of a backup
+ * The folder name starts with the source folder's name for humans and ends with a
+ * key derived from the source, target and backend, so no two backups share state
+ * @param {string} sourceDir - The source directory
+ * @param {string} target - The backup target
+ * @param {string} backend - The storage backend type
+ * @param {string} stateHome - Folder holding all state directories (default: XDG state home)
+ * @returns {string} Absolute path of the state directory
+ */
+export function getStateDir(
+  sourceDir: string,
+  target: string = "",
+  backend: string = "internxt",
+  stateHome: string = getStateHome()
+): string {
+  const source = path.resolve(sourceDir);
+  const normalizedTarget = target.trim().replace(/^\/+|\/+$/g, "");
+  const key = crypto
+    .createHash("sha256")
+    .update(JSON.stringify([source, normalizedTarget, backend]))
+    .digest("hex")
+    .slice(0, 16);
+  const name = path.basename(source).replace(/[^A-Za-z0-9._-]+/g, "_") || "root";
+
+  return path.join(path.resolve(stateHome), `${name}-${key}`);
+}
+
+/**
+ * Get the paths of the JSON state files older versions kept in a state directory
+ */
+export function getStatePaths(stateDir: string): StatePaths {
+  return {
+    statePath: path.join(stateDir, STATE_FILE),
+    hashCachePath: path.join(stateDir, HASH_CACHE_FILE)
+  };
+}
+
+/**
+ * Read a JSON file, or return null if it is missing or unreadable
+ */
+async function readJson<T>(filePath: string): Promise<T | null> {
+  try {
+    return JSON.parse(await readFile(filePath, "utf8")) as T;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Import a JSON hash cache and upload state into the state store
+ * The hash cache is keyed by absolute path, so only its entries below the source are taken over.
+ * The upload state only holds relative paths; its files count as uploaded only if the hash cache
+ * knows every one of them below this source, so mirror mode can never act on another source's state.
+ * @param {StateStore} store - The state store to fill
+ * @param {StatePaths} jsonPaths - The JSON files to import
+ * @param {string} sourceDir - The source directory
+ * @returns {Promise<number>} Number of imported files
+ */
+async function importJsonState(store: StateStore, jsonPaths: StatePaths, sourceDir: string): Promise<number> {
+  const source = path.normalize(path.resolve(sourceDir));
+  const legacyCache = await readJson<Record<string, string | HashCacheEntry>>(jsonPaths.hashCachePath) ?? {};
+  const entries = Object.entries(legacyCache).filter(([filePath]) => filePath.startsWith(`${source}${path.sep}`));
+  if (entries.length === 0) {
+    return 0;
+  }
+
+  const legacyState = await readJson<UploadState>(jsonPaths.statePath);
+  const stateFiles = Object.keys(legacyState?.files ?? {});
+  const cachedPaths = new Set(entries.map(([filePath]) => filePath));
+  const belongsToSource = stateFiles.length > 0 &&
+    stateFiles.every(relativePath => cachedPaths.has(path.join(source, relativePath)));
+  const uploadedAt = legacyState?.lastRun || new Date().toISOString();
+
+  for (const [filePath, entry] of entries) {
+    const cached = typeof entry === "string" ? { hash: entry } : entry;
+    const uploaded = belongsToSource && path.relative(source, filePath) in legacyState!.files;
+    store.putFile({ ...cached, path: filePath, uploadedAt: uploaded ? uploadedAt : undefined });
+  }
+  store.flush();
+
+  return entries.length;
+}
+
+/**
+ * Fill an empty state store from the JSON files of older versions
+ * JSON state in the state directory itself is imported and removed; otherwise the part of the
+ * old shared temp files that belongs to the source is copied, leaving them for other sources
+ * @param {StateStore} store - The state store to fill
+ * @param {string} stateDir - The state directory
+ * @param {string} sourceDir - The source directory
+ * @param {number} verbosity - Verbosity level
+ * @param {StatePaths} legacyPaths - The old shared files
+ * @param {boolean} keepJson - Leave the JSON state in the state directory in place, e.g. for a dry run
+ * @returns {Promise<boolean>} True if anything was migrated
+ */
+export async function migrateLegacyState(
+  store: StateStore,
+  stateDir: string,
+  sourceDir: string,
+  verbosity: number = logger.Verbosity.Normal,
+  legacyPaths: StatePaths = LEGACY_STATE_PATHS,
+  keepJson: boolean = false
+): Promise<boolean> {
+  if (store.countFiles() > 0) {
+    return false;
+  }
+
+  const jsonPaths = getStatePaths(stateDir);
+  if (existsSync(jsonPaths.hashCachePath)) {
+    const count = await importJsonState(store, jsonPaths, sourceDir);
+    if (keepJson) {
+      return count > 0;
+    }
+    await Promise.all([unlink(jsonPaths.statePath), unlink(jsonPaths.hashCachePath)].map(p => p.catch(() => {})));
+    logger.info(`Imported ${count} files from the JSON state in ${stateDir}`, verbosity);
+    return count > 0;
+  }
+
+  if (!existsSync(legacyPaths.hashCachePath)) {
+    return false;
+  }
+
+  const count = await importJsonState(store, legacyPaths, sourceDir);
+  if (count > 0) {
+    logger.info(`Migrated ${count} files from ${path.dirname(legacyPaths.hashCachePath)} to ${stateDir}`, verbosity);
+  }
+  return count > 0;
+}
+
+/**
+ * Open the state store of a backup, migrating state of older versions into it on first use
+ * A dry run never creates the database or removes JSON state: without a database, the
+ * state of older versions is read into a store in memory that is gone after the run
+ * @param {string} stateDir - The state directory
+ * @param {string} sourceDir - The source directory
+ * @param {number} verbosity - Verbosity level
+ * @param {boolean} dryRun - Leave the state on disk as it is
+ * @returns {Promise<StateStore>} The opened state store
+ */
+export async function openStateStore(
+  stateDir: string,
+  sourceDir: string,
+  verbosity: number = logger.Verbosity.Normal,
+  dryRun: boolean = false
+): Promise<StateStore> {
+  const dbPath = path.join(stateDir, STATE_DB_FILE);
+  if (dryRun && existsSync(dbPath)) {
+    logger.verbose(`Using state directory ${stateDir}`, verbosity);
+    return new StateStore(dbPath, { verbosity });
+  }
+
+  const store = new StateStore(dryRun ? ":memory:" : dbPath, { verbosity });
+
+  try {
+    await migrateLegacyState(store, stateDir, sourceDir, verbosity, LEGACY_STATE_PATHS, dryRun);
+  } catch (error) {
+    store.close();
+    throw error;
+  }
+
+  logger.verbose(`Using state directory ${stateDir}`, verbosity);
+  return store;
+}
+
+/**
+ * Read the last run of a backup from its state directory without creating any state
+ * @param {string} stateDir - The state directory
+ * @param {RunStatus} status - Only runs with this status
+ * @returns {RunRecord | undefined} The run, if the backup ever ran
+ */
+export function readLastRun(stateDir: string, status?: RunStatus): RunRecord | undefined {
+  const dbPath = path.join(stateDir, STATE_DB_FILE);
+  if (!existsSync(dbPath)) {
+    return undefined;
+  }
+
+  const store = new StateStore(dbPath, { verbosity: logger.Verbosity.Quiet });
+  try {
+    return store.getLastRun(status);
+  } finally {
+    store.close();
+  }
+}
@@ -0,0 +1,152 @@
+/**
+ * Tests for StateStore
+ */
+
+import { expect, describe, beforeEach, afterEach, it, spyOn } from 'bun:test';
+import { StateStore } from './state-store';
+import { Verbosity } from '../../interfaces/logger';
+import { createMockLoggers } from '../../../test-config/mocks/test-helpers';
+import { rm } from 'node:fs/promises';
+import { join } from 'node:path';
+import { tmpdir } from 'node:os';
+
+describe('StateStore', () => {
+  let store: StateStore;
+
+  beforeEach(() => {
+    createMockLoggers();
+    store = new StateStore(':memory:', { batchSize: 3, verbosity: Verbosity.Quiet });
+  });
+
+  afterEach(() => {
+    store.close();
+  });
+
+  describe('files', () => {
+    it('should return buffered records before they are flushed', () => {
+      store.putFile({ path: '/src/a.txt', hash: 'hash-a', size: 10, mtime: 1000.5, inode: 7 });
+
+      expect(store.getFile('/src/a.txt')).toEqual({
+        path: '/src/a.txt', hash: 'hash-a', size: 10, mtime: 1000.5, inode: 7
+      });
+    });
+
+    it('should read flushed records back with all fields', () => {
+      store.putFile({
+        path: '/src/a.txt',
+        hash: 'hash-a',
+        size: 10,
+        mtime: 1000.5,
+        inode: 7,
+        remotePath: 'backup/a.txt.gz.enc',
+        uploadedAt: '2026-01-01T00:00:00.000Z',
+        compressed: true,
+        encrypted: true
+      });
+      store.flush();
+
+      expect(store.getFile('/src/a.txt')).toEqual({
+        path: '/src/a.txt',
+        hash: 'hash-a',
+        size: 10,
+        mtime: 1000.5,
+        inode: 7,
+        remotePath: 'backup/a.txt.gz.enc',
+        uploadedAt: '2026-01-01T00:00:00.000Z',
+        compressed: true,
+        encrypted: true
+      });
+    });
+
+    it('should write a full batch in one transaction', () => {
+      const flushSpy = spyOn(store, 'flush');
+
+      store.putFile({ path: '/src/a.txt', hash: 'a' });
+      store.putFile({ path: '/src/b.txt', hash: 'b' });
+      expect(flushSpy).not.toHaveBeenCalled();
+
+      store.putFile({ path: '/src/c.txt', hash: 'c' });
+      expect(flushSpy).toHaveBeenCalledTimes(1);
+      expect(store['pending'].size).toBe(0);
+    });
+
+    it('should delete records', () => {
+      store.putFile({ path: '/src/a.txt', hash: 'a' });
+      store.flush();
+
+      store.deleteFile('/src/a.txt');
+
+      expect(store.getFile('/src/a.txt')).toBeUndefined();
+      expect(store.countFiles()).toBe(0);
+    });
+
+    it('should only list uploaded files below a folder', () => {
+      store.putFile({ path: '/src/a.txt', hash: 'a', uploadedAt: '2026-01-01T00:00:00.000Z' });
+      store.putFile({ path: '/src/sub/b.txt', hash: 'b', uploadedAt: '2026-01-01T00:00:00.000Z' });
+      store.putFile({ path: '/src/hashed-only.txt', hash: 'c' });
+      store.putFile({ path: '/src-other/d.txt', hash: 'd', uploadedAt: '2026-01-01T00:00:00.000Z' });
+
+      expect(store.listUploadedFiles('/src').sort()).toEqual(['/src/a.txt', '/src/sub/b.txt']);
+      expect(store.listUploadedFiles()).toHaveLength(3);
+    });
+  });
+
+  describe('runs', () => {
+    it('should record the start and outcome of runs', () => {
+      const id = store.startRun();
+      expect(store.getLastRun()).toMatchObject({ id, status: 'running', filesUploaded: 0 });
+
+      store.finishRun(id, { status: 'success', filesUploaded: 5, filesFailed: 0, filesDeleted: 1 });
+
+      expect(store.getLastRun()).toMatchObject({
+        id,
+        status: 'success',
+        filesUploaded: 5,
+        filesFailed: 0,
+        filesDeleted: 1,
+        finishedAt: expect.any(String)
+      });
+    });
+
+    it('should find the last run with a given status', () => {
+      const first = store.startRun();
+      store.finishRun(first, { status: 'success', filesUploaded: 1, filesFailed: 0, filesDeleted: 0 });
+      const second = store.startRun();
+      store.finishRun(second, { status: 'failed', filesUploaded: 0, filesFailed: 2, filesDeleted: 0 });
+
+      expect(store.getLastRun()?.id).toBe(second);
+      expect(store.getLastRun('success')?.id).toBe(first);
+    });
+  });
+
+  describe('folders', () => {
+    it('should remember and forget remote folders', () => {
+      expect(store.hasFolder('backup/docs')).toBe(false);
+
+      store.addFolder('backup/docs');
+      store.addFolder('backup/docs');
+      expect(store.hasFolder('backup/docs')).toBe(true);
+
+      store.removeFolder('backup/docs');
+      expect(store.hasFolder('backup/docs')).toBe(false);
+    });
+  });
+
+  describe('persistence', () => {
+    const dbPath = join(tmpdir(), `state-store-test-${Date.now()}`, 'state.db');
+
+    afterEach(async () => {
+      await rm(join(dbPath, '..'), { recursive: true, force: true });
+    });
+
+    it('should keep flushed records when the database is reopened', () => {
+      const first = new StateStore(dbPath, { verbosity: Verbosity.Quiet });
+      first.putFile({ path: '/src/a.txt', hash: 'a' });
+      first.close();
+
+      const second = new StateStore(dbPath, { verbosity: Verbosity.Quiet });
+      expect(second.getFile('/src/a.txt')?.hash).toBe('a');
+      second.close();
+    });
+  });
+});
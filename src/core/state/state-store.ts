@@ -0,0 +1,352 @@
+/**
+ * State Store
+ * Keeps what was uploaded, when backups ran and which remote folders exist in a SQLite database,
+ * so lookups stay fast for millions of files and an interrupted run leaves consistent state
+ */
+
+import { Database } from "bun:sqlite";
+import { mkdirSync } from "node:fs";
+import path from "node:path";
+import * as logger from "../../utils/logger";
+
+// Bump when the schema changes and add the migration to migrate()
+const SCHEMA_VERSION = 1;
+
+// File writes are committed in one transaction per batch
+const DEFAULT_BATCH_SIZE = 500;
+
+/**
+ * What is known about a local file
+ */
+export interface FileRecord {
+  path: string; // Absolute path of the local file
+  size?: number;
+  mtime?: number; // Modification time in milliseconds
+  inode?: number;
+  hash: string; // Checksum of the content that was uploaded
+  remotePath?: string;
+  uploadedAt?: string; // ISO date, unset for hashes imported without upload state
+  compressed?: boolean;
+  encrypted?: boolean;
+}
+
+export type RunStatus = "running" | "success" | "failed";
+
+/**
+ * Outcome of a finished backup run
+ */
+export interface RunSummary {
+  status: Exclude<RunStatus, "running">;
+  filesUploaded: number;
+  filesFailed: number;
+  filesDeleted: number;
+}
+
+/**
+ * A backup run as stored in the database
+ */
+export interface RunRecord extends Omit<RunSummary, "status"> {
+  id: number;
+  status: RunStatus;
+  startedAt: string;
+  finishedAt?: string;
+}
+
+interface FileRow {
+  path: string;
+  size: number | null;
+  mtime: number | null;
+  inode: number | null;
+  hash: string;
+  remote_path: string | null;
+  uploaded_at: string | null;
+  compressed: number;
+  encrypted: number;
+}
+
+interface RunRow {
+  id: number;
+  started_at: string;
+  finished_at: string | null;
+  status: RunStatus;
+  files_uploaded: number;
+  files_failed: number;
+  files_deleted: number;
+}
+
+export interface StateStoreOptions {
+  batchSize?: number; // Number of buffered file writes that triggers a flush
+  verbosity?: number;
+}
+
+export class StateStore {
+  readonly path: string;
+  private db: Database;
+  private pending: Map<string, FileRecord | null>;
+  private batchSize: number;
+  private verbosity: number;
+
+  /**
+   * Open (or create) a state database
+   * @param {string} dbPath - Path of the database file, or ":memory:" for state that isn't kept
+   * @param {StateStoreOptions} options - Batch size and verbosity
+   */
+  constructor(dbPath: string = ":memory:", options: StateStoreOptions = {}) {
+    this.path = dbPath;
+    this.batchSize = options.batchSize ?? DEFAULT_BATCH_SIZE;
+    this.verbosity = options.verbosity ?? logger.Verbosity.Normal;
+    this.pending = new Map();
+
+    if (dbPath !== ":memory:") {
+      mkdirSync(path.dirname(dbPath), { recursive: true });
+    }
+
+    this.db = new Database(dbPath, { create: true });
+    this.db.exec("PRAGMA journal_mode = WAL");
+    this.db.exec("PRAGMA synchronous = NORMAL");
+    this.migrate();
+  }
+
+  /**
+   * Create or upgrade the schema
+   */
+  private migrate(): void {
+    const { user_version: version } = this.db.query("PRAGMA user_version").get() as { user_version: number };
+    if (version >= SCHEMA_VERSION) {
+      return;
+    }
+
+    this.db.transaction(() => {
+      this.db.exec(`
+        CREATE TABLE IF NOT EXISTS files (
+          path TEXT PRIMARY KEY,
+          size INTEGER,
+          mtime REAL,
+          inode INTEGER,
+          hash TEXT NOT NULL,
+          remote_path TEXT,
+          uploaded_at TEXT,
+          compressed INTEGER NOT NULL DEFAULT 0,
+          encrypted INTEGER NOT NULL DEFAULT 0
+        ) WITHOUT ROWID;
+        CREATE TABLE IF NOT EXISTS runs (
+          id INTEGER PRIMARY KEY AUTOINCREMENT,
+          started_at TEXT NOT NULL,
+          finished_at TEXT,
+          status TEXT NOT NULL,
+          files_uploaded INTEGER NOT NULL DEFAULT 0,
+          files_failed INTEGER NOT NULL DEFAULT 0,
+          files_deleted INTEGER NOT NULL DEFAULT 0
+        );
+        CREATE TABLE IF NOT EXISTS folders (
+          path TEXT PRIMARY KEY,
+          created_at TEXT NOT NULL
+        ) WITHOUT ROWID;
+      `);
+      this.db.exec(`PRAGMA user_version = ${SCHEMA_VERSION}`);
+    })();
+
+    logger.verbose(`Initialized state database ${this.path}`, this.verbosity);
+  }
+
+  /**
+   * Get what is known about a file, including writes that are not flushed yet
+   * @param {string} filePath - Absolute path of the local file
+   * @returns {FileRecord | undefined} The record, if the file is known
+   */
+  getFile(filePath: string): FileRecord | undefined {
+    const key = path.normalize(filePath);
+    if (this.pending.has(key)) {
+      const record = this.pending.get(key);
+      return record ? { ...record } : undefined;
+    }
+
+    const row = this.db.query("SELECT * FROM files WHERE path = ?").get(key) as FileRow | null;
+    return row ? this.toFileRecord(row) : undefined;
+  }
+
+  /**
+   * Store a file record; it is written with the next batch
+   * @param {FileRecord} record - The record, replacing any earlier one for the path
+   */
+  putFile(record: FileRecord): void {
+    const key = path.normalize(record.path);
+    this.pending.set(key, { ...record, path: key });
+    this.flushIfFull();
+  }
+
+  /**
+   * Forget a file; the deletion is written with the next batch
+   * @param {string} filePath - Absolute path of the local file
+   */
+  deleteFile(filePath: string): void {
+    this.pending.set(path.normalize(filePath), null);
+    this.flushIfFull();
+  }
+
+  /**
+   * List the files that were uploaded, optionally only below a folder
+   * @param {string} prefix - Folder whose files to list
+   * @returns {string[]} Absolute paths of the uploaded files
+   */
+  listUploadedFiles(prefix?: string): string[] {
+    this.flush();
+
+    const rows = prefix
+      ? this.db.query("SELECT path FROM files WHERE uploaded_at IS NOT NULL AND substr(path, 1, ?) = ?")
+        .all(`${path.normalize(prefix)}${path.sep}`.length, `${path.normalize(prefix)}${path.sep}`)
+      : this.db.query("SELECT path FROM files WHERE uploaded_at IS NOT NULL").all();
+
+    return (rows as Array<{ path: string }>).map(row => row.path);
+  }
+
+  /**
+   * Count the known files
+   */
+  countFiles(): number {
+    this.flush();
+    return (this.db.query("SELECT COUNT(*) AS count FROM files").get() as { count: number }).count;
+  }
+
+  /**
+   * Write all buffered file changes in a single transaction
+   */
+  flush(): void {
+    if (this.pending.size === 0) {
+      return;
+    }
+
+    const upsert = this.db.query(`
+      INSERT INTO files (path, size, mtime, inode, hash, remote_path, uploaded_at, compressed, encrypted)
+      VALUES ($path, $size, $mtime, $inode, $hash, $remotePath, $uploadedAt, $compressed, $encrypted)
+      ON CONFLICT (path) DO UPDATE SET
+        size = excluded.size, mtime = excluded.mtime, inode = excluded.inode, hash = excluded.hash,
+        remote_path = excluded.remote_path, uploaded_at = excluded.uploaded_at,
+        compressed = excluded.compressed, encrypted = excluded.encrypted
+    `);
+    const remove = this.db.query("DELETE FROM files WHERE path = ?");
+    const writes = [...this.pending];
+
+    this.db.transaction(() => {
+      for (const [filePath, record] of writes) {
+        if (record) {
+          upsert.run({
+            $path: filePath,
+            $size: record.size ?? null,
+            $mtime: record.mtime ?? null,
+            $inode: record.inode ?? null,
+            $hash: record.hash,
+            $remotePath: record.remotePath ?? null,
+            $uploadedAt: record.uploadedAt ?? null,
+            $compressed: record.compressed ? 1 : 0,
+            $encrypted: record.encrypted ? 1 : 0
+          });
+        } else {
+          remove.run(filePath);
+        }
+      }
+    })();
+
+    this.pending.clear();
+    logger.verbose(`Saved ${writes.length} file records`, this.verbosity);
+  }
+
+  /**
+   * Flush once the buffer holds a full batch
+   */
+  private flushIfFull(): void {
+    if (this.pending.size >= this.batchSize) {
+      this.flush();
+    }
+  }
+
+  /**
+   * Record the start of a backup run
+   * @returns {number} Id of the run
+   */
+  startRun(): number {
+    const result = this.db.query("INSERT INTO runs (started_at, status) VALUES (?, 'running')")
+      .run(new Date().toISOString());
+    return Number(result.lastInsertRowid);
+  }
+
+  /**
+   * Record the outcome of a backup run, together with the file changes it made
+   * @param {number} id - Id of the run
+   * @param {RunSummary} summary - Outcome of the run
+   */
+  finishRun(id: number, summary: RunSummary): void {
+    this.flush();
+    this.db.query(`
+      UPDATE runs SET finished_at = ?, status = ?, files_uploaded = ?, files_failed = ?, files_deleted = ?
+      WHERE id = ?
+    `).run(new Date().toISOString(), summary.status, summary.filesUploaded, summary.filesFailed, summary.filesDeleted, id);
+  }
+
+  /**
+   * Get the most recent run, optionally only with a given status
+   */
+  getLastRun(status?: RunStatus): RunRecord | undefined {
+    const row = (status
+      ? this.db.query("SELECT * FROM runs WHERE status = ? ORDER BY id DESC LIMIT 1").get(status)
+      : this.db.query("SELECT * FROM runs ORDER BY id DESC LIMIT 1").get()) as RunRow | null;
+
+    return row
+      ? {
+        id: row.id,
+        status: row.status,
+        startedAt: row.started_at,
+        finishedAt: row.finished_at ?? undefined,
+        filesUploaded: row.files_uploaded,
+        filesFailed: row.files_failed,
+        filesDeleted: row.files_deleted
+      }
+      : undefined;
+  }
+
+  /**
+   * Check whether a remote folder was created by an earlier run
+   */
+  hasFolder(remotePath: string): boolean {
+    return this.db.query("SELECT 1 FROM folders WHERE path = ?").get(remotePath) !== null;
+  }
+
+  /**
+   * Remember that a remote folder exists
+   */
+  addFolder(remotePath: string): void {
+    this.db.query("INSERT OR IGNORE INTO folders (path, created_at) VALUES (?, ?)")
+      .run(remotePath, new Date().toISOString());
+  }
+
+  /**
+   * Forget a remote folder, so the next run creates it again
+   */
+  removeFolder(remotePath: string): void {
+    this.db.query("DELETE FROM folders WHERE path = ?").run(remotePath);
+  }
+
+  /**
+   * Flush pending writes and close the database
+   */
+  close(): void {
+    this.flush();
+    this.db.close();
+  }
+
+  private toFileRecord(row: FileRow): FileRecord {
+    return {
+      path: row.path,
+      size: row.size ?? undefined,
+      mtime: row.mtime ?? undefined,
+      inode: row.inode ?? undefined,
+      hash: row.hash,
+      remotePath: row.remote_path ?? undefined,
+      uploadedAt: row.uploaded_at ?? undefined,
+      compressed: row.compressed === 1,
+      encrypted: row.encrypted === 1
+    };
+  }
+}
+
+export default StateStore;
@@ -0,0 +1,45 @@
+/**
+ * Storage backend selection
+ */
+
+import { join } from "node:path";
+import { InternxtService } from "../internxt/internxt-service";
+import { LocalFsBackend, LOCAL_TRASH_DIR } from "./local-fs-backend";
+import { StorageBackend, StorageBackendType } from "../../interfaces/storage";
+
+export const STORAGE_BACKEND_TYPES: StorageBackendType[] = ["internxt", "local"];
+
+export interface CreateBackendOptions {
+  target?: string; // Backup folder; the local backend checks that it exists and places its trash in it
+  verbosity?: number;
+  signal?: AbortSignal; // Stops running Internxt CLI commands when the backup is cancelled
+}
+
+/**
+ * Check that a string names a known backend
+ */
+export function isStorageBackendType(value: string): value is StorageBackendType {
+  return (STORAGE_BACKEND_TYPES as string[]).includes(value);
+}
+
+/**
+ * Create the storage backend for the given type, defaulting to Internxt
+ */
+export function createStorageBackend(
+  type: string = "internxt",
+  options: CreateBackendOptions = {}
+): StorageBackend {
+  if (!isStorageBackendType(type)) {
+    throw new Error(`Unknown backend "${type}". Use one of: ${STORAGE_BACKEND_TYPES.join(", ")}`);
+  }
+
+  if (type === "local") {
+    return new LocalFsBackend({
+      targetDir: options.target,
+      trashDir: options.target ? join(options.target, LOCAL_TRASH_DIR) : undefined,
+      verbosity: options.verbosity
+    });
+  }
+
+  return new InternxtService({ verbosity: options.verbosity, signal: options.signal });
+}
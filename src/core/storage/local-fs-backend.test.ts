@@ -0,0 +1,147 @@
+/**
+ * Tests for LocalFsBackend
+ */
+
+import { expect, describe, beforeEach, afterEach, it } from 'bun:test';
+import { LocalFsBackend } from './local-fs-backend';
+import { createStorageBackend } from './create-backend';
+import { InternxtService } from '../internxt/internxt-service';
+import Uploader from '../upload/uploader';
+import Restorer from '../restore/restorer';
+import { Verbosity } from '../../interfaces/logger';
+import { createMockLoggers } from '../../../test-config/mocks/test-helpers';
+import { mkdir, writeFile, readFile, rm } from 'node:fs/promises';
+import { existsSync } from 'node:fs';
+import { join } from 'node:path';
+import { tmpdir } from 'node:os';
+
+describe('LocalFsBackend', () => {
+  let tempDir: string;
+  let backend: LocalFsBackend;
+
+  beforeEach(async () => {
+    createMockLoggers();
+    tempDir = join(tmpdir(), `local-backend-test-${Date.now()}`);
+    await mkdir(join(tempDir, 'source'), { recursive: true });
+    backend = new LocalFsBackend({ rootDir: join(tempDir, 'backup'), verbosity: Verbosity.Quiet });
+  });
+
+  afterEach(async () => {
+    await rm(tempDir, { recursive: true, force: true });
+  });
+
+  describe('checkReady', () => {
+    it('should fail when the root directory does not exist', async () => {
+      const status = await backend.checkReady();
+
+      expect(status.ready).toBe(false);
+      expect(status.error).toBeDefined();
+    });
+
+    it('should be ready once the root directory exists', async () => {
+      await mkdir(join(tempDir, 'backup'));
+
+      expect((await backend.checkReady()).ready).toBe(true);
+    });
+  });
+
+  describe('file operations', () => {
+    it('should upload, stat, list and download files', async () => {
+      const sourcePath = join(tempDir, 'source', 'notes.txt');
+      await writeFile(sourcePath, 'hello');
+
+      const upload = await backend.uploadFile(sourcePath, '/Docs/notes.txt');
+      expect(upload.success).toBe(true);
+
+      const info = await backend.stat('/Docs/notes.txt');
+      expect(info).toMatchObject({ name: 'notes.txt', path: '/Docs/notes.txt', size: 5, isFolder: false });
+
+      const list = await backend.listFiles('/Docs');
+      expect(list.files.map(f => f.name)).toEqual(['notes.txt']);
+
+      const downloadPath = join(tempDir, 'restore', 'notes.txt');
+      const download = await backend.downloadFile('/Docs/notes.txt', downloadPath);
+      expect(download.success).toBe(true);
+      expect(await readFile(downloadPath, 'utf8')).toBe('hello');
+    });
+
+    it('should report missing files', async () => {
+      expect(await backend.stat('/missing.txt')).toBeNull();
+      expect(await backend.fileExists('/missing.txt')).toBe(false);
+      expect((await backend.downloadFile('/missing.txt', join(tempDir, 'out.txt'))).success).toBe(false);
+      expect((await backend.listFiles('/missing')).success).toBe(false);
+      expect(await backend.deleteFile('/missing.txt')).toBe(false);
+    });
+
+    it('should move files to a hidden trash folder unless deleting permanently', async () => {
+      const sourcePath = join(tempDir, 'source', 'old.txt');
+      await writeFile(sourcePath, 'old');
+      await backend.uploadFile(sourcePath, '/Docs/old.txt');
+      await backend.uploadFile(sourcePath, '/Docs/gone.txt');
+
+      expect(await backend.deleteFile('/Docs/old.txt', false)).toBe(true);
+      expect(await backend.deleteFile('/Docs/gone.txt', true)).toBe(true);
+
+      expect(existsSync(join(tempDir, 'backup', '.trash', 'Docs', 'old.txt'))).toBe(true);
+      expect(existsSync(join(tempDir, 'backup', '.trash', 'Docs', 'gone.txt'))).toBe(false);
+      expect((await backend.listFiles('/')).files.map(f => f.name)).toEqual(['Docs']);
+      expect((await backend.listFiles('/Docs')).files).toEqual([]);
+    });
+  });
+
+  describe('createStorageBackend', () => {
+    it('should default to the Internxt backend', () => {
+      expect(createStorageBackend()).toBeInstanceOf(InternxtService);
+    });
+
+    it('should create a local backend', () => {
+      expect(createStorageBackend('local', { target: '/mnt/backup' })).toBeInstanceOf(LocalFsBackend);
+    });
+
+    it('should reject a local target that does not exist instead of creating it', async () => {
+      const target = join(tempDir, 'nas', 'backups');
+      const local = createStorageBackend('local', { target, verbosity: Verbosity.Quiet });
+
+      const status = await local.checkReady();
+
+      expect(status.ready).toBe(false);
+      expect(status.error).toContain(target);
+      expect(existsSync(target)).toBe(false);
+
+      await mkdir(target, { recursive: true });
+      expect((await local.checkReady()).ready).toBe(true);
+    });
+
+    it('should reject unknown backends', () => {
+      expect(() => createStorageBackend('s3')).toThrow('Unknown backend "s3"');
+    });
+  });
+
+  describe('end to end', () => {
+    it('should back up and restore a directory without the Internxt CLI', async () => {
+      await mkdir(join(tempDir, 'source', 'nested'), { recursive: true });
+      await writeFile(join(tempDir, 'source', 'a.txt'), 'first file');
+      await writeFile(join(tempDir, 'source', 'nested', 'b.txt'), 'second file '.repeat(200));
+      const files = ['a.txt', 'nested/b.txt'].map(relativePath => ({
+        relativePath,
+        absolutePath: join(tempDir, 'source', relativePath),
+        size: 0,
+        checksum: `checksum-${relativePath}`,
+        hasChanged: true
+      }));
+
+      // Root the backend at "/" like the CLI does, with the target as an absolute path
+      const target = join(tempDir, 'backup');
+      await mkdir(target);
+      const localBackend = createStorageBackend('local', { target, verbosity: Verbosity.Quiet });
+      const uploader = new Uploader(2, target, Verbosity.Quiet, { backend: localBackend, compress: true });
+      expect(await uploader.startUpload(files)).toBe(true);
+
+      const restorer = new Restorer(2, target, join(tempDir, 'restore'), Verbosity.Quiet, { backend: localBackend });
+      await restorer.startRestore();
+
+      expect(await readFile(join(tempDir, 'restore', 'a.txt'), 'utf8')).toBe('first file');
+      expect(await readFile(join(tempDir, 'restore', 'nested', 'b.txt'), 'utf8')).toBe('second file '.repeat(200));
+    });
+  });
+});
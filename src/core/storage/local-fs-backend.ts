@@ -0,0 +1,268 @@
+/**
+ * Local Filesystem Backend
+ * Stores backups in a local directory such as an external disk or NAS mount
+ */
+
+import { copyFile, mkdir, readdir, rename, rm, stat } from "node:fs/promises";
+import { basename, dirname, join, relative } from "node:path";
+import * as logger from "../../utils/logger";
+import {
+  StorageBackend,
+  StorageCheckResult,
+  StorageUploadResult,
+  StorageDownloadResult,
+  StorageFolderResult,
+  StorageListResult,
+  StorageFileInfo
+} from "../../interfaces/storage";
+
+// Name of the folder locally deleted files are moved to in mirror mode
+export const LOCAL_TRASH_DIR = ".trash";
+
+export interface LocalFsBackendOptions {
+  rootDir?: string; // Directory remote paths are resolved against, default "/"
+  targetDir?: string; // Backup folder that must exist before anything is written, default the root directory
+  trashDir?: string; // Where non-permanent deletes go, default <rootDir>/.trash
+  verbosity?: number;
+}
+
+export class LocalFsBackend implements StorageBackend {
+  readonly name = "local storage";
+  private rootDir: string;
+  private targetDir: string;
+  private trashDir: string;
+  private verbosity: number;
+
+  constructor(options: LocalFsBackendOptions = {}) {
+    this.rootDir = options.rootDir ?? "/";
+    this.targetDir = options.targetDir ?? this.rootDir;
+    this.trashDir = options.trashDir ?? join(this.rootDir, LOCAL_TRASH_DIR);
+    this.verbosity = options.verbosity ?? logger.Verbosity.Normal;
+  }
+
+  /**
+   * Map a remote path to its location on disk
+   */
+  private resolve(remotePath: string): string {
+    return join(this.rootDir, remotePath);
+  }
+
+  /**
+   * Map a location on disk back to a remote path
+   */
+  private toRemotePath(localPath: string): string {
+    return `/${relative(this.rootDir, localPath).split("\\").join("/")}`;
+  }
+
+  /**
+   * The backup folder must exist, so an unmounted disk is not silently filled
+   * It is never created here: on an unmounted disk it would end up on the root filesystem
+   */
+  async checkReady(): Promise<StorageCheckResult> {
+    try {
+      const stats = await stat(this.targetDir);
+      if (!stats.isDirectory()) {
+        return { ready: false, error: `${this.targetDir} is not a directory` };
+      }
+      return { ready: true, description: `Local storage at ${this.targetDir}` };
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : String(error);
+      return {
+        ready: false,
+        error: `Local storage is not available: ${errorMessage}. Create ${this.targetDir} or mount the disk it lives on`
+      };
+    }
+  }
+
+  /**
+   * Copy a file into the backup directory
+   */
+  async uploadFile(localPath: string, remotePath: string): Promise<StorageUploadResult> {
+    try {
+      logger.verbose(`Copying ${localPath} to ${remotePath}`, this.verbosity);
+
+      const targetPath = this.resolve(remotePath);
+      await mkdir(dirname(targetPath), { recursive: true });
+      await copyFile(localPath, targetPath);
+
+      return {
+        success: true,
+        filePath: localPath,
+        remotePath
+      };
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : String(error);
+      return {
+        success: false,
+        filePath: localPath,
+        remotePath,
+        error: errorMessage
+      };
+    }
+  }
+
+  /**
+   * Copy a file, reporting completion through the progress callback
+   */
+  async uploadFileWithProgress(
+    localPath: string,
+    remotePath: string,
+    onProgress?: (percent: number) => void
+  ): Promise<StorageUploadResult> {
+    const result = await this.uploadFile(localPath, remotePath);
+    if (result.success && onProgress) {
+      onProgress(100);
+    }
+    return result;
+  }
+
+  /**
+   * Copy a file from the backup directory to a local path
+   */
+  async downloadFile(remotePath: string, localPath: string): Promise<StorageDownloadResult> {
+    try {
+      logger.verbose(`Copying ${remotePath} to ${localPath}`, this.verbosity);
+
+      await mkdir(dirname(localPath), { recursive: true });
+      await copyFile(this.resolve(remotePath), localPath);
+
+      return {
+        success: true,
+        remotePath,
+        localPath
+      };
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : String(error);
+      return {
+        success: false,
+        remotePath,
+        localPath,
+        error: errorMessage
+      };
+    }
+  }
+
+  /**
+   * Create a folder (and its parents) in the backup directory
+   */
+  async createFolder(remotePath: string): Promise<StorageFolderResult> {
+    try {
+      logger.verbose(`Creating folder: ${remotePath}`, this.verbosity);
+
+      await mkdir(this.resolve(remotePath), { recursive: true });
+      return {
+        success: true,
+        path: remotePath
+      };
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : String(error);
+      return {
+        success: false,
+        path: remotePath,
+        error: errorMessage
+      };
+    }
+  }
+
+  /**
+   * List files in a folder, hiding the trash folder
+   */
+  async listFiles(remotePath: string = "/"): Promise<StorageListResult> {
+    try {
+      logger.verbose(`Listing files in: ${remotePath}`, this.verbosity);
+
+      const folderPath = this.resolve(remotePath);
+      const entries = await readdir(folderPath, { withFileTypes: true });
+      const files: StorageFileInfo[] = [];
+
+      for (const entry of entries) {
+        const entryPath = join(folderPath, entry.name);
+        if (entryPath === this.trashDir) {
+          continue;
+        }
+
+        const info = await this.stat(this.toRemotePath(entryPath));
+        if (info) {
+          files.push(info);
+        }
+      }
+
+      return {
+        success: true,
+        files
+      };
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : String(error);
+      return {
+        success: false,
+        files: [],
+        error: errorMessage
+      };
+    }
+  }
+
+  /**
+   * Look up a single file or folder
+   * Returns null if it doesn't exist
+   */
+  async stat(remotePath: string): Promise<StorageFileInfo | null> {
+    try {
+      const localPath = this.resolve(remotePath);
+      const stats = await stat(localPath);
+      const isFolder = stats.isDirectory();
+
+      return {
+        name: basename(localPath),
+        path: this.toRemotePath(localPath),
+        size: isFolder ? 0 : stats.size,
+        modified: stats.mtime,
+        isFolder
+      };
+    } catch {
+      return null;
+    }
+  }
+
+  /**
+   * Check if a file exists in the backup directory
+   */
+  async fileExists(remotePath: string): Promise<boolean> {
+    return (await this.stat(remotePath)) !== null;
+  }
+
+  /**
+   * Delete a file, or move it to the trash folder keeping its relative path
+   * @param {string} remotePath - Path of the remote file
+   * @param {boolean} permanent - Delete permanently instead of moving to the trash
+   */
+  async deleteFile(remotePath: string, permanent: boolean = true): Promise<boolean> {
+    try {
+      logger.verbose(`Deleting file: ${remotePath}`, this.verbosity);
+
+      const localPath = this.resolve(remotePath);
+      await stat(localPath);
+
+      if (permanent) {
+        await rm(localPath, { recursive: true, force: true });
+        return true;
+      }
+
+      // Keep the path relative to the folder holding the trash, if the file lives there
+      const relativePath = relative(dirname(this.trashDir), localPath);
+      const trashPath = join(
+        this.trashDir,
+        relativePath.startsWith("..") ? basename(localPath) : relativePath
+      );
+      await mkdir(dirname(trashPath), { recursive: true });
+      await rm(trashPath, { recursive: true, force: true });
+      await rename(localPath, trashPath);
+      return true;
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : String(error);
+      logger.verbose(`Failed to delete file: ${errorMessage}`, this.verbosity);
+      return false;
+    }
+  }
+}
+
+export default LocalFsBackend;
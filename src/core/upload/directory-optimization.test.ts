@@ -26,7 +26,7 @@ describe('Directory Creation Optimization', () => {
 
     // Create uploader with mocks
     uploader = new Uploader(concurrentUploads, targetDir, verbosity);
-    (uploader as any).internxtService = mockInternxtService;
+    (uploader as any).backend = mockInternxtService;
   });
 
   it('should create directories once when uploading a single file', async () => {
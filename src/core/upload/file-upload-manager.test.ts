@@ -140,6 +140,43 @@ describe('FileUploadManager', () => {
       // Queue should be empty
       expect(manager.pendingFiles.length).toBe(0);
     });
+
+    it('should stop taking files when the signal aborts and complete once running uploads finish', async () => {
+      const controller = new AbortController();
+      const finishers: Array<() => void> = [];
+      const handler = mock(() => new Promise<{ success: boolean; filePath: string }>(resolve => {
+        finishers.push(() => resolve({ success: true, filePath: '' }));
+      }));
+      const onCompletion = mock(() => {});
+      const manager = new FileUploadManager(1, handler, verbosity);
+      manager.setQueue([...testFiles] as any);
+
+      manager.start(onCompletion, controller.signal);
+      controller.abort();
+      expect(manager.pendingCount).toBe(0);
+      expect(onCompletion).not.toHaveBeenCalled();
+
+      finishers[0]();
+      await Promise.resolve();
+      await Promise.resolve();
+
+      expect(handler).toHaveBeenCalledTimes(1);
+      expect(onCompletion).toHaveBeenCalled();
+    });
+
+    it('should complete right away when started with an aborted signal', () => {
+      const controller = new AbortController();
+      controller.abort();
+      const handler = mock(() => Promise.resolve({ success: true, filePath: '' }));
+      const onCompletion = mock(() => {});
+      const manager = new FileUploadManager(2, handler, verbosity);
+      manager.setQueue([...testFiles] as any);
+
+      manager.start(onCompletion, controller.signal);
+
+      expect(handler).not.toHaveBeenCalled();
+      expect(onCompletion).toHaveBeenCalledTimes(1);
+    });
   });
 
   describe('helper methods', () => {
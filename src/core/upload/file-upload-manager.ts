@@ -47,10 +47,17 @@ export class FileUploadManager {
   /**
    * Start the upload process
    * @param {Function} onCompletion - Callback function to call when all uploads complete
+   * @param {AbortSignal} signal - Cancels the pending uploads; running uploads finish or fail first
    */
-  start(onCompletion: (() => void) | null = null) {
+  start(onCompletion: (() => void) | null = null, signal?: AbortSignal) {
     this.completionCallback = onCompletion;
 
+    if (signal?.aborted) {
+      this.cancelAll();
+      return;
+    }
+    signal?.addEventListener("abort", () => this.cancelAll(), { once: true });
+
     // Log the start message
     logger.info(`Starting parallel upload with ${this.maxConcurrency} concurrent uploads...`, this.verbosity);
 
@@ -128,6 +135,11 @@ export class FileUploadManager {
     if (this.checkCompletionInterval) {
       clearInterval(this.checkCompletionInterval);
     }
+
+    // Running uploads report completion when the last of them finishes
+    if (this.activeUploads.size === 0 && this.completionCallback) {
+      this.completionCallback();
+    }
   }
 
   /**
@@ -1,25 +1,20 @@
 /**
  * Tests for HashCache functionality
- * 
+ *
  * These tests focus on verifying the behavior of the HashCache class,
  * not the details of its implementation.
  */
 
 import { expect, describe, it, beforeEach, afterEach, mock, spyOn } from 'bun:test';
 import { HashCache } from './hash-cache';
+import { StateStore } from '../state/state-store';
 import { Verbosity } from '../../interfaces/logger';
 import * as logger from '../../utils/logger';
-import * as path from 'path';
 import fs from 'fs';
 import crypto from 'crypto';
 
 // Mock fs module
 const mockFs = {
-  existsSync: mock((_path: string) => true),
-  promises: {
-    readFile: mock((_path: string, _encoding: string) => Promise.resolve('{"file1.txt":"hash1","file2.txt":"hash2"}')),
-    writeFile: mock((_path: string, _data: string) => Promise.resolve())
-  },
   createReadStream: mock((_path: string) => {
     const mockStream = {
       on: (event: string, callback: (data?: Buffer) => void) => {
@@ -52,9 +47,6 @@ const mockCrypto = {
 // Create a test-friendly version of the HashCache class
 class TestableHashCache extends HashCache {
   private _mockCalculateHash?: (filePath: string) => string;
-  private _mockLoadSuccess?: boolean;
-  private _mockLoadData?: Record<string, string> | null;
-  private _mockSaveSuccess?: boolean;
 
   // Override methods that use file system to use mockable versions instead
   async calculateHash(filePath: string): Promise<string> {
@@ -66,236 +58,223 @@ class TestableHashCache extends HashCache {
   setMockHashCalculator(mockFn: (filePath: string) => string): void {
     this._mockCalculateHash = mockFn;
   }
-
-  // Create mock load implementation
-  async load(): Promise<boolean> {
-    if (this._mockLoadSuccess === false) {
-      return false;
-    }
-
-    if (this._mockLoadData) {
-      this.cache = new Map(Object.entries(this._mockLoadData));
-      return true;
-    }
-
-    return super.load();
-  }
-
-  // Set mock load behavior
-  setMockLoadBehavior(success: boolean, data: Record<string, string> | null = null): void {
-    this._mockLoadSuccess = success;
-    this._mockLoadData = data;
-  }
-
-  // Create mock save implementation
-  async save(): Promise<boolean> {
-    return this._mockSaveSuccess !== false;
-  }
-
-  // Set mock save behavior
-  setMockSaveBehavior(success: boolean): void {
-    this._mockSaveSuccess = success;
-  }
-
-  // Helper to get a normalized path, just like in the original implementation
-  getNormalizedPath(filePath: string): string {
-    return path.normalize(filePath);
-  }
 }
 
 describe('HashCache', () => {
+  let store: StateStore;
   let loggerSpy;
-  let fsExistsSyncSpy;
-  let fsReadFileSpy;
-  let fsWriteFileSpy;
   let fsCreateReadStreamSpy;
   let originalCreateHash;
-  
+
   beforeEach(() => {
+    store = new StateStore(':memory:', { verbosity: Verbosity.Quiet });
+
     // Spy on logger to avoid console output during tests
     loggerSpy = spyOn(logger, 'verbose').mockImplementation(() => {});
     spyOn(logger, 'error').mockImplementation(() => {});
-    
+
     // Mock fs module
-    fsExistsSyncSpy = spyOn(fs, 'existsSync').mockImplementation(mockFs.existsSync);
-    fsReadFileSpy = spyOn(fs.promises, 'readFile').mockImplementation(mockFs.promises.readFile);
-    fsWriteFileSpy = spyOn(fs.promises, 'writeFile').mockImplementation(mockFs.promises.writeFile);
     fsCreateReadStreamSpy = spyOn(fs, 'createReadStream').mockImplementation(mockFs.createReadStream);
-    
+
     // Mock crypto module
     originalCreateHash = crypto.createHash;
     spyOn(crypto, 'createHash').mockImplementation(mockCrypto.createHash);
   });
-  
+
   afterEach(() => {
     // Restore original implementations
     loggerSpy.mockRestore();
-    fsExistsSyncSpy.mockRestore();
-    fsReadFileSpy.mockRestore();
-    fsWriteFileSpy.mockRestore();
     fsCreateReadStreamSpy.mockRestore();
     crypto.createHash = originalCreateHash;
+    store.close();
   });
-  
+
   describe('Basic functionality', () => {
     it('should initialize with the provided parameters', () => {
-      const cache = new TestableHashCache('/test/path.json', Verbosity.Verbose);
-      
-      expect(cache.cachePath).toBe('/test/path.json');
+      const cache = new TestableHashCache(store, Verbosity.Verbose);
+
+      expect(cache.store).toBe(store);
       expect(cache.verbosity).toBe(Verbosity.Verbose);
-      expect(cache.cache.size).toBe(0);
+      expect(cache.size).toBe(0);
     });
-    
+
     it('should use default verbosity when not provided', () => {
-      const cache = new TestableHashCache('/test/path.json');
-      
+      const cache = new TestableHashCache(store);
+
       expect(cache.verbosity).toBe(Verbosity.Normal);
     });
   });
-  
+
   // Additional test for the core functionality
   it('should calculate a hash for a file', async () => {
-    const cache = new HashCache('/test/path.json');
+    const cache = new HashCache(store);
     const result = await cache.calculateHash('/path/to/file.txt');
-    
+
     expect(result).toBe('mock-hash-value');
     expect(fs.createReadStream).toHaveBeenCalledWith('/path/to/file.txt');
     expect(crypto.createHash).toHaveBeenCalled();
   });
-  
+
   describe('Cache operations', () => {
     it('should update a hash in the cache', () => {
-      const cache = new TestableHashCache('/test/path.json');
-      const filePath = '/test/file.txt';
-      const normalizedPath = cache.getNormalizedPath(filePath);
-      
-      cache.updateHash(filePath, 'test-hash-value');
-      
+      const cache = new TestableHashCache(store);
+
+      cache.updateHash('/test/./file.txt', 'test-hash-value');
+
       // The path should be normalized internally
-      expect(cache.cache.get(normalizedPath)).toBe('test-hash-value');
+      expect(store.getFile('/test/file.txt')?.hash).toBe('test-hash-value');
     });
-    
+
+    it('should keep what is known about the upload when updating a hash', () => {
+      const cache = new TestableHashCache(store);
+      store.putFile({ path: '/test/file.txt', hash: 'old-hash', remotePath: 'backup/file.txt.gz', compressed: true });
+
+      cache.updateHash('/test/file.txt', 'old-hash', { size: 10, mtime: 1000, inode: 7 });
+
+      expect(store.getFile('/test/file.txt')).toMatchObject({ remotePath: 'backup/file.txt.gz', compressed: true, size: 10 });
+    });
+
     it('should return the correct cache size', () => {
-      const cache = new TestableHashCache('/test/path.json');
-      
+      const cache = new TestableHashCache(store);
+
       expect(cache.size).toBe(0);
-      
+
       cache.updateHash('file1.txt', 'hash1');
       cache.updateHash('file2.txt', 'hash2');
-      
+
       expect(cache.size).toBe(2);
     });
-    
-    it('should load cache data successfully', async () => {
-      const cache = new TestableHashCache('/test/path.json');
-      cache.setMockLoadBehavior(true, { 'file1.txt': 'hash1', 'file2.txt': 'hash2' });
-      
-      const result = await cache.load();
-      
-      expect(result).toBe(true);
-      expect(cache.cache.size).toBe(2);
-      expect(cache.cache.get('file1.txt')).toBe('hash1');
-      expect(cache.cache.get('file2.txt')).toBe('hash2');
-    });
-    
-    it('should handle load failures gracefully', async () => {
-      const cache = new TestableHashCache('/test/path.json');
-      cache.setMockLoadBehavior(false);
-      
-      const result = await cache.load();
-      
-      expect(result).toBe(false);
+
+    it('should forget removed files', () => {
+      const cache = new TestableHashCache(store);
+      cache.updateHash('/test/file.txt', 'hash1');
+
+      cache.remove('/test/file.txt');
+
+      expect(cache.size).toBe(0);
     });
-    
-    it('should save the cache successfully', async () => {
-      const cache = new TestableHashCache('/test/path.json');
-      cache.setMockSaveBehavior(true);
-      
+
+    it('should write pending hashes to the store on save', () => {
+      const cache = new TestableHashCache(store);
+      const flushSpy = spyOn(store, 'flush');
+
       cache.updateHash('file1.txt', 'hash1');
-      const result = await cache.save();
-      
-      expect(result).toBe(true);
+      cache.save();
+
+      expect(flushSpy).toHaveBeenCalled();
+    });
+  });
+
+  describe('Metadata change detection', () => {
+    const metadata = { size: 1024, mtime: 1700000000000, inode: 42 };
+
+    it('should return the cached hash when size, mtime and inode match', () => {
+      const cache = new TestableHashCache(store);
+      cache.updateHash('/test/file.txt', 'cached-hash', metadata);
+
+      expect(cache.getUnchangedHash('/test/file.txt', { ...metadata })).toBe('cached-hash');
+    });
+
+    it('should require hashing when any metadata differs', () => {
+      const cache = new TestableHashCache(store);
+      cache.updateHash('/test/file.txt', 'cached-hash', metadata);
+
+      expect(cache.getUnchangedHash('/test/file.txt', { ...metadata, size: 2048 })).toBeUndefined();
+      expect(cache.getUnchangedHash('/test/file.txt', { ...metadata, mtime: 1700000000001 })).toBeUndefined();
+      expect(cache.getUnchangedHash('/test/file.txt', { ...metadata, inode: 43 })).toBeUndefined();
+    });
+
+    it('should require hashing for entries without metadata', () => {
+      const cache = new TestableHashCache(store);
+      cache.updateHash('/test/file.txt', 'cached-hash');
+
+      expect(cache.getUnchangedHash('/test/file.txt', metadata)).toBeUndefined();
     });
-    
-    it('should handle save failures gracefully', async () => {
-      const cache = new TestableHashCache('/test/path.json');
-      cache.setMockSaveBehavior(false);
-      
-      const result = await cache.save();
-      
-      expect(result).toBe(false);
+
+    it('should not store anything when a file is checked', async () => {
+      const cache = new TestableHashCache(store);
+      cache.setMockHashCalculator(() => 'new-hash');
+
+      await cache.hasChanged('/test/file.txt');
+
+      expect(cache.getUnchangedHash('/test/file.txt', metadata)).toBeUndefined();
+      expect(cache.size).toBe(0);
     });
   });
-  
+
   describe('File change detection', () => {
     it('should detect that a file has changed when hash differs', async () => {
-      const cache = new TestableHashCache('/test/path.json');
+      const cache = new TestableHashCache(store);
       const filePath = '/test/file.txt';
-      const normalizedPath = cache.getNormalizedPath(filePath);
-      
+
       // Pre-populate the cache with a hash
       cache.updateHash(filePath, 'old-hash');
-      
+
       // Configure the hash calculator to return a different hash
       cache.setMockHashCalculator(() => 'new-hash');
-      
-      // Mock save to prevent actual file system operations
-      cache.setMockSaveBehavior(true);
-      
+
       const hasChanged = await cache.hasChanged(filePath);
-      
+
+      // Detection leaves the cache alone until the file is uploaded
       expect(hasChanged).toBe(true);
-      expect(cache.cache.get(normalizedPath)).toBe('new-hash');
+      expect(store.getFile(filePath)?.hash).toBe('old-hash');
     });
-    
+
     it('should detect that a file is unchanged when hash matches', async () => {
-      const cache = new TestableHashCache('/test/path.json');
+      const cache = new TestableHashCache(store);
       const filePath = '/test/file.txt';
-      const normalizedPath = cache.getNormalizedPath(filePath);
       const hash = 'same-hash';
-      
+
       // Pre-populate the cache with a hash
       cache.updateHash(filePath, hash);
-      
+
       // Configure the hash calculator to return the same hash
       cache.setMockHashCalculator(() => hash);
-      
+
       const hasChanged = await cache.hasChanged(filePath);
-      
+
       expect(hasChanged).toBe(false);
-      expect(cache.cache.get(normalizedPath)).toBe(hash);
+      expect(store.getFile(filePath)?.hash).toBe(hash);
     });
-    
+
     it('should treat new files as changed', async () => {
-      const cache = new TestableHashCache('/test/path.json');
+      const cache = new TestableHashCache(store);
       const filePath = '/test/new-file.txt';
-      const normalizedPath = cache.getNormalizedPath(filePath);
-      
+
       // Configure the hash calculator
-      const hash = 'new-file-hash';
-      cache.setMockHashCalculator(() => hash);
-      
-      // Mock save to prevent actual file system operations
-      cache.setMockSaveBehavior(true);
-      
+      cache.setMockHashCalculator(() => 'new-file-hash');
+
       const hasChanged = await cache.hasChanged(filePath);
-      
+
       expect(hasChanged).toBe(true);
-      expect(cache.cache.get(normalizedPath)).toBe(hash);
+      expect(store.getFile(filePath)).toBeUndefined();
     });
-    
+
+    it('should use a known hash instead of reading the file', async () => {
+      const cache = new TestableHashCache(store);
+      cache.updateHash('/test/file.txt', 'known-hash');
+      cache.setMockHashCalculator(() => {
+        throw new Error('File should not be read');
+      });
+
+      const hasChanged = await cache.hasChanged('/test/file.txt', 'known-hash');
+
+      expect(hasChanged).toBe(false);
+    });
+
     it('should handle errors during change detection gracefully', async () => {
-      const cache = new TestableHashCache('/test/path.json');
-      
+      const cache = new TestableHashCache(store);
+      cache.updateHash('/test/file.txt', 'old-hash');
+
       // Configure the hash calculator to throw an error
       cache.setMockHashCalculator(() => {
         throw new Error('Test error');
       });
-      
+
       const hasChanged = await cache.hasChanged('/test/file.txt');
-      
+
       // Should assume file has changed if an error occurs
       expect(hasChanged).toBe(true);
     });
   });
-}); 
\ No newline at end of file
+});
@@ -4,65 +4,50 @@
  */
 
 import fs from "node:fs";
-import path from "node:path";
 import crypto from "node:crypto";
 import { Verbosity, verbose as logVerbose, error as logError } from "../../utils/logger";
+import { StateStore } from "../state/state-store";
+
+/**
+ * File metadata used to detect changes without reading the file
+ */
+export interface FileMetadata {
+  size: number;
+  mtime: number; // Modification time in milliseconds
+  inode: number;
+}
+
+/**
+ * A cached hash together with the metadata the file had when it was hashed,
+ * as kept in the JSON hash cache of older versions
+ */
+export interface HashCacheEntry extends Partial<FileMetadata> {
+  hash: string;
+}
 
 /**
  * HashCache class to manage file hash caching
+ * Hashes live in the state store, which writes them in batches
  */
 export class HashCache {
-  cachePath: string;
+  store: StateStore;
   verbosity: number;
-  cache: Map<string, string>;
 
   /**
    * Create a new HashCache instance
-   * @param {string} cachePath - Path to the cache file
+   * @param {StateStore} store - State store holding the hashes
    * @param {number} verbosity - Verbosity level
    */
-  constructor(cachePath: string, verbosity: number = Verbosity.Normal) {
-    this.cachePath = cachePath;
+  constructor(store: StateStore, verbosity: number = Verbosity.Normal) {
+    this.store = store;
     this.verbosity = verbosity;
-    this.cache = new Map();
   }
 
   /**
-   * Load cached hashes from file
-   * @returns {Promise<boolean>} Success status
+   * Write pending hash updates to the state store
    */
-  async load(): Promise<boolean> {
-    try {
-      if (fs.existsSync(this.cachePath)) {
-        const data = await fs.promises.readFile(this.cachePath, "utf8");
-        const cache: Record<string, string> = JSON.parse(data);
-        this.cache = new Map(Object.entries(cache));
-        logVerbose(`Loaded hash cache from ${this.cachePath}`, this.verbosity);
-        return true;
-      }
-      return false;
-    } catch (error) {
-      const errorMessage = error instanceof Error ? error.message : String(error);
-      logError(`Error loading hash cache: ${errorMessage}`);
-      return false;
-    }
-  }
-
-  /**
-   * Save cached hashes to file
-   * @returns {Promise<boolean>} Success status
-   */
-  async save(): Promise<boolean> {
-    try {
-      const cache = Object.fromEntries(this.cache);
-      await fs.promises.writeFile(this.cachePath, JSON.stringify(cache, null, 2));
-      logVerbose(`Saved hash cache to ${this.cachePath}`, this.verbosity);
-      return true;
-    } catch (error) {
-      const errorMessage = error instanceof Error ? error.message : String(error);
-      logVerbose(`Error saving hash cache: ${errorMessage}`, this.verbosity);
-      return false;
-    }
+  save(): void {
+    this.store.flush();
   }
 
   /**
@@ -81,37 +66,54 @@ export class HashCache {
     });
   }
 
+  /**
+   * Get the cached hash of a file if its size, modification time and inode are unchanged
+   * @param {string} filePath - Path to the file
+   * @param {FileMetadata} metadata - Current metadata of the file
+   * @returns {string | undefined} The cached hash, or undefined if the file must be hashed
+   */
+  getUnchangedHash(filePath: string, metadata: FileMetadata): string | undefined {
+    const entry = this.store.getFile(filePath);
+
+    if (
+      !entry ||
+      entry.size === undefined || entry.mtime === undefined || entry.inode === undefined ||
+      entry.size !== metadata.size ||
+      entry.mtime !== metadata.mtime ||
+      entry.inode !== metadata.inode
+    ) {
+      return undefined;
+    }
+
+    return entry.hash;
+  }
+
   /**
    * Check if a file has changed by comparing its hash with a stored hash
+   * Only reads the cache; callers record new hashes with updateHash once the file is uploaded,
+   * so detection is safe to run as a preview
    * @param {string} filePath - Path to the file
+   * @param {string} knownHash - Hash already calculated by the caller, to avoid reading the file again
    * @returns {Promise<boolean>} True if the file has changed
    */
-  async hasChanged(filePath: string): Promise<boolean> {
+  async hasChanged(filePath: string, knownHash?: string): Promise<boolean> {
     try {
-      // Normalize the file path
-      const normalizedPath = path.normalize(filePath);
-
-      const currentHash = await this.calculateHash(normalizedPath);
-      const storedHash = this.cache.get(normalizedPath);
+      const storedEntry = this.store.getFile(filePath);
 
       // If no stored hash exists, file has changed
-      if (!storedHash) {
-        logVerbose(`No cached hash for ${normalizedPath}, marking as changed`, this.verbosity);
-        this.cache.set(normalizedPath, currentHash);
-        await this.save();
+      if (!storedEntry) {
+        logVerbose(`No cached hash for ${filePath}, marking as changed`, this.verbosity);
         return true;
       }
 
       // Compare hashes
-      const hasChanged = currentHash !== storedHash;
+      const currentHash = knownHash ?? await this.calculateHash(filePath);
+      const hasChanged = currentHash !== storedEntry.hash;
 
-      // Update stored hash if file has changed
       if (hasChanged) {
-        logVerbose(`File hash changed for ${normalizedPath}`, this.verbosity);
-        this.cache.set(normalizedPath, currentHash);
-        await this.save();
+        logVerbose(`File hash changed for ${filePath}`, this.verbosity);
       } else {
-        logVerbose(`File ${normalizedPath} unchanged (hash match)`, this.verbosity);
+        logVerbose(`File ${filePath} unchanged (hash match)`, this.verbosity);
       }
 
       return hasChanged;
@@ -123,14 +125,28 @@ export class HashCache {
   }
 
   /**
-   * Update the hash for a file
+   * Update the hash for a file, keeping what the store knows about its upload
    * @param {string} filePath - Path to the file
    * @param {string} hash - Hash to store
+   * @param {FileMetadata} metadata - Metadata of the file when it was hashed
+   */
+  updateHash(filePath: string, hash: string, metadata?: FileMetadata): void {
+    this.store.putFile({
+      ...this.store.getFile(filePath),
+      path: filePath,
+      hash,
+      size: metadata?.size,
+      mtime: metadata?.mtime,
+      inode: metadata?.inode
+    });
+  }
+
+  /**
+   * Remove the hash for a file
+   * @param {string} filePath - Path to the file
    */
-  updateHash(filePath: string, hash: string): void {
-    const normalizedPath = path.normalize(filePath);
-    this.cache.set(normalizedPath, hash);
-    // Intentionally not saving here for performance; caller should call save() when appropriate
+  remove(filePath: string): void {
+    this.store.deleteFile(filePath);
   }
 
   /**
@@ -138,6 +154,6 @@ export class HashCache {
    * @returns {number} Cache size
    */
   get size() {
-    return this.cache.size;
+    return this.store.countFiles();
   }
 }
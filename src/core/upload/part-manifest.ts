@@ -0,0 +1,138 @@
+/**
+ * Part Manifest
+ * Large files uploaded in chunks are stored as a folder of parts next to where the file
+ * would be, e.g. /Backups/vm.img.parts/upload-1f3a9c0e52b7/part-00000, together with a
+ * manifest that lists every part with its size and checksum, so a restore can reassemble
+ * and verify the file
+ */
+
+import { open, readFile, rm } from "node:fs/promises";
+import { createHash } from "node:crypto";
+import { StorageBackend, StorageDownloadResult } from "../../interfaces/storage";
+
+// Suffix of the remote folder holding the parts of a file
+export const PARTS_SUFFIX = ".parts";
+
+// Name of the manifest inside the parts folder
+export const PART_MANIFEST_FILE = "manifest.json";
+
+export const PART_MANIFEST_VERSION = 1;
+
+/**
+ * A single part of a chunked file
+ */
+export interface PartEntry {
+  name: string; // Path of the part inside the parts folder
+  size: number;
+  checksum: string; // SHA-256 of the part
+}
+
+/**
+ * Describes how the parts of a chunked file make up the whole file
+ */
+export interface PartManifest {
+  version: number;
+  size: number; // Size of the whole file in bytes
+  checksum: string; // SHA-256 of the whole file
+  chunkSize: number;
+  parts: PartEntry[];
+}
+
+/**
+ * Get the remote folder holding the parts of a file
+ * @param {string} remotePath - Remote path the file would have if uploaded in one piece
+ */
+export function getPartsRemotePath(remotePath: string): string {
+  return `${remotePath}${PARTS_SUFFIX}`;
+}
+
+/**
+ * Get the path a chunked file is restored to, without the parts suffix
+ * @param {string} partsPath - Path of the parts folder
+ */
+export function getChunkedOriginalPath(partsPath: string): string {
+  return partsPath.endsWith(PARTS_SUFFIX) ? partsPath.slice(0, -PARTS_SUFFIX.length) : partsPath;
+}
+
+/**
+ * Check whether a remote path names the parts folder of a chunked file
+ */
+export function isPartsPath(remotePath: string): boolean {
+  return remotePath.endsWith(PARTS_SUFFIX);
+}
+
+/**
+ * Name of a part, padded so the parts sort in order
+ * @param {number} index - Zero-based index of the chunk
+ */
+export function getPartName(index: number): string {
+  return `part-${String(index).padStart(5, "0")}`;
+}
+
+/**
+ * Download the parts of a chunked file and join them into the local file
+ * Every part and the whole file are checked against the manifest; a file that doesn't
+ * match is removed instead of being left behind half-restored
+ * @param {StorageBackend} backend - Backend holding the parts
+ * @param {string} partsPath - Remote path of the parts folder
+ * @param {string} localPath - Local path of the reassembled file
+ * @returns {Promise<StorageDownloadResult>} Download result
+ */
+export async function downloadParts(
+  backend: StorageBackend,
+  partsPath: string,
+  localPath: string
+): Promise<StorageDownloadResult> {
+  const partPath = `${localPath}.part`;
+
+  try {
+    const manifestResult = await backend.downloadFile(`${partsPath}/${PART_MANIFEST_FILE}`, partPath);
+    if (!manifestResult.success) {
+      throw new Error(`Failed to download the part manifest: ${manifestResult.error}`);
+    }
+    const manifest = JSON.parse(await readFile(partPath, "utf8")) as PartManifest;
+
+    const fileHash = createHash("sha256");
+    const output = await open(localPath, "w");
+    try {
+      for (const part of manifest.parts) {
+        await rm(partPath, { force: true });
+        const partResult = await backend.downloadFile(`${partsPath}/${part.name}`, partPath);
+        if (!partResult.success) {
+          throw new Error(`Failed to download ${part.name}: ${partResult.error}`);
+        }
+
+        const data = await readFile(partPath);
+        if (data.length !== part.size || createHash("sha256").update(data).digest("hex") !== part.checksum) {
+          throw new Error(`Part ${part.name} doesn't match the manifest`);
+        }
+
+        fileHash.update(data);
+        await output.write(data);
+      }
+    } finally {
+      await output.close();
+    }
+
+    if (fileHash.digest("hex") !== manifest.checksum) {
+      throw new Error("Reassembled file doesn't match the checksum in the manifest");
+    }
+
+    return {
+      success: true,
+      remotePath: partsPath,
+      localPath
+    };
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : String(error);
+    await rm(localPath, { force: true });
+    return {
+      success: false,
+      remotePath: partsPath,
+      localPath,
+      error: errorMessage
+    };
+  } finally {
+    await rm(partPath, { force: true });
+  }
+}
@@ -111,6 +111,31 @@ describe('ProgressTracker', () => {
       
       expect(tracker.isComplete()).toBe(true);
     });
+
+    it('should report bytes, scan duration and queue depth', () => {
+      const tracker = new TestableProgressTracker();
+      tracker.recordScanDuration(1500);
+      tracker.initialize(10);
+      tracker.attachQueue({ pendingCount: 6, activeCount: 2 });
+
+      tracker.recordSuccess(300);
+      tracker.recordSuccess(200);
+      tracker.recordSkipped();
+      tracker.recordCompressionSavings(700);
+
+      expect(tracker.getProgress()).toEqual({
+        totalFiles: 10,
+        completedFiles: 3,
+        skippedFiles: 1,
+        failedFiles: 0,
+        percentage: 30,
+        uploadedBytes: 500,
+        savedBytes: 700,
+        pendingUploads: 6,
+        activeUploads: 2,
+        scanDurationMs: 1500
+      });
+    });
   });
   
   describe('Progress updates', () => {
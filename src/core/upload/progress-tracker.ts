@@ -6,6 +6,38 @@
 import chalk from "chalk";
 import * as logger from "../../utils/logger";
 
+/**
+ * Progress of an upload at a point in time
+ */
+export interface ProgressSnapshot {
+  totalFiles: number;
+  completedFiles: number;
+  skippedFiles: number; // Completed files that were unchanged and not uploaded
+  failedFiles: number;
+  percentage: number;
+  uploadedBytes: number; // Bytes sent, after compression and encryption
+  savedBytes: number; // Bytes compression kept from being sent
+  pendingUploads: number; // Files waiting in the upload queue
+  activeUploads: number;
+  scanDurationMs?: number;
+}
+
+/**
+ * A file that failed to upload, and why
+ */
+export interface FileFailure {
+  path: string;
+  error?: string;
+}
+
+/**
+ * The upload queue whose depth is reported, e.g. a FileUploadManager
+ */
+export interface UploadQueue {
+  readonly pendingCount: number;
+  readonly activeCount: number;
+}
+
 /**
  * ProgressTracker class for monitoring upload progress
  */
@@ -13,7 +45,13 @@ export class ProgressTracker {
   verbosity: number;
   totalFiles: number;
   completedFiles: number;
+  skippedFiles: number;
   failedFiles: number;
+  failures: FileFailure[];
+  uploadedBytes: number;
+  savedBytes: number;
+  scanDurationMs?: number;
+  queue: UploadQueue | null;
   updateInterval: NodeJS.Timeout | null;
   isTrackingActive: boolean;
   originalConsoleLog: typeof console.log;
@@ -32,7 +70,12 @@ export class ProgressTracker {
     this.verbosity = verbosity;
     this.totalFiles = 0;
     this.completedFiles = 0;
+    this.skippedFiles = 0;
     this.failedFiles = 0;
+    this.failures = [];
+    this.uploadedBytes = 0;
+    this.savedBytes = 0;
+    this.queue = null;
     this.updateInterval = null;
     this.isTrackingActive = false;
 
@@ -59,7 +102,11 @@ export class ProgressTracker {
   initialize(totalFiles: number) {
     this.totalFiles = totalFiles;
     this.completedFiles = 0;
+    this.skippedFiles = 0;
     this.failedFiles = 0;
+    this.failures = [];
+    this.uploadedBytes = 0;
+    this.savedBytes = 0;
     this.lastMessageTime = 0;
     this.hasDrawnProgressBar = false;
     this.inOverrideFunction = false;
@@ -87,7 +134,7 @@ export class ProgressTracker {
             // If we've shown a progress bar, clear it
             if (self.hasDrawnProgressBar) {
               // Clear the line with progress bar
-              process.stdout.write('\r\x1B[K');
+              logger.write('\r\x1B[K');
             }
 
             // Print the message
@@ -96,7 +143,7 @@ export class ProgressTracker {
             // Ensure the message ends with a newline
             const lastArg = args[args.length - 1];
             if (typeof lastArg === 'string' && !lastArg.endsWith('\n')) {
-              process.stdout.write('\n');
+              logger.write('\n');
             }
 
             // Record when this message was shown
@@ -135,16 +182,55 @@ export class ProgressTracker {
 
   /**
    * Record a successful file upload
+   * @param {number} bytes - Bytes sent for the file, 0 if it didn't need uploading
    */
-  recordSuccess() {
+  recordSuccess(bytes = 0) {
     this.completedFiles++;
+    this.uploadedBytes += bytes;
+  }
+
+  /**
+   * Record a file that was unchanged and didn't need uploading
+   */
+  recordSkipped() {
+    this.completedFiles++;
+    this.skippedFiles++;
+  }
+
+  /**
+   * Record the bytes compression saved on a file
+   * @param {number} bytes - Original size minus compressed size
+   */
+  recordCompressionSavings(bytes: number) {
+    this.savedBytes += bytes;
+  }
+
+  /**
+   * Record how long scanning the source took
+   * @param {number} durationMs - Scan duration in milliseconds
+   */
+  recordScanDuration(durationMs: number) {
+    this.scanDurationMs = durationMs;
+  }
+
+  /**
+   * Report the depth of an upload queue along with the progress
+   * @param {UploadQueue} queue - The queue, e.g. a FileUploadManager
+   */
+  attachQueue(queue: UploadQueue) {
+    this.queue = queue;
   }
 
   /**
    * Record a failed file upload
+   * @param {string} filePath - The file that failed, if known
+   * @param {string} error - Why it failed
    */
-  recordFailure() {
+  recordFailure(filePath?: string, error?: string) {
     this.failedFiles++;
+    if (filePath) {
+      this.failures.push({ path: filePath, error });
+    }
   }
 
   /**
@@ -158,7 +244,7 @@ export class ProgressTracker {
     this.isTrackingActive = true;
     
     // Add a blank line for separation
-    process.stdout.write('\n');
+    logger.write('\n');
     
     // Start a new interval
     this.updateInterval = setInterval(() => this.displayProgress(), intervalMs);
@@ -181,7 +267,7 @@ export class ProgressTracker {
     
     // Clear the current line to remove progress bar
     if (this.hasDrawnProgressBar) {
-      process.stdout.write('\r\x1B[K');
+      logger.write('\r\x1B[K');
     }
   }
 
@@ -200,38 +286,40 @@ export class ProgressTracker {
     
     // If we've already drawn a progress bar, clear it first
     if (this.hasDrawnProgressBar) {
-      process.stdout.write('\r\x1B[K');
+      logger.write('\r\x1B[K');
     } else {
       this.hasDrawnProgressBar = true;
     }
     
     // Draw the progress bar without a newline
-    process.stdout.write(`[${bar}] ${percentage}% | ${processed}/${this.totalFiles}\n`);
+    logger.write(`[${bar}] ${percentage}% | ${processed}/${this.totalFiles}\n`);
     
     // If all files processed, add a newline and stop updates
     if (processed === this.totalFiles && this.totalFiles > 0) {
-      process.stdout.write('\n');
+      logger.write('\n');
       this.stopProgressUpdates();
     }
   }
 
   /**
-   * Display a summary of the upload results
+   * Display a summary of the results
+   * @param {string} operation - Name of the operation shown in the summary
+   * @param {string} completedVerb - Past tense verb describing a processed file
    */
-  displaySummary() {
+  displaySummary(operation = "Upload", completedVerb = "uploaded") {
     // Ensure we've cleared the progress bar
     if (this.isTrackingActive) {
       this.stopProgressUpdates();
     }
 
     // Add a newline for clean separation
-    process.stdout.write('\n');
+    logger.write('\n');
 
     // Always show the final summary, regardless of verbosity
     if (this.failedFiles === 0) {
-      logger.always(chalk.green(`Upload completed successfully! All ${this.completedFiles} files uploaded.`));
+      logger.always(chalk.green(`${operation} completed successfully! All ${this.completedFiles} files ${completedVerb}.`));
     } else {
-      logger.always(chalk.yellow(`Upload completed with issues: ${this.completedFiles} succeeded, ${this.failedFiles} failed.`));
+      logger.always(chalk.yellow(`${operation} completed with issues: ${this.completedFiles} succeeded, ${this.failedFiles} failed.`));
     }
   }
 
@@ -251,4 +339,23 @@ export class ProgressTracker {
   isComplete() {
     return (this.completedFiles + this.failedFiles) === this.totalFiles && this.totalFiles > 0;
   }
-} 
\ No newline at end of file
+
+  /**
+   * Get the current counts, e.g. to report them over the status API
+   * @returns {ProgressSnapshot} The progress so far
+   */
+  getProgress(): ProgressSnapshot {
+    return {
+      totalFiles: this.totalFiles,
+      completedFiles: this.completedFiles,
+      skippedFiles: this.skippedFiles,
+      failedFiles: this.failedFiles,
+      percentage: this.getProgressPercentage(),
+      uploadedBytes: this.uploadedBytes,
+      savedBytes: this.savedBytes,
+      pendingUploads: this.queue?.pendingCount ?? 0,
+      activeUploads: this.queue?.activeCount ?? 0,
+      scanDurationMs: this.scanDurationMs
+    };
+  }
+}
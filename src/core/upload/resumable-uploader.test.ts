@@ -2,11 +2,13 @@
  * Tests for ResumableUploader
  */
 
-import { expect, describe, beforeEach, afterEach, it, mock, jest } from 'bun:test';
+import { expect, describe, beforeEach, afterEach, it, mock, jest, spyOn } from 'bun:test';
 import { ResumableUploader } from './resumable-uploader';
 import { InternxtService } from '../internxt/internxt-service';
 import { Verbosity } from '../../interfaces/logger';
-import { writeFile, unlink, mkdir, rmdir } from 'node:fs/promises';
+import { LocalFsBackend } from '../storage/local-fs-backend';
+import { PartManifest, downloadParts } from './part-manifest';
+import { writeFile, unlink, mkdir, rmdir, readdir, readFile, utimes } from 'node:fs/promises';
 import { existsSync } from 'node:fs';
 import { join } from 'node:path';
 import { tmpdir } from 'node:os';
@@ -21,8 +23,19 @@ const mockUploadFileWithProgress = mock(() => Promise.resolve({
   error: undefined
 }));
 
+const mockUploadFile = mock(() => Promise.resolve({
+  success: true,
+  filePath: '/local/path',
+  remotePath: '/remote/path',
+  output: 'Upload successful'
+}));
+
 const mockInternxtService = {
-  uploadFileWithProgress: mockUploadFileWithProgress
+  uploadFileWithProgress: mockUploadFileWithProgress,
+  uploadFile: mockUploadFile,
+  createFolder: mock(() => Promise.resolve({ success: true, path: '/remote' })),
+  listFiles: mock(() => Promise.resolve({ success: true, files: [] })),
+  deleteFile: mock(() => Promise.resolve(true))
 } as unknown as InternxtService;
 
 describe('ResumableUploader', () => {
@@ -34,7 +47,7 @@ describe('ResumableUploader', () => {
     jest.useFakeTimers();
     tempDir = join(tmpdir(), `resumable-test-${Date.now()}`);
     resumeDir = join(tempDir, 'resume');
-    await mkdir(tempDir, { recursive: true });
+    await mkdir(resumeDir, { recursive: true });
 
     uploader = new ResumableUploader(mockInternxtService, {
       verbosity: Verbosity.Normal,
@@ -97,7 +110,7 @@ describe('ResumableUploader', () => {
   });
 
   describe('calculateChecksum', () => {
-    it('should calculate SHA256 checksum correctly', async () => {
+    it('should calculate the MD5 checksum used by the file scanner', async () => {
       const testFile = join(tempDir, 'checksum-test.txt');
       const content = 'Hello, World!';
       await writeFile(testFile, content);
@@ -105,7 +118,7 @@ describe('ResumableUploader', () => {
       // Access private method through any cast
       const checksum = await (uploader as any).calculateChecksum(testFile);
 
-      const expectedHash = createHash('sha256').update(content).digest('hex');
+      const expectedHash = createHash('md5').update(content).digest('hex');
       expect(checksum).toBe(expectedHash);
     });
 
@@ -351,6 +364,263 @@ describe('ResumableUploader', () => {
       expect(result.error).toBeDefined();
     });
 
+    it('should not retry a cancelled upload', async () => {
+      jest.useRealTimers();
+
+      const testFile = join(tempDir, 'cancel-test.bin');
+      await writeFile(testFile, Buffer.alloc(1024, 0));
+
+      const controller = new AbortController();
+      const testUploader = new ResumableUploader(mockInternxtService, {
+        verbosity: Verbosity.Normal,
+        resumeDir,
+        retryDelayMs: 0,
+        signal: controller.signal
+      });
+      testUploader.shouldUseResumable = () => true;
+
+      mockUploadFileWithProgress.mockClear();
+      mockUploadFileWithProgress.mockImplementation(() => {
+        controller.abort();
+        return Promise.resolve({
+          success: false,
+          filePath: testFile,
+          remotePath: '/remote/cancel.bin',
+          output: '',
+          error: 'The operation was aborted'
+        });
+      });
+
+      const result = await testUploader.uploadLargeFile(testFile, '/remote/cancel.bin');
+
+      expect(result.success).toBe(false);
+      expect(result.error).toBe('Upload cancelled: The operation was aborted');
+      expect(mockUploadFileWithProgress).toHaveBeenCalledTimes(1);
+      expect(await testUploader.canResume(testFile)).toBe(true);
+    });
+
+    it('should upload a large file as parts with a manifest', async () => {
+      jest.useRealTimers();
+
+      const testFile = join(tempDir, 'vm.img');
+      const content = Buffer.from(Array.from({ length: 2500 }, (_, i) => i % 251));
+      await writeFile(testFile, content);
+      const remoteDir = join(tempDir, 'remote');
+      const testUploader = new ResumableUploader(new LocalFsBackend({ rootDir: remoteDir, verbosity: Verbosity.Quiet }), {
+        chunkSize: 1024,
+        verbosity: Verbosity.Quiet,
+        resumeDir
+      });
+      testUploader.shouldUseResumable = () => true;
+
+      const result = await testUploader.uploadLargeFile(testFile, '/Backups/vm.img');
+
+      expect(result).toMatchObject({ success: true, remotePath: '/Backups/vm.img.parts', bytesUploaded: 2500 });
+      const partsDir = join(remoteDir, 'Backups', 'vm.img.parts');
+      const manifest: PartManifest = JSON.parse(await readFile(join(partsDir, 'manifest.json'), 'utf8'));
+      const [uploadFolder] = manifest.parts[0].name.split('/');
+      expect((await readdir(partsDir)).sort()).toEqual([uploadFolder, 'manifest.json'].sort());
+      expect((await readdir(join(partsDir, uploadFolder))).sort()).toEqual(['part-00000', 'part-00001', 'part-00002']);
+      expect(manifest.parts.map(part => part.name)).toEqual(['part-00000', 'part-00001', 'part-00002'].map(name => `${uploadFolder}/${name}`));
+      expect(manifest.size).toBe(2500);
+      expect(manifest.checksum).toBe(createHash('sha256').update(content).digest('hex'));
+      expect(manifest.parts.map(part => part.size)).toEqual([1024, 1024, 452]);
+      expect(manifest.parts[2].checksum).toBe(createHash('sha256').update(content.subarray(2048)).digest('hex'));
+      expect(await testUploader.canResume(testFile)).toBe(false);
+    });
+
+    it('should keep the earlier copy until a new upload of the file is complete', async () => {
+      jest.useRealTimers();
+
+      const testFile = join(tempDir, 'vm.img');
+      await writeFile(testFile, Buffer.alloc(2500, 1));
+      const remoteDir = join(tempDir, 'remote');
+      const backend = new LocalFsBackend({ rootDir: remoteDir, verbosity: Verbosity.Quiet });
+      const upload = backend.uploadFileWithProgress.bind(backend);
+      let linkDown = false;
+      backend.uploadFileWithProgress = async (localPath, remotePath, onProgress) => {
+        if (linkDown && remotePath.endsWith('part-00001')) {
+          return { success: false, filePath: localPath, remotePath, error: 'Connection reset' };
+        }
+        return upload(localPath, remotePath, onProgress);
+      };
+      const testUploader = new ResumableUploader(backend, {
+        chunkSize: 1024,
+        verbosity: Verbosity.Quiet,
+        resumeDir,
+        retryDelayMs: 0
+      });
+      testUploader.shouldUseResumable = () => true;
+      const partsDir = join(remoteDir, 'Backups', 'vm.img.parts');
+      const readManifest = async (): Promise<PartManifest> => JSON.parse(await readFile(join(partsDir, 'manifest.json'), 'utf8'));
+
+      expect((await testUploader.uploadLargeFile(testFile, '/Backups/vm.img')).success).toBe(true);
+      const earlier = await readManifest();
+      const [earlierFolder] = earlier.parts[0].name.split('/');
+
+      await writeFile(testFile, Buffer.alloc(2500, 2));
+      linkDown = true;
+      expect((await testUploader.uploadLargeFile(testFile, '/Backups/vm.img')).success).toBe(false);
+
+      // The manifest still describes the earlier copy, whose parts are all there
+      expect(await readManifest()).toEqual(earlier);
+      const restored = join(tempDir, 'restored.img');
+      await downloadParts(backend, '/Backups/vm.img.parts', restored);
+      expect(await readFile(restored)).toEqual(Buffer.alloc(2500, 1));
+
+      linkDown = false;
+      expect((await testUploader.uploadLargeFile(testFile, '/Backups/vm.img')).success).toBe(true);
+
+      const [newFolder] = (await readManifest()).parts[0].name.split('/');
+      expect(newFolder).not.toBe(earlierFolder);
+      expect((await readdir(partsDir)).sort()).toEqual([newFolder, 'manifest.json'].sort());
+      expect(existsSync(join(remoteDir, '.trash', 'Backups', 'vm.img.parts', earlierFolder))).toBe(true);
+    });
+
+    it('should resume from the first missing chunk', async () => {
+      jest.useRealTimers();
+
+      const testFile = join(tempDir, 'vm.img');
+      await writeFile(testFile, Buffer.alloc(2500, 7));
+      const backend = new LocalFsBackend({ rootDir: join(tempDir, 'remote'), verbosity: Verbosity.Quiet });
+      const uploadedParts: string[] = [];
+      const upload = backend.uploadFileWithProgress.bind(backend);
+      let linkDown = true;
+      backend.uploadFileWithProgress = async (localPath, remotePath, onProgress) => {
+        if (linkDown && remotePath.endsWith('part-00001')) {
+          return { success: false, filePath: localPath, remotePath, error: 'Connection reset' };
+        }
+        uploadedParts.push(remotePath.substring(remotePath.lastIndexOf('/') + 1));
+        return upload(localPath, remotePath, onProgress);
+      };
+      const testUploader = new ResumableUploader(backend, {
+        chunkSize: 1024,
+        verbosity: Verbosity.Quiet,
+        resumeDir,
+        retryDelayMs: 0
+      });
+      testUploader.shouldUseResumable = () => true;
+
+      const failed = await testUploader.uploadLargeFile(testFile, '/Backups/vm.img');
+
+      expect(failed.success).toBe(false);
+      expect(failed.error).toBe('Upload of chunk 2/3 failed after 3 attempts: Connection reset');
+      expect(failed.bytesUploaded).toBe(1024);
+      expect(await testUploader.getUploadProgress(testFile)).toBe(33);
+
+      linkDown = false;
+      uploadedParts.length = 0;
+      const resumed = await testUploader.uploadLargeFile(testFile, '/Backups/vm.img');
+
+      expect(resumed.success).toBe(true);
+      expect(uploadedParts).toEqual(['part-00001', 'part-00002']);
+      const manifest: PartManifest = JSON.parse(await readFile(join(tempDir, 'remote/Backups/vm.img.parts/manifest.json'), 'utf8'));
+      expect(manifest.checksum).toBe(createHash('sha256').update(Buffer.alloc(2500, 7)).digest('hex'));
+    });
+
+    it('should resume a temp file that has another path in the next run', async () => {
+      jest.useRealTimers();
+
+      const firstRun = join(tempDir, '1-vm.img.gz');
+      const secondRun = join(tempDir, '7-vm.img.gz');
+      await writeFile(firstRun, Buffer.alloc(2500, 5));
+      await writeFile(secondRun, Buffer.alloc(2500, 5));
+      const backend = new LocalFsBackend({ rootDir: join(tempDir, 'remote'), verbosity: Verbosity.Quiet });
+      const uploadedParts: string[] = [];
+      const upload = backend.uploadFileWithProgress.bind(backend);
+      let linkDown = true;
+      backend.uploadFileWithProgress = async (localPath, remotePath, onProgress) => {
+        if (linkDown && remotePath.endsWith('part-00002')) {
+          return { success: false, filePath: localPath, remotePath, error: 'Connection reset' };
+        }
+        uploadedParts.push(remotePath.substring(remotePath.lastIndexOf('/') + 1));
+        return upload(localPath, remotePath, onProgress);
+      };
+      const testUploader = new ResumableUploader(backend, {
+        chunkSize: 1024,
+        verbosity: Verbosity.Quiet,
+        resumeDir,
+        retryDelayMs: 0
+      });
+      testUploader.shouldUseResumable = () => true;
+      const key = '/Backups/vm.img';
+
+      const failed = await testUploader.uploadLargeFile(firstRun, '/Backups/vm.img.gz', undefined, { key });
+      expect(failed.success).toBe(false);
+
+      linkDown = false;
+      uploadedParts.length = 0;
+      const resumed = await testUploader.uploadLargeFile(secondRun, '/Backups/vm.img.gz', undefined, { key });
+
+      expect(resumed.success).toBe(true);
+      expect(uploadedParts).toEqual(['part-00002']);
+      expect(await testUploader.canResume(key)).toBe(false);
+    });
+
+    it('should keep a prepared upload file for the next run', async () => {
+      jest.useRealTimers();
+
+      const tempFile = join(tempDir, '1-vm.img.enc');
+      await writeFile(tempFile, Buffer.alloc(2500, 9));
+      const backend = new LocalFsBackend({ rootDir: join(tempDir, 'remote'), verbosity: Verbosity.Quiet });
+      const upload = backend.uploadFileWithProgress.bind(backend);
+      let linkDown = true;
+      backend.uploadFileWithProgress = async (localPath, remotePath, onProgress) => {
+        if (linkDown && remotePath.endsWith('part-00001')) {
+          return { success: false, filePath: localPath, remotePath, error: 'Connection reset' };
+        }
+        return upload(localPath, remotePath, onProgress);
+      };
+      const testUploader = new ResumableUploader(backend, {
+        chunkSize: 1024,
+        verbosity: Verbosity.Quiet,
+        resumeDir,
+        retryDelayMs: 0
+      });
+      testUploader.shouldUseResumable = () => true;
+      const key = '/Backups/vm.img';
+      const source = { path: join(tempDir, 'vm.img'), checksum: 'source-checksum', compressed: false, encrypted: true, keyCheck: 'key-check' };
+
+      const failed = await testUploader.uploadLargeFile(tempFile, '/Backups/vm.img.enc', undefined, { key, source });
+
+      expect(failed.success).toBe(false);
+      expect(existsSync(tempFile)).toBe(false);
+      expect(failed.filePath.startsWith(resumeDir)).toBe(true);
+      expect(await testUploader.findKeptUpload(key, 'changed-checksum')).toBeNull();
+      const kept = await testUploader.findKeptUpload(key, 'source-checksum');
+      expect(kept).toEqual({ filePath: failed.filePath, remotePath: '/Backups/vm.img.enc', source });
+
+      linkDown = false;
+      const resumed = await testUploader.uploadLargeFile(kept!.filePath, kept!.remotePath, undefined, { key, source });
+
+      expect(resumed.success).toBe(true);
+      expect(await readdir(resumeDir)).toEqual([]);
+    });
+
+    it('should reuse a checksum the caller already calculated', async () => {
+      jest.useRealTimers();
+
+      const testFile = join(tempDir, 'vm.img');
+      const content = Buffer.alloc(2500, 3);
+      await writeFile(testFile, content);
+      const remoteDir = join(tempDir, 'remote');
+      const testUploader = new ResumableUploader(new LocalFsBackend({ rootDir: remoteDir, verbosity: Verbosity.Quiet }), {
+        chunkSize: 1024,
+        verbosity: Verbosity.Quiet,
+        resumeDir
+      });
+      testUploader.shouldUseResumable = () => true;
+      const calculateChecksum = spyOn(testUploader as any, 'calculateChecksum');
+      const checksum = createHash('md5').update(content).digest('hex');
+
+      const result = await testUploader.uploadLargeFile(testFile, '/Backups/vm.img', undefined, { checksum });
+
+      expect(result.success).toBe(true);
+      expect(calculateChecksum).not.toHaveBeenCalled();
+      const manifest: PartManifest = JSON.parse(await readFile(join(remoteDir, 'Backups/vm.img.parts/manifest.json'), 'utf8'));
+      expect(manifest.checksum).toBe(createHash('sha256').update(content).digest('hex'));
+    });
+
     it('should call progress callback', async () => {
       const testFile = join(tempDir, 'progress-test.bin');
       const content = Buffer.alloc(101 * 1024 * 1024, 0);
@@ -453,4 +723,100 @@ describe('ResumableUploader', () => {
       expect(canResume).toBe(false);
     });
   });
+
+  describe('cleanupStaleStates', () => {
+    let remoteDir: string;
+    let backend: LocalFsBackend;
+    let linkDown: boolean;
+
+    const createUploader = () => {
+      const testUploader = new ResumableUploader(backend, {
+        chunkSize: 1024,
+        verbosity: Verbosity.Quiet,
+        resumeDir,
+        retryDelayMs: 0
+      });
+      testUploader.shouldUseResumable = () => true;
+      return testUploader;
+    };
+
+    // Leave an encrypted copy of a source file half uploaded, like a run that lost its connection
+    const leaveUnfinished = async (sourcePath: string) => {
+      const tempFile = join(tempDir, '1-vm.img.enc');
+      await writeFile(tempFile, Buffer.alloc(2500, 6));
+      const source = { path: sourcePath, checksum: 'source-checksum', compressed: false, encrypted: true, keyCheck: 'key-check' };
+      linkDown = true;
+      const result = await createUploader().uploadLargeFile(tempFile, '/Backups/vm.img.enc', undefined, { key: '/Backups/vm.img', source });
+      expect(result.success).toBe(false);
+      return (await readdir(join(remoteDir, 'Backups/vm.img.enc.parts')))[0];
+    };
+
+    beforeEach(() => {
+      jest.useRealTimers();
+      remoteDir = join(tempDir, 'remote');
+      backend = new LocalFsBackend({ rootDir: remoteDir, verbosity: Verbosity.Quiet });
+      const upload = backend.uploadFileWithProgress.bind(backend);
+      linkDown = false;
+      backend.uploadFileWithProgress = async (localPath, remotePath, onProgress) => {
+        if (linkDown && remotePath.endsWith('part-00001')) {
+          return { success: false, filePath: localPath, remotePath, error: 'Connection reset' };
+        }
+        return upload(localPath, remotePath, onProgress);
+      };
+    });
+
+    it('should drop uploads of files that are gone, with their copy and parts', async () => {
+      const uploadFolder = await leaveUnfinished(join(tempDir, 'deleted.img'));
+      expect((await readdir(resumeDir)).length).toBe(2);
+
+      expect(await createUploader().cleanupStaleStates()).toBe(1);
+
+      expect(await readdir(resumeDir)).toEqual([]);
+      expect(existsSync(join(remoteDir, 'Backups/vm.img.enc.parts', uploadFolder))).toBe(false);
+      expect(existsSync(join(remoteDir, '.trash/Backups/vm.img.enc.parts', uploadFolder))).toBe(true);
+    });
+
+    it('should keep recent uploads of existing files and drop them once they are old', async () => {
+      const sourcePath = join(tempDir, 'vm.img');
+      await writeFile(sourcePath, 'source');
+      await leaveUnfinished(sourcePath);
+      const testUploader = createUploader();
+
+      expect(await testUploader.cleanupStaleStates()).toBe(0);
+      expect(await testUploader.findKeptUpload('/Backups/vm.img', 'source-checksum')).not.toBeNull();
+
+      const longAgo = new Date(Date.now() - 8 * 24 * 60 * 60 * 1000);
+      for (const name of await readdir(resumeDir)) {
+        await utimes(join(resumeDir, name), longAgo, longAgo);
+      }
+
+      expect(await testUploader.cleanupStaleStates()).toBe(1);
+      expect(await readdir(resumeDir)).toEqual([]);
+    });
+
+    it('should keep parts the manifest lists', async () => {
+      const sourcePath = join(tempDir, 'vm.img');
+      await writeFile(sourcePath, Buffer.alloc(2500, 2));
+      const testUploader = createUploader();
+      expect((await testUploader.uploadLargeFile(sourcePath, '/Backups/vm.img')).success).toBe(true);
+      const manifest: PartManifest = JSON.parse(await readFile(join(remoteDir, 'Backups/vm.img.parts/manifest.json'), 'utf8'));
+      const [uploadFolder] = manifest.parts[0].name.split('/');
+
+      // A run that stopped between writing the manifest and clearing its state
+      await (testUploader as any).saveState({
+        key: join(tempDir, 'gone.img'),
+        filePath: join(tempDir, 'gone.img'),
+        remotePath: '/Backups/vm.img',
+        chunkSize: 1024,
+        totalChunks: 3,
+        uploadedChunks: [0, 1, 2],
+        checksum: 'checksum',
+        uploadFolder,
+        timestamp: Date.now()
+      });
+
+      expect(await testUploader.cleanupStaleStates()).toBe(1);
+      expect(existsSync(join(remoteDir, 'Backups/vm.img.parts', uploadFolder))).toBe(true);
+    });
+  });
 });
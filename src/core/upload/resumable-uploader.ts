@@ -3,92 +3,145 @@
  * Handles chunked uploads with resume capability for large files
  */
 
-import { existsSync, mkdirSync } from "node:fs";
-import { readFile, writeFile, unlink } from "node:fs/promises";
+import { existsSync } from "node:fs";
+import { copyFile, mkdir, readdir, readFile, rename, stat, writeFile, unlink } from "node:fs/promises";
 import { dirname, join, basename } from "node:path";
 import { tmpdir } from "node:os";
-import { createHash } from "node:crypto";
+import { createHash, randomBytes } from "node:crypto";
 import * as logger from "../../utils/logger";
-import { InternxtService } from "../internxt/internxt-service";
-import { ChunkedUploadState } from "../../interfaces/internxt";
+import { TempWorkspace, getTempPath } from "../workspace/temp-workspace";
+import { ChunkedUploadState, PreparedUploadSource } from "../../interfaces/internxt";
+import { StorageBackend } from "../../interfaces/storage";
+import { calculateChecksum } from "../../utils/fs-utils";
+import {
+  PartManifest,
+  PART_MANIFEST_FILE,
+  PART_MANIFEST_VERSION,
+  getPartName,
+  getPartsRemotePath
+} from "./part-manifest";
 
 export interface ResumableUploadOptions {
   chunkSize?: number; // in bytes, default 50MB
-  resumeDir?: string;
+  resumeDir?: string; // Keeps the upload state between runs, default a folder in the system temp folder
+  workspace?: TempWorkspace; // Holds the chunk being uploaded, default the system temp folder
   verbosity?: number;
   retryDelayMs?: number; // Delay between retries in ms (for testing, default uses exponential backoff)
+  signal?: AbortSignal; // Stops retrying when the backup is cancelled
+}
+
+/**
+ * Options of a single large file upload
+ */
+export interface LargeFileUploadOptions {
+  checksum?: string; // Checksum of the file if already known (FileInfo.checksum), so the file isn't read an extra time
+  key?: string; // Identifies the upload across runs, default the file path; temp files need a key that doesn't change
+  source?: PreparedUploadSource; // The file is a compressed or encrypted temp file, kept in the resume dir if the upload doesn't finish
+}
+
+/**
+ * A compressed or encrypted copy an earlier run kept for an upload it didn't finish
+ */
+export interface KeptUpload {
+  filePath: string; // The copy, in the resume dir
+  remotePath: string;
+  source: PreparedUploadSource;
 }
 
 export interface ResumableUploadResult {
   success: boolean;
   filePath: string;
-  remotePath: string;
+  remotePath: string; // The folder holding the parts for files uploaded in chunks
   bytesUploaded: number;
   error?: string;
 }
 
 const DEFAULT_CHUNK_SIZE = 50 * 1024 * 1024; // 50MB
 const STATE_FILE_EXTENSION = ".upload-state.json";
+const KEPT_FILE_EXTENSION = ".upload";
+const STALE_STATE_AGE_MS = 7 * 24 * 60 * 60 * 1000; // Unfinished uploads not retried for a week are dropped
+const MAX_RETRIES = 3; // Attempts per chunk
 
 export class ResumableUploader {
   private chunkSize: number;
   private resumeDir: string;
+  private workspace?: TempWorkspace;
   private verbosity: number;
-  private internxtService: InternxtService;
+  private backend: StorageBackend;
   private retryDelayMs: number | undefined;
+  private signal?: AbortSignal;
 
-  constructor(internxtService: InternxtService, options: ResumableUploadOptions = {}) {
+  constructor(backend: StorageBackend, options: ResumableUploadOptions = {}) {
     this.chunkSize = options.chunkSize ?? DEFAULT_CHUNK_SIZE;
     this.resumeDir = options.resumeDir ?? join(tmpdir(), "internxt-uploads");
+    this.workspace = options.workspace;
     this.verbosity = options.verbosity ?? logger.Verbosity.Normal;
     this.retryDelayMs = options.retryDelayMs;
-    this.internxtService = internxtService;
-
-    // Ensure resume directory exists
-    if (!existsSync(this.resumeDir)) {
-      mkdirSync(this.resumeDir, { recursive: true });
-    }
+    this.signal = options.signal;
+    this.backend = backend;
   }
 
   /**
    * Calculate file checksum for verification
+   * Streamed MD5 like the file scanner's, so a checksum the scanner already calculated can be reused
    */
   private async calculateChecksum(filePath: string): Promise<string> {
-    const file = Bun.file(filePath);
-    const content = await file.arrayBuffer();
-    const hash = createHash("sha256");
-    hash.update(new Uint8Array(content));
-    return hash.digest("hex");
+    return calculateChecksum(filePath);
   }
 
   /**
-   * Get state file path for a given file
+   * Get state file path for an upload
+   * @param {string} key - Identifies the upload, e.g. the file path
    */
-  private getStateFilePath(filePath: string): string {
-    const fileName = basename(filePath);
-    const hash = createHash("md5").update(filePath).digest("hex");
-    return join(this.resumeDir, `${fileName}.${hash}${STATE_FILE_EXTENSION}`);
+  private getStateFilePath(key: string): string {
+    return `${this.getResumeBasePath(key)}${STATE_FILE_EXTENSION}`;
   }
 
   /**
-   * Load upload state from file
+   * Get the path a compressed or encrypted upload file is kept at between runs
+   * @param {string} key - Identifies the upload
    */
-  private async loadState(filePath: string): Promise<ChunkedUploadState | null> {
-    const statePath = this.getStateFilePath(filePath);
+  private getKeptFilePath(key: string): string {
+    return `${this.getResumeBasePath(key)}${KEPT_FILE_EXTENSION}`;
+  }
+
+  private getResumeBasePath(key: string): string {
+    const fileName = basename(key);
+    const hash = createHash("md5").update(key).digest("hex");
+    return join(this.resumeDir, `${fileName}.${hash}`);
+  }
+
+  /**
+   * Read the upload state of a key as it was saved
+   * @param {string} key - Identifies the upload
+   * @returns {Promise<ChunkedUploadState | null>} The state, or null if there is none
+   */
+  private async readState(key: string): Promise<ChunkedUploadState | null> {
+    const statePath = this.getStateFilePath(key);
+    if (!existsSync(statePath)) {
+      return null;
+    }
+    return JSON.parse(await readFile(statePath, "utf-8")) as ChunkedUploadState;
+  }
 
+  /**
+   * Load upload state from file
+   * @param {string} key - Identifies the upload
+   * @param {string} filePath - The file being uploaded, default the key
+   * @param {string} checksum - Current checksum of the file, if already known
+   */
+  private async loadState(key: string, filePath: string = key, checksum?: string): Promise<ChunkedUploadState | null> {
     try {
-      if (!existsSync(statePath)) {
+      const state = await this.readState(key);
+      if (!state) {
         return null;
       }
 
-      const stateContent = await readFile(statePath, "utf-8");
-      const state: ChunkedUploadState = JSON.parse(stateContent);
-
       // Verify the file hasn't changed
-      const currentChecksum = await this.calculateChecksum(filePath);
+      const currentChecksum = checksum ?? await this.calculateChecksum(filePath);
       if (state.checksum !== currentChecksum) {
         logger.verbose(`File changed since last upload, starting fresh`, this.verbosity);
-        await this.clearState(filePath);
+        await this.clearState(key);
         return null;
       }
 
@@ -105,9 +158,10 @@ export class ResumableUploader {
    * Save upload state to file
    */
   private async saveState(state: ChunkedUploadState): Promise<void> {
-    const statePath = this.getStateFilePath(state.filePath);
+    const statePath = this.getStateFilePath(state.key ?? state.filePath);
 
     try {
+      await mkdir(this.resumeDir, { recursive: true });
       await writeFile(statePath, JSON.stringify(state, null, 2));
     } catch (error) {
       const errorMessage = error instanceof Error ? error.message : String(error);
@@ -116,21 +170,70 @@ export class ResumableUploader {
   }
 
   /**
-   * Clear upload state for a file
+   * Save the state of an upload that didn't finish
+   * A compressed or encrypted temp file is moved to the resume dir, since it can't be made
+   * again byte for byte: the next run uploads the rest of the same file
    */
-  async clearState(filePath: string): Promise<void> {
-    const statePath = this.getStateFilePath(filePath);
+  private async saveUnfinishedState(state: ChunkedUploadState): Promise<void> {
+    const keptPath = this.getKeptFilePath(state.key ?? state.filePath);
+
+    if (state.source && state.filePath !== keptPath) {
+      try {
+        await mkdir(this.resumeDir, { recursive: true });
+        await moveFile(state.filePath, keptPath);
+        state.filePath = keptPath;
+      } catch (error) {
+        const errorMessage = error instanceof Error ? error.message : String(error);
+        logger.verbose(`Could not keep ${state.filePath} for the next run: ${errorMessage}`, this.verbosity);
+        state.source = undefined;
+      }
+    }
+
+    await this.saveState(state);
+  }
+
+  /**
+   * Clear upload state for a file, with the upload file kept for it
+   * @param {string} key - Identifies the upload, e.g. the file path
+   */
+  async clearState(key: string): Promise<void> {
+    const statePath = this.getStateFilePath(key);
+    const keptPath = this.getKeptFilePath(key);
 
     try {
       if (existsSync(statePath)) {
         await unlink(statePath);
       }
+      if (existsSync(keptPath)) {
+        await unlink(keptPath);
+      }
     } catch (error) {
       const errorMessage = error instanceof Error ? error.message : String(error);
       logger.verbose(`Failed to clear state: ${errorMessage}`, this.verbosity);
     }
   }
 
+  /**
+   * Find the compressed or encrypted copy an earlier run kept for an upload it didn't finish
+   * @param {string} key - Identifies the upload
+   * @param {string} sourceChecksum - Current checksum of the file the copy would be made from
+   * @returns {Promise<KeptUpload | null>} The copy, or null if none was kept for this version of the file
+   */
+  async findKeptUpload(key: string, sourceChecksum: string): Promise<KeptUpload | null> {
+    try {
+      const state = await this.readState(key);
+      if (!state?.source || state.source.checksum !== sourceChecksum || !existsSync(state.filePath)) {
+        return null;
+      }
+
+      return { filePath: state.filePath, remotePath: state.remotePath, source: state.source };
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : String(error);
+      logger.verbose(`Failed to load state: ${errorMessage}`, this.verbosity);
+      return null;
+    }
+  }
+
   /**
    * Check if a file should use resumable upload
    */
@@ -141,14 +244,22 @@ export class ResumableUploader {
 
   /**
    * Upload a large file with resume capability
-   * Note: Internxt CLI doesn't natively support chunked uploads,
-   * so we implement this by tracking upload progress and retrying failed uploads
+   * The file is split into chunks that are uploaded as parts of a remote folder, see
+   * part-manifest. Every finished chunk is recorded in the state file, so a failed or
+   * cancelled upload continues with the first missing chunk next time
+   * @param {string} filePath - The file to upload
+   * @param {string} remotePath - Remote path the file would have if uploaded in one piece
+   * @param {Function} onProgress - Receives the progress of the whole file
+   * @param {LargeFileUploadOptions} options - Known checksum, the key of the upload and what the file was prepared from
    */
   async uploadLargeFile(
     filePath: string,
     remotePath: string,
-    onProgress?: (percent: number) => void
+    onProgress?: (percent: number) => void,
+    options: LargeFileUploadOptions = {}
   ): Promise<ResumableUploadResult> {
+    const key = options.key ?? filePath;
+
     try {
       const file = Bun.file(filePath);
       const fileSize = file.size;
@@ -156,7 +267,7 @@ export class ResumableUploader {
       // For smaller files, use regular upload
       if (!this.shouldUseResumable(fileSize)) {
         logger.verbose(`File size ${fileSize} is below threshold, using regular upload`, this.verbosity);
-        const result = await this.internxtService.uploadFileWithProgress(filePath, remotePath, onProgress);
+        const result = await this.backend.uploadFileWithProgress(filePath, remotePath, onProgress);
 
         return {
           success: result.success,
@@ -167,22 +278,48 @@ export class ResumableUploader {
         };
       }
 
+      const partsPath = getPartsRemotePath(remotePath);
+
       // Check for existing state
-      const checksum = await this.calculateChecksum(filePath);
-      let state = await this.loadState(filePath);
+      const fileChecksum = options.checksum || await this.calculateChecksum(filePath);
+      let state = await this.loadState(key, filePath, fileChecksum);
+
+      // Parts uploaded for another target or with another chunk size can't be reused
+      if (state && (state.remotePath !== remotePath || state.chunkSize !== this.chunkSize)) {
+        logger.verbose(`Upload settings changed since last upload, starting fresh`, this.verbosity);
+        await this.trashUploadFolder(state);
+        await this.clearState(key);
+        state = null;
+      }
 
-      if (!state) {
+      // States written before uploads had a folder of their own can't tell which parts are theirs
+      if (state && !state.uploadFolder) {
+        await this.clearState(key);
+        state = null;
+      }
+
+      if (state) {
+        // A temp file may have another path than in the run that started the upload
+        state.filePath = filePath;
+        state.source = options.source;
+      } else {
         // Initialize new upload state
-        const totalChunks = Math.ceil(fileSize / this.chunkSize);
         state = {
+          key,
           filePath,
           remotePath,
           chunkSize: this.chunkSize,
-          totalChunks,
+          totalChunks: Math.ceil(fileSize / this.chunkSize),
           uploadedChunks: [],
-          checksum,
+          chunkChecksums: {},
+          checksum: fileChecksum,
+          uploadFolder: `upload-${randomBytes(6).toString("hex")}`,
+          source: options.source,
           timestamp: Date.now()
         };
+
+        // The parts go into a folder of their own, next to the parts of the copy uploaded before
+        await this.backend.createFolder(partsPath);
       }
 
       logger.info(
@@ -190,90 +327,231 @@ export class ResumableUploader {
         this.verbosity
       );
 
-      // Since Internxt CLI doesn't support true chunked uploads,
-      // we implement a retry mechanism with progress tracking
+      // Chunks an earlier run uploaded are read again, only for the checksum of the whole file
+      const fileHash = createHash("sha256");
+      for (let index = 0; index < state.totalChunks; index++) {
+        const start = index * state.chunkSize;
+        const data = new Uint8Array(await file.slice(start, start + state.chunkSize).arrayBuffer());
+        fileHash.update(data);
+
+        if (state.chunkChecksums?.[index] && state.uploadedChunks.includes(index)) {
+          continue;
+        }
+
+        try {
+          await this.uploadChunk(data, state, index, partsPath, onProgress);
+        } catch (error) {
+          // Save state for resume
+          await this.saveUnfinishedState(state);
+
+          return {
+            success: false,
+            filePath: state.filePath,
+            remotePath: partsPath,
+            bytesUploaded: this.getUploadedBytes(state, fileSize),
+            error: error instanceof Error ? error.message : String(error)
+          };
+        }
+
+        state.uploadedChunks = [...state.uploadedChunks.filter(chunk => chunk !== index), index];
+        await this.saveState(state);
+      }
+
+      // Written last, so a restore never finds a manifest listing parts that aren't uploaded yet
+      const manifestError = await this.uploadManifest(state, fileSize, fileHash.digest("hex"), partsPath);
+      if (manifestError) {
+        await this.saveUnfinishedState(state);
+
+        return {
+          success: false,
+          filePath: state.filePath,
+          remotePath: partsPath,
+          bytesUploaded: fileSize,
+          error: `Failed to upload the part manifest: ${manifestError}`
+        };
+      }
+
+      await this.clearState(key);
+      await this.trashReplacedParts(partsPath, state.uploadFolder!);
+
+      return {
+        success: true,
+        filePath,
+        remotePath: partsPath,
+        bytesUploaded: fileSize
+      };
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : String(error);
+      return {
+        success: false,
+        filePath,
+        remotePath,
+        bytesUploaded: 0,
+        error: errorMessage
+      };
+    }
+  }
+
+  /**
+   * Upload a single chunk as a part, retrying with backoff
+   * @param {Uint8Array} data - Content of the chunk
+   * @param {ChunkedUploadState} state - Upload state; the checksum of the chunk is recorded in it
+   * @param {number} index - Zero-based index of the chunk
+   * @param {string} partsPath - Remote folder holding the parts
+   * @param {Function} onProgress - Receives the progress of the whole file
+   * @throws {Error} If the chunk could not be uploaded or the upload was cancelled
+   */
+  private async uploadChunk(
+    data: Uint8Array,
+    state: ChunkedUploadState,
+    index: number,
+    partsPath: string,
+    onProgress?: (percent: number) => void
+  ): Promise<void> {
+    const partName = getPartName(index);
+    const partPath = getTempPath(this.workspace, `${basename(state.filePath)}.${partName}`);
+    const remotePartPath = `${partsPath}/${state.uploadFolder}/${partName}`;
+
+    state.chunkChecksums = {
+      ...state.chunkChecksums,
+      [index]: createHash("sha256").update(data).digest("hex")
+    };
+    await this.workspace?.ensureFreeSpace(data.length);
+    await writeFile(partPath, data);
+
+    try {
       let retryCount = 0;
-      const maxRetries = 3;
 
-      while (retryCount < maxRetries) {
+      while (true) {
+        let errorMessage: string;
         try {
-          const result = await this.internxtService.uploadFileWithProgress(
-            filePath,
-            remotePath,
+          const result = await this.backend.uploadFileWithProgress(
+            partPath,
+            remotePartPath,
             (percent) => {
               // Calculate overall progress considering previously uploaded chunks
-              const baseProgress = (state!.uploadedChunks.length / state!.totalChunks) * 100;
-              const currentChunkProgress = percent / state!.totalChunks;
-              const totalProgress = Math.min(100, baseProgress + currentChunkProgress);
+              const totalProgress = ((state.uploadedChunks.length + percent / 100) / state.totalChunks) * 100;
 
               if (onProgress) {
-                onProgress(Math.round(totalProgress));
+                onProgress(Math.round(Math.min(100, totalProgress)));
               }
             }
           );
 
           if (result.success) {
-            // Upload completed successfully
-            await this.clearState(filePath);
-
-            return {
-              success: true,
-              filePath,
-              remotePath,
-              bytesUploaded: fileSize
-            };
-          } else {
-            throw new Error(result.error || "Upload failed");
+            return;
           }
+          errorMessage = result.error || "Upload failed";
         } catch (error) {
-          retryCount++;
-          const errorMessage = error instanceof Error ? error.message : String(error);
-          logger.verbose(`Upload attempt ${retryCount} failed: ${errorMessage}`, this.verbosity);
-
-          if (retryCount >= maxRetries) {
-            // Save state for resume
-            await this.saveState(state);
-
-            return {
-              success: false,
-              filePath,
-              remotePath,
-              bytesUploaded: (state.uploadedChunks.length / state.totalChunks) * fileSize,
-              error: `Upload failed after ${maxRetries} attempts: ${errorMessage}`
-            };
-          }
+          errorMessage = error instanceof Error ? error.message : String(error);
+        }
+
+        retryCount++;
+        logger.verbose(
+          `Upload of chunk ${index + 1}/${state.totalChunks} failed (attempt ${retryCount}): ${errorMessage}`,
+          this.verbosity
+        );
 
-          // Wait before retry (use configured delay for testing, otherwise exponential backoff)
-          const delay = this.retryDelayMs ?? Math.min(1000 * Math.pow(2, retryCount), 10000);
-          logger.verbose(`Retrying in ${delay}ms...`, this.verbosity);
-          await new Promise(resolve => setTimeout(resolve, delay));
+        // A cancelled upload is resumed by the next run instead of retried
+        if (this.signal?.aborted) {
+          throw new Error(`Upload cancelled: ${errorMessage}`);
         }
+        if (retryCount >= MAX_RETRIES) {
+          throw new Error(`Upload of chunk ${index + 1}/${state.totalChunks} failed after ${MAX_RETRIES} attempts: ${errorMessage}`);
+        }
+
+        // Wait before retry (use configured delay for testing, otherwise exponential backoff)
+        const delay = this.retryDelayMs ?? Math.min(1000 * Math.pow(2, retryCount), 10000);
+        logger.verbose(`Retrying in ${delay}ms...`, this.verbosity);
+        await new Promise(resolve => setTimeout(resolve, delay));
       }
+    } finally {
+      await unlink(partPath).catch(() => {});
+    }
+  }
 
-      return {
-        success: false,
-        filePath,
-        remotePath,
-        bytesUploaded: 0,
-        error: "Upload failed after all retries"
-      };
+  /**
+   * Upload the manifest listing every part of a file
+   * @param {ChunkedUploadState} state - Upload state with the checksums of the parts
+   * @param {number} fileSize - Size of the whole file
+   * @param {string} fileChecksum - SHA-256 of the whole file
+   * @param {string} partsPath - Remote folder holding the parts
+   * @returns {Promise<string | undefined>} The error, or undefined if the manifest was uploaded
+   */
+  private async uploadManifest(
+    state: ChunkedUploadState,
+    fileSize: number,
+    fileChecksum: string,
+    partsPath: string
+  ): Promise<string | undefined> {
+    const manifest: PartManifest = {
+      version: PART_MANIFEST_VERSION,
+      size: fileSize,
+      checksum: fileChecksum,
+      chunkSize: state.chunkSize,
+      parts: Array.from({ length: state.totalChunks }, (_, index) => ({
+        name: `${state.uploadFolder}/${getPartName(index)}`,
+        size: Math.min(state.chunkSize, fileSize - index * state.chunkSize),
+        checksum: state.chunkChecksums![index]
+      }))
+    };
+    const manifestPath = getTempPath(this.workspace, `${basename(state.filePath)}.${PART_MANIFEST_FILE}`);
+
+    try {
+      await writeFile(manifestPath, JSON.stringify(manifest, null, 2));
+      const result = await this.backend.uploadFile(manifestPath, `${partsPath}/${PART_MANIFEST_FILE}`);
+      return result.success ? undefined : result.error || "Upload failed";
+    } catch (error) {
+      return error instanceof Error ? error.message : String(error);
+    } finally {
+      await unlink(manifestPath).catch(() => {});
+    }
+  }
+
+  /**
+   * Move the parts of earlier uploads to the trash, once the manifest points at the new parts
+   * Until then the copy uploaded before stays whole, so a failed upload never leaves the file without a backup
+   * @param {string} partsPath - Remote folder holding the parts
+   * @param {string} uploadFolder - Folder holding the parts of the upload just finished
+   */
+  private async trashReplacedParts(partsPath: string, uploadFolder: string): Promise<void> {
+    try {
+      const listResult = await this.backend.listFiles(partsPath);
+      if (!listResult.success) {
+        logger.verbose(`Could not list ${partsPath} to clean up the earlier parts: ${listResult.error}`, this.verbosity);
+        return;
+      }
+
+      for (const entry of listResult.files) {
+        if (entry.name === uploadFolder || entry.name === PART_MANIFEST_FILE) {
+          continue;
+        }
+        if (!(await this.backend.deleteFile(entry.path, false))) {
+          logger.verbose(`Could not move ${entry.path} to the trash`, this.verbosity);
+        }
+      }
     } catch (error) {
       const errorMessage = error instanceof Error ? error.message : String(error);
-      return {
-        success: false,
-        filePath,
-        remotePath,
-        bytesUploaded: 0,
-        error: errorMessage
-      };
+      logger.verbose(`Could not clean up the earlier parts in ${partsPath}: ${errorMessage}`, this.verbosity);
     }
   }
 
+  /**
+   * Count the bytes of the chunks uploaded so far
+   */
+  private getUploadedBytes(state: ChunkedUploadState, fileSize: number): number {
+    return state.uploadedChunks.reduce(
+      (sum, index) => sum + Math.min(state.chunkSize, fileSize - index * state.chunkSize),
+      0
+    );
+  }
+
   /**
    * Get upload progress for a file
+   * @param {string} key - Identifies the upload, e.g. the file path
    */
-  async getUploadProgress(filePath: string): Promise<number> {
-    const state = await this.loadState(filePath);
+  async getUploadProgress(key: string): Promise<number> {
+    const state = await this.loadState(key);
 
     if (!state) {
       return 0;
@@ -284,26 +562,124 @@ export class ResumableUploader {
 
   /**
    * Check if a file has a pending upload that can be resumed
+   * @param {string} key - Identifies the upload, e.g. the file path
    */
-  async canResume(filePath: string): Promise<boolean> {
-    const state = await this.loadState(filePath);
+  async canResume(key: string): Promise<boolean> {
+    const state = await this.loadState(key);
     return state !== null && state.uploadedChunks.length < state.totalChunks;
   }
 
   /**
-   * Clean up all stale upload states (older than 7 days)
+   * Drop the unfinished uploads whose file is gone or that no run retried for a while
+   * Their state, the copy kept for them and their parts on the remote are removed; the parts
+   * go to the trash
+   * @param {number} maxAgeMs - Age of the state file after which an upload is dropped
+   * @returns {Promise<number>} Number of uploads dropped
    */
-  async cleanupStaleStates(): Promise<void> {
-    const maxAge = 7 * 24 * 60 * 60 * 1000; // 7 days in milliseconds
-    const now = Date.now();
-
+  async cleanupStaleStates(maxAgeMs: number = STALE_STATE_AGE_MS): Promise<number> {
+    let names: string[];
     try {
-      const files = await readFile(this.resumeDir, "utf-8");
-      // Note: This is a simplified cleanup - in production, you'd use proper directory scanning
-      logger.verbose(`Cleanup of stale states not fully implemented`, this.verbosity);
+      names = await readdir(this.resumeDir);
     } catch {
-      // Directory might not exist or be empty
+      return 0;
+    }
+
+    let dropped = 0;
+    for (const name of names.filter(entry => entry.endsWith(STATE_FILE_EXTENSION))) {
+      const statePath = join(this.resumeDir, name);
+      const basePath = statePath.slice(0, -STATE_FILE_EXTENSION.length);
+
+      try {
+        let state: ChunkedUploadState | null = null;
+        try {
+          state = JSON.parse(await readFile(statePath, "utf-8")) as ChunkedUploadState;
+        } catch {
+          logger.verbose(`Dropping the unreadable upload state ${statePath}`, this.verbosity);
+        }
+
+        if (state) {
+          const { mtimeMs } = await stat(statePath);
+          const sourcePath = state.source?.path ?? state.filePath;
+          if (Date.now() - mtimeMs <= maxAgeMs && existsSync(sourcePath)) {
+            continue;
+          }
+          logger.verbose(`Dropping the unfinished upload of ${sourcePath}`, this.verbosity);
+          await this.trashUploadFolder(state);
+        }
+
+        await unlink(statePath);
+        await unlink(`${basePath}${KEPT_FILE_EXTENSION}`).catch(() => {});
+        dropped++;
+      } catch (error) {
+        const errorMessage = error instanceof Error ? error.message : String(error);
+        logger.verbose(`Failed to drop ${statePath}: ${errorMessage}`, this.verbosity);
+      }
+    }
+
+    // Copies whose state is gone, e.g. after a crash between the two
+    for (const name of names.filter(entry => entry.endsWith(KEPT_FILE_EXTENSION))) {
+      const basePath = join(this.resumeDir, name.slice(0, -KEPT_FILE_EXTENSION.length));
+      if (!existsSync(`${basePath}${STATE_FILE_EXTENSION}`)) {
+        await unlink(`${basePath}${KEPT_FILE_EXTENSION}`).catch(() => {});
+      }
+    }
+
+    if (dropped > 0) {
+      logger.info(`Dropped ${dropped} unfinished upload${dropped === 1 ? "" : "s"} of earlier runs`, this.verbosity);
+    }
+    return dropped;
+  }
+
+  /**
+   * Move the parts of an upload that won't be finished to the trash
+   * Parts the manifest lists are the backup of the file and stay, e.g. when a run stopped
+   * between writing the manifest and clearing the state
+   * @param {ChunkedUploadState} state - State of the upload
+   */
+  private async trashUploadFolder(state: ChunkedUploadState): Promise<void> {
+    if (!state.uploadFolder) {
+      return;
+    }
+
+    const partsPath = getPartsRemotePath(state.remotePath);
+    const manifestRemotePath = `${partsPath}/${PART_MANIFEST_FILE}`;
+    const manifestPath = getTempPath(this.workspace, `${basename(state.remotePath)}.${PART_MANIFEST_FILE}`);
+
+    try {
+      if (await this.backend.fileExists(manifestRemotePath)) {
+        const result = await this.backend.downloadFile(manifestRemotePath, manifestPath);
+        if (!result.success) {
+          logger.verbose(`Keeping ${partsPath}/${state.uploadFolder}, the manifest could not be read: ${result.error}`, this.verbosity);
+          return;
+        }
+        const manifest = JSON.parse(await readFile(manifestPath, "utf8")) as PartManifest;
+        if (manifest.parts.some(part => part.name.startsWith(`${state.uploadFolder}/`))) {
+          return;
+        }
+      }
+
+      await this.backend.deleteFile(`${partsPath}/${state.uploadFolder}`, false);
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : String(error);
+      logger.verbose(`Could not move ${partsPath}/${state.uploadFolder} to the trash: ${errorMessage}`, this.verbosity);
+    } finally {
+      await unlink(manifestPath).catch(() => {});
+    }
+  }
+}
+
+/**
+ * Move a file, copying it if the destination is on another disk
+ */
+async function moveFile(sourcePath: string, destinationPath: string): Promise<void> {
+  try {
+    await rename(sourcePath, destinationPath);
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code !== "EXDEV") {
+      throw error;
     }
+    await copyFile(sourcePath, destinationPath);
+    await unlink(sourcePath);
   }
 }
 
@@ -2,10 +2,19 @@
  * Tests for Uploader
  */
 
-import { expect, describe, beforeEach, it } from 'bun:test';
+import { expect, describe, beforeEach, afterEach, it, mock, spyOn } from 'bun:test';
 import Uploader from '../upload/uploader';
+import { StateStore } from '../state/state-store';
+import { LocalFsBackend } from '../storage/local-fs-backend';
+import { EncryptionService } from '../encryption/encryption-service';
+import { downloadParts } from './part-manifest';
+import { BackupCancelledError } from '../../file-sync';
 import { Verbosity } from '../../interfaces/logger';
 import * as logger from '../../utils/logger';
+import { mkdir, writeFile, readFile, readdir, rm } from 'node:fs/promises';
+import { join } from 'node:path';
+import { tmpdir } from 'node:os';
+import { createHash } from 'node:crypto';
 import { createMockInternxtService, createMockFileScanner, createMockFileInfo, createMockLoggers } from '../../../test-config/mocks/test-helpers';
 
 describe('Uploader', () => {
@@ -46,7 +55,7 @@ describe('Uploader', () => {
       uploader.setFileScanner(mockFileScanner);
 
       // Replace internxtService with mock
-      (uploader as any).internxtService = mockInternxtService;
+      (uploader as any).backend = mockInternxtService;
 
       await uploader.startUpload([]);
 
@@ -61,7 +70,7 @@ describe('Uploader', () => {
       const uploader = new Uploader(concurrentUploads, targetDir, verbosity);
 
       // Replace the internxtService directly
-      (uploader as any).internxtService = mockInternxtService;
+      (uploader as any).backend = mockInternxtService;
 
       // Create test file info
       const fileInfo = createMockFileInfo('source/nested/folder/test.txt');
@@ -82,7 +91,7 @@ describe('Uploader', () => {
       fileInfo.relativePath = 'windows\\path\\test.txt';
 
       // Replace the internxtService directly
-      (uploader as any).internxtService = mockInternxtService;
+      (uploader as any).backend = mockInternxtService;
 
       // Test the file upload directly
       await uploader.handleFileUpload(fileInfo);
@@ -98,7 +107,7 @@ describe('Uploader', () => {
       const uploader = new Uploader(concurrentUploads, targetDir, verbosity);
 
       // Replace services directly
-      (uploader as any).internxtService = mockInternxtService;
+      (uploader as any).backend = mockInternxtService;
       uploader.setFileScanner(mockFileScanner);
 
       // Create test file info
@@ -109,6 +118,11 @@ describe('Uploader', () => {
 
       // Verify success
       expect(result.success).toBe(true);
+      expect(mockFileScanner.updateFileState).toHaveBeenCalledWith('source/test.txt', 'mocked-checksum-source/test.txt', {
+        remotePath: './target/source/test.txt',
+        compressed: false,
+        encrypted: false
+      });
     });
 
     it('should handle upload failures', async () => {
@@ -126,7 +140,7 @@ describe('Uploader', () => {
       });
 
       // Replace service directly
-      (uploader as any).internxtService = failingInternxtService;
+      (uploader as any).backend = failingInternxtService;
 
       // Create test file info
       const fileInfo = createMockFileInfo('source/test.txt');
@@ -136,6 +150,7 @@ describe('Uploader', () => {
 
       // Verify failure
       expect(result.success).toBe(false);
+      expect(uploader.getFailedCount()).toBe(1);
     });
 
     it('should handle errors during upload', async () => {
@@ -147,7 +162,7 @@ describe('Uploader', () => {
       errorInternxtService.uploadFile = () => { throw new Error('Test error'); };
 
       // Replace service directly
-      (uploader as any).internxtService = errorInternxtService;
+      (uploader as any).backend = errorInternxtService;
 
       // Create test file info
       const fileInfo = createMockFileInfo('source/test.txt');
@@ -164,7 +179,7 @@ describe('Uploader', () => {
       const uploader = new Uploader(concurrentUploads, targetDir, verbosity);
 
       // Replace service directly
-      (uploader as any).internxtService = mockInternxtService;
+      (uploader as any).backend = mockInternxtService;
 
       // Create test file info with hasChanged = false
       const fileInfo = createMockFileInfo('source/test.txt', './source', false);
@@ -176,6 +191,37 @@ describe('Uploader', () => {
       // Verify skip
       expect(result.success).toBe(true);
       expect(mockInternxtService.uploadFile).not.toHaveBeenCalled();
+      expect(uploader.getFailedCount()).toBe(0);
+      expect(uploader.getUploadedRemotePaths().size).toBe(0);
+    });
+  });
+
+  describe('Remote folders', () => {
+    it('should not create folders an earlier run created', async () => {
+      const stateStore = new StateStore(':memory:', { verbosity: Verbosity.Quiet });
+      stateStore.addFolder('./target/source');
+      const uploader = new Uploader(concurrentUploads, targetDir, verbosity, { backend: mockInternxtService, stateStore });
+
+      await uploader.ensureDirectoryExists('./target/source');
+      await uploader.ensureDirectoryExists('./target/other');
+
+      expect(mockInternxtService.createFolder).toHaveBeenCalledTimes(1);
+      expect(mockInternxtService.createFolder).toHaveBeenCalledWith('./target/other');
+      expect(stateStore.hasFolder('./target/other')).toBe(true);
+    });
+
+    it('should forget the folders of a file that failed to upload', async () => {
+      const stateStore = new StateStore(':memory:', { verbosity: Verbosity.Quiet });
+      stateStore.addFolder('./target');
+      stateStore.addFolder('./target/source');
+      mockInternxtService.uploadFile = mock(() => Promise.resolve({ success: false, output: 'Folder not found' }));
+      const uploader = new Uploader(concurrentUploads, targetDir, verbosity, { backend: mockInternxtService, stateStore });
+
+      const result = await uploader.handleFileUpload(createMockFileInfo('source/test.txt'));
+
+      expect(result.success).toBe(false);
+      expect(stateStore.hasFolder('./target')).toBe(false);
+      expect(stateStore.hasFolder('./target/source')).toBe(false);
     });
   });
 
@@ -185,7 +231,7 @@ describe('Uploader', () => {
       const uploader = new Uploader(concurrentUploads, targetDir, verbosity);
 
       // Replace service directly
-      (uploader as any).internxtService = mockInternxtService;
+      (uploader as any).backend = mockInternxtService;
 
       // Create test file info array
       const files = [
@@ -206,20 +252,20 @@ describe('Uploader', () => {
 
       // Create custom mock with CLI not installed
       const noCLIService = createMockInternxtService();
-      noCLIService.checkCLI = () => Promise.resolve({
-        installed: false,
-        authenticated: false,
+      noCLIService.checkReady = () => Promise.resolve({
+        ready: false,
         error: 'CLI not found'
       });
 
       // Replace service directly
-      (uploader as any).internxtService = noCLIService;
+      (uploader as any).backend = noCLIService;
 
       // Test upload process
-      await uploader.startUpload([createMockFileInfo('source/test.txt')]);
+      const result = await uploader.startUpload([createMockFileInfo('source/test.txt')]);
 
       // Verify CLI check fails and process stops
-      expect(mockInternxtService.uploadFile).not.toHaveBeenCalled();
+      expect(result).toBe(false);
+      expect(noCLIService.uploadFile).not.toHaveBeenCalled();
     });
 
     it('should handle CLI not authenticated', async () => {
@@ -228,21 +274,148 @@ describe('Uploader', () => {
 
       // Create custom mock with CLI not authenticated
       const notAuthService = createMockInternxtService();
-      notAuthService.checkCLI = () => Promise.resolve({
-        installed: true,
-        authenticated: false,
+      notAuthService.checkReady = () => Promise.resolve({
+        ready: false,
         error: 'Not authenticated'
       });
 
       // Replace service directly
-      (uploader as any).internxtService = notAuthService;
+      (uploader as any).backend = notAuthService;
 
       // Test upload process
-      await uploader.startUpload([createMockFileInfo('source/test.txt')]);
+      const result = await uploader.startUpload([createMockFileInfo('source/test.txt')]);
 
       // Verify upload was not called
+      expect(result).toBe(false);
+      expect(notAuthService.uploadFile).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('Cancellation', () => {
+    it('should stop taking files, keep the finished uploads and throw once cancelled', async () => {
+      const controller = new AbortController();
+      const uploader = new Uploader(1, targetDir, verbosity, { signal: controller.signal });
+      uploader.setFileScanner(mockFileScanner);
+      mockInternxtService.uploadFile = mock(async () => {
+        controller.abort(new BackupCancelledError());
+        return { success: true, filePath: '/local/path', remotePath: '/remote/path', output: '' };
+      });
+      (uploader as any).backend = mockInternxtService;
+
+      const files = ['a.txt', 'b.txt', 'c.txt'].map(name => createMockFileInfo(`source/${name}`));
+      await expect(uploader.startUpload(files)).rejects.toBeInstanceOf(BackupCancelledError);
+
+      expect(mockInternxtService.uploadFile).toHaveBeenCalledTimes(1);
+      expect(uploader.getUploadedRemotePaths().size).toBe(1);
+      expect(mockFileScanner.saveState).toHaveBeenCalled();
+    });
+
+    it('should not start a cancelled upload', async () => {
+      const controller = new AbortController();
+      controller.abort(new BackupCancelledError());
+      const uploader = new Uploader(1, targetDir, verbosity, { signal: controller.signal });
+      (uploader as any).backend = mockInternxtService;
+
+      await expect(uploader.startUpload([createMockFileInfo('source/a.txt')])).rejects.toBeInstanceOf(BackupCancelledError);
+      expect(mockInternxtService.checkReady).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('Remote deletions', () => {
+    it('should move deleted files to the trash and update the scanner state', async () => {
+      const uploader = new Uploader(concurrentUploads, targetDir, verbosity);
+      (uploader as any).backend = mockInternxtService;
+      uploader.setFileScanner(mockFileScanner);
+
+      const deletedCount = await uploader.deleteRemoteFiles(['old/file.txt']);
+
+      expect(deletedCount).toBe(1);
+      expect(mockInternxtService.deleteFile).toHaveBeenCalledWith('./target/old/file.txt', false);
+      expect(mockFileScanner.removeFileState).toHaveBeenCalledWith('old/file.txt');
+      expect(mockFileScanner.saveState).toHaveBeenCalled();
+    });
+
+    it('should fall back to the compressed remote name', async () => {
+      const uploader = new Uploader(concurrentUploads, targetDir, verbosity, { compress: true });
+      mockInternxtService.deleteFile = mock((remotePath: string) => Promise.resolve(remotePath.endsWith('.gz')));
+      (uploader as any).backend = mockInternxtService;
+
+      const deletedCount = await uploader.deleteRemoteFiles(['notes.txt']);
+
+      expect(deletedCount).toBe(1);
+      expect(mockInternxtService.deleteFile).toHaveBeenCalledWith('./target/notes.txt.gz', false);
+    });
+
+    it('should delete the remote name recorded in the state first', async () => {
+      const uploader = new Uploader(concurrentUploads, targetDir, verbosity);
+      mockInternxtService.deleteFile = mock(() => Promise.resolve(true));
+      mockFileScanner.getUploadDetails = mock(() => ({ remotePath: './target/notes.txt.zst', compressed: true, encrypted: false }));
+      (uploader as any).backend = mockInternxtService;
+      uploader.setFileScanner(mockFileScanner);
+
+      await uploader.deleteRemoteFiles(['notes.txt']);
+
+      expect(mockInternxtService.deleteFile).toHaveBeenCalledTimes(1);
+      expect(mockInternxtService.deleteFile).toHaveBeenCalledWith('./target/notes.txt.zst', false);
+    });
+
+    it('should keep the state of files that could not be deleted', async () => {
+      const uploader = new Uploader(concurrentUploads, targetDir, verbosity);
+      mockInternxtService.deleteFile = mock(() => Promise.resolve(false));
+      (uploader as any).backend = mockInternxtService;
+      uploader.setFileScanner(mockFileScanner);
+
+      const deletedCount = await uploader.deleteRemoteFiles(['file.txt']);
+
+      expect(deletedCount).toBe(0);
+      expect(mockFileScanner.removeFileState).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('Upload planning', () => {
+    const plannedFile = (relativePath: string, size: number) => ({
+      relativePath,
+      absolutePath: `/source/${relativePath}`,
+      size,
+      checksum: `checksum-${relativePath}`,
+      hasChanged: true
+    });
+
+    it('should plan folders, remote names and upload methods without touching the backend', () => {
+      const uploader = new Uploader(concurrentUploads, 'backup', verbosity, {
+        compress: true,
+        resume: true,
+        encrypt: true,
+        passphrase: 'test-passphrase',
+        backend: mockInternxtService
+      });
+
+      const plan = uploader.planUpload([
+        plannedFile('docs/notes.txt', 4096),
+        plannedFile('photos/image.jpg', 200 * 1024 * 1024)
+      ]);
+
+      expect(plan.folders).toEqual(['backup', 'backup/docs', 'backup/photos']);
+      expect(plan.files).toEqual([
+        { relativePath: 'docs/notes.txt', remotePath: 'backup/docs/notes.txt.gz.enc', size: 4096, compress: true, resumable: false },
+        { relativePath: 'photos/image.jpg', remotePath: 'backup/photos/image.jpg.enc.parts', size: 200 * 1024 * 1024, compress: false, resumable: true }
+      ]);
+      expect(plan.totalBytes).toBe(4096 + 200 * 1024 * 1024);
+      expect(mockInternxtService.createFolder).not.toHaveBeenCalled();
       expect(mockInternxtService.uploadFile).not.toHaveBeenCalled();
     });
+
+    it('should plan uploads into the snapshot versions folder', () => {
+      const uploader = new Uploader(concurrentUploads, 'backup', verbosity, {
+        versionsDir: 'backup/.versions/2026-01-01T02-00-00Z',
+        backend: mockInternxtService
+      });
+
+      const plan = uploader.planUpload([plannedFile('a.txt', 10)]);
+
+      expect(plan.folders).toEqual(['backup/.versions/2026-01-01T02-00-00Z']);
+      expect(plan.files[0].remotePath).toBe('backup/.versions/2026-01-01T02-00-00Z/a.txt');
+    });
   });
 
   describe('Compression options', () => {
@@ -255,6 +428,45 @@ describe('Uploader', () => {
       expect(typeof uploader.handleFileUpload).toBe('function');
     });
 
+    it('should upload encrypted files with the .enc suffix', async () => {
+      const uploader = new Uploader(concurrentUploads, targetDir, verbosity, {
+        encrypt: true,
+        passphrase: 'test-passphrase'
+      });
+      (uploader as any).backend = mockInternxtService;
+      const encryptionService = (uploader as any).encryptionService;
+      encryptionService.encryptFile = mock((filePath: string) => Promise.resolve({
+        success: true,
+        originalPath: filePath,
+        encryptedPath: '/tmp/test.txt.enc'
+      }));
+      encryptionService.cleanup = mock(() => Promise.resolve());
+
+      const result = await uploader.handleFileUpload(createMockFileInfo('source/test.txt'));
+
+      expect(result.success).toBe(true);
+      expect(mockInternxtService.uploadFile).toHaveBeenCalledWith('/tmp/test.txt.enc', expect.stringMatching(/test\.txt\.enc$/));
+    });
+
+    it('should not upload plaintext when encryption fails', async () => {
+      const uploader = new Uploader(concurrentUploads, targetDir, verbosity, {
+        encrypt: true,
+        passphrase: 'test-passphrase'
+      });
+      (uploader as any).backend = mockInternxtService;
+      (uploader as any).encryptionService.encryptFile = mock((filePath: string) => Promise.resolve({
+        success: false,
+        originalPath: filePath,
+        encryptedPath: filePath,
+        error: 'disk full'
+      }));
+
+      const result = await uploader.handleFileUpload(createMockFileInfo('source/test.txt'));
+
+      expect(result.success).toBe(false);
+      expect(mockInternxtService.uploadFile).not.toHaveBeenCalled();
+    });
+
     it('should initialize with resume enabled', () => {
       const uploader = new Uploader(concurrentUploads, targetDir, verbosity, {
         resume: true,
@@ -264,4 +476,119 @@ describe('Uploader', () => {
       expect(typeof uploader.handleFileUpload).toBe('function');
     });
   });
+
+  describe('Resumable uploads', () => {
+    let tempDir: string;
+
+    beforeEach(async () => {
+      tempDir = join(tmpdir(), `uploader-resume-test-${Date.now()}`);
+      await mkdir(tempDir, { recursive: true });
+    });
+
+    afterEach(async () => {
+      await rm(tempDir, { recursive: true, force: true });
+    });
+
+    it('should resume an encrypted chunked upload with the copy the earlier run kept', async () => {
+      const content = Buffer.from(Array.from({ length: 2500 }, (_, i) => i % 199));
+      const sourcePath = join(tempDir, 'vm.img');
+      await writeFile(sourcePath, content);
+      const fileInfo = {
+        relativePath: 'vm.img',
+        absolutePath: sourcePath,
+        size: content.length,
+        checksum: createHash('md5').update(content).digest('hex'),
+        hasChanged: true
+      };
+      const backend = new LocalFsBackend({ rootDir: join(tempDir, 'remote'), verbosity: Verbosity.Quiet });
+      const upload = backend.uploadFileWithProgress.bind(backend);
+      const uploadedParts: string[] = [];
+      let linkDown = true;
+      backend.uploadFileWithProgress = async (localPath, remotePath, onProgress) => {
+        if (linkDown && remotePath.endsWith('part-00001')) {
+          return { success: false, filePath: localPath, remotePath, error: 'Connection reset' };
+        }
+        uploadedParts.push(remotePath.substring(remotePath.lastIndexOf('/') + 1));
+        return upload(localPath, remotePath, onProgress);
+      };
+      const resumeDir = join(tempDir, 'uploads');
+      const createUploader = () => {
+        const uploader = new Uploader(concurrentUploads, 'Backups', Verbosity.Quiet, {
+          backend,
+          resume: true,
+          resumeDir,
+          encrypt: true,
+          passphrase: 'correct horse battery staple'
+        });
+        const resumableUploader = (uploader as any).resumableUploader;
+        resumableUploader.chunkSize = 1024;
+        resumableUploader.retryDelayMs = 0;
+        resumableUploader.shouldUseResumable = () => true;
+        return uploader;
+      };
+
+      expect((await createUploader().handleFileUpload(fileInfo)).success).toBe(false);
+
+      linkDown = false;
+      uploadedParts.length = 0;
+      const uploader = createUploader();
+      const encryptFile = spyOn((uploader as any).encryptionService, 'encryptFile');
+
+      expect((await uploader.handleFileUpload(fileInfo)).success).toBe(true);
+      expect(encryptFile).not.toHaveBeenCalled();
+      expect(uploadedParts).toEqual(['part-00001', 'part-00002']);
+      expect(await readdir(resumeDir)).toEqual([]);
+
+      const encryptedPath = join(tempDir, 'restored.img.enc');
+      expect((await downloadParts(backend, '/Backups/vm.img.enc.parts', encryptedPath)).success).toBe(true);
+      const restoredPath = join(tempDir, 'restored.img');
+      expect((await new EncryptionService({ passphrase: 'correct horse battery staple' }).decryptFile(encryptedPath, restoredPath)).success).toBe(true);
+      expect(await readFile(restoredPath)).toEqual(content);
+    });
+
+    it('should encrypt afresh when the key changed since the earlier run', async () => {
+      const content = Buffer.alloc(2500, 4);
+      const sourcePath = join(tempDir, 'vm.img');
+      await writeFile(sourcePath, content);
+      const fileInfo = {
+        relativePath: 'vm.img',
+        absolutePath: sourcePath,
+        size: content.length,
+        checksum: createHash('md5').update(content).digest('hex'),
+        hasChanged: true
+      };
+      const backend = new LocalFsBackend({ rootDir: join(tempDir, 'remote'), verbosity: Verbosity.Quiet });
+      const upload = backend.uploadFileWithProgress.bind(backend);
+      let linkDown = true;
+      backend.uploadFileWithProgress = async (localPath, remotePath, onProgress) => {
+        if (linkDown && remotePath.endsWith('part-00001')) {
+          return { success: false, filePath: localPath, remotePath, error: 'Connection reset' };
+        }
+        return upload(localPath, remotePath, onProgress);
+      };
+      const createUploader = (passphrase: string) => {
+        const uploader = new Uploader(concurrentUploads, 'Backups', Verbosity.Quiet, {
+          backend,
+          resume: true,
+          resumeDir: join(tempDir, 'uploads'),
+          encrypt: true,
+          passphrase
+        });
+        const resumableUploader = (uploader as any).resumableUploader;
+        resumableUploader.chunkSize = 1024;
+        resumableUploader.retryDelayMs = 0;
+        resumableUploader.shouldUseResumable = () => true;
+        return uploader;
+      };
+
+      expect((await createUploader('old passphrase').handleFileUpload(fileInfo)).success).toBe(false);
+
+      linkDown = false;
+      const uploader = createUploader('new passphrase');
+      const encryptFile = spyOn((uploader as any).encryptionService, 'encryptFile');
+
+      expect((await uploader.handleFileUpload(fileInfo)).success).toBe(true);
+      expect(encryptFile).toHaveBeenCalledTimes(1);
+    });
+  });
 });
@@ -1,11 +1,10 @@
 /**
  * Internxt Uploader
- * Handles file uploads to Internxt Drive with improved modularity
+ * Handles file uploads to Internxt Drive (or another storage backend) with improved modularity
  */
 
 import path from "path";
-import os from "os";
-import { FileInfo, FileScannerInterface } from "../../interfaces/file-scanner";
+import { FileInfo, FileScannerInterface, UploadDetails } from "../../interfaces/file-scanner";
 import { Verbosity } from "../../interfaces/logger";
 
 /**
@@ -19,17 +18,76 @@ interface PathInfo {
 }
 import * as logger from "../../utils/logger";
 import { InternxtService } from "../internxt/internxt-service";
-import { CompressionService } from "../compression/compression-service";
-import { ResumableUploader } from "./resumable-uploader";
+import { StorageBackend } from "../../interfaces/storage";
+import {
+  CompressionService,
+  CompressionMode,
+  CompressionRule,
+  COMPRESSED_EXTENSIONS
+} from "../compression/compression-service";
+import { EncryptionService, ENCRYPTION_OVERHEAD, ENCRYPTED_EXTENSION } from "../encryption/encryption-service";
+import { ResumableUploader, KeptUpload } from "./resumable-uploader";
+import { getPartsRemotePath, PARTS_SUFFIX } from "./part-manifest";
 import { HashCache } from "./hash-cache";
+import { StateStore } from "../state/state-store";
 import { ProgressTracker } from "./progress-tracker";
 import { FileUploadManager } from "./file-upload-manager";
+import { RunReporter } from "../report/run-report";
+import { TempWorkspace } from "../workspace/temp-workspace";
+
+// Suffixes a remote copy of a file can have: a codec, then encryption, then the parts folder
+const escapeRegExp = (text: string) => text.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+const REMOTE_COPY_SUFFIX = new RegExp(
+  `^(${COMPRESSED_EXTENSIONS.map(escapeRegExp).join("|")})?` +
+  `(${escapeRegExp(ENCRYPTED_EXTENSION)})?(${escapeRegExp(PARTS_SUFFIX)})?$`
+);
+
+/**
+ * Check whether a remote path is a copy of the file at the target path, e.g. notes.txt.gz.enc of notes.txt
+ */
+function isRemoteCopyOf(remotePath: string, targetPath: string): boolean {
+  return remotePath.startsWith(targetPath) && REMOTE_COPY_SUFFIX.test(remotePath.slice(targetPath.length));
+}
 
 export interface UploaderOptions {
-  compress?: boolean;
+  compress?: boolean | CompressionMode; // true compresses with gzip
   compressionLevel?: number;
+  compressionRules?: CompressionRule[];
+  minCompressionSaving?: number; // Percentage compression must save, or the file is uploaded as it is
+  minCompressionSavingBytes?: number; // Bytes compression must save, or the file is uploaded as it is
   resume?: boolean;
   chunkSize?: number;
+  resumeDir?: string; // Keeps chunked uploads that didn't finish for the next run
+  encrypt?: boolean;
+  passphrase?: string;
+  encryptionKeyFile?: string;
+  backend?: StorageBackend; // Defaults to Internxt Drive
+  versionsDir?: string; // Upload below this folder instead of the target, used by snapshot mode
+  workspace?: TempWorkspace; // Holds the compressed, encrypted and chunked temp files of the run
+  stateStore?: StateStore; // Remembers created folders and hashes of files the scanner did not check
+  progressTracker?: ProgressTracker; // Lets the caller follow the progress of the upload
+  reporter?: RunReporter; // Records the outcome of every file, folder and deletion
+  signal?: AbortSignal; // Cancels the upload; files uploaded so far are kept in the state
+}
+
+/**
+ * How a single file would be uploaded
+ */
+export interface PlannedUpload {
+  relativePath: string;
+  remotePath: string;
+  size: number;
+  compress: boolean;
+  resumable: boolean;
+}
+
+/**
+ * Everything an upload run would do, as reported by a dry run
+ */
+export interface UploadPlan {
+  folders: string[];
+  files: PlannedUpload[];
+  totalBytes: number;
 }
 
 /**
@@ -37,15 +95,21 @@ export interface UploaderOptions {
  */
 export default class Uploader {
   private targetDir: string;
+  private uploadDir: string;
   private verbosity: number;
-  private internxtService: InternxtService;
+  private backend: StorageBackend;
   private compressionService?: CompressionService;
+  private encryptionService?: EncryptionService;
   private resumableUploader?: ResumableUploader;
+  private stateStore: StateStore;
   private hashCache: HashCache;
   private progressTracker: ProgressTracker;
+  private reporter?: RunReporter;
   private uploadManager: FileUploadManager;
+  private signal?: AbortSignal;
   private fileScanner: FileScannerInterface | null;
   private uploadedFiles: Set<string>;
+  private uploadedRemotePaths: Map<string, string>;
   private normalizedPaths: Map<string, PathInfo>;
   private createdDirectories: Set<string>;
   private useCompression: boolean;
@@ -65,44 +129,61 @@ export default class Uploader {
     options: UploaderOptions = {}
   ) {
     this.targetDir = targetDir.trim().replace(/^\/+|\/+$/g, "");
+    this.uploadDir = options.versionsDir?.trim().replace(/^\/+|\/+$/g, "") || this.targetDir;
     this.verbosity = verbosity;
-    this.useCompression = options.compress ?? false;
+    this.useCompression = Boolean(options.compress);
     this.useResume = options.resume ?? false;
 
     // Initialize services
-    this.internxtService = new InternxtService({ verbosity });
+    this.backend = options.backend ?? new InternxtService({ verbosity, signal: options.signal });
 
     if (this.useCompression) {
       this.compressionService = new CompressionService({
+        mode: options.compress === true ? undefined : options.compress || undefined,
         level: options.compressionLevel,
+        rules: options.compressionRules,
+        minSaving: options.minCompressionSaving,
+        minSavingBytes: options.minCompressionSavingBytes,
+        workspace: options.workspace,
+        verbosity
+      });
+    }
+
+    if (options.encrypt) {
+      this.encryptionService = new EncryptionService({
+        passphrase: options.passphrase,
+        keyFile: options.encryptionKeyFile,
+        workspace: options.workspace,
         verbosity
       });
     }
 
     if (this.useResume) {
-      this.resumableUploader = new ResumableUploader(this.internxtService, {
+      this.resumableUploader = new ResumableUploader(this.backend, {
         chunkSize: options.chunkSize ? options.chunkSize * 1024 * 1024 : undefined,
-        verbosity
+        resumeDir: options.resumeDir,
+        workspace: options.workspace,
+        verbosity,
+        signal: options.signal
       });
     }
 
-    this.hashCache = new HashCache(
-      path.join(os.tmpdir(), "internxt-backup-hash-cache.json"),
-      verbosity
-    );
-    this.progressTracker = new ProgressTracker(verbosity);
+    this.stateStore = options.stateStore ?? new StateStore(":memory:", { verbosity });
+    this.hashCache = new HashCache(this.stateStore, verbosity);
+    this.progressTracker = options.progressTracker ?? new ProgressTracker(verbosity);
+    this.reporter = options.reporter;
+    this.signal = options.signal;
     this.uploadManager = new FileUploadManager(
       concurrentUploads,
       this.handleFileUpload.bind(this),
       verbosity
     );
-
-    // Load hash cache on construction
-    this.hashCache.load();
+    this.progressTracker.attachQueue(this.uploadManager);
 
     // Initialize state
     this.fileScanner = null;
     this.uploadedFiles = new Set();
+    this.uploadedRemotePaths = new Map();
     this.normalizedPaths = new Map();
     this.createdDirectories = new Set();
   }
@@ -116,6 +197,56 @@ export default class Uploader {
     logger.verbose("File scanner set", this.verbosity);
   }
 
+  /**
+   * Get the normalized remote path information for a file, caching the result
+   * @param {string} relativePath - Path of the file relative to the source directory
+   * @returns {PathInfo} Path information for the file
+   */
+  private getPathInfo(relativePath: string): PathInfo {
+    const cachedPathInfo = this.normalizedPaths.get(relativePath);
+    if (cachedPathInfo) {
+      return cachedPathInfo;
+    }
+
+    // Normalize the relative path to use forward slashes
+    const normalizedPath = relativePath.replace(/\\/g, "/");
+
+    // Extract directory from the relative path
+    const lastSlashIndex = normalizedPath.lastIndexOf("/");
+    const directory = lastSlashIndex > 0 ? normalizedPath.substring(0, lastSlashIndex) : "";
+
+    // Construct the target path
+    const targetPath = this.uploadDir
+      ? `${this.uploadDir}/${normalizedPath}`
+      : normalizedPath;
+
+    // Create full directory path
+    const fullDirectoryPath = directory
+      ? (this.uploadDir ? `${this.uploadDir}/${directory}` : directory)
+      : this.uploadDir;
+
+    // Cache the normalized path info to avoid recalculating
+    const pathInfo = { normalizedPath, directory, targetPath, fullDirectoryPath };
+    this.normalizedPaths.set(relativePath, pathInfo);
+
+    return pathInfo;
+  }
+
+  /**
+   * Get the remote paths of the files uploaded in this session, including compression/encryption suffixes
+   * @returns {Map<string, string>} Remote paths keyed by relative path
+   */
+  getUploadedRemotePaths(): Map<string, string> {
+    return this.uploadedRemotePaths;
+  }
+
+  /**
+   * Get the number of files that failed to upload in this session; skipped files don't count
+   */
+  getFailedCount(): number {
+    return this.progressTracker.failedFiles;
+  }
+
   /**
    * Create directory structure if needed and track which directories have been created
    * @param {string} directory - Directory to create
@@ -125,23 +256,39 @@ export default class Uploader {
     // Skip if no directory or empty
     if (!directory) return true;
 
-    // Skip if we've already created this directory in this session
-    if (this.createdDirectories.has(directory)) {
-      logger.verbose(`Directory already created in this session: ${directory}`, this.verbosity);
+    // Skip if we've already created this directory in this session or an earlier run
+    if (this.createdDirectories.has(directory) || this.stateStore.hasFolder(directory)) {
+      logger.verbose(`Directory already created: ${directory}`, this.verbosity);
       return true;
     }
 
     // Create the directory structure
-    const result = await this.internxtService.createFolder(directory);
+    const result = await this.backend.createFolder(directory);
 
     // If successful, add to our tracking set
     if (result.success) {
       this.createdDirectories.add(directory);
+      this.stateStore.addFolder(directory);
+      this.reporter?.recordFolder(directory);
     }
 
     return result.success;
   }
 
+  /**
+   * Forget the remembered folders of a file whose upload failed, in case they were deleted remotely
+   * @param {string} relativePath - Path of the file relative to the source directory
+   */
+  private forgetFolders(relativePath: string): void {
+    const { fullDirectoryPath } = this.getPathInfo(relativePath);
+    for (const directory of [this.uploadDir, fullDirectoryPath]) {
+      if (directory) {
+        this.createdDirectories.delete(directory);
+        this.stateStore.removeFolder(directory);
+      }
+    }
+  }
+
   /**
    * Handle the upload of a single file
    * @param {Object} fileInfo - File information object
@@ -149,6 +296,8 @@ export default class Uploader {
    */
   async handleFileUpload(fileInfo: FileInfo): Promise<{ success: boolean; filePath: string }> {
     let compressedPath: string | null = null;
+    let encryptedPath: string | null = null;
+    const startTime = Date.now();
 
     try {
       // Check if we've already uploaded this file in this session
@@ -160,59 +309,34 @@ export default class Uploader {
       // Check if file has changed - use flag from file scanner if available
       if (fileInfo.hasChanged === false) {
         logger.verbose(`File ${fileInfo.relativePath} has not changed, skipping upload`, this.verbosity);
-        this.progressTracker.recordSuccess();
+        this.progressTracker.recordSkipped();
+        this.recordSkipped(fileInfo, startTime);
         return { success: true, filePath: fileInfo.relativePath };
       }
 
       // For files not pre-checked, use the hash cache
       if (fileInfo.hasChanged === null) {
-        const hasChanged = await this.hashCache.hasChanged(fileInfo.absolutePath);
+        const hasChanged = await this.hashCache.hasChanged(fileInfo.absolutePath, fileInfo.checksum || undefined);
         if (!hasChanged) {
           logger.verbose(`File ${fileInfo.relativePath} has not changed, skipping upload`, this.verbosity);
-          this.progressTracker.recordSuccess();
+          this.progressTracker.recordSkipped();
+          this.recordSkipped(fileInfo, startTime);
           return { success: true, filePath: fileInfo.relativePath };
         }
       }
 
       logger.verbose(`File ${fileInfo.relativePath} has changed, uploading...`, this.verbosity);
 
+      // Where an earlier run put the file, which may differ if compression stopped (or started) paying off
+      const previousUpload = this.fileScanner?.getUploadDetails(fileInfo.relativePath);
+
       // Create target directory if it doesn't exist
-      if (this.targetDir) {
-        await this.ensureDirectoryExists(this.targetDir);
+      if (this.uploadDir) {
+        await this.ensureDirectoryExists(this.uploadDir);
       }
 
       // Get or create normalized path info
-      let pathInfo = this.normalizedPaths.get(fileInfo.relativePath);
-
-      if (!pathInfo) {
-        // Normalize the relative path to use forward slashes
-        const normalizedPath = fileInfo.relativePath.replace(/\\/g, "/");
-
-        // Extract directory from the relative path
-        const lastSlashIndex = normalizedPath.lastIndexOf("/");
-        const directory = lastSlashIndex > 0 ? normalizedPath.substring(0, lastSlashIndex) : "";
-
-        // Construct the target path
-        const targetPath = this.targetDir
-          ? `${this.targetDir}/${normalizedPath}`
-          : normalizedPath;
-
-        // Create full directory path
-        const fullDirectoryPath = directory
-          ? (this.targetDir ? `${this.targetDir}/${directory}` : directory)
-          : this.targetDir;
-
-        // Store all the path info to avoid recalculating
-        pathInfo = {
-          normalizedPath,
-          directory,
-          targetPath,
-          fullDirectoryPath
-        };
-
-        // Cache the normalized path info
-        this.normalizedPaths.set(fileInfo.relativePath, pathInfo);
-      }
+      const pathInfo = this.getPathInfo(fileInfo.relativePath);
 
       // Create directory structure if needed
       if (pathInfo.directory) {
@@ -223,36 +347,105 @@ export default class Uploader {
       // Determine upload path (may be compressed)
       let uploadPath = fileInfo.absolutePath;
       let finalRemotePath = pathInfo.targetPath;
+      let uploadSize = fileInfo.size;
+      let compressedSize: number | undefined;
+      let savedBytes = 0;
+
+      // An earlier run may have kept its compressed or encrypted copy for a chunked upload it didn't finish
+      const kept = await this.findKeptUpload(fileInfo, pathInfo.targetPath);
+      if (kept) {
+        uploadPath = kept.filePath;
+        finalRemotePath = kept.remotePath;
+        uploadSize = Bun.file(kept.filePath).size;
+        if (kept.source.compressed) {
+          compressedSize = uploadSize - (kept.source.encrypted ? ENCRYPTION_OVERHEAD : 0);
+          savedBytes = fileInfo.size - compressedSize;
+        }
+        logger.verbose(`Resuming ${fileInfo.relativePath} with the copy an earlier run prepared`, this.verbosity);
+      }
 
       // Compress if enabled and beneficial
-      if (this.compressionService && this.compressionService.shouldCompress(fileInfo.absolutePath, fileInfo.size)) {
-        const compressionResult = await this.compressionService.compressFile(fileInfo.absolutePath);
-
-        if (compressionResult.success && compressionResult.ratio > 0) {
+      const compression = kept ? undefined : await this.compressionService?.selectCompression(
+        fileInfo.absolutePath,
+        fileInfo.relativePath,
+        fileInfo.size
+      );
+      if (this.compressionService && compression) {
+        const compressionResult = await this.compressionService.compressForUpload(fileInfo.absolutePath, compression);
+
+        if (compressionResult) {
           uploadPath = compressionResult.compressedPath;
-          finalRemotePath = this.compressionService.getCompressedRemotePath(pathInfo.targetPath);
+          finalRemotePath = this.compressionService.getCompressedRemotePath(pathInfo.targetPath, compressionResult.codec);
           compressedPath = uploadPath;
+          uploadSize = compressionResult.compressedSize;
+          compressedSize = compressionResult.compressedSize;
+          savedBytes = compressionResult.originalSize - compressionResult.compressedSize;
 
           logger.verbose(
-            `Compressed ${fileInfo.relativePath}: ${compressionResult.ratio.toFixed(1)}% reduction`,
+            `Compressed ${fileInfo.relativePath} with ${compressionResult.codec}: ${compressionResult.ratio.toFixed(1)}% reduction`,
             this.verbosity
           );
         }
       }
 
+      // Encrypt after compression, so the compressed data is what gets encrypted
+      if (this.encryptionService && !kept) {
+        const encryptionResult = await this.encryptionService.encryptFile(uploadPath);
+
+        // Never fall back to uploading the plain file
+        if (!encryptionResult.success) {
+          throw new Error(`Encryption failed: ${encryptionResult.error}`);
+        }
+
+        uploadPath = encryptionResult.encryptedPath;
+        finalRemotePath = this.encryptionService.getEncryptedRemotePath(finalRemotePath);
+        encryptedPath = uploadPath;
+        uploadSize += ENCRYPTION_OVERHEAD;
+      }
+
+      const compressed = kept ? kept.source.compressed : compressedPath !== null;
+      const encrypted = kept ? kept.source.encrypted : encryptedPath !== null;
+
       // Upload the file
       let result;
 
       if (this.resumableUploader && this.resumableUploader.shouldUseResumable(fileInfo.size)) {
+        // A compressed or encrypted copy is kept if the upload doesn't finish, so the next run resumes it
+        const source = uploadPath !== fileInfo.absolutePath && fileInfo.checksum
+          ? {
+            path: fileInfo.absolutePath,
+            checksum: fileInfo.checksum,
+            compressed,
+            encrypted,
+            keyCheck: encrypted ? await this.encryptionService?.getKeyCheck(uploadPath) : undefined
+          }
+          : undefined;
+
         // Use resumable upload for large files
         result = await this.resumableUploader.uploadLargeFile(
           uploadPath,
           finalRemotePath,
           (percent) => {
             logger.verbose(`Upload progress: ${percent}%`, this.verbosity);
+          },
+          {
+            // The scanner's checksum only describes the file itself, not a compressed or encrypted copy
+            checksum: uploadPath === fileInfo.absolutePath ? fileInfo.checksum : undefined,
+            // Compressed and encrypted copies get a new temp path every run, the remote path stays
+            key: pathInfo.targetPath,
+            source
           }
         );
 
+        // The upload file was moved to the resume dir
+        if (result.filePath !== uploadPath) {
+          compressedPath = compressedPath === uploadPath ? null : compressedPath;
+          encryptedPath = encryptedPath === uploadPath ? null : encryptedPath;
+        }
+
+        // Large files are stored as a folder of parts
+        finalRemotePath = result.remotePath;
+
         // Convert to expected format
         result = {
           success: result.success,
@@ -262,59 +455,228 @@ export default class Uploader {
         };
       } else {
         // Use regular upload
-        result = await this.internxtService.uploadFile(uploadPath, finalRemotePath);
+        result = await this.backend.uploadFile(uploadPath, finalRemotePath);
       }
 
-      // Clean up compressed temp file if used
-      if (compressedPath && this.compressionService) {
-        await this.compressionService.cleanup(compressedPath);
-      }
+      // Clean up temp files if used
+      await this.cleanupTempFiles(compressedPath, encryptedPath);
 
       if (result.success) {
         // Track that we've uploaded this file to avoid duplicate messages
         this.uploadedFiles.add(fileInfo.relativePath);
+        this.uploadedRemotePaths.set(fileInfo.relativePath, finalRemotePath);
 
         // Log success
         logger.success(`Successfully uploaded ${fileInfo.relativePath}`, this.verbosity);
 
+        await this.removeStaleCopy(fileInfo.relativePath, pathInfo.targetPath, finalRemotePath, previousUpload);
+
         // Update file scanner if available
         if (this.fileScanner) {
-          this.fileScanner.updateFileState(fileInfo.relativePath, fileInfo.checksum);
+          this.fileScanner.updateFileState(fileInfo.relativePath, fileInfo.checksum, {
+            remotePath: finalRemotePath,
+            compressed,
+            encrypted
+          });
         }
-        this.progressTracker.recordSuccess();
+        this.progressTracker.recordSuccess(uploadSize);
+        this.progressTracker.recordCompressionSavings(savedBytes);
+        this.reporter?.recordFile({
+          path: fileInfo.relativePath,
+          status: "uploaded",
+          size: fileInfo.size,
+          remotePath: finalRemotePath,
+          uploadedBytes: uploadSize,
+          compressedSize,
+          compressionRatio: compressedSize !== undefined && fileInfo.size > 0
+            ? Math.round((compressedSize / fileInfo.size) * 1000) / 1000
+            : undefined,
+          durationMs: Date.now() - startTime
+        });
         return { success: true, filePath: fileInfo.relativePath };
       } else {
-        logger.error(`Failed to upload ${fileInfo.relativePath}: ${result.output}`);
-        this.progressTracker.recordFailure();
+        const error = this.signal?.aborted ? "Cancelled" : result.output;
+        this.logFailure(fileInfo, `Failed to upload ${fileInfo.relativePath}: ${error}`);
+        this.forgetFolders(fileInfo.relativePath);
+        this.progressTracker.recordFailure(fileInfo.relativePath, error);
+        this.recordFailed(fileInfo, startTime, error);
         return { success: false, filePath: fileInfo.relativePath };
       }
     } catch (error) {
-      // Clean up compressed temp file on error
-      if (compressedPath && this.compressionService) {
-        await this.compressionService.cleanup(compressedPath);
-      }
-
-      const errorMessage = error instanceof Error ? error.message : String(error);
-      logger.error(`Error uploading file ${fileInfo.relativePath}: ${errorMessage}`);
-      this.progressTracker.recordFailure();
+      // Clean up temp files on error
+      await this.cleanupTempFiles(compressedPath, encryptedPath);
+
+      const errorMessage = this.signal?.aborted ? "Cancelled" : error instanceof Error ? error.message : String(error);
+      this.logFailure(fileInfo, `Error uploading file ${fileInfo.relativePath}: ${errorMessage}`);
+      this.forgetFolders(fileInfo.relativePath);
+      this.progressTracker.recordFailure(fileInfo.relativePath, errorMessage);
+      this.recordFailed(fileInfo, startTime, errorMessage);
       return { success: false, filePath: fileInfo.relativePath };
     }
   }
 
+  /**
+   * Move the copy an earlier run uploaded under another name to the trash, e.g. notes.txt.gz once
+   * notes.txt is uploaded as it is, so the remote never holds two versions of a file
+   * Uploads into a snapshot leave earlier snapshots alone
+   * @param {string} relativePath - Path of the file relative to the source directory
+   * @param {string} targetPath - Remote path of the file without any suffixes
+   * @param {string} remotePath - Remote path the file was just uploaded to
+   * @param {UploadDetails} previousUpload - Upload recorded by an earlier run, if any
+   */
+  private async removeStaleCopy(
+    relativePath: string,
+    targetPath: string,
+    remotePath: string,
+    previousUpload?: UploadDetails
+  ): Promise<void> {
+    if (!previousUpload || previousUpload.remotePath === remotePath || !isRemoteCopyOf(previousUpload.remotePath, targetPath)) {
+      return;
+    }
+
+    if (await this.backend.deleteFile(previousUpload.remotePath, false)) {
+      logger.verbose(`Removed the old remote copy ${previousUpload.remotePath} of ${relativePath}`, this.verbosity);
+    } else {
+      logger.warning(`Failed to remove the old remote copy ${previousUpload.remotePath} of ${relativePath}`, this.verbosity);
+    }
+  }
+
+  /**
+   * Log a failed upload; uploads stopped by a cancellation are expected and only logged in verbose mode
+   */
+  private logFailure(fileInfo: FileInfo, message: string): void {
+    if (this.signal?.aborted) {
+      logger.verbose(`Upload of ${fileInfo.relativePath} cancelled`, this.verbosity);
+    } else {
+      logger.error(message);
+    }
+  }
+
+  /**
+   * Report a file that didn't need uploading
+   */
+  private recordSkipped(fileInfo: FileInfo, startTime: number): void {
+    this.reporter?.recordFile({
+      path: fileInfo.relativePath,
+      status: "skipped",
+      size: fileInfo.size,
+      reason: "unchanged",
+      durationMs: Date.now() - startTime
+    });
+  }
+
+  /**
+   * Report a file that failed to upload
+   */
+  private recordFailed(fileInfo: FileInfo, startTime: number, error?: string): void {
+    this.reporter?.recordFile({
+      path: fileInfo.relativePath,
+      status: "failed",
+      size: fileInfo.size,
+      durationMs: Date.now() - startTime,
+      error
+    });
+  }
+
+  /**
+   * Find the compressed or encrypted copy an earlier run kept for a chunked upload of a file
+   * Only a copy of this version of the file, prepared the way this run would prepare it, is used
+   * @param {FileInfo} fileInfo - The file to upload
+   * @param {string} key - Identifies the upload, the remote path of the file
+   */
+  private async findKeptUpload(fileInfo: FileInfo, key: string): Promise<KeptUpload | null> {
+    if (!this.resumableUploader?.shouldUseResumable(fileInfo.size) || !fileInfo.checksum) {
+      return null;
+    }
+
+    const kept = await this.resumableUploader.findKeptUpload(key, fileInfo.checksum);
+    if (!kept || kept.source.encrypted !== Boolean(this.encryptionService) || (kept.source.compressed && !this.compressionService)) {
+      return null;
+    }
+
+    // A copy encrypted with another key couldn't be restored with the key of this run
+    if (kept.source.encrypted && kept.source.keyCheck !== await this.encryptionService?.getKeyCheck(kept.filePath)) {
+      return null;
+    }
+
+    return kept;
+  }
+
+  /**
+   * Clean up the temp files created for a single upload
+   * @param {string | null} compressedPath - Compressed temp file, if any
+   * @param {string | null} encryptedPath - Encrypted temp file, if any
+   */
+  private async cleanupTempFiles(compressedPath: string | null, encryptedPath: string | null): Promise<void> {
+    if (compressedPath && this.compressionService) {
+      await this.compressionService.cleanup(compressedPath);
+    }
+    if (encryptedPath && this.encryptionService) {
+      await this.encryptionService.cleanup(encryptedPath);
+    }
+  }
+
+  /**
+   * Work out the folders, remote names and upload methods for a list of files without touching the remote
+   * Compression is planned from CompressionService.planCompression without reading the files; a file
+   * that turns out not to shrink, or that "auto" finds incompressible, is uploaded uncompressed
+   * @param {Array} filesToUpload - Array of files to upload
+   * @returns {UploadPlan} The planned upload
+   */
+  planUpload(filesToUpload: FileInfo[]): UploadPlan {
+    const folders = new Set<string>();
+    if (this.uploadDir) {
+      folders.add(this.uploadDir);
+    }
+
+    const files = filesToUpload.map(fileInfo => {
+      const pathInfo = this.getPathInfo(fileInfo.relativePath);
+      if (pathInfo.fullDirectoryPath) {
+        folders.add(pathInfo.fullDirectoryPath);
+      }
+
+      const compression = this.compressionService?.planCompression(fileInfo.relativePath, fileInfo.size);
+      let remotePath = compression && this.compressionService
+        ? this.compressionService.getCompressedRemotePath(pathInfo.targetPath, compression.codec)
+        : pathInfo.targetPath;
+      if (this.encryptionService) {
+        remotePath = this.encryptionService.getEncryptedRemotePath(remotePath);
+      }
+      const resumable = this.resumableUploader?.shouldUseResumable(fileInfo.size) ?? false;
+
+      return {
+        relativePath: fileInfo.relativePath,
+        remotePath: resumable ? getPartsRemotePath(remotePath) : remotePath,
+        size: fileInfo.size,
+        compress: Boolean(compression),
+        resumable
+      };
+    });
+
+    return {
+      folders: [...folders].sort(),
+      files,
+      totalBytes: files.reduce((sum, file) => sum + file.size, 0)
+    };
+  }
+
   /**
    * Start the upload process
    * @param {Array} filesToUpload - Array of files to upload
-   * @returns {Promise<void>}
+   * @returns {Promise<boolean>} True if every file was uploaded successfully
+   * @throws The abort reason once a cancelled upload has stopped and saved its state
    */
-  async startUpload(filesToUpload: FileInfo[]): Promise<void> {
+  async startUpload(filesToUpload: FileInfo[]): Promise<boolean> {
+    this.signal?.throwIfAborted();
+
     // Check connectivity first
-    const cliStatus = await this.internxtService.checkCLI();
-    if (!cliStatus.installed || !cliStatus.authenticated) {
-      logger.error("Internxt CLI not ready. Upload cannot proceed.");
-      if (cliStatus.error) {
-        logger.error(cliStatus.error);
+    const backendStatus = await this.backend.checkReady();
+    if (!backendStatus.ready) {
+      logger.error(`${this.backend.name} not ready. Upload cannot proceed.`);
+      if (backendStatus.error) {
+        logger.error(backendStatus.error);
       }
-      return;
+      return false;
     }
 
     // Create the target directory structure if needed
@@ -325,7 +687,7 @@ export default class Uploader {
 
     if (filesToUpload.length === 0) {
       logger.success("All files are up to date.", this.verbosity);
-      return;
+      return true;
     }
 
     // Reset tracking sets for new upload session
@@ -338,36 +700,8 @@ export default class Uploader {
 
       // Analyze files and collect unique directories
       for (const fileInfo of filesToUpload) {
-        let pathInfo = this.normalizedPaths.get(fileInfo.relativePath);
-
-        if (!pathInfo) {
-          // Normalize the relative path
-          const normalizedPath = fileInfo.relativePath.replace(/\\/g, "/");
-
-          // Extract directory from the relative path
-          const lastSlashIndex = normalizedPath.lastIndexOf("/");
-          const directory = lastSlashIndex > 0 ? normalizedPath.substring(0, lastSlashIndex) : "";
-
-          // Create full directory path
-          const fullDirectoryPath = directory
-            ? (this.targetDir ? `${this.targetDir}/${directory}` : directory)
-            : this.targetDir;
-
-          if (directory) {
-            uniqueDirectories.add(fullDirectoryPath);
-          }
-
-          // Store all the path info to avoid recalculating
-          pathInfo = {
-            normalizedPath,
-            directory,
-            targetPath: this.targetDir ? `${this.targetDir}/${normalizedPath}` : normalizedPath,
-            fullDirectoryPath
-          };
-
-          // Cache the normalized path info
-          this.normalizedPaths.set(fileInfo.relativePath, pathInfo);
-        } else if (pathInfo.directory) {
+        const pathInfo = this.getPathInfo(fileInfo.relativePath);
+        if (pathInfo.directory) {
           uniqueDirectories.add(pathInfo.fullDirectoryPath);
         }
       }
@@ -376,6 +710,7 @@ export default class Uploader {
       logger.verbose(`Pre-creating ${uniqueDirectories.size} unique directories...`, this.verbosity);
       const directories = Array.from(uniqueDirectories);
       for (const dir of directories) {
+        this.signal?.throwIfAborted();
         await this.ensureDirectoryExists(dir);
       }
     }
@@ -396,23 +731,30 @@ export default class Uploader {
     try {
       // Start upload and wait for completion
       await new Promise<void>((resolve) => {
-        this.uploadManager.start(resolve);
+        this.uploadManager.start(resolve, this.signal);
       });
 
-      // Final update to state file if we have a file scanner
+      // Final update to state file if we have a file scanner, also keeping the uploads of a cancelled run
       if (this.fileScanner) {
-        this.fileScanner.recordCompletion();
         await this.fileScanner.saveState();
       }
 
       // Clean up all temp files
-      if (this.compressionService) {
-        await this.compressionService.cleanupAll();
-      }
+      await this.compressionService?.cleanupAll();
+      await this.encryptionService?.cleanupAll();
+
+      this.signal?.throwIfAborted();
 
       // Show result summary
       this.progressTracker.displaySummary();
+
+      return this.progressTracker.failedFiles === 0;
     } catch (error) {
+      // A cancellation is reported by the caller
+      if (this.signal?.aborted) {
+        throw error;
+      }
+
       const errorMessage = error instanceof Error ? error.message : String(error);
       logger.error(`\nUpload process failed: ${errorMessage}`);
 
@@ -420,9 +762,69 @@ export default class Uploader {
       if (this.fileScanner) {
         await this.fileScanner.saveState();
       }
+
+      return false;
     } finally {
       // Stop progress updates
       this.progressTracker.stopProgressUpdates();
     }
   }
+
+  /**
+   * Move remote copies of locally deleted files to the backend's trash
+   * @param {string[]} relativePaths - Paths of deleted files relative to the source directory
+   * @returns {Promise<number>} Number of remote files deleted
+   */
+  async deleteRemoteFiles(relativePaths: string[]): Promise<number> {
+    let deletedCount = 0;
+
+    for (const relativePath of relativePaths) {
+      if (this.signal?.aborted) {
+        break;
+      }
+      const { targetPath } = this.getPathInfo(relativePath);
+
+      // The remote copy may have been compressed with any codec, and large files are stored in parts
+      let candidates = [targetPath];
+      if (this.compressionService) {
+        candidates.push(...this.compressionService.getCompressedRemotePaths(targetPath));
+      }
+      if (this.encryptionService) {
+        candidates = candidates.map(candidate => this.encryptionService!.getEncryptedRemotePath(candidate));
+      }
+      if (this.resumableUploader) {
+        candidates.push(...candidates.map(getPartsRemotePath));
+      }
+
+      // The state knows the name of the last upload, even if the options have changed since
+      const recordedPath = this.fileScanner?.getUploadDetails(relativePath)?.remotePath;
+      if (recordedPath && isRemoteCopyOf(recordedPath, targetPath)) {
+        candidates = [recordedPath, ...candidates.filter(candidate => candidate !== recordedPath)];
+      }
+
+      let deleted = false;
+      for (const remotePath of candidates) {
+        deleted = await this.backend.deleteFile(remotePath, false);
+        if (deleted) {
+          break;
+        }
+      }
+
+      if (deleted) {
+        logger.verbose(`Deleted remote copy of ${relativePath}`, this.verbosity);
+        deletedCount++;
+        this.fileScanner?.removeFileState(relativePath);
+      } else {
+        logger.error(`Failed to delete remote copy of ${relativePath}`);
+      }
+      this.reporter?.recordDeletion(relativePath, deleted ? "deleted" : "failed");
+    }
+
+    if (this.fileScanner) {
+      await this.fileScanner.saveState();
+    }
+
+    logger.info(`Deleted ${deletedCount} of ${relativePaths.length} remote files.`, this.verbosity);
+    return deletedCount;
+  }
 }
@@ -0,0 +1,178 @@
+/**
+ * Tests for the SourceWatcher
+ */
+
+import { expect, describe, beforeEach, afterEach, it } from 'bun:test';
+import fs from 'node:fs';
+import { SourceWatcher, SourceWatcherHandlers } from './source-watcher';
+import { createMockLoggers } from '../../../test-config/mocks/test-helpers';
+import { mkdir, writeFile, rm } from 'node:fs/promises';
+import { join } from 'node:path';
+import { tmpdir } from 'node:os';
+
+describe('SourceWatcher', () => {
+  let tempDir: string;
+  let batches: string[][];
+  let rescans: number;
+  let handlers: SourceWatcherHandlers;
+  let watcher: SourceWatcher | undefined;
+
+  const sleep = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+  // Wait until a condition holds, or give up after a while
+  const waitFor = async (condition: () => boolean, timeoutMs = 2000) => {
+    const deadline = Date.now() + timeoutMs;
+    while (!condition() && Date.now() < deadline) {
+      await sleep(10);
+    }
+  };
+
+  beforeEach(async () => {
+    createMockLoggers();
+    tempDir = join(tmpdir(), `source-watcher-test-${Date.now()}`);
+    await mkdir(tempDir, { recursive: true });
+    batches = [];
+    rescans = 0;
+    handlers = {
+      onChanges: async paths => { batches.push(paths); },
+      onRescan: async () => { rescans++; }
+    };
+  });
+
+  afterEach(async () => {
+    await watcher?.stop();
+    watcher = undefined;
+    await rm(tempDir, { recursive: true, force: true });
+  });
+
+  it('should hand over a burst of changes as one sorted batch', async () => {
+    await writeFile(join(tempDir, 'b.txt'), 'b');
+    await writeFile(join(tempDir, 'a.txt'), 'a');
+    watcher = new SourceWatcher(tempDir, handlers, { debounceMs: 20, stableMs: 0 });
+
+    watcher.handleEvent('b.txt');
+    watcher.handleEvent('a.txt');
+    watcher.handleEvent('b.txt');
+    await waitFor(() => batches.length > 0);
+
+    expect(batches).toEqual([['a.txt', 'b.txt']]);
+    expect(watcher.getPendingPaths()).toEqual([]);
+  });
+
+  it('should wait until a file stops changing', async () => {
+    await writeFile(join(tempDir, 'video.mp4'), 'part');
+    watcher = new SourceWatcher(tempDir, handlers, { debounceMs: 10, stableMs: 150 });
+
+    watcher.handleEvent('video.mp4');
+    await sleep(60);
+    await writeFile(join(tempDir, 'video.mp4'), 'part and more');
+    await sleep(60);
+
+    expect(batches).toEqual([]);
+    expect(watcher.getPendingPaths()).toEqual(['video.mp4']);
+
+    await waitFor(() => batches.length > 0);
+    expect(batches).toEqual([['video.mp4']]);
+  });
+
+  it('should hand over deleted paths without waiting', async () => {
+    watcher = new SourceWatcher(tempDir, handlers, { debounceMs: 10, stableMs: 60000 });
+
+    watcher.handleEvent('gone.txt');
+    await waitFor(() => batches.length > 0);
+
+    expect(batches).toEqual([['gone.txt']]);
+  });
+
+  it('should leave out ignored paths', async () => {
+    await writeFile(join(tempDir, 'notes.txt'), 'notes');
+    watcher = new SourceWatcher(tempDir, handlers, {
+      debounceMs: 10,
+      stableMs: 0,
+      ignore: relativePath => relativePath.startsWith('.internxt-backup')
+    });
+
+    watcher.handleEvent('.internxt-backup/state.db');
+    watcher.handleEvent('notes.txt');
+    await waitFor(() => batches.length > 0);
+
+    expect(batches).toEqual([['notes.txt']]);
+  });
+
+  it('should keep watching after a backup fails', async () => {
+    await writeFile(join(tempDir, 'notes.txt'), 'notes');
+    let attempts = 0;
+    watcher = new SourceWatcher(tempDir, {
+      ...handlers,
+      onChanges: async paths => {
+        attempts++;
+        if (attempts === 1) {
+          throw new Error('network down');
+        }
+        batches.push(paths);
+      }
+    }, { debounceMs: 10, stableMs: 0, retryDelayMs: 10 });
+
+    watcher.handleEvent('notes.txt');
+    await waitFor(() => attempts > 0);
+    watcher.handleEvent('notes.txt');
+    await waitFor(() => batches.length > 0);
+
+    expect(batches).toEqual([['notes.txt']]);
+  });
+
+  it('should hand over a failed batch again after a backoff', async () => {
+    await writeFile(join(tempDir, 'a.txt'), 'a');
+    await writeFile(join(tempDir, 'b.txt'), 'b');
+    const attempts: number[] = [];
+    watcher = new SourceWatcher(tempDir, {
+      ...handlers,
+      onChanges: async paths => {
+        attempts.push(Date.now());
+        if (attempts.length === 1) {
+          throw new Error('network down');
+        }
+        batches.push(paths);
+      }
+    }, { debounceMs: 10, stableMs: 0, retryDelayMs: 100 });
+
+    watcher.handleEvent('b.txt');
+    watcher.handleEvent('a.txt');
+    await waitFor(() => attempts.length > 0);
+    expect(watcher.getPendingPaths().sort()).toEqual(['a.txt', 'b.txt']);
+
+    await waitFor(() => batches.length > 0);
+    expect(batches).toEqual([['a.txt', 'b.txt']]);
+    expect(attempts[1] - attempts[0]).toBeGreaterThanOrEqual(90);
+    expect(watcher.getPendingPaths()).toEqual([]);
+  });
+
+  it('should follow changes in new directories', async () => {
+    watcher = new SourceWatcher(tempDir, handlers, { debounceMs: 50, stableMs: 0 });
+    expect(watcher.start()).toBe('watch');
+
+    await mkdir(join(tempDir, 'photos'));
+    await sleep(20);
+    await writeFile(join(tempDir, 'photos', 'cat.jpg'), 'meow');
+    await waitFor(() => batches.flat().includes('photos/cat.jpg'));
+
+    expect(batches.flat()).toContain('photos/cat.jpg');
+  });
+
+  it('should rescan periodically when the source can\'t be watched', async () => {
+    const watch = fs.watch;
+    (fs as { watch: unknown }).watch = () => {
+      throw new Error('ENOSYS');
+    };
+
+    try {
+      watcher = new SourceWatcher(tempDir, handlers, { rescanIntervalMs: 20 });
+      expect(watcher.start()).toBe('rescan');
+    } finally {
+      (fs as { watch: unknown }).watch = watch;
+    }
+
+    await waitFor(() => rescans >= 2);
+    expect(rescans).toBeGreaterThanOrEqual(2);
+  });
+});
@@ -0,0 +1,296 @@
+/**
+ * Source Watcher
+ * Follows changes below the source directory and hands over the changed paths in batches,
+ * once bursts of events have settled and the files stopped changing.
+ * Falls back to periodic rescans where recursive watching isn't available.
+ */
+
+import fs from "node:fs";
+import path from "node:path";
+import * as logger from "../../utils/logger";
+
+const DEFAULT_DEBOUNCE_MS = 1000;
+const DEFAULT_STABLE_MS = 5000;
+const DEFAULT_RESCAN_INTERVAL_MS = 5 * 60 * 1000;
+const DEFAULT_RETRY_DELAY_MS = 30 * 1000;
+const MAX_RETRY_DELAY_MS = 15 * 60 * 1000;
+
+export interface SourceWatcherOptions {
+  verbosity?: number;
+  debounceMs?: number; // Quiet time after the last event before a batch is considered
+  stableMs?: number; // How long a file's size and modification time must stay the same
+  rescanIntervalMs?: number; // Rescan interval when watching isn't possible
+  retryDelayMs?: number; // Wait before retrying a failed batch, doubled after each failure in a row
+  ignore?: (relativePath: string) => boolean; // Paths whose changes don't matter, e.g. the state database
+}
+
+export interface SourceWatcherHandlers {
+  onChanges: (relativePaths: string[]) => Promise<void>; // Back up these paths
+  onRescan: () => Promise<void>; // Back up the whole source
+}
+
+/**
+ * A path that changed, waiting until it is stable
+ */
+interface PendingChange {
+  lastEventAt: number;
+  size?: number;
+  mtime?: number;
+  stableSince?: number;
+  retryAt?: number; // A failed batch held the path; not handed over again before this time
+}
+
+export class SourceWatcher {
+  private sourceDir: string;
+  private handlers: SourceWatcherHandlers;
+  private verbosity: number;
+  private debounceMs: number;
+  private stableMs: number;
+  private rescanIntervalMs: number;
+  private retryDelayMs: number;
+  private failedBatches = 0; // Failed batches in a row, for the backoff
+  private ignore: (relativePath: string) => boolean;
+  private watcher: fs.FSWatcher | null = null;
+  private rescanTimer: NodeJS.Timeout | null = null;
+  private flushTimer: NodeJS.Timeout | null = null;
+  private pending: Map<string, PendingChange> = new Map();
+  private busy: Promise<void> | null = null;
+  private stopped = false;
+
+  /**
+   * Create a watcher for a source directory
+   * @param {string} sourceDir - The directory to watch
+   * @param {SourceWatcherHandlers} handlers - Back up changed paths, or everything after a rescan
+   * @param {SourceWatcherOptions} options - Timing, ignored paths and verbosity
+   */
+  constructor(sourceDir: string, handlers: SourceWatcherHandlers, options: SourceWatcherOptions = {}) {
+    this.sourceDir = path.resolve(sourceDir);
+    this.handlers = handlers;
+    this.verbosity = options.verbosity ?? logger.Verbosity.Normal;
+    this.debounceMs = options.debounceMs ?? DEFAULT_DEBOUNCE_MS;
+    this.stableMs = options.stableMs ?? DEFAULT_STABLE_MS;
+    this.rescanIntervalMs = options.rescanIntervalMs ?? DEFAULT_RESCAN_INTERVAL_MS;
+    this.retryDelayMs = options.retryDelayMs ?? DEFAULT_RETRY_DELAY_MS;
+    this.ignore = options.ignore ?? (() => false);
+  }
+
+  /**
+   * Start watching; without recursive watching, rescan periodically instead
+   * @returns {"watch" | "rescan"} How changes are followed
+   */
+  start(): "watch" | "rescan" {
+    this.stopped = false;
+
+    try {
+      this.watcher = fs.watch(this.sourceDir, { recursive: true }, (_event, filename) => {
+        if (filename) {
+          this.handleEvent(filename.toString());
+        }
+      });
+      this.watcher.on("error", (error) => {
+        logger.warning(`Watching ${this.sourceDir} failed: ${error.message}. Rescanning periodically instead.`, this.verbosity);
+        this.closeWatcher();
+        this.startRescans();
+        // Changes may have been missed
+        this.enqueue(() => this.handlers.onRescan());
+      });
+      logger.info(`Watching ${this.sourceDir} for changes`, this.verbosity);
+      return "watch";
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : String(error);
+      logger.warning(`Can't watch ${this.sourceDir}: ${errorMessage}. Rescanning periodically instead.`, this.verbosity);
+      this.startRescans();
+      return "rescan";
+    }
+  }
+
+  /**
+   * Stop watching and wait for the backup that is running, if any
+   */
+  async stop(): Promise<void> {
+    this.stopped = true;
+    this.closeWatcher();
+    if (this.rescanTimer) {
+      clearInterval(this.rescanTimer);
+      this.rescanTimer = null;
+    }
+    if (this.flushTimer) {
+      clearTimeout(this.flushTimer);
+      this.flushTimer = null;
+    }
+    this.pending.clear();
+    await this.busy;
+  }
+
+  /**
+   * Get the paths waiting to be backed up
+   */
+  getPendingPaths(): string[] {
+    return [...this.pending.keys()];
+  }
+
+  /**
+   * Record a change; every event restarts the debounce
+   * @param {string} relativePath - The path that changed, relative to the source
+   */
+  handleEvent(relativePath: string): void {
+    if (this.stopped || this.ignore(relativePath)) {
+      return;
+    }
+
+    const change = this.pending.get(relativePath);
+    if (change) {
+      change.lastEventAt = Date.now();
+    } else {
+      this.pending.set(relativePath, { lastEventAt: Date.now() });
+    }
+    this.scheduleFlush(this.debounceMs);
+  }
+
+  /**
+   * Hand over the paths that are stable, and check the others again later
+   */
+  async flush(): Promise<void> {
+    this.flushTimer = null;
+    if (this.stopped) {
+      return;
+    }
+
+    // Changes arriving during a backup wait for the next batch
+    if (this.busy) {
+      await this.busy;
+      return this.flush();
+    }
+
+    const now = Date.now();
+    const ready = new Map<string, PendingChange>();
+    let nextCheck = Infinity;
+
+    for (const [relativePath, change] of this.pending) {
+      const settlesAt = Math.max(change.lastEventAt + this.debounceMs, change.retryAt ?? 0);
+      if (settlesAt > now) {
+        nextCheck = Math.min(nextCheck, settlesAt - now);
+        continue;
+      }
+
+      const stableFor = this.checkStable(relativePath, change, now);
+      if (stableFor >= this.stableMs) {
+        ready.set(relativePath, change);
+      } else {
+        nextCheck = Math.min(nextCheck, this.stableMs - stableFor);
+      }
+    }
+
+    ready.forEach((_change, relativePath) => this.pending.delete(relativePath));
+    if (nextCheck !== Infinity) {
+      this.scheduleFlush(nextCheck);
+    }
+
+    if (ready.size > 0) {
+      logger.verbose(`Backing up ${ready.size} changed paths`, this.verbosity);
+      await this.enqueue(
+        () => this.handlers.onChanges([...ready.keys()].sort()),
+        () => this.retryLater(ready)
+      );
+    }
+  }
+
+  /**
+   * Put the paths of a failed batch back, to be handed over again after a backoff
+   * Paths that changed again meanwhile keep their new change and go with the next batch
+   */
+  private retryLater(batch: Map<string, PendingChange>): void {
+    const delayMs = Math.min(this.retryDelayMs * 2 ** this.failedBatches, MAX_RETRY_DELAY_MS);
+    this.failedBatches++;
+
+    const retryAt = Date.now() + delayMs;
+    for (const [relativePath, change] of batch) {
+      if (!this.pending.has(relativePath)) {
+        this.pending.set(relativePath, { ...change, retryAt });
+      }
+    }
+
+    logger.warning(`Retrying ${batch.size} changed paths in ${Math.round(delayMs / 1000)}s`, this.verbosity);
+    this.scheduleFlush(0);
+  }
+
+  /**
+   * Compare a path's size and modification time with the last check
+   * @returns {number} How long the path has been unchanged; deleted paths count as stable
+   */
+  private checkStable(relativePath: string, change: PendingChange, now: number): number {
+    let stats: fs.Stats;
+    try {
+      stats = fs.statSync(path.join(this.sourceDir, relativePath));
+    } catch {
+      return Infinity;
+    }
+
+    if (change.stableSince === undefined || stats.size !== change.size || stats.mtimeMs !== change.mtime) {
+      change.size = stats.size;
+      change.mtime = stats.mtimeMs;
+      change.stableSince = now;
+    }
+    return now - change.stableSince;
+  }
+
+  /**
+   * Run a backup after the one that is running; a failed backup is logged and watching goes on
+   * @param {() => Promise<void>} backup - The backup to run
+   * @param {() => void} onFailure - Called when the backup failed while still watching
+   */
+  private enqueue(backup: () => Promise<void>, onFailure?: () => void): Promise<void> {
+    const previous = this.busy ?? Promise.resolve();
+    const run = previous.then(async () => {
+      if (this.stopped) {
+        return;
+      }
+      try {
+        await backup();
+        this.failedBatches = 0;
+      } catch (error) {
+        // A backup failing once watching stopped was cancelled, which the backup logged itself
+        if (!this.stopped) {
+          const errorMessage = error instanceof Error ? error.message : String(error);
+          logger.error(`Backup of changes failed: ${errorMessage}`);
+          onFailure?.();
+        }
+      }
+    }).finally(() => {
+      if (this.busy === run) {
+        this.busy = null;
+      }
+    });
+
+    this.busy = run;
+    return run;
+  }
+
+  private scheduleFlush(delayMs: number): void {
+    if (this.flushTimer) {
+      clearTimeout(this.flushTimer);
+    }
+    this.flushTimer = setTimeout(() => {
+      this.flush().catch(() => {});
+    }, delayMs);
+  }
+
+  private startRescans(): void {
+    if (this.rescanTimer || this.stopped) {
+      return;
+    }
+    this.rescanTimer = setInterval(() => {
+      // Skip a rescan while the last one is still running
+      if (!this.busy) {
+        this.enqueue(() => this.handlers.onRescan());
+      }
+    }, this.rescanIntervalMs);
+  }
+
+  private closeWatcher(): void {
+    this.watcher?.close();
+    this.watcher = null;
+  }
+}
+
+export default SourceWatcher;
@@ -0,0 +1,97 @@
+/**
+ * Tests for the TempWorkspace
+ */
+
+import { expect, describe, beforeEach, afterEach, it } from 'bun:test';
+import { TempWorkspace, InsufficientSpaceError, purgeStaleWorkspaces, WORKSPACE_PREFIX, WORKSPACE_OWNER_FILE } from './temp-workspace';
+import { Verbosity } from '../../interfaces/logger';
+import { createMockLoggers } from '../../../test-config/mocks/test-helpers';
+import { mkdir, writeFile, readFile, readdir, rm, utimes } from 'node:fs/promises';
+import { existsSync } from 'node:fs';
+import { join, dirname } from 'node:path';
+import { tmpdir, hostname } from 'node:os';
+
+describe('TempWorkspace', () => {
+  let baseDir: string;
+
+  const createLeftover = async (name: string, owner?: object) => {
+    const workspacePath = join(baseDir, `${WORKSPACE_PREFIX}${name}`);
+    await mkdir(workspacePath, { recursive: true });
+    await writeFile(join(workspacePath, '1-report.txt.gz'), 'partial');
+    if (owner) {
+      await writeFile(join(workspacePath, WORKSPACE_OWNER_FILE), JSON.stringify(owner));
+    }
+    return workspacePath;
+  };
+
+  beforeEach(async () => {
+    createMockLoggers();
+    baseDir = join(tmpdir(), `temp-workspace-test-${Date.now()}`);
+    await mkdir(baseDir, { recursive: true });
+  });
+
+  afterEach(async () => {
+    await rm(baseDir, { recursive: true, force: true });
+  });
+
+  it('should create a workspace owned by this process and remove it again', async () => {
+    const workspace = await TempWorkspace.create({ baseDir, verbosity: Verbosity.Quiet });
+
+    expect(dirname(workspace.path)).toBe(baseDir);
+    const owner = JSON.parse(await readFile(join(workspace.path, WORKSPACE_OWNER_FILE), 'utf8'));
+    expect(owner).toMatchObject({ pid: process.pid, hostname: hostname() });
+
+    await workspace.remove();
+    expect(existsSync(workspace.path)).toBe(false);
+  });
+
+  it('should give files of the same name different paths', async () => {
+    const workspace = await TempWorkspace.create({ baseDir, verbosity: Verbosity.Quiet });
+
+    const first = workspace.getTempPath('a/report.txt.gz');
+    const second = workspace.getTempPath('b/report.txt.gz');
+
+    expect(first).not.toBe(second);
+    expect(dirname(first)).toBe(workspace.path);
+    expect(first.endsWith('report.txt.gz')).toBe(true);
+  });
+
+  it('should refuse temp files that would fill the disk', async () => {
+    const workspace = await TempWorkspace.create({ baseDir, verbosity: Verbosity.Quiet });
+
+    await workspace.ensureFreeSpace(1024);
+    const error = await workspace.ensureFreeSpace(Number.MAX_SAFE_INTEGER).catch(error => error);
+
+    expect(error).toBeInstanceOf(InsufficientSpaceError);
+    expect(error.message).toContain('--temp-dir');
+  });
+
+  it('should purge the workspaces of runs that no longer run at startup', async () => {
+    const exited = Bun.spawnSync(['true']);
+    const crashed = await createLeftover('crashed', { pid: exited.pid, hostname: hostname(), startedAt: '2026-01-01T00:00:00.000Z' });
+    const running = await createLeftover('running', { pid: process.pid, hostname: hostname(), startedAt: '2026-01-01T00:00:00.000Z' });
+    const otherHost = await createLeftover('other', { pid: exited.pid, hostname: 'other-nas', startedAt: '2026-01-01T00:00:00.000Z' });
+
+    const workspace = await TempWorkspace.create({ baseDir, verbosity: Verbosity.Quiet });
+
+    expect(existsSync(crashed)).toBe(false);
+    expect(existsSync(running)).toBe(true);
+    expect(existsSync(otherHost)).toBe(true);
+    expect(existsSync(workspace.path)).toBe(true);
+  });
+
+  it('should only purge workspaces without an owner once they are old', async () => {
+    const fresh = await createLeftover('fresh');
+    const old = await createLeftover('old');
+    const longAgo = new Date(Date.now() - 2 * 60 * 60 * 1000);
+    await utimes(old, longAgo, longAgo);
+    await writeFile(join(baseDir, 'unrelated.txt'), 'keep');
+
+    const purged = await purgeStaleWorkspaces(baseDir, Verbosity.Quiet);
+
+    expect(purged).toBe(1);
+    expect(existsSync(fresh)).toBe(true);
+    expect(existsSync(old)).toBe(false);
+    expect(await readdir(baseDir)).toContain('unrelated.txt');
+  });
+});
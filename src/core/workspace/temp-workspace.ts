@@ -0,0 +1,198 @@
+/**
+ * Temp Workspace
+ * Every backup run writes its compressed, encrypted and chunked temp files into a folder of
+ * its own, e.g. /tmp/internxt-backup-run-Xa81Kq, so files of the same name never collide.
+ * The folder names the process that owns it; workspaces left behind by a crashed run are
+ * purged when the next run starts.
+ */
+
+import { existsSync } from "node:fs";
+import { randomUUID } from "node:crypto";
+import { mkdir, mkdtemp, readdir, readFile, rm, stat, statfs, writeFile } from "node:fs/promises";
+import path from "node:path";
+import os from "node:os";
+import * as logger from "../../utils/logger";
+import { isRunning } from "../state/run-lock";
+
+export const WORKSPACE_PREFIX = "internxt-backup-run-";
+
+// Names the process owning a workspace
+export const WORKSPACE_OWNER_FILE = "owner.json";
+
+// Space kept free on the disk of the workspace, so a backup never fills it up completely
+const FREE_SPACE_MARGIN = 64 * 1024 * 1024;
+
+// A workspace without an owner file is only purged once it's this old, in case its run is just starting
+const UNOWNED_MAX_AGE_MS = 60 * 60 * 1000;
+
+/**
+ * The process owning a workspace, as written to the owner file
+ */
+export interface WorkspaceOwner {
+  pid: number;
+  hostname: string;
+  startedAt: string;
+}
+
+/**
+ * The disk of the workspace doesn't have room for a temp file
+ */
+export class InsufficientSpaceError extends Error {
+  readonly dir: string;
+  readonly neededBytes: number;
+  readonly availableBytes: number;
+
+  constructor(dir: string, neededBytes: number, availableBytes: number) {
+    super(
+      `Not enough space for a temp file of ${formatMB(neededBytes)} in ${dir} ` +
+      `(${formatMB(availableBytes)} free). Use --temp-dir to put temp files on a bigger disk.`
+    );
+    this.name = "InsufficientSpaceError";
+    this.dir = dir;
+    this.neededBytes = neededBytes;
+    this.availableBytes = availableBytes;
+  }
+}
+
+export interface TempWorkspaceOptions {
+  baseDir?: string; // Folder holding the workspaces, default the system temp folder
+  verbosity?: number;
+}
+
+export class TempWorkspace {
+  readonly path: string;
+  private verbosity: number;
+  private counter = 0;
+
+  private constructor(workspacePath: string, verbosity: number) {
+    this.path = workspacePath;
+    this.verbosity = verbosity;
+  }
+
+  /**
+   * Purge the workspaces of runs that no longer run and create the workspace of this run
+   * @param {TempWorkspaceOptions} options - Base folder and verbosity
+   * @returns {Promise<TempWorkspace>} The new workspace
+   */
+  static async create(options: TempWorkspaceOptions = {}): Promise<TempWorkspace> {
+    const baseDir = path.resolve(options.baseDir ?? os.tmpdir());
+    const verbosity = options.verbosity ?? logger.Verbosity.Normal;
+
+    await mkdir(baseDir, { recursive: true });
+    await purgeStaleWorkspaces(baseDir, verbosity);
+
+    const workspacePath = await mkdtemp(path.join(baseDir, WORKSPACE_PREFIX));
+    const owner: WorkspaceOwner = {
+      pid: process.pid,
+      hostname: os.hostname(),
+      startedAt: new Date().toISOString()
+    };
+    await writeFile(path.join(workspacePath, WORKSPACE_OWNER_FILE), `${JSON.stringify(owner)}\n`);
+
+    logger.verbose(`Writing temp files to ${workspacePath}`, verbosity);
+    return new TempWorkspace(workspacePath, verbosity);
+  }
+
+  /**
+   * Get a path for a temp file that no other temp file of this run has
+   * @param {string} name - Name to recognize the file by, e.g. "report.txt.gz"
+   */
+  getTempPath(name: string): string {
+    this.counter++;
+    return path.join(this.path, `${this.counter}-${path.basename(name)}`);
+  }
+
+  /**
+   * Check that the disk of the workspace has room for a temp file
+   * @param {number} bytes - Size of the temp file
+   * @throws {InsufficientSpaceError} If writing the file would leave less than the margin free
+   */
+  async ensureFreeSpace(bytes: number): Promise<void> {
+    const { bavail, bsize } = await statfs(this.path);
+    const availableBytes = bavail * bsize;
+
+    if (availableBytes - bytes < FREE_SPACE_MARGIN) {
+      throw new InsufficientSpaceError(this.path, bytes, availableBytes);
+    }
+  }
+
+  /**
+   * Remove the workspace with everything still in it
+   */
+  async remove(): Promise<void> {
+    try {
+      await rm(this.path, { recursive: true, force: true });
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : String(error);
+      logger.warning(`Could not remove the temp folder ${this.path}: ${errorMessage}`, this.verbosity);
+    }
+  }
+}
+
+/**
+ * Get a path for a temp file, in the workspace of the run or, without one, in the system temp folder
+ * @param {TempWorkspace} workspace - Workspace of the run, if any
+ * @param {string} name - Name to recognize the file by, e.g. "report.txt.gz"
+ */
+export function getTempPath(workspace: TempWorkspace | undefined, name: string): string {
+  return workspace?.getTempPath(name) ?? path.join(os.tmpdir(), `${randomUUID()}-${path.basename(name)}`);
+}
+
+/**
+ * Remove the workspaces in a folder whose run no longer runs on this host
+ * Workspaces of other hosts sharing the folder are left alone, like their run locks
+ * @param {string} baseDir - Folder holding the workspaces
+ * @param {number} verbosity - Verbosity level
+ * @returns {Promise<number>} Number of workspaces removed
+ */
+export async function purgeStaleWorkspaces(baseDir: string, verbosity: number = logger.Verbosity.Normal): Promise<number> {
+  if (!existsSync(baseDir)) {
+    return 0;
+  }
+
+  let purged = 0;
+  for (const entry of await readdir(baseDir, { withFileTypes: true })) {
+    if (!entry.isDirectory() || !entry.name.startsWith(WORKSPACE_PREFIX)) {
+      continue;
+    }
+
+    const workspacePath = path.join(baseDir, entry.name);
+    try {
+      if (!(await isStale(workspacePath))) {
+        continue;
+      }
+      await rm(workspacePath, { recursive: true, force: true });
+      logger.verbose(`Removed the temp folder ${workspacePath} of an earlier run`, verbosity);
+      purged++;
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : String(error);
+      logger.warning(`Could not remove the temp folder ${workspacePath}: ${errorMessage}`, verbosity);
+    }
+  }
+
+  if (purged > 0) {
+    logger.info(`Removed ${purged} temp folder${purged === 1 ? "" : "s"} left behind by earlier runs`, verbosity);
+  }
+  return purged;
+}
+
+/**
+ * Check whether the run owning a workspace is gone
+ */
+async function isStale(workspacePath: string): Promise<boolean> {
+  let owner: WorkspaceOwner;
+  try {
+    owner = JSON.parse(await readFile(path.join(workspacePath, WORKSPACE_OWNER_FILE), "utf8")) as WorkspaceOwner;
+  } catch {
+    const { mtimeMs } = await stat(workspacePath);
+    return Date.now() - mtimeMs > UNOWNED_MAX_AGE_MS;
+  }
+
+  return owner.hostname === os.hostname() && !isRunning(owner.pid);
+}
+
+function formatMB(bytes: number): string {
+  return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+}
+
+export default TempWorkspace;
@@ -0,0 +1,36 @@
+/**
+ * Tests for file-prune.ts
+ */
+
+import { expect, describe, it } from 'bun:test';
+import { pruneSnapshots, PruneOptions } from './file-prune';
+
+describe('pruneSnapshots', () => {
+  describe('interface', () => {
+    it('should export pruneSnapshots function', () => {
+      expect(typeof pruneSnapshots).toBe('function');
+    });
+
+    it('should accept target directory and options', () => {
+      expect(pruneSnapshots.length).toBe(2);
+    });
+  });
+
+  describe('prune options', () => {
+    it('should support all prune option types', () => {
+      const options: PruneOptions = {
+        keepDaily: 7,
+        keepWeekly: 4,
+        keepMonthly: 12,
+        dryRun: true,
+        backend: 'local'
+      };
+
+      expect(options.keepDaily).toBe(7);
+      expect(options.keepWeekly).toBe(4);
+      expect(options.keepMonthly).toBe(12);
+      expect(options.dryRun).toBe(true);
+      expect(options.backend).toBe('local');
+    });
+  });
+});
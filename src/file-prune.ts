@@ -0,0 +1,50 @@
+/**
+ * Internxt Snapshot Prune
+ *
+ * Applies a retention policy to the snapshots of a backup
+ */
+
+import path from "path";
+import * as logger from "./utils/logger";
+import { SnapshotPruner, PruneResult } from "./core/snapshot/snapshot-pruner";
+import { RetentionPolicy } from "./core/snapshot/retention";
+import { createStorageBackend } from "./core/storage/create-backend";
+import { getVerbosity, ensureBackendReady } from "./file-sync";
+
+// Define options interface for better type checking
+export interface PruneOptions extends RetentionPolicy {
+  dryRun?: boolean;
+  quiet?: boolean;
+  verbose?: boolean;
+  backend?: string;
+}
+
+/**
+ * Main prune function that can be called from CLI, the scheduler or programmatically
+ */
+export async function pruneSnapshots(targetDir: string, options: PruneOptions): Promise<PruneResult> {
+  try {
+    const verbosity = getVerbosity(options);
+
+    // Local backups live in a directory on disk
+    const target = options.backend === "local" ? path.resolve(targetDir) : targetDir;
+
+    // Check the storage backend (Internxt CLI by default)
+    const backend = createStorageBackend(options.backend, { target, verbosity });
+    await ensureBackendReady(backend, verbosity);
+
+    const pruner = new SnapshotPruner(backend, target, verbosity);
+    return await pruner.prune(
+      {
+        keepDaily: options.keepDaily,
+        keepWeekly: options.keepWeekly,
+        keepMonthly: options.keepMonthly
+      },
+      options.dryRun
+    );
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : String(error);
+    logger.error(`Error during prune: ${errorMessage}`);
+    throw error; // Let the CLI handle the error
+  }
+}
@@ -0,0 +1,32 @@
+/**
+ * Tests for file-restore.ts
+ */
+
+import { expect, describe, it } from 'bun:test';
+import { restoreFiles, RestoreOptions } from './file-restore';
+
+describe('restoreFiles', () => {
+  describe('interface', () => {
+    it('should export restoreFiles function', () => {
+      expect(typeof restoreFiles).toBe('function');
+    });
+
+    it('should accept remote directory, local directory and options', () => {
+      expect(restoreFiles.length).toBe(3);
+    });
+  });
+
+  describe('restore options', () => {
+    it('should support all restore option types', () => {
+      const options: RestoreOptions = {
+        cores: 2,
+        quiet: true,
+        verbose: false
+      };
+
+      expect(options.cores).toBe(2);
+      expect(options.quiet).toBe(true);
+      expect(options.verbose).toBe(false);
+    });
+  });
+});
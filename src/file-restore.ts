@@ -0,0 +1,58 @@
+/**
+ * Internxt File Restore
+ *
+ * Downloads a backup from Internxt Drive (or a local backup directory) back to local disk
+ */
+
+import { getOptimalConcurrency } from "./utils/env-utils";
+import * as logger from "./utils/logger";
+import Restorer from "./core/restore/restorer";
+import path from "path";
+import { createStorageBackend } from "./core/storage/create-backend";
+import { getVerbosity, ensureBackendReady } from "./file-sync";
+
+// Define options interface for better type checking
+export interface RestoreOptions {
+  cores?: number;
+  quiet?: boolean;
+  verbose?: boolean;
+  passphrase?: string;
+  encryptionKeyFile?: string;
+  backend?: string;
+  snapshot?: string;
+}
+
+/**
+ * Main restore function that can be called from CLI or programmatically
+ */
+export async function restoreFiles(remoteDir: string, localDir: string, options: RestoreOptions): Promise<void> {
+  try {
+    const verbosity = getVerbosity(options);
+
+    // Local backups are read from a directory on disk
+    const remote = options.backend === "local" ? path.resolve(remoteDir) : remoteDir;
+
+    // Check the storage backend (Internxt CLI by default)
+    const backend = createStorageBackend(options.backend, { target: remote, verbosity });
+    await ensureBackendReady(backend, verbosity);
+
+    const restorer = new Restorer(
+      getOptimalConcurrency(options.cores),
+      remote,
+      localDir,
+      verbosity,
+      {
+        backend,
+        snapshot: options.snapshot,
+        passphrase: options.passphrase,
+        encryptionKeyFile: options.encryptionKeyFile
+      }
+    );
+
+    await restorer.startRestore();
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : String(error);
+    logger.error(`Error during restore: ${errorMessage}`);
+    throw error; // Let the CLI handle the error
+  }
+}
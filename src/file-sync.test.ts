@@ -2,8 +2,14 @@
  * Tests for file-sync.ts
  */
 
-import { expect, describe, it } from 'bun:test';
-import { syncFiles, SyncOptions } from './file-sync';
+import { expect, describe, it, beforeEach, afterEach } from 'bun:test';
+import { syncFiles, SyncOptions, getBackupStateDir, BackupCancelledError } from './file-sync';
+import { RunLock } from './core/state/run-lock';
+import { mkdir, writeFile, readFile, readdir, rm } from 'node:fs/promises';
+import { existsSync } from 'node:fs';
+import { randomBytes } from 'node:crypto';
+import { join } from 'node:path';
+import { tmpdir } from 'node:os';
 
 describe('syncFiles', () => {
   describe('interface', () => {
@@ -28,7 +34,18 @@ describe('syncFiles', () => {
         compress: true,
         compressionLevel: 9,
         resume: true,
-        chunkSize: 100
+        chunkSize: 100,
+        mirror: true,
+        maxDeletions: 50,
+        include: ['.ssh/config'],
+        exclude: ['node_modules/'],
+        checksum: true,
+        encrypt: true,
+        encryptionKeyFile: '/root/backup.key',
+        backend: 'local',
+        snapshots: true,
+        dryRun: true,
+        stateDir: '/var/lib/internxt-backup'
       };
 
       expect(options.cores).toBe(4);
@@ -40,6 +57,17 @@ describe('syncFiles', () => {
       expect(options.compressionLevel).toBe(9);
       expect(options.resume).toBe(true);
       expect(options.chunkSize).toBe(100);
+      expect(options.mirror).toBe(true);
+      expect(options.maxDeletions).toBe(50);
+      expect(options.include).toEqual(['.ssh/config']);
+      expect(options.exclude).toEqual(['node_modules/']);
+      expect(options.checksum).toBe(true);
+      expect(options.encrypt).toBe(true);
+      expect(options.encryptionKeyFile).toBe('/root/backup.key');
+      expect(options.backend).toBe('local');
+      expect(options.snapshots).toBe(true);
+      expect(options.dryRun).toBe(true);
+      expect(options.stateDir).toBe('/var/lib/internxt-backup');
     });
 
     it('should work with empty options', () => {
@@ -57,4 +85,229 @@ describe('syncFiles', () => {
       expect(options.compress).toBe(true);
     });
   });
+
+  describe('report', () => {
+    let tempDir: string;
+    let options: SyncOptions;
+
+    beforeEach(async () => {
+      tempDir = join(tmpdir(), `file-sync-report-test-${Date.now()}`);
+      await mkdir(join(tempDir, 'source', 'docs'), { recursive: true });
+      await mkdir(join(tempDir, 'backup'));
+      await writeFile(join(tempDir, 'source', 'notes.txt'), 'notes');
+      await writeFile(join(tempDir, 'source', 'docs', 'big.log'), 'log line\n'.repeat(500));
+      options = {
+        backend: 'local',
+        target: join(tempDir, 'backup'),
+        stateDir: join(tempDir, 'state'),
+        compress: true,
+        quiet: true,
+        reportPath: join(tempDir, 'report.json')
+      };
+    });
+
+    afterEach(async () => {
+      await rm(tempDir, { recursive: true, force: true });
+    });
+
+    const readReport = async () => JSON.parse(await readFile(join(tempDir, 'report.json'), 'utf8'));
+
+    it('should report every file, folder and the scan of a run', async () => {
+      await syncFiles(join(tempDir, 'source'), { ...options, job: 'docs' });
+
+      const report = await readReport();
+      expect(report).toMatchObject({
+        runId: 1,
+        job: 'docs',
+        backend: 'local',
+        status: 'success',
+        scan: { totalFiles: 2, filesToUpload: 2, filesToDelete: 0 },
+        summary: { uploaded: 2, skipped: 0, failed: 0 }
+      });
+      expect(report.files.map((file: { path: string }) => file.path)).toEqual(['docs/big.log', 'notes.txt']);
+      expect(report.files[0].compressionRatio).toBeLessThan(0.1);
+      expect(report.files[1]).toMatchObject({ status: 'uploaded', size: 5, uploadedBytes: 5 });
+      expect(report.folders.some((folder: string) => folder.endsWith('backup/docs'))).toBe(true);
+    });
+
+    it('should name uploads after the codec a rule picks', async () => {
+      await writeFile(join(tempDir, 'source', 'docs', 'big.txt'), 'text line\n'.repeat(500));
+
+      await syncFiles(join(tempDir, 'source'), {
+        ...options,
+        compress: 'brotli',
+        compressionRules: [{ pattern: '*.log', codec: 'zstd', level: 19 }]
+      });
+
+      expect(existsSync(join(tempDir, 'backup', 'docs', 'big.log.zst'))).toBe(true);
+      expect(existsSync(join(tempDir, 'backup', 'docs', 'big.txt.br'))).toBe(true);
+    });
+
+    it('should replace the compressed copy once compression stops saving enough', async () => {
+      await syncFiles(join(tempDir, 'source'), options);
+      expect(existsSync(join(tempDir, 'backup', 'docs', 'big.log.gz'))).toBe(true);
+
+      await writeFile(join(tempDir, 'source', 'docs', 'big.log'), randomBytes(4500));
+      await syncFiles(join(tempDir, 'source'), options);
+
+      expect(existsSync(join(tempDir, 'backup', 'docs', 'big.log'))).toBe(true);
+      expect(existsSync(join(tempDir, 'backup', 'docs', 'big.log.gz'))).toBe(false);
+
+      await writeFile(join(tempDir, 'source', 'docs', 'big.log'), 'log line\n'.repeat(500));
+      await syncFiles(join(tempDir, 'source'), options);
+
+      expect(existsSync(join(tempDir, 'backup', 'docs', 'big.log.gz'))).toBe(true);
+      expect(existsSync(join(tempDir, 'backup', 'docs', 'big.log'))).toBe(false);
+    });
+
+    it('should write temp files to the temp dir and remove them after the run', async () => {
+      await syncFiles(join(tempDir, 'source'), { ...options, encrypt: true, passphrase: 'secret', tempDir: join(tempDir, 'tmp') });
+
+      expect(existsSync(join(tempDir, 'backup', 'docs', 'big.log.gz.enc'))).toBe(true);
+      expect(await readdir(join(tempDir, 'tmp'))).toEqual([]);
+    });
+
+    it('should report unchanged files as skipped and mirrored deletions', async () => {
+      await syncFiles(join(tempDir, 'source'), options);
+      await rm(join(tempDir, 'source', 'notes.txt'));
+
+      await syncFiles(join(tempDir, 'source'), { ...options, mirror: true });
+
+      const report = await readReport();
+      expect(report.runId).toBe(2);
+      expect(report.files).toEqual([{ path: 'docs/big.log', status: 'skipped', size: 4500, reason: 'unchanged' }]);
+      expect(report.deletions).toEqual([{ path: 'notes.txt', status: 'deleted' }]);
+      expect(report.summary.deleted).toBe(1);
+    });
+  });
+
+  describe('paths', () => {
+    let tempDir: string;
+    let options: SyncOptions;
+
+    beforeEach(async () => {
+      tempDir = join(tmpdir(), `file-sync-paths-test-${Date.now()}`);
+      await mkdir(join(tempDir, 'source', 'docs'), { recursive: true });
+      await mkdir(join(tempDir, 'backup'));
+      await writeFile(join(tempDir, 'source', 'notes.txt'), 'notes');
+      await writeFile(join(tempDir, 'source', 'docs', 'a.txt'), 'a');
+      options = {
+        backend: 'local',
+        target: join(tempDir, 'backup'),
+        stateDir: join(tempDir, 'state'),
+        quiet: true,
+        reportPath: join(tempDir, 'report.json')
+      };
+      await syncFiles(join(tempDir, 'source'), options);
+    });
+
+    afterEach(async () => {
+      await rm(tempDir, { recursive: true, force: true });
+    });
+
+    const readReport = async () => JSON.parse(await readFile(join(tempDir, 'report.json'), 'utf8'));
+
+    it('should only look at the given paths', async () => {
+      await writeFile(join(tempDir, 'source', 'notes.txt'), 'changed notes');
+      await mkdir(join(tempDir, 'source', 'new'));
+      await writeFile(join(tempDir, 'source', 'new', 'b.txt'), 'b');
+
+      await syncFiles(join(tempDir, 'source'), { ...options, paths: ['notes.txt', 'new'] });
+
+      const report = await readReport();
+      expect(report.scan).toMatchObject({ totalFiles: 2, filesToUpload: 2 });
+      expect(report.files.map((file: { path: string }) => file.path)).toEqual(['new/b.txt', 'notes.txt']);
+      expect(await readFile(join(tempDir, 'backup', 'new', 'b.txt'), 'utf8')).toBe('b');
+    });
+
+    it('should delete the remote copies of given paths that are gone', async () => {
+      await rm(join(tempDir, 'source', 'docs'), { recursive: true });
+
+      await syncFiles(join(tempDir, 'source'), { ...options, mirror: true, paths: ['docs'] });
+
+      const report = await readReport();
+      expect(report.deletions).toEqual([{ path: 'docs/a.txt', status: 'deleted' }]);
+      expect(report.files).toEqual([]);
+    });
+
+    it('should skip given paths that are excluded', async () => {
+      await writeFile(join(tempDir, 'source', 'notes.txt'), 'changed notes');
+
+      await syncFiles(join(tempDir, 'source'), { ...options, exclude: ['*.txt'], paths: ['notes.txt'] });
+
+      expect((await readReport()).scan.totalFiles).toBe(0);
+    });
+  });
+
+  describe('run lock', () => {
+    let tempDir: string;
+    let options: SyncOptions;
+    let lock: RunLock;
+
+    beforeEach(async () => {
+      tempDir = join(tmpdir(), `file-sync-lock-test-${Date.now()}`);
+      await mkdir(join(tempDir, 'source'), { recursive: true });
+      await mkdir(join(tempDir, 'backup'));
+      await writeFile(join(tempDir, 'source', 'notes.txt'), 'notes');
+      options = {
+        backend: 'local',
+        target: join(tempDir, 'backup'),
+        stateDir: join(tempDir, 'state'),
+        quiet: true
+      };
+      lock = new RunLock(getBackupStateDir(join(tempDir, 'source'), options), { verbosity: 0 });
+      await lock.acquire();
+    });
+
+    afterEach(async () => {
+      lock.release();
+      await rm(tempDir, { recursive: true, force: true });
+    });
+
+    it('should not start while another backup of the same source and target runs', async () => {
+      await expect(syncFiles(join(tempDir, 'source'), options)).rejects.toThrow('Another backup is running');
+    });
+
+    it('should let a dry run look while a backup runs', async () => {
+      await syncFiles(join(tempDir, 'source'), { ...options, dryRun: true });
+    });
+  });
+
+  describe('cancellation', () => {
+    let tempDir: string;
+    let options: SyncOptions;
+
+    beforeEach(async () => {
+      tempDir = join(tmpdir(), `file-sync-cancel-test-${Date.now()}`);
+      await mkdir(join(tempDir, 'source'), { recursive: true });
+      await mkdir(join(tempDir, 'backup'));
+      await writeFile(join(tempDir, 'source', 'notes.txt'), 'notes');
+      options = {
+        backend: 'local',
+        target: join(tempDir, 'backup'),
+        stateDir: join(tempDir, 'state'),
+        quiet: true,
+        reportPath: join(tempDir, 'report.json')
+      };
+    });
+
+    afterEach(async () => {
+      await rm(tempDir, { recursive: true, force: true });
+    });
+
+    it('should stop a cancelled run, report it and release the lock', async () => {
+      const controller = new AbortController();
+      controller.abort(new BackupCancelledError('Backup cancelled by SIGINT'));
+
+      await expect(syncFiles(join(tempDir, 'source'), { ...options, signal: controller.signal }))
+        .rejects.toBeInstanceOf(BackupCancelledError);
+
+      const report = JSON.parse(await readFile(join(tempDir, 'report.json'), 'utf8'));
+      expect(report).toMatchObject({ status: 'failed', error: 'Backup cancelled by SIGINT', summary: { uploaded: 0 } });
+
+      // The next run isn't locked out
+      await syncFiles(join(tempDir, 'source'), options);
+      expect(await readFile(join(tempDir, 'backup', 'notes.txt'), 'utf8')).toBe('notes');
+    });
+  });
 });
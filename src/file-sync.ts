@@ -5,11 +5,40 @@
  */
 
 import chalk from "chalk";
+import path from "path";
 import { getOptimalConcurrency } from "./utils/env-utils";
 import * as logger from "./utils/logger";
 import FileScanner from "./core/file-scanner";
-import Uploader from "./core/upload/uploader";
-import { InternxtService } from "./core/internxt/internxt-service";
+import Uploader, { UploadPlan } from "./core/upload/uploader";
+import { CompressionMode, CompressionRule } from "./core/compression/compression-service";
+import { createStorageBackend } from "./core/storage/create-backend";
+import { SnapshotManager } from "./core/snapshot/snapshot-manager";
+import { getStateDir, openStateStore, UPLOADS_DIR } from "./core/state/state-dir";
+import { StateStore, RunSummary } from "./core/state/state-store";
+import { RunLock } from "./core/state/run-lock";
+import { TempWorkspace } from "./core/workspace/temp-workspace";
+import { StorageBackend } from "./interfaces/storage";
+import { ProgressTracker } from "./core/upload/progress-tracker";
+import { ResumableUploader } from "./core/upload/resumable-uploader";
+import { RunReporter, RunReport, writeReport } from "./core/report/run-report";
+
+// How a run reports its result: the usual log lines, or a JSON report on stdout
+export type OutputFormat = "text" | "json";
+
+export const OUTPUT_FORMATS: OutputFormat[] = ["text", "json"];
+
+// Exit code of a cancelled run, the code shells report for a command stopped with Ctrl+C
+export const EXIT_CANCELLED = 130;
+
+/**
+ * A backup that was cancelled, e.g. with Ctrl+C
+ */
+export class BackupCancelledError extends Error {
+  constructor(message: string = "Backup cancelled") {
+    super(message);
+    this.name = "BackupCancelledError";
+  }
+}
 
 // Define options interface for better type checking
 export interface SyncOptions {
@@ -18,50 +47,221 @@ export interface SyncOptions {
   quiet?: boolean;
   verbose?: boolean;
   force?: boolean;
-  compress?: boolean;
+  compress?: boolean | CompressionMode; // true compresses with gzip
   compressionLevel?: number;
+  compressionRules?: CompressionRule[];
+  minCompressionSaving?: number; // Percentage compression must save, default 5
+  minCompressionSavingBytes?: number;
   resume?: boolean;
   chunkSize?: number;
+  mirror?: boolean;
+  maxDeletions?: number;
+  include?: string[];
+  exclude?: string[];
+  checksum?: boolean;
+  encrypt?: boolean;
+  passphrase?: string;
+  encryptionKeyFile?: string;
+  backend?: string;
+  snapshots?: boolean;
+  dryRun?: boolean;
+  stateDir?: string; // Folder holding the state of all backups (default: $XDG_STATE_HOME/internxt-backup)
+  tempDir?: string; // Folder for the temp files of a run (default: the system temp folder)
+  progressTracker?: ProgressTracker; // Follows the upload, e.g. for the daemon's status API
+  job?: string; // Job name from the config file, for the report
+  reportPath?: string; // Write the JSON report of the run to this file
+  output?: OutputFormat; // "json" prints the report on stdout
+  paths?: string[]; // Only look at these paths relative to the source, e.g. the changes seen by watch mode
+  waitLock?: boolean; // Wait for another backup with the same state to finish instead of failing
+  signal?: AbortSignal; // Cancels the run; uploads that finished are kept in the state
+}
+
+// Default safety cap on remote deletions per run in mirror mode
+const DEFAULT_MAX_DELETIONS = 100;
+
+/**
+ * Determine the verbosity level from the quiet/verbose options
+ */
+export function getVerbosity(options: { quiet?: boolean; verbose?: boolean }): logger.Verbosity {
+  if (options.quiet) {
+    return logger.Verbosity.Quiet;
+  }
+  if (options.verbose) {
+    return logger.Verbosity.Verbose;
+  }
+  return logger.Verbosity.Normal;
+}
+
+/**
+ * Make sure the storage backend is usable, e.g. the Internxt CLI is installed and authenticated
+ * Throws an error with instructions when it isn't
+ */
+export async function ensureBackendReady(backend: StorageBackend, verbosity: number): Promise<void> {
+  logger.info(`Checking ${backend.name}...`, verbosity);
+  const status = await backend.checkReady();
+
+  if (!status.ready) {
+    throw new Error(status.error ?? `${backend.name} is not ready`);
+  }
+
+  logger.success(`${status.description ?? backend.name} ready`, verbosity);
+}
+
+/**
+ * Cancel a run on SIGINT or SIGTERM instead of exiting, so it can stop its uploads and save its state
+ * A second signal exits right away
+ * @param {number} verbosity - Verbosity level
+ * @returns The signal to pass to the run, and a function that removes the signal handlers
+ */
+export function cancelOnSignals(verbosity: number): { signal: AbortSignal; dispose: () => void } {
+  const controller = new AbortController();
+
+  const onSignal = (signal: NodeJS.Signals) => {
+    if (controller.signal.aborted) {
+      logger.error("Exiting without waiting for the running uploads");
+      process.exit(EXIT_CANCELLED);
+    }
+
+    logger.warning(`\nStopping on ${signal}, cancelling running uploads. Press Ctrl+C again to exit right away.`, verbosity);
+    controller.abort(new BackupCancelledError(`Backup cancelled by ${signal}`));
+  };
+
+  process.on("SIGINT", onSignal);
+  process.on("SIGTERM", onSignal);
+
+  return {
+    signal: controller.signal,
+    dispose: () => {
+      process.removeListener("SIGINT", onSignal);
+      process.removeListener("SIGTERM", onSignal);
+    }
+  };
+}
+
+/**
+ * Get the backup target; local backups take it as a directory on disk
+ */
+function resolveTarget(options: SyncOptions): string {
+  return options.backend === "local"
+    ? path.resolve(options.target || ".")
+    : options.target || "/";
+}
+
+/**
+ * Get the state directory a backup of the source with these options uses
+ */
+export function getBackupStateDir(sourceDir: string, options: SyncOptions): string {
+  return getStateDir(sourceDir, resolveTarget(options), options.backend, options.stateDir);
+}
+
+/**
+ * Print what a run would do, shown regardless of verbosity since it is the point of a dry run
+ */
+function reportDryRun(plan: UploadPlan, filesToDelete: string[], snapshotId?: string): void {
+  logger.always("Dry run: no changes were made.");
+
+  if (plan.folders.length > 0) {
+    logger.always(`Folders to create if missing (${plan.folders.length}):`);
+    plan.folders.forEach(folder => logger.always(`  ${folder}`));
+  }
+
+  const totalSizeMB = (plan.totalBytes / (1024 * 1024)).toFixed(2);
+  logger.always(`Files to upload (${plan.files.length}, ${plan.totalBytes} bytes / ${totalSizeMB} MB):`);
+  for (const file of plan.files) {
+    const notes = [file.compress && "compressed", file.resumable && "resumable"].filter(Boolean);
+    logger.always(`  ${file.relativePath} -> ${file.remotePath}${notes.length > 0 ? ` [${notes.join(", ")}]` : ""}`);
+  }
+
+  if (filesToDelete.length > 0) {
+    logger.always(`Remote files to move to the trash (${filesToDelete.length}):`);
+    filesToDelete.forEach(relativePath => logger.always(`  ${relativePath}`));
+  }
+
+  if (snapshotId) {
+    logger.always(`Snapshot ${snapshotId} would be saved.`);
+  }
+}
+
+/**
+ * Write the report of a run to the report file and/or stdout
+ * A report that can't be written is logged and doesn't change the outcome of the run
+ */
+async function publishReport(report: RunReport, options: SyncOptions, verbosity: number): Promise<void> {
+  if (options.reportPath) {
+    try {
+      await writeReport(report, options.reportPath);
+      logger.verbose(`Report written to ${options.reportPath}`, verbosity);
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : String(error);
+      logger.error(`Failed to write the report to ${options.reportPath}: ${errorMessage}`);
+    }
+  }
+
+  if (options.output === "json") {
+    process.stdout.write(`${JSON.stringify(report, null, 2)}\n`);
+  }
 }
 
 /**
  * Main synchronization function that can be called from CLI or programmatically
  */
 export async function syncFiles(sourceDir: string, options: SyncOptions): Promise<void> {
+  let stateStore: StateStore | undefined;
+  let runLock: RunLock | undefined;
+  let workspace: TempWorkspace | undefined;
+  let runId: number | undefined;
+  const runSummary: RunSummary = { status: "failed", filesUploaded: 0, filesFailed: 0, filesDeleted: 0 };
+  const verbosity = getVerbosity(options);
+  const target = resolveTarget(options);
+  const reporter = new RunReporter({
+    job: options.job,
+    sourceDir,
+    target,
+    backend: options.backend,
+    dryRun: options.dryRun
+  });
+  let failure: unknown;
+
   try {
-    // Determine verbosity level using the Verbosity enum
-    let verbosity: logger.Verbosity;
-    if (options.quiet) {
-      verbosity = logger.Verbosity.Quiet;
-    } else if (options.verbose) {
-      verbosity = logger.Verbosity.Verbose;
-    } else {
-      verbosity = logger.Verbosity.Normal;
-    }
+    // Check the storage backend (Internxt CLI by default)
+    const backend = createStorageBackend(options.backend, { target, verbosity, signal: options.signal });
+    await ensureBackendReady(backend, verbosity);
 
-    // Check Internxt CLI status
-    logger.info("Checking Internxt CLI...", verbosity);
-    const internxtService = new InternxtService({ verbosity });
-    const cliStatus = await internxtService.checkCLI();
+    // Each source/target/backend combination keeps its own state
+    const stateDir = getBackupStateDir(sourceDir, options);
 
-    if (!cliStatus.installed) {
-      throw new Error(
-        `Internxt CLI not found. Please install it with: npm install -g @internxt/cli\n` +
-        `Error: ${cliStatus.error}`
-      );
+    // Only one backup at a time may write the state; a dry run only reads it
+    if (!options.dryRun) {
+      runLock = new RunLock(stateDir, { verbosity });
+      await runLock.acquire(options.waitLock);
     }
 
-    if (!cliStatus.authenticated) {
-      throw new Error(
-        `Not authenticated with Internxt. Please run: internxt login\n` +
-        `Error: ${cliStatus.error}`
-      );
+    stateStore = await openStateStore(stateDir, sourceDir, verbosity, options.dryRun);
+
+    // Temp files get a folder of their own, which also clears what crashed runs left behind
+    if (!options.dryRun) {
+      workspace = await TempWorkspace.create({ baseDir: options.tempDir, verbosity });
+
+      // Chunked uploads of files that are gone would keep their copies and parts forever
+      await new ResumableUploader(backend, { resumeDir: path.join(stateDir, UPLOADS_DIR), workspace, verbosity })
+        .cleanupStaleStates();
     }
+    runId = options.dryRun ? undefined : stateStore.startRun();
+    reporter.setRunId(runId);
 
-    logger.success(`Internxt CLI v${cliStatus.version} ready`, verbosity);
+    // Initialize file scanner with force upload, filter and change detection options
+    const fileScanner = new FileScanner(sourceDir, verbosity, options.force, {
+      include: options.include,
+      exclude: options.exclude,
+      checksum: options.checksum,
+      dryRun: options.dryRun,
+      stateStore
+    });
 
-    // Initialize file scanner with force upload option if specified
-    const fileScanner = new FileScanner(sourceDir, verbosity, options.force);
+    // In snapshot mode every run uploads its files to a new versioned folder
+    const snapshotManager = options.snapshots ? new SnapshotManager(backend, target, verbosity) : null;
+    const snapshotId = snapshotManager ? SnapshotManager.createSnapshotId() : undefined;
+    reporter.setSnapshotId(snapshotId);
 
     // Get optimal concurrency
     const concurrentUploads = getOptimalConcurrency(options.cores);
@@ -69,31 +269,136 @@ export async function syncFiles(sourceDir: string, options: SyncOptions): Promis
     // Create uploader
     const uploader = new Uploader(
       concurrentUploads,
-      options.target || "/",
+      target,
       verbosity,
       {
+        backend,
         compress: options.compress,
         compressionLevel: options.compressionLevel,
+        compressionRules: options.compressionRules,
+        minCompressionSaving: options.minCompressionSaving,
+        minCompressionSavingBytes: options.minCompressionSavingBytes,
         resume: options.resume,
-        chunkSize: options.chunkSize
+        chunkSize: options.chunkSize,
+        resumeDir: path.join(stateDir, UPLOADS_DIR),
+        encrypt: options.encrypt,
+        passphrase: options.passphrase,
+        encryptionKeyFile: options.encryptionKeyFile,
+        versionsDir: snapshotManager && snapshotId ? snapshotManager.getVersionsDir(snapshotId) : undefined,
+        workspace,
+        stateStore,
+        progressTracker: options.progressTracker,
+        reporter,
+        signal: options.signal
       }
     );
 
     // Link the file scanner to the uploader
     uploader.setFileScanner(fileScanner);
 
-    // Scan the source directory
-    const scanResult = await fileScanner.scan();
+    // Scan the source directory, or only the paths that changed
+    const scanStart = Date.now();
+    const scanResult = options.paths ? await fileScanner.scanPaths(options.paths) : await fileScanner.scan();
+    const scanDuration = Date.now() - scanStart;
+    options.progressTracker?.recordScanDuration(scanDuration);
+
+    // Files missing from the previous snapshot need a new version too
+    let filesToUpload = scanResult.filesToUpload;
+    const previousSnapshot = snapshotManager ? await snapshotManager.loadLatestManifest() : null;
+    if (snapshotManager) {
+      filesToUpload = snapshotManager.selectFilesToUpload(scanResult.allFiles, filesToUpload, previousSnapshot);
+    }
+    reporter.recordScan(scanResult, filesToUpload, scanDuration);
+    options.signal?.throwIfAborted();
+
+    // Stop before the first remote write in a dry run
+    if (options.dryRun) {
+      const mirrorDeletions = options.mirror && !snapshotManager ? scanResult.filesToDelete : [];
+      const maxDeletions = options.maxDeletions ?? DEFAULT_MAX_DELETIONS;
+      if (mirrorDeletions.length > maxDeletions) {
+        logger.warning(
+          `Remote deletions would be skipped: ${mirrorDeletions.length} files exceed the limit of ${maxDeletions}.`,
+          verbosity
+        );
+      }
+
+      const plan = uploader.planUpload(filesToUpload);
+      const plannedDeletions = mirrorDeletions.length > maxDeletions ? [] : mirrorDeletions;
+      reportDryRun(plan, plannedDeletions, snapshotId);
+      reporter.recordPlan(plan, plannedDeletions);
+      runSummary.status = "success";
+      return;
+    }
 
     // Start the upload process
-    if (scanResult.filesToUpload.length === 0) {
+    let uploadSucceeded = true;
+    if (filesToUpload.length === 0) {
       logger.success("All files are up to date. Nothing to upload.", verbosity);
     } else {
-      await uploader.startUpload(scanResult.filesToUpload);
+      uploadSucceeded = await uploader.startUpload(filesToUpload);
+    }
+    runSummary.filesUploaded = uploader.getUploadedRemotePaths().size;
+    runSummary.filesFailed = uploader.getFailedCount();
+
+    // Record the snapshot only when it is complete
+    if (snapshotManager && snapshotId) {
+      if (!uploadSucceeded) {
+        logger.warning(`Snapshot ${snapshotId} was not saved because some uploads failed.`, verbosity);
+      } else {
+        await snapshotManager.saveManifest(snapshotManager.createManifest(
+          snapshotId,
+          sourceDir,
+          scanResult.allFiles,
+          uploader.getUploadedRemotePaths(),
+          previousSnapshot
+        ));
+      }
     }
+
+    // Propagate local deletions to the remote in mirror mode
+    // Snapshots keep old versions, deleted files are simply left out of the new snapshot
+    if (options.mirror && snapshotManager) {
+      logger.verbose("Mirror mode has no effect on snapshots; deleted files are left out of the new snapshot.", verbosity);
+    } else if (options.mirror && scanResult.filesToDelete.length > 0) {
+      const maxDeletions = options.maxDeletions ?? DEFAULT_MAX_DELETIONS;
+
+      if (!uploadSucceeded) {
+        logger.warning("Skipping remote deletions because some uploads failed.", verbosity);
+        scanResult.filesToDelete.forEach(relativePath => reporter.recordDeletion(relativePath, "skipped"));
+      } else if (scanResult.filesToDelete.length > maxDeletions) {
+        logger.warning(
+          `Skipping remote deletions: ${scanResult.filesToDelete.length} files would be deleted, ` +
+          `which exceeds the limit of ${maxDeletions}. Use --max-deletions to raise it.`,
+          verbosity
+        );
+        scanResult.filesToDelete.forEach(relativePath => reporter.recordDeletion(relativePath, "skipped"));
+      } else {
+        logger.info(`Deleting ${scanResult.filesToDelete.length} remote files removed locally...`, verbosity);
+        runSummary.filesDeleted = await uploader.deleteRemoteFiles(scanResult.filesToDelete);
+      }
+    }
+
+    // Deletions stop early when the run is cancelled
+    options.signal?.throwIfAborted();
+
+    runSummary.status = uploadSucceeded ? "success" : "failed";
   } catch (error) {
     const errorMessage = error instanceof Error ? error.message : String(error);
-    logger.error(`Error during file sync: ${errorMessage}`);
+    if (options.signal?.aborted) {
+      logger.warning(`${errorMessage}. Files uploaded so far are kept and skipped by the next run.`, verbosity);
+    } else {
+      logger.error(`Error during file sync: ${errorMessage}`);
+    }
+    failure = error;
     throw error; // Let the CLI handle the error
+  } finally {
+    if (stateStore && runId !== undefined) {
+      stateStore.finishRun(runId, runSummary);
+    }
+    stateStore?.close();
+    await workspace?.remove();
+    runLock?.release();
+
+    await publishReport(reporter.finish(runSummary.status === "success", failure), options, verbosity);
   }
 }
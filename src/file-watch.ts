@@ -0,0 +1,80 @@
+/**
+ * Internxt Watch Mode
+ *
+ * Backs up the source once, then keeps backing up the files that change
+ */
+
+import path from "path";
+import * as logger from "./utils/logger";
+import { syncFiles, SyncOptions, getVerbosity, getBackupStateDir, cancelOnSignals } from "./file-sync";
+import { SourceWatcher } from "./core/watch/source-watcher";
+import { ProgressTracker } from "./core/upload/progress-tracker";
+
+// How long a file must stay unchanged before it is uploaded, by default
+export const DEFAULT_STABLE_SECONDS = 5;
+
+// Define options interface for better type checking
+export interface WatchOptions extends SyncOptions {
+  stableSeconds?: number; // Seconds a file's size and modification time must stay the same
+}
+
+/**
+ * Main watch function that can be called from CLI or programmatically
+ * Runs until SIGINT or SIGTERM, which cancel the backup that is running
+ * @throws {BackupCancelledError} If the first full backup is cancelled
+ */
+export async function watchFiles(sourceDir: string, options: WatchOptions): Promise<void> {
+  const verbosity = getVerbosity(options);
+  const { stableSeconds, ...syncOptions } = options;
+
+  // A snapshot is a complete copy of the source, which a backup of a few changed files can't make
+  if (options.snapshots) {
+    throw new Error("Watch mode can't be combined with --snapshots");
+  }
+  if (options.dryRun) {
+    throw new Error("Watch mode can't be combined with --dry-run");
+  }
+
+  // The state database may live below the source, and every backup writes to it
+  const source = path.resolve(sourceDir);
+  const stateDir = getBackupStateDir(source, syncOptions);
+  const ignore = (relativePath: string) => {
+    const fullPath = path.join(source, relativePath);
+    return fullPath === stateDir || fullPath.startsWith(`${stateDir}${path.sep}`);
+  };
+
+  const cancellation = cancelOnSignals(verbosity);
+  const runOptions = { ...syncOptions, signal: cancellation.signal };
+
+  try {
+    // Back up everything first, so only changes need following afterwards
+    await syncFiles(source, runOptions);
+
+    const watcher = new SourceWatcher(
+      source,
+      {
+        onChanges: async paths => {
+          // A batch with failed uploads fails as a whole, so the watcher hands it over again
+          const tracker = new ProgressTracker(verbosity);
+          await syncFiles(source, { ...runOptions, paths, progressTracker: tracker });
+          if (tracker.failedFiles > 0) {
+            throw new Error(`${tracker.failedFiles} changed files failed to upload`);
+          }
+        },
+        onRescan: () => syncFiles(source, runOptions)
+      },
+      {
+        verbosity,
+        stableMs: (stableSeconds ?? DEFAULT_STABLE_SECONDS) * 1000,
+        ignore
+      }
+    );
+    watcher.start();
+
+    await new Promise<void>(resolve => cancellation.signal.addEventListener("abort", () => resolve(), { once: true }));
+    logger.info("Stopping watch mode...", verbosity);
+    await watcher.stop();
+  } finally {
+    cancellation.dispose();
+  }
+}
@@ -9,6 +9,8 @@ export interface FileInfo {
   relativePath: string;
   absolutePath: string;
   size: number;
+  mtime?: number; // Modification time in milliseconds
+  inode?: number;
   checksum: string;
   hasChanged: boolean | null;
 }
@@ -19,24 +21,35 @@ export interface FileInfo {
 export interface ScanResult {
   allFiles: FileInfo[];
   filesToUpload: FileInfo[];
+  filesToDelete: string[]; // Relative paths uploaded before that no longer exist locally
   totalSizeBytes: number;
   totalSizeMB: string;
 }
 
 /**
- * Structure for storing file upload state
+ * Structure of the JSON upload state kept by older versions
  */
 export interface UploadState {
   files: Record<string, string>; // Map of file paths to checksums
   lastRun: string; // ISO date string of last successful run
 }
 
+/**
+ * Where and how a file was uploaded
+ */
+export interface UploadDetails {
+  remotePath: string;
+  compressed: boolean;
+  encrypted: boolean;
+}
+
 /**
  * Interface for FileScanner operations used by Uploader
  * This allows Uploader to interact with FileScanner without direct coupling
  */
 export interface FileScannerInterface {
-  updateFileState(relativePath: string, checksum: string): void;
-  recordCompletion(): void;
+  updateFileState(relativePath: string, checksum: string, upload?: UploadDetails): void;
+  getUploadDetails(relativePath: string): UploadDetails | undefined;
+  removeFileState(relativePath: string): void;
   saveState(): Promise<void>;
 } 
\ No newline at end of file
@@ -17,6 +17,14 @@ export interface InternxtUploadResult {
   error?: string;
 }
 
+export interface InternxtDownloadResult {
+  success: boolean;
+  remotePath: string;
+  localPath: string;
+  output?: string;
+  error?: string;
+}
+
 export interface InternxtFolderResult {
   success: boolean;
   path: string;
@@ -40,6 +48,7 @@ export interface InternxtFileInfo {
 
 export interface InternxtServiceOptions {
   verbosity?: number;
+  signal?: AbortSignal; // Kills running CLI commands when the backup is cancelled
 }
 
 export interface UploadProgress {
@@ -50,11 +59,26 @@ export interface UploadProgress {
 }
 
 export interface ChunkedUploadState {
+  key?: string; // Identifies the upload across runs, default the file path
   filePath: string;
   remotePath: string;
   chunkSize: number;
   totalChunks: number;
   uploadedChunks: number[];
+  chunkChecksums?: Record<number, string>; // SHA-256 of each uploaded chunk, for the part manifest
   checksum: string;
+  uploadFolder?: string; // Folder inside the parts folder holding the parts of this upload
+  source?: PreparedUploadSource; // Set if the file is a compressed or encrypted copy kept for the next run
   timestamp: number;
 }
+
+/**
+ * Describes a compressed or encrypted copy of a file, prepared for upload
+ */
+export interface PreparedUploadSource {
+  path: string; // The file the copy was made from
+  checksum: string; // Checksum of the file the copy was made from
+  compressed: boolean;
+  encrypted: boolean;
+  keyCheck?: string; // Identifies the encryption key, see EncryptionService.getKeyCheck
+}
@@ -0,0 +1,23 @@
+/**
+ * Snapshot related interfaces
+ */
+
+/**
+ * A file as it was at the time of a snapshot
+ */
+export interface SnapshotFileEntry {
+  path: string; // Relative path in the source directory
+  size: number;
+  checksum: string;
+  remotePath: string; // Versioned remote object, including .gz/.enc suffixes
+}
+
+/**
+ * Manifest written at the end of every run in snapshot mode
+ */
+export interface SnapshotManifest {
+  id: string;
+  timestamp: string; // ISO date string of the run
+  sourceDir: string;
+  files: SnapshotFileEntry[];
+}
@@ -0,0 +1,47 @@
+/**
+ * Storage backend interfaces
+ */
+
+import {
+  InternxtUploadResult,
+  InternxtDownloadResult,
+  InternxtFolderResult,
+  InternxtListResult,
+  InternxtFileInfo
+} from "./internxt";
+
+export type StorageBackendType = "internxt" | "local";
+
+// Backends share the result shapes originally defined for the Internxt CLI
+export type StorageUploadResult = InternxtUploadResult;
+export type StorageDownloadResult = InternxtDownloadResult;
+export type StorageFolderResult = InternxtFolderResult;
+export type StorageListResult = InternxtListResult;
+export type StorageFileInfo = InternxtFileInfo;
+
+export interface StorageCheckResult {
+  ready: boolean;
+  description?: string; // e.g. "Internxt CLI v1.5.0", shown once the backend is ready
+  error?: string;
+}
+
+/**
+ * A place backups can be written to and restored from
+ * Remote paths are "/"-separated regardless of the backend
+ */
+export interface StorageBackend {
+  readonly name: string;
+  checkReady(): Promise<StorageCheckResult>;
+  uploadFile(localPath: string, remotePath: string): Promise<StorageUploadResult>;
+  uploadFileWithProgress(
+    localPath: string,
+    remotePath: string,
+    onProgress?: (percent: number) => void
+  ): Promise<StorageUploadResult>;
+  downloadFile(remotePath: string, localPath: string): Promise<StorageDownloadResult>;
+  createFolder(remotePath: string): Promise<StorageFolderResult>;
+  listFiles(remotePath?: string): Promise<StorageListResult>;
+  stat(remotePath: string): Promise<StorageFileInfo | null>;
+  fileExists(remotePath: string): Promise<boolean>;
+  deleteFile(remotePath: string, permanent?: boolean): Promise<boolean>;
+}
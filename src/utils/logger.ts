@@ -17,6 +17,9 @@ const colors = {
   reset: '\x1b[0m'
 };
 
+// Where log messages and progress go; stdout unless it is reserved for machine-readable output
+let outputStream: NodeJS.WritableStream = process.stdout;
+
 // Set to track recent messages to avoid duplicates
 const recentMessages: Set<string> = new Set();
 const MAX_RECENT_MESSAGES = 10;
@@ -44,6 +47,23 @@ function ensureNewline(message: string): string {
   return message.endsWith('\n') ? message : message + '\n';
 }
 
+/**
+ * Send log messages and progress to another stream, e.g. stderr while stdout carries a JSON report
+ * Errors always go to stderr
+ * @param {NodeJS.WritableStream} stream - The stream to write to
+ */
+export function setOutputStream(stream: NodeJS.WritableStream): void {
+  outputStream = stream;
+}
+
+/**
+ * Write text to the log output as it is, e.g. a progress bar
+ * @param {string} text - The text to write
+ */
+export function write(text: string): void {
+  outputStream.write(text);
+}
+
 /**
  * Log a message with the specified verbosity level
  * @param {string} message - The message to log
@@ -66,8 +86,8 @@ export function log(
     // Always ensure message ends with a newline
     const formattedMessage = ensureNewline(message);
 
-    // Write to stdout
-    process.stdout.write(formattedMessage);
+    // Write to stdout, or wherever the output was sent
+    outputStream.write(formattedMessage);
 
     // Track message to prevent duplicates if needed
     if (!allowDuplicates) {
@@ -130,5 +150,5 @@ export const verbose: LogFunction = (message, currentVerbosity) => {
  * @param {string} message - The message to show
  */
 export function always(message: string): void {
-  process.stdout.write(ensureNewline(message));
+  outputStream.write(ensureNewline(message));
 } 
\ No newline at end of file
@@ -36,6 +36,12 @@ interface MockWebDAVService {
 
 // Internxt Service Interfaces
 export interface MockInternxtService {
+  name: string;
+  checkReady: () => Promise<{
+    ready: boolean;
+    description?: string;
+    error?: string;
+  }>;
   checkCLI: () => Promise<{
     installed: boolean;
     authenticated: boolean;
@@ -60,6 +66,13 @@ export interface MockInternxtService {
     output?: string;
     error?: string;
   }>;
+  downloadFile: (remotePath: string, localPath: string) => Promise<{
+    success: boolean;
+    remotePath: string;
+    localPath: string;
+    output?: string;
+    error?: string;
+  }>;
   createFolder: (remotePath: string) => Promise<{
     success: boolean;
     path: string;
@@ -76,8 +89,14 @@ export interface MockInternxtService {
     }>;
     error?: string;
   }>;
+  stat: (remotePath: string) => Promise<{
+    name: string;
+    path: string;
+    size: number;
+    isFolder: boolean;
+  } | null>;
   fileExists: (remotePath: string) => Promise<boolean>;
-  deleteFile: (remotePath: string) => Promise<boolean>;
+  deleteFile: (remotePath: string, permanent?: boolean) => Promise<boolean>;
 }
 
 export interface MockCompressionService {
@@ -122,7 +141,8 @@ interface MockFileScanner {
   getFilesToUpload: () => Promise<any[]>;
   updateFileHash: (filePath: string, hash: string) => void;
   updateFileState: (filePath: string, uploaded: boolean) => void;
-  recordCompletion: (filePath: string) => void;
+  getUploadDetails: (filePath: string) => any;
+  removeFileState: (filePath: string) => void;
   saveState: () => Promise<void>;
 }
 
@@ -228,6 +248,12 @@ export function createMockWebDAVService(): MockWebDAVService {
  */
 export function createMockInternxtService(): MockInternxtService {
   return {
+    name: "Internxt CLI",
+    checkReady: mock(() => Promise.resolve({
+      ready: true,
+      description: "Internxt CLI v1.0.0",
+      error: undefined
+    })),
     checkCLI: mock(() => Promise.resolve({
       installed: true,
       authenticated: true,
@@ -248,6 +274,13 @@ export function createMockInternxtService(): MockInternxtService {
       output: 'Upload successful',
       error: undefined
     })),
+    downloadFile: mock(() => Promise.resolve({
+      success: true,
+      remotePath: '/remote/path',
+      localPath: '/local/path',
+      output: 'Download successful',
+      error: undefined
+    })),
     createFolder: mock(() => Promise.resolve({
       success: true,
       path: '/remote/path',
@@ -259,6 +292,7 @@ export function createMockInternxtService(): MockInternxtService {
       files: [],
       error: undefined
     })),
+    stat: mock(() => Promise.resolve(null)),
     fileExists: mock(() => Promise.resolve(false)),
     deleteFile: mock(() => Promise.resolve(true))
   };
@@ -323,7 +357,8 @@ export function createMockFileScanner(sourceDirPath: string = './source'): MockF
     getFilesToUpload: mock(() => Promise.resolve([])),
     updateFileHash: mock(() => {}),
     updateFileState: mock(() => {}),
-    recordCompletion: mock(() => {}),
+    getUploadDetails: mock(() => undefined),
+    removeFileState: mock(() => {}),
     saveState: mock(() => Promise.resolve())
   };
 }